@@ -9,7 +9,8 @@ module.exports = {
     "^.+\\.(js|jsx|ts|tsx)$": ["babel-jest", { presets: ["next/babel"] }],
   },
   transformIgnorePatterns: [
-    "/node_modules/",
+    // node-fetch 3 and its dependencies are only published as ES modules
+    "/node_modules/(?!(node-fetch|data-uri-to-buffer|fetch-blob|formdata-polyfill)/)",
     "^.+\\.module\\.(css|sass|scss)$",
   ],
 };
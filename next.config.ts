@@ -2,7 +2,7 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   // External packages that should not be bundled for server components
-  serverExternalPackages: ['@prisma/client', 'bcrypt'],
+  serverExternalPackages: ['@prisma/client', 'bcrypt', 'pdfjs-dist'],
   
   // Configure for Netlify deployment
   trailingSlash: false,
@@ -0,0 +1,18 @@
+/*
+  Warnings:
+
+  - Added the required column `bankAccountId` to the `Transaction` table without a default value. This is not possible if the table is not empty.
+
+*/
+-- CreateEnum
+CREATE TYPE "TransactionBucket" AS ENUM ('DEPOSIT', 'ATM_DEBIT', 'WITHDRAWAL', 'CHECK', 'FEE', 'OTHER');
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "bankAccountId" TEXT NOT NULL,
+ADD COLUMN     "bucket" "TransactionBucket" NOT NULL DEFAULT 'OTHER';
+
+-- CreateIndex
+CREATE INDEX "Transaction_bankAccountId_idx" ON "Transaction"("bankAccountId");
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_bankAccountId_fkey" FOREIGN KEY ("bankAccountId") REFERENCES "BankAccount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "RuleMatchType" AS ENUM ('CONTAINS', 'REGEX');
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "categoryRuleId" TEXT;
+
+-- CreateTable
+CREATE TABLE "CategorizationRule" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 100,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "descriptionPattern" TEXT,
+    "matchType" "RuleMatchType" NOT NULL DEFAULT 'CONTAINS',
+    "minAmount" DECIMAL(10,2),
+    "maxAmount" DECIMAL(10,2),
+    "bankAccountId" TEXT,
+    "bucket" "TransactionBucket",
+    "dayOfMonthFrom" INTEGER,
+    "dayOfMonthTo" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CategorizationRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CategorizationRule_userId_priority_idx" ON "CategorizationRule"("userId", "priority");
+
+-- CreateIndex
+CREATE INDEX "CategorizationRule_categoryId_idx" ON "CategorizationRule"("categoryId");
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_categoryRuleId_fkey" FOREIGN KEY ("categoryRuleId") REFERENCES "CategorizationRule"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CategorizationRule" ADD CONSTRAINT "CategorizationRule_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CategorizationRule" ADD CONSTRAINT "CategorizationRule_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CategorizationRule" ADD CONSTRAINT "CategorizationRule_bankAccountId_fkey" FOREIGN KEY ("bankAccountId") REFERENCES "BankAccount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "StatementJobStatus" AS ENUM ('PENDING', 'PROCESSING', 'COMPLETED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "Statement" ADD COLUMN     "fileType" TEXT;
+
+-- CreateTable
+CREATE TABLE "StatementJob" (
+    "id" TEXT NOT NULL,
+    "statementId" TEXT NOT NULL,
+    "status" "StatementJobStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 5,
+    "runAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedAt" TIMESTAMP(3),
+    "lockedBy" TEXT,
+    "lastError" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StatementJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StatementJob_statementId_key" ON "StatementJob"("statementId");
+
+-- CreateIndex
+CREATE INDEX "StatementJob_status_runAt_idx" ON "StatementJob"("status", "runAt");
+
+-- AddForeignKey
+ALTER TABLE "StatementJob" ADD CONSTRAINT "StatementJob_statementId_fkey" FOREIGN KEY ("statementId") REFERENCES "Statement"("id") ON DELETE CASCADE ON UPDATE CASCADE;
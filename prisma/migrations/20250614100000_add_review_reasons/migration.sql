@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Statement" ADD COLUMN     "reviewReasons" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "reviewReason" TEXT;
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "TransactionBucket" ADD VALUE 'PURCHASE';
+ALTER TYPE "TransactionBucket" ADD VALUE 'PAYMENT';
+ALTER TYPE "TransactionBucket" ADD VALUE 'CREDIT';
+ALTER TYPE "TransactionBucket" ADD VALUE 'INTEREST';
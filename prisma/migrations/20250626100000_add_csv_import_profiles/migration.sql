@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "CsvDateOrder" AS ENUM ('MDY', 'DMY', 'YMD');
+
+-- AlterTable
+ALTER TABLE "Statement" ADD COLUMN     "importProfileId" TEXT;
+
+-- CreateTable
+CREATE TABLE "CsvImportProfile" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "financialInstitution" TEXT NOT NULL,
+    "delimiter" TEXT NOT NULL DEFAULT ',',
+    "hasHeaderRow" BOOLEAN NOT NULL DEFAULT true,
+    "dateColumn" TEXT NOT NULL,
+    "descriptionColumn" TEXT NOT NULL,
+    "amountColumn" TEXT,
+    "debitColumn" TEXT,
+    "creditColumn" TEXT,
+    "balanceColumn" TEXT,
+    "dateOrder" "CsvDateOrder" NOT NULL DEFAULT 'MDY',
+    "decimalSeparator" TEXT NOT NULL DEFAULT '.',
+    "invertAmounts" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CsvImportProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CsvImportProfile_userId_financialInstitution_key" ON "CsvImportProfile"("userId", "financialInstitution");
+
+-- AddForeignKey
+ALTER TABLE "Statement" ADD CONSTRAINT "Statement_importProfileId_fkey" FOREIGN KEY ("importProfileId") REFERENCES "CsvImportProfile"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CsvImportProfile" ADD CONSTRAINT "CsvImportProfile_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
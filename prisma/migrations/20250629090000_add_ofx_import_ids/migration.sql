@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "BankAccount" ADD COLUMN     "externalAccountId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "externalId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "BankAccount_userId_financialInstitution_externalAccountId_idx" ON "BankAccount"("userId", "financialInstitution", "externalAccountId");
+
+-- CreateIndex
+CREATE INDEX "Transaction_bankAccountId_externalId_idx" ON "Transaction"("bankAccountId", "externalId");
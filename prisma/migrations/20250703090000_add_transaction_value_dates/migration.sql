@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "counterparty" TEXT,
+ADD COLUMN     "valueDate" TIMESTAMP(3);
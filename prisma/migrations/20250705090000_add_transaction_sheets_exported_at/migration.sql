@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "sheetsExportedAt" TIMESTAMP(3);
+
+-- Rows stored before the last export have already been appended
+UPDATE "Transaction" AS t
+SET "sheetsExportedAt" = c."lastExported"
+FROM "Statement" AS s, "GoogleSheetConfig" AS c
+WHERE t."statementId" = s."id"
+  AND c."userId" = s."userId"
+  AND c."lastExported" IS NOT NULL
+  AND t."createdAt" <= c."lastExported";
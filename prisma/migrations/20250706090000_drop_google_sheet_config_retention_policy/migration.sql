@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "GoogleSheetConfig" DROP COLUMN "retentionPolicy";
@@ -0,0 +1,138 @@
+/**
+ * Local fake of the Google Sheets API for testing the Sheets export
+ *
+ * Implements the endpoints used by GoogleSheetsClient plus the OAuth token
+ * endpoint, keeping spreadsheets in memory. Point the app at it with:
+ *
+ *   GOOGLE_SHEETS_API_URL=http://localhost:4010
+ *   GOOGLE_OAUTH_TOKEN_URL=http://localhost:4010/token
+ *
+ * GET /__dump returns every spreadsheet so exported rows can be inspected.
+ *
+ * Usage: node scripts/fake-sheets-server.js [port]
+ */
+
+const http = require("http");
+const { randomUUID } = require("crypto");
+
+const port = Number(process.argv[2] || process.env.FAKE_SHEETS_PORT || 4010);
+
+// spreadsheetId -> { title, sheets: Map<title, rows[][]> }
+const spreadsheets = new Map();
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => resolve(data));
+    req.on("error", reject);
+  });
+}
+
+// Turn "'Tab name'!A1" into "Tab name"
+function sheetTitleFromRange(range) {
+  const title = range.split("!")[0];
+  return title.startsWith("'") ? title.slice(1, -1).replace(/''/g, "'") : title;
+}
+
+async function handle(req, res) {
+  const url = new URL(req.url, `http://localhost:${port}`);
+  const body = await readBody(req);
+
+  console.log(`${req.method} ${url.pathname}`);
+
+  // OAuth token endpoint (refresh and authorization code grants)
+  if (req.method === "POST" && url.pathname === "/token") {
+    return sendJson(res, 200, {
+      access_token: `fake-access-${randomUUID()}`,
+      refresh_token: "fake-refresh-token",
+      expires_in: 3600,
+      token_type: "Bearer",
+    });
+  }
+
+  if (!req.headers.authorization || !req.headers.authorization.startsWith("Bearer ")) {
+    return sendJson(res, 401, { error: { code: 401, message: "Missing access token" } });
+  }
+
+  if (req.method === "GET" && url.pathname === "/__dump") {
+    const dump = {};
+    for (const [id, spreadsheet] of spreadsheets) {
+      dump[id] = { title: spreadsheet.title, sheets: Object.fromEntries(spreadsheet.sheets) };
+    }
+    return sendJson(res, 200, dump);
+  }
+
+  // Create spreadsheet
+  if (req.method === "POST" && url.pathname === "/v4/spreadsheets") {
+    const { properties } = JSON.parse(body || "{}");
+    const spreadsheetId = randomUUID();
+    spreadsheets.set(spreadsheetId, {
+      title: (properties && properties.title) || "Untitled spreadsheet",
+      sheets: new Map([["Sheet1", []]]),
+    });
+    return sendJson(res, 200, { spreadsheetId });
+  }
+
+  const match = decodeURIComponent(url.pathname).match(/^\/v4\/spreadsheets\/([^/:]+)(.*)$/);
+  const spreadsheet = match && spreadsheets.get(match[1]);
+  if (!spreadsheet) {
+    return sendJson(res, 404, { error: { code: 404, message: "Requested entity was not found." } });
+  }
+
+  const rest = match[2];
+
+  // Get spreadsheet (sheet titles)
+  if (req.method === "GET" && rest === "") {
+    return sendJson(res, 200, {
+      sheets: [...spreadsheet.sheets.keys()].map((title) => ({ properties: { title } })),
+    });
+  }
+
+  // Add sheets
+  if (req.method === "POST" && rest === ":batchUpdate") {
+    const { requests = [] } = JSON.parse(body || "{}");
+    for (const request of requests) {
+      const title = request.addSheet && request.addSheet.properties.title;
+      if (!title) continue;
+      if (spreadsheet.sheets.has(title)) {
+        return sendJson(res, 400, {
+          error: { code: 400, message: `A sheet with the name "${title}" already exists.` },
+        });
+      }
+      spreadsheet.sheets.set(title, []);
+    }
+    return sendJson(res, 200, { replies: requests.map(() => ({})) });
+  }
+
+  // Append values
+  const appendMatch = rest.match(/^\/values\/(.+):append$/);
+  if (req.method === "POST" && appendMatch) {
+    const title = sheetTitleFromRange(appendMatch[1]);
+    const rows = spreadsheet.sheets.get(title);
+    if (!rows) {
+      return sendJson(res, 400, { error: { code: 400, message: `Unable to parse range: ${appendMatch[1]}` } });
+    }
+    const { values = [] } = JSON.parse(body || "{}");
+    rows.push(...values);
+    return sendJson(res, 200, { updates: { updatedRows: values.length } });
+  }
+
+  return sendJson(res, 404, { error: { code: 404, message: "Not found" } });
+}
+
+http
+  .createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      console.error(error);
+      sendJson(res, 500, { error: { code: 500, message: error.message } });
+    });
+  })
+  .listen(port, () => {
+    console.log(`Fake Google Sheets API listening on http://localhost:${port}`);
+  });
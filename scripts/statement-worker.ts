@@ -0,0 +1,44 @@
+/**
+ * Standalone statement processing worker
+ *
+ * Polls the StatementJob queue and processes uploaded statements until it
+ * receives SIGINT or SIGTERM. Run as many as needed; jobs are claimed with
+ * row locks so each statement is processed once.
+ *
+ * Usage: npm run worker
+ *        npm run worker -- --once   (process due jobs and exit)
+ */
+
+import "dotenv/config";
+import { PrismaClient } from "@/generated/prisma";
+import { runDueStatementJobs, runStatementWorker } from "@/lib/jobs";
+
+const prisma = new PrismaClient();
+
+async function main() {
+  if (process.argv.includes("--once")) {
+    const processed = await runDueStatementJobs(prisma);
+    console.log(`Processed ${processed} statement jobs`);
+    return;
+  }
+
+  const controller = new AbortController();
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    process.on(signal, () => {
+      console.log(`Received ${signal}, stopping after the current job`);
+      controller.abort();
+    });
+  }
+
+  await runStatementWorker(prisma, {
+    pollIntervalMs: Number(process.env.STATEMENT_WORKER_POLL_MS) || undefined,
+    signal: controller.signal,
+  });
+}
+
+main()
+  .catch((error) => {
+    console.error("Statement worker crashed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
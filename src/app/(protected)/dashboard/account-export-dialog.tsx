@@ -0,0 +1,100 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Download } from "lucide-react";
+
+const SELECT_CLASS_NAME =
+  "border-input flex h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs";
+
+const EXPORT_FORMATS = [
+  { value: "csv", label: "CSV (spreadsheets, scripts)" },
+  { value: "xlsx", label: "XLSX (Excel)" },
+  { value: "json", label: "JSON (scripts)" },
+  { value: "ofx", label: "OFX (personal finance software)" },
+  { value: "qif", label: "QIF (Quicken, desktop finance software)" },
+];
+
+interface AccountExportDialogProps {
+  bankAccountId: string;
+  accountName: string;
+}
+
+// Download an account's transactions for a date range; leaving a date empty
+// exports from the first or up to the last transaction
+export function AccountExportDialog({ bankAccountId, accountName }: AccountExportDialogProps) {
+  const [format, setFormat] = useState(EXPORT_FORMATS[0].value);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const params = new URLSearchParams({ format, bankAccountId });
+  if (from) params.set("from", from);
+  if (to) params.set("to", to);
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-1 h-7 px-2 text-xs">
+          <Download className="h-3 w-3" />
+          Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export {accountName}</DialogTitle>
+          <DialogDescription>Download the account&apos;s transactions to import them elsewhere.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label>Format</Label>
+            <select className={SELECT_CLASS_NAME} value={format} onChange={(e) => setFormat(e.target.value)}>
+              {EXPORT_FORMATS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label>From</Label>
+              <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>To</Label>
+              <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          {from && to && from > to ? (
+            <Button disabled>
+              <Download className="h-4 w-4" />
+              Download
+            </Button>
+          ) : (
+            <Button asChild>
+              <a href={`/api/export?${params.toString()}`} download>
+                <Download className="h-4 w-4" />
+                Download
+              </a>
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
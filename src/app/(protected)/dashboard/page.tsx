@@ -16,6 +16,7 @@ import {
 } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import Link from "next/link";
+import { AccountExportDialog } from "./account-export-dialog";
 import {
   ChevronRight,
   Building,
@@ -30,6 +31,7 @@ import {
 } from "lucide-react";
 import { format, formatDistance } from "date-fns";
 import { prisma } from "@/lib/prisma";
+import { formatMoney, toCents } from "@/lib/money";
 
 // Helper function to get the appropriate icon for account type
 function getAccountTypeIcon(type: string) {
@@ -271,7 +273,7 @@ export default async function DashboardPage() {
                             <div className="text-right">
                               {account.balance ? (
                                 <div className="font-medium">
-                                  ${parseFloat(account.balance.toString()).toFixed(2)}
+                                  {formatMoney(toCents(account.balance))}
                                 </div>
                               ) : (
                                 <div className="text-muted-foreground">Balance unavailable</div>
@@ -279,6 +281,7 @@ export default async function DashboardPage() {
                               <div className="text-xs text-muted-foreground">
                                 Last updated: {formatDate(account.updatedAt)}
                               </div>
+                              <AccountExportDialog bankAccountId={account.id} accountName={account.name} />
                             </div>
                           </div>
                           
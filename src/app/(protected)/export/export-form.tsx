@@ -0,0 +1,160 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { api } from "@/trpc/client";
+import { toast } from "sonner";
+import { Download, Loader2 } from "lucide-react";
+
+const SELECT_CLASS_NAME =
+  "border-input flex h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs";
+
+const EXPORT_FORMATS = [
+  { value: "csv", label: "CSV (spreadsheets, scripts)" },
+  { value: "xlsx", label: "XLSX (Excel)" },
+  { value: "json", label: "JSON (scripts)" },
+  { value: "ofx", label: "OFX (personal finance software)" },
+  { value: "qif", label: "QIF (Quicken, one account only)" },
+] as const;
+
+type ExportFormat = (typeof EXPORT_FORMATS)[number]["value"];
+
+// Choose the accounts, categories and date range to export. Nothing checked
+// means all accounts, or all transactions whatever their category.
+export function ExportForm() {
+  const { data: bankAccounts = [] } = api.bankAccount.getAll.useQuery();
+  const { data: categories = [] } = api.category.getAll.useQuery();
+
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [bankAccountIds, setBankAccountIds] = useState<string[]>([]);
+  const [categoryIds, setCategoryIds] = useState<string[]>([]);
+  const [includeUncategorized, setIncludeUncategorized] = useState(false);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const exportMutation = api.ledgerExport.create.useMutation({
+    onSuccess: (result) => {
+      const bytes = Uint8Array.from(atob(result.content), (char) => char.charCodeAt(0));
+      const url = URL.createObjectURL(new Blob([bytes], { type: result.contentType }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = result.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+      toast.success(`Exported ${result.transactionCount} transactions`);
+    },
+    onError: (error) => {
+      toast.error("Failed to export transactions", { description: error.message });
+    },
+  });
+
+  const toggle = (ids: string[], id: string, checked: boolean) =>
+    checked ? [...ids, id] : ids.filter((candidate) => candidate !== id);
+
+  const handleExport = () => {
+    exportMutation.mutate({
+      format,
+      filter: {
+        bankAccountIds: bankAccountIds.length > 0 ? bankAccountIds : undefined,
+        categoryIds: categoryIds.length > 0 ? categoryIds : undefined,
+        includeUncategorized: categoryIds.length > 0 ? includeUncategorized : undefined,
+        from: from || undefined,
+        to: to || undefined,
+      },
+    });
+  };
+
+  const invalidRange = !!from && !!to && from > to;
+  const qifNeedsOneAccount = format === "qif" && bankAccountIds.length !== 1;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Export Transactions</CardTitle>
+        <CardDescription>
+          Every format has the same columns in the same order and states its schema version.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-1">
+            <Label>Format</Label>
+            <select
+              className={SELECT_CLASS_NAME}
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ExportFormat)}
+            >
+              {EXPORT_FORMATS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label>From</Label>
+            <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label>To</Label>
+            <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <Label>Accounts</Label>
+            <p className="text-xs text-muted-foreground">Leave unchecked to export every account.</p>
+            {bankAccounts.map((account) => (
+              <label key={account.id} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={bankAccountIds.includes(account.id)}
+                  onChange={(e) => setBankAccountIds(toggle(bankAccountIds, account.id, e.target.checked))}
+                />
+                {account.financialInstitution} {account.name}
+                {account.lastFourDigits && ` (...${account.lastFourDigits})`}
+              </label>
+            ))}
+          </div>
+          <div className="space-y-2">
+            <Label>Categories</Label>
+            <p className="text-xs text-muted-foreground">Leave unchecked to export every transaction.</p>
+            {categories.map((category) => (
+              <label key={category.id} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={categoryIds.includes(category.id)}
+                  onChange={(e) => setCategoryIds(toggle(categoryIds, category.id, e.target.checked))}
+                />
+                {category.name}
+              </label>
+            ))}
+            {categoryIds.length > 0 && (
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={includeUncategorized}
+                  onChange={(e) => setIncludeUncategorized(e.target.checked)}
+                />
+                Uncategorized transactions
+              </label>
+            )}
+          </div>
+        </div>
+
+        {invalidRange && <p className="text-sm text-destructive">The start date is after the end date.</p>}
+        {qifNeedsOneAccount && <p className="text-sm text-destructive">Check exactly one account for QIF.</p>}
+      </CardContent>
+      <CardFooter>
+        <Button onClick={handleExport} disabled={exportMutation.isPending || invalidRange || qifNeedsOneAccount}>
+          {exportMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+          Download
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,28 @@
+import { requireAuth } from "@/lib/auth";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { StatementReview } from "@/app/(protected)/review/[id]/statement-review";
+
+export default async function StatementReviewPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  await requireAuth();
+  const { id } = await params;
+
+  return (
+    <div className="container mx-auto py-10">
+      <div className="flex items-center mb-8">
+        <Link href="/review">
+          <Button variant="outline" size="sm" className="mr-4">
+            ← Back to Review Queue
+          </Button>
+        </Link>
+        <h1 className="text-3xl font-bold">Review Statement</h1>
+      </div>
+
+      <StatementReview statementId={id} />
+    </div>
+  );
+}
@@ -0,0 +1,326 @@
+"use client";
+
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { api } from "@/trpc/client";
+import { toast } from "sonner";
+import { AlertTriangle, Check, Loader2, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import type { StatementReconciliation } from "@/lib/reconciliation";
+import { formatMoney, fromCents, parseMoney, toCents } from "@/lib/money";
+
+const BUCKETS = ["DEPOSIT", "ATM_DEBIT", "WITHDRAWAL", "CHECK", "FEE", "OTHER", "PURCHASE", "PAYMENT", "CREDIT", "INTEREST"] as const;
+type Bucket = (typeof BUCKETS)[number];
+
+interface ReviewTransaction {
+  id: string;
+  transactionDate: Date | null;
+  description: string;
+  amount: string;
+  bucket: Bucket;
+  originalText: string | null;
+  needsReview: boolean;
+  reviewReason: string | null;
+  bankAccount: { lastFourDigits: string | null };
+}
+
+function formatDollars(value: number): string {
+  return formatMoney(toCents(value));
+}
+
+// Read the amount typed into the editor; whole numbers are dollars
+function readAmountInput(text: string): number | null {
+  const trimmed = text.trim();
+  try {
+    const cents = parseMoney(/^-?\d+$/.test(trimmed) ? `${trimmed}.00` : trimmed);
+    return cents === null ? null : fromCents(cents);
+  } catch {
+    return null;
+  }
+}
+
+// Statement totals next to the sums of the parsed rows, per account
+function ReconciliationSummary({ reconciliation }: { reconciliation: StatementReconciliation }) {
+  return (
+    <div className="space-y-3">
+      {reconciliation.accounts.map((account) => (
+        <div key={account.bankAccountId} className="text-sm">
+          <div className="flex items-center gap-2 font-medium mb-1">
+            •••• {account.lastFourDigits}
+            {account.balanced ? (
+              <Badge className="bg-green-500">Balanced</Badge>
+            ) : (
+              <Badge className="bg-yellow-500">Doesn&apos;t balance</Badge>
+            )}
+          </div>
+          <table className="w-full text-xs">
+            <thead className="text-muted-foreground">
+              <tr>
+                <th className="text-left font-normal">Check</th>
+                <th className="text-right font-normal">Statement</th>
+                <th className="text-right font-normal">Parsed rows</th>
+                <th className="text-right font-normal">Difference</th>
+              </tr>
+            </thead>
+            <tbody>
+              {account.balanceDifference !== null && account.endingBalance !== null && (
+                <tr>
+                  <td>Ending balance</td>
+                  <td className="text-right">{formatDollars(account.endingBalance)}</td>
+                  <td className="text-right">
+                    {formatMoney(toCents(account.endingBalance) + toCents(account.balanceDifference))}
+                  </td>
+                  <td className={`text-right ${account.balanceDifference !== 0 ? "text-destructive" : ""}`}>
+                    {formatDollars(account.balanceDifference)}
+                  </td>
+                </tr>
+              )}
+              {account.buckets.map((bucket) => (
+                <tr key={bucket.summaryField}>
+                  <td>{bucket.bucket.replace("_", " ").toLowerCase()}</td>
+                  <td className="text-right">{formatDollars(bucket.expected)}</td>
+                  <td className="text-right">{formatDollars(bucket.actual)}</td>
+                  <td className={`text-right ${bucket.difference !== 0 ? "text-destructive" : ""}`}>
+                    {formatDollars(bucket.difference)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Dates are stored as UTC midnight, so format them in UTC for date inputs
+function toDateInputValue(date: Date | null): string {
+  return date ? new Date(date).toISOString().slice(0, 10) : "";
+}
+
+function TransactionReviewRow({
+  transaction,
+  onChanged,
+}: {
+  transaction: ReviewTransaction;
+  onChanged: () => void;
+}) {
+  const [date, setDate] = useState(toDateInputValue(transaction.transactionDate));
+  const [description, setDescription] = useState(transaction.description);
+  const [amount, setAmount] = useState(transaction.amount);
+  const [bucket, setBucket] = useState<Bucket>(transaction.bucket);
+
+  const updateMutation = api.review.updateTransaction.useMutation({
+    onSuccess: () => {
+      toast.success("Transaction saved");
+      onChanged();
+    },
+    onError: (error) => {
+      toast.error("Failed to save transaction", { description: error.message });
+    },
+  });
+
+  const deleteMutation = api.review.deleteTransaction.useMutation({
+    onSuccess: () => {
+      toast.success("Transaction removed");
+      onChanged();
+    },
+    onError: (error) => {
+      toast.error("Failed to remove transaction", { description: error.message });
+    },
+  });
+
+  const handleSave = () => {
+    const parsedAmount = readAmountInput(amount);
+    if (parsedAmount === null) {
+      toast.error("Amount must be in dollars and cents, e.g. -12.50");
+      return;
+    }
+
+    updateMutation.mutate({
+      id: transaction.id,
+      transactionDate: date ? new Date(`${date}T00:00:00Z`) : null,
+      description: description.trim() || transaction.description,
+      amount: parsedAmount,
+      bucket,
+    });
+  };
+
+  const isBusy = updateMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <div
+      className={`grid grid-cols-1 lg:grid-cols-2 gap-4 border rounded-lg p-4 ${
+        transaction.needsReview ? "border-yellow-300 bg-yellow-50/50" : ""
+      }`}
+    >
+      {/* Editable fields */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-muted-foreground">
+            {transaction.bankAccount.lastFourDigits ? `•••• ${transaction.bankAccount.lastFourDigits}` : ""}
+          </span>
+          {transaction.needsReview && (
+            <Badge className="bg-yellow-500">{transaction.reviewReason || "Needs review"}</Badge>
+          )}
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          <Input
+            type="number"
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+          />
+          <select
+            className="border-input flex h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs"
+            value={bucket}
+            onChange={(e) => setBucket(e.target.value as Bucket)}
+          >
+            {BUCKETS.map((value) => (
+              <option key={value} value={value}>
+                {value.replace("_", " ").toLowerCase()}
+              </option>
+            ))}
+          </select>
+        </div>
+        <Input value={description} onChange={(e) => setDescription(e.target.value)} />
+        <div className="flex gap-2">
+          <Button size="sm" onClick={handleSave} disabled={isBusy}>
+            {updateMutation.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Check className="h-4 w-4" />
+            )}
+            Save
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => deleteMutation.mutate({ id: transaction.id })}
+            disabled={isBusy}
+          >
+            <Trash2 className="h-4 w-4" />
+            Remove
+          </Button>
+        </div>
+      </div>
+
+      {/* Text the row was extracted from */}
+      <div>
+        <h4 className="text-xs font-medium text-muted-foreground mb-1">Extracted text</h4>
+        <pre className="text-xs whitespace-pre-wrap break-words p-2 bg-muted rounded min-h-16">
+          {transaction.originalText || "No extracted text available"}
+        </pre>
+      </div>
+    </div>
+  );
+}
+
+export function StatementReview({ statementId }: { statementId: string }) {
+  const router = useRouter();
+  const utils = api.useUtils();
+
+  const { data: statement, isLoading, error } = api.review.getStatement.useQuery({ id: statementId });
+
+  const refresh = () => {
+    void utils.review.getStatement.invalidate({ id: statementId });
+  };
+
+  const approveMutation = api.review.approveStatement.useMutation({
+    onSuccess: () => {
+      toast.success("Statement approved");
+      void utils.review.getQueue.invalidate();
+      router.push("/review");
+    },
+    onError: (error) => {
+      toast.error("Failed to approve statement", { description: error.message });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error || !statement) {
+    return (
+      <Card className="border-destructive">
+        <CardHeader>
+          <CardTitle className="text-destructive">Statement not available</CardTitle>
+          <CardDescription>{error?.message || "Statement not found"}</CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  const flaggedCount = statement.transactions.filter((transaction) => transaction.needsReview).length;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>{statement.filename}</CardTitle>
+          <CardDescription>
+            {statement.periodStart && statement.periodEnd
+              ? `${format(new Date(statement.periodStart), "MMM d")} - ${format(new Date(statement.periodEnd), "MMM d, yyyy")} · `
+              : ""}
+            {statement.transactions.length} transactions, {flaggedCount} flagged
+          </CardDescription>
+        </CardHeader>
+        {statement.reconciliation && (
+          <CardContent>
+            <ReconciliationSummary
+              reconciliation={statement.reconciliation as unknown as StatementReconciliation}
+            />
+          </CardContent>
+        )}
+        {statement.reviewReasons.length > 0 && (
+          <CardContent>
+            <ul className="space-y-1">
+              {statement.reviewReasons.map((reason) => (
+                <li key={reason} className="text-sm text-yellow-800 flex items-start gap-2">
+                  <AlertTriangle className="h-4 w-4 text-yellow-500 mt-0.5 flex-shrink-0" />
+                  <span>{reason}</span>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        )}
+        <CardFooter>
+          <Button
+            onClick={() => approveMutation.mutate({ id: statement.id })}
+            disabled={statement.status !== "REVIEW_NEEDED" || approveMutation.isPending}
+          >
+            {approveMutation.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+            {statement.status === "REVIEW_NEEDED" ? "Approve statement" : "Already approved"}
+          </Button>
+        </CardFooter>
+      </Card>
+
+      <div className="space-y-3">
+        {statement.transactions.map((transaction) => (
+          <TransactionReviewRow
+            key={`${transaction.id}-${transaction.updatedAt.toString()}`}
+            transaction={transaction}
+            onChanged={refresh}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { requireAuth } from "@/lib/auth";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, CheckCircle, ChevronRight, FileText } from "lucide-react";
+import { format } from "date-fns";
+import { prisma } from "@/lib/prisma";
+
+// Format date function that handles nulls
+function formatDate(date: Date | null | undefined, formatStr: string = "MMM d, yyyy") {
+  if (!date) return "N/A";
+  try {
+    return format(new Date(date), formatStr);
+  } catch {
+    return "Invalid date";
+  }
+}
+
+export default async function ReviewQueuePage() {
+  const session = await requireAuth();
+
+  const statements = await prisma.statement.findMany({
+    where: {
+      userId: session.user.id,
+      status: "REVIEW_NEEDED",
+    },
+    orderBy: {
+      uploadTimestamp: "asc",
+    },
+    include: {
+      accounts: true,
+      _count: {
+        select: {
+          transactions: { where: { needsReview: true } },
+        },
+      },
+    },
+  });
+
+  return (
+    <div className="container mx-auto py-10 max-w-4xl">
+      <div className="flex items-center mb-8">
+        <Link href="/dashboard">
+          <Button variant="outline" size="sm" className="mr-4">
+            ← Back to Dashboard
+          </Button>
+        </Link>
+        <h1 className="text-3xl font-bold">Review Queue</h1>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Statements needing review</CardTitle>
+          <CardDescription>
+            These statements were processed but some results looked unreliable.
+            Check the flagged rows against the extracted text, then approve.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {statements.length === 0 ? (
+            <div className="text-center py-8">
+              <CheckCircle className="h-12 w-12 mx-auto text-green-500 mb-3" />
+              <h3 className="text-lg font-medium">Nothing to review</h3>
+              <p className="text-muted-foreground mt-1">
+                All your statements have been processed successfully.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {statements.map((statement) => (
+                <Link
+                  key={statement.id}
+                  href={`/review/${statement.id}`}
+                  className="block border rounded-lg p-4 hover:bg-accent/50 transition-colors"
+                >
+                  <div className="flex items-center justify-between mb-2">
+                    <div className="flex items-center gap-2">
+                      <FileText className="h-4 w-4 text-muted-foreground" />
+                      <h3 className="font-medium">{statement.filename}</h3>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {statement._count.transactions > 0 && (
+                        <Badge className="bg-yellow-500">
+                          {statement._count.transactions} flagged
+                        </Badge>
+                      )}
+                      <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                    </div>
+                  </div>
+
+                  {statement.periodStart && statement.periodEnd && (
+                    <div className="text-xs text-muted-foreground mb-2">
+                      Period: {formatDate(statement.periodStart, "MMM d")} - {formatDate(statement.periodEnd)}
+                      {statement.accounts.length > 0 && ` · ${statement.accounts[0].financialInstitution}`}
+                    </div>
+                  )}
+
+                  <ul className="space-y-1">
+                    {statement.reviewReasons.map((reason) => (
+                      <li key={reason} className="text-sm text-yellow-800 flex items-start gap-2">
+                        <AlertTriangle className="h-4 w-4 text-yellow-500 mt-0.5 flex-shrink-0" />
+                        <span>{reason}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </Link>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
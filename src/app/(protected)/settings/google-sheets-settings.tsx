@@ -0,0 +1,164 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { api } from "@/trpc/client";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+// The name sheets-export.ts gives a new spreadsheet when none is set
+const DEFAULT_SPREADSHEET_NAME = "Personal Adviser Transactions";
+
+// Connect a Google account and manage the Sheets export. connectResult is the
+// ?sheets= flag the OAuth callback redirects back with.
+export function GoogleSheetsSettings({ connectResult }: { connectResult?: string }) {
+  const utils = api.useUtils();
+  const { data: config, isLoading } = api.googleSheets.getConfig.useQuery();
+  const [spreadsheetName, setSpreadsheetName] = useState("");
+
+  useEffect(() => {
+    setSpreadsheetName(config?.spreadsheetName ?? "");
+  }, [config?.spreadsheetName]);
+
+  useEffect(() => {
+    if (connectResult === "connected") {
+      toast.success("Google account connected");
+    } else if (connectResult === "error") {
+      toast.error("Failed to connect your Google account");
+    }
+  }, [connectResult]);
+
+  const onError = (error: { message: string }) => {
+    toast.error("Failed to update Google Sheets settings", { description: error.message });
+  };
+
+  const updateConfigMutation = api.googleSheets.updateConfig.useMutation({
+    onSuccess: () => utils.googleSheets.getConfig.invalidate(),
+    onError,
+  });
+
+  const startNewSpreadsheetMutation = api.googleSheets.startNewSpreadsheet.useMutation({
+    onSuccess: () => {
+      toast.success("The next export starts a new spreadsheet");
+      return utils.googleSheets.getConfig.invalidate();
+    },
+    onError,
+  });
+
+  const disconnectMutation = api.googleSheets.disconnect.useMutation({
+    onSuccess: () => utils.googleSheets.getConfig.invalidate(),
+    onError,
+  });
+
+  const exportMutation = api.googleSheets.exportNow.useMutation({
+    onSuccess: (result) => {
+      toast.success(`Exported ${result.exportedTransactions} transactions`);
+      return utils.googleSheets.getConfig.invalidate();
+    },
+    onError: (error) => {
+      toast.error("Failed to export to Google Sheets", { description: error.message });
+    },
+  });
+
+  const connected = config?.connected ?? false;
+  const trimmedName = spreadsheetName.trim();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Google Sheets</CardTitle>
+        <CardDescription>
+          Export transactions to a spreadsheet the app creates in your Google Drive, with one tab per account
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : !connected ? (
+          <Button asChild>
+            {/* A plain link: the route redirects to Google's consent screen */}
+            <a href="/api/google-sheets/connect">Connect Google account</a>
+          </Button>
+        ) : (
+          <>
+            {/* Renaming only applies to a spreadsheet that isn't created yet */}
+            {!config?.spreadsheetId && (
+              <div className="space-y-1">
+                <Label htmlFor="spreadsheet-name">Spreadsheet name</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="spreadsheet-name"
+                    placeholder={DEFAULT_SPREADSHEET_NAME}
+                    value={spreadsheetName}
+                    onChange={(e) => setSpreadsheetName(e.target.value)}
+                  />
+                  <Button
+                    variant="outline"
+                    disabled={updateConfigMutation.isPending || trimmedName === (config?.spreadsheetName ?? "")}
+                    onClick={() => updateConfigMutation.mutate({ spreadsheetName: trimmedName || null })}
+                  >
+                    Save
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={config?.autoExport ?? false}
+                disabled={updateConfigMutation.isPending}
+                onChange={(e) => updateConfigMutation.mutate({ autoExport: e.target.checked })}
+              />
+              Export automatically after each completed statement
+            </label>
+
+            <div className="text-sm text-muted-foreground">
+              {config?.spreadsheetId ? (
+                <a
+                  className="underline"
+                  href={`https://docs.google.com/spreadsheets/d/${config.spreadsheetId}`}
+                  target="_blank"
+                  rel="noreferrer"
+                >
+                  Open spreadsheet
+                </a>
+              ) : (
+                "The spreadsheet is created on the first export."
+              )}
+              {config?.lastExported && (
+                <p>Last exported {new Date(config.lastExported).toLocaleString()}</p>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Button disabled={exportMutation.isPending} onClick={() => exportMutation.mutate()}>
+                {exportMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Export now
+              </Button>
+              {config?.spreadsheetId && (
+                <Button
+                  variant="outline"
+                  disabled={startNewSpreadsheetMutation.isPending}
+                  onClick={() => startNewSpreadsheetMutation.mutate()}
+                >
+                  Start a new spreadsheet
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                disabled={disconnectMutation.isPending}
+                onClick={() => disconnectMutation.mutate()}
+              >
+                Disconnect
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,10 +9,16 @@ import {
 import { LogoutButton } from "@/components/auth/logout-button";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
+import { GoogleSheetsSettings } from "@/app/(protected)/settings/google-sheets-settings";
 
-export default async function SettingsPage() {
+export default async function SettingsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ sheets?: string }>;
+}) {
   const session = await requireAuth();
   const user = session.user;
+  const { sheets } = await searchParams;
 
   return (
     <div className="container mx-auto py-10">
@@ -67,6 +73,8 @@ export default async function SettingsPage() {
             </div>
           </CardContent>
         </Card>
+
+        <GoogleSheetsSettings connectResult={sheets} />
       </div>
     </div>
   );
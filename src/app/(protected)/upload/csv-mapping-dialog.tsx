@@ -0,0 +1,363 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { api } from "@/trpc/client";
+import { toast } from "sonner";
+import { Loader2, Table } from "lucide-react";
+import type { CsvMapping } from "@/lib/csv-import";
+
+const SELECT_CLASS_NAME =
+  "border-input flex h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs";
+
+const DELIMITERS = [
+  { value: ",", label: "Comma" },
+  { value: ";", label: "Semicolon" },
+  { value: "\t", label: "Tab" },
+  { value: "|", label: "Pipe" },
+];
+
+const DATE_ORDERS = [
+  { value: "MDY", label: "Month/Day/Year (03/14/2024)" },
+  { value: "DMY", label: "Day/Month/Year (14/03/2024)" },
+  { value: "YMD", label: "Year-Month-Day (2024-03-14)" },
+] as const;
+
+export interface CsvImportSelection {
+  bankAccountId: string;
+  importProfileId: string;
+}
+
+interface CsvMappingDialogProps {
+  open: boolean;
+  fileUrl: string | null;
+  onCancel: () => void;
+  onConfirm: (selection: CsvImportSelection) => void;
+}
+
+interface ColumnSelectProps {
+  label: string;
+  value: string | null | undefined;
+  columns: string[];
+  optional?: boolean;
+  onChange: (value: string | null) => void;
+}
+
+function ColumnSelect({ label, value, columns, optional, onChange }: ColumnSelectProps) {
+  return (
+    <div className="space-y-1">
+      <Label>{label}</Label>
+      <select
+        className={SELECT_CLASS_NAME}
+        value={value ?? ""}
+        onChange={(e) => onChange(e.target.value || null)}
+      >
+        <option value="">{optional ? "None" : "Choose a column"}</option>
+        {columns.map((column) => (
+          <option key={column} value={column}>
+            {column}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+// Map the columns of a CSV export before it's uploaded; the mapping is saved
+// for the account's institution and offered again for its next file
+export function CsvMappingDialog({ open, fileUrl, onCancel, onConfirm }: CsvMappingDialogProps) {
+  const [bankAccountId, setBankAccountId] = useState("");
+  const [mapping, setMapping] = useState<CsvMapping | null>(null);
+  const [splitAmounts, setSplitAmounts] = useState(false);
+
+  // CSV rows are matched to an account by its last four digits
+  const { data: bankAccounts = [] } = api.bankAccount.getAll.useQuery(undefined, { enabled: open });
+  const accounts = bankAccounts.filter((account) => account.lastFourDigits);
+  const selectedAccount = accounts.find((account) => account.id === bankAccountId);
+
+  const previewMutation = api.csvImport.preview.useMutation({
+    onSuccess: (data) => {
+      setMapping(data.mapping);
+      setSplitAmounts(!data.mapping.amountColumn && !!data.mapping.debitColumn);
+    },
+    onError: (error) => {
+      toast.error("Failed to read CSV file", { description: error.message });
+    },
+  });
+
+  const saveProfileMutation = api.csvImport.saveProfile.useMutation({
+    onSuccess: (profile) => {
+      onConfirm({ bankAccountId, importProfileId: profile.id });
+    },
+    onError: (error) => {
+      toast.error("Failed to save column mapping", { description: error.message });
+    },
+  });
+
+  const loadPreview = (accountId: string, split?: Pick<CsvMapping, "delimiter" | "hasHeaderRow">) => {
+    const account = accounts.find((candidate) => candidate.id === accountId);
+    if (!fileUrl || !account) return;
+
+    previewMutation.mutate({
+      fileUrl,
+      financialInstitution: account.financialInstitution,
+      ...split,
+    });
+  };
+
+  const handleAccountChange = (accountId: string) => {
+    setBankAccountId(accountId);
+    setMapping(null);
+    loadPreview(accountId);
+  };
+
+  const updateMapping = (changes: Partial<CsvMapping>) => {
+    if (mapping) setMapping({ ...mapping, ...changes });
+  };
+
+  // Changing how the file is split changes its columns
+  const updateSplit = (changes: Pick<CsvMapping, "delimiter" | "hasHeaderRow">) => {
+    updateMapping(changes);
+    loadPreview(bankAccountId, changes);
+  };
+
+  const handleConfirm = () => {
+    if (!mapping || !selectedAccount) return;
+
+    saveProfileMutation.mutate({
+      financialInstitution: selectedAccount.financialInstitution,
+      mapping: {
+        ...mapping,
+        decimalSeparator: mapping.decimalSeparator === "," ? "," : ".",
+        amountColumn: splitAmounts ? null : mapping.amountColumn,
+        debitColumn: splitAmounts ? mapping.debitColumn : null,
+        creditColumn: splitAmounts ? mapping.creditColumn : null,
+      },
+    });
+  };
+
+  const preview = previewMutation.data;
+  const columns = preview?.columns ?? [];
+  const isComplete =
+    !!mapping &&
+    !!mapping.dateColumn &&
+    !!mapping.descriptionColumn &&
+    (splitAmounts ? !!mapping.debitColumn && !!mapping.creditColumn : !!mapping.amountColumn);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Table className="h-5 w-5 text-blue-500" />
+            Map CSV Columns
+          </DialogTitle>
+          <DialogDescription>
+            Choose the account this file is for and which columns hold each transaction field.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label>Account</Label>
+            <select
+              className={SELECT_CLASS_NAME}
+              value={bankAccountId}
+              onChange={(e) => handleAccountChange(e.target.value)}
+            >
+              <option value="">Choose an account</option>
+              {accounts.map((account) => (
+                <option key={account.id} value={account.id}>
+                  {account.financialInstitution} {account.name} •••• {account.lastFourDigits}
+                </option>
+              ))}
+            </select>
+            {accounts.length === 0 && (
+              <p className="text-xs text-muted-foreground">
+                Add the account with its last four digits first, or upload one of its PDF statements.
+              </p>
+            )}
+          </div>
+
+          {previewMutation.isPending && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Reading file...
+            </div>
+          )}
+
+          {mapping && preview && (
+            <>
+              {preview.profileId && (
+                <p className="text-xs text-muted-foreground">
+                  Using the saved mapping for {selectedAccount?.financialInstitution}.
+                </p>
+              )}
+
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label>Delimiter</Label>
+                  <select
+                    className={SELECT_CLASS_NAME}
+                    value={mapping.delimiter}
+                    onChange={(e) => updateSplit({ delimiter: e.target.value, hasHeaderRow: mapping.hasHeaderRow })}
+                  >
+                    {DELIMITERS.map(({ value, label }) => (
+                      <option key={label} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <label className="flex items-center gap-2 text-sm pt-6">
+                  <input
+                    type="checkbox"
+                    checked={mapping.hasHeaderRow}
+                    onChange={(e) => updateSplit({ delimiter: mapping.delimiter, hasHeaderRow: e.target.checked })}
+                  />
+                  First row is a header
+                </label>
+
+                <ColumnSelect
+                  label="Date"
+                  value={mapping.dateColumn}
+                  columns={columns}
+                  onChange={(value) => updateMapping({ dateColumn: value ?? "" })}
+                />
+                <ColumnSelect
+                  label="Description"
+                  value={mapping.descriptionColumn}
+                  columns={columns}
+                  onChange={(value) => updateMapping({ descriptionColumn: value ?? "" })}
+                />
+
+                <label className="flex items-center gap-2 text-sm col-span-2">
+                  <input
+                    type="checkbox"
+                    checked={splitAmounts}
+                    onChange={(e) => setSplitAmounts(e.target.checked)}
+                  />
+                  Money out and money in are in separate columns
+                </label>
+
+                {splitAmounts ? (
+                  <>
+                    <ColumnSelect
+                      label="Debit (money out)"
+                      value={mapping.debitColumn}
+                      columns={columns}
+                      onChange={(value) => updateMapping({ debitColumn: value })}
+                    />
+                    <ColumnSelect
+                      label="Credit (money in)"
+                      value={mapping.creditColumn}
+                      columns={columns}
+                      onChange={(value) => updateMapping({ creditColumn: value })}
+                    />
+                  </>
+                ) : (
+                  <>
+                    <ColumnSelect
+                      label="Amount"
+                      value={mapping.amountColumn}
+                      columns={columns}
+                      onChange={(value) => updateMapping({ amountColumn: value })}
+                    />
+                    <label className="flex items-center gap-2 text-sm pt-6">
+                      <input
+                        type="checkbox"
+                        checked={mapping.invertAmounts}
+                        onChange={(e) => updateMapping({ invertAmounts: e.target.checked })}
+                      />
+                      Positive amounts are money out
+                    </label>
+                  </>
+                )}
+
+                <ColumnSelect
+                  label="Balance"
+                  value={mapping.balanceColumn}
+                  columns={columns}
+                  optional
+                  onChange={(value) => updateMapping({ balanceColumn: value })}
+                />
+                <div />
+
+                <div className="space-y-1">
+                  <Label>Date format</Label>
+                  <select
+                    className={SELECT_CLASS_NAME}
+                    value={mapping.dateOrder}
+                    onChange={(e) => updateMapping({ dateOrder: e.target.value as CsvMapping["dateOrder"] })}
+                  >
+                    {DATE_ORDERS.map(({ value, label }) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Number format</Label>
+                  <select
+                    className={SELECT_CLASS_NAME}
+                    value={mapping.decimalSeparator}
+                    onChange={(e) => updateMapping({ decimalSeparator: e.target.value })}
+                  >
+                    <option value=".">1,234.56</option>
+                    <option value=",">1.234,56</option>
+                  </select>
+                </div>
+              </div>
+
+              <div className="border rounded-md overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead className="bg-muted">
+                    <tr>
+                      {columns.map((column) => (
+                        <th key={column} className="text-left font-medium px-2 py-1 whitespace-nowrap">
+                          {column}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.sampleRows.map((row, rowIndex) => (
+                      <tr key={rowIndex} className="border-t">
+                        {columns.map((column, columnIndex) => (
+                          <td key={column} className="px-2 py-1 whitespace-nowrap">
+                            {row[columnIndex]}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-muted-foreground">{preview.rowCount} rows in the file</p>
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={onCancel}>
+            Cancel Upload
+          </Button>
+          <Button onClick={handleConfirm} disabled={!isComplete || saveProfileMutation.isPending}>
+            {saveProfileMutation.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+            Import Transactions
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,13 +5,10 @@ import { useDropzone } from "react-dropzone";
 import { Upload, File, X, CheckCircle, AlertCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
+import { getStatementFileAccept } from "@/lib/statement-files";
 
 // Define accepted file types
-const ACCEPTED_FILE_TYPES = {
-  "image/jpeg": [".jpg", ".jpeg"],
-  "image/png": [".png"],
-  "application/pdf": [".pdf"],
-};
+const ACCEPTED_FILE_TYPES = getStatementFileAccept();
 
 // Max file size: 10MB
 const MAX_FILE_SIZE = 10 * 1024 * 1024;
@@ -80,7 +77,7 @@ export function FileUpload({ onFileSelected }: FileUploadProps) {
       setErrorMessage("File is too large. Maximum size is 10MB.");
     } else if (rejection.errors[0].code === "file-invalid-type") {
       setErrorMessage(
-        "Invalid file type. Please upload a JPEG, PNG, or PDF file.",
+        "Invalid file type. Please upload a JPEG, PNG, PDF, CSV, OFX, QFX, QIF, camt.053 or MT940 file.",
       );
     }
   }
@@ -122,7 +119,7 @@ export function FileUpload({ onFileSelected }: FileUploadProps) {
                   Drag & drop your statement file here
                 </p>
                 <p className="text-sm text-muted-foreground">
-                  or click to browse (JPEG, PNG, or PDF)
+                  or click to browse (JPEG, PNG, PDF, CSV, OFX, QFX, QIF, camt.053 or MT940)
                 </p>
                 <p className="text-xs text-muted-foreground">
                   Max file size: 10MB
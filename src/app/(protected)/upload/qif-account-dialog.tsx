@@ -0,0 +1,79 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { api } from "@/trpc/client";
+import { Landmark } from "lucide-react";
+
+const SELECT_CLASS_NAME =
+  "border-input flex h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs";
+
+interface QifAccountDialogProps {
+  open: boolean;
+  onCancel: () => void;
+  onConfirm: (bankAccountId: string) => void;
+}
+
+// QIF files name no account number, so the account they're for is chosen on upload
+export function QifAccountDialog({ open, onCancel, onConfirm }: QifAccountDialogProps) {
+  const [bankAccountId, setBankAccountId] = useState("");
+
+  const { data: bankAccounts = [] } = api.bankAccount.getAll.useQuery(undefined, { enabled: open });
+  const accounts = bankAccounts.filter((account) => account.lastFourDigits);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Landmark className="h-5 w-5 text-blue-500" />
+            Choose QIF Account
+          </DialogTitle>
+          <DialogDescription>
+            Choose the account this file is for. Files with several accounts have to be exported one account at a
+            time.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          <Label>Account</Label>
+          <select
+            className={SELECT_CLASS_NAME}
+            value={bankAccountId}
+            onChange={(e) => setBankAccountId(e.target.value)}
+          >
+            <option value="">Choose an account</option>
+            {accounts.map((account) => (
+              <option key={account.id} value={account.id}>
+                {account.financialInstitution} {account.name} •••• {account.lastFourDigits}
+              </option>
+            ))}
+          </select>
+          {accounts.length === 0 && (
+            <p className="text-xs text-muted-foreground">
+              Add the account with its last four digits first, or upload one of its PDF statements.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={() => onConfirm(bankAccountId)} disabled={!bankAccountId}>
+            Continue
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
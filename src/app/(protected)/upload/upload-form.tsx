@@ -20,10 +20,15 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { FileUpload } from "./file-upload";
+import { CsvImportSelection, CsvMappingDialog } from "./csv-mapping-dialog";
+import { QifAccountDialog } from "./qif-account-dialog";
 import { api } from "@/trpc/client";
 import { toast } from "sonner";
 import { FileCheck, Upload, Loader2, AlertCircle, Info, Calendar, Badge, CreditCard } from "lucide-react";
 import { format } from "date-fns";
+import { isCsvFile } from "@/lib/csv-import";
+import { QIF_MIME_TYPE } from "@/lib/qif";
+import { resolveStatementFileType } from "@/lib/statement-files";
 
 // Format date helper
 function formatDate(dateStr: string | Date | null | undefined): string {
@@ -42,6 +47,10 @@ export function UploadForm() {
   const [fileUrl, setFileUrl] = useState<string | null>(null);
   const [showDuplicateDialog, setShowDuplicateDialog] = useState(false);
   const [duplicateInfo, setDuplicateInfo] = useState<any>(null);
+  const [showCsvMapping, setShowCsvMapping] = useState(false);
+  const [csvImport, setCsvImport] = useState<CsvImportSelection | null>(null);
+  const [showQifAccount, setShowQifAccount] = useState(false);
+  const [qifAccountId, setQifAccountId] = useState<string | null>(null);
 
   // Handle error type in onError properly
   const uploadMutation = api.statement.upload.useMutation({
@@ -90,6 +99,8 @@ export function UploadForm() {
 
   const handleFileSelected = (file: File, fileData: Blob) => {
     setSelectedFile(file);
+    setCsvImport(null);
+    setQifAccountId(null);
   };
 
   const handleUpload = async () => {
@@ -120,6 +131,18 @@ export function UploadForm() {
       const { fileUrl } = await response.json();
       setFileUrl(fileUrl);
 
+      // CSV exports are mapped to an account and columns first
+      if (isCsvFile(selectedFile.type, selectedFile.name)) {
+        setShowCsvMapping(true);
+        return;
+      }
+
+      // QIF files are assigned to an account first
+      if (resolveStatementFileType(selectedFile.type, selectedFile.name) === QIF_MIME_TYPE) {
+        setShowQifAccount(true);
+        return;
+      }
+
       // Check for duplicates before processing
       checkDuplicateMutation.mutate({
         filename: selectedFile.name,
@@ -151,6 +174,8 @@ export function UploadForm() {
       filename: selectedFile.name,
       fileType: selectedFile.type,
       fileUrl: fileUrl,
+      ...csvImport,
+      ...(qifAccountId ? { bankAccountId: qifAccountId } : {}),
     });
 
     // Immediately redirect to dashboard
@@ -164,9 +189,35 @@ export function UploadForm() {
 
   const handleCancelUpload = () => {
     setShowDuplicateDialog(false);
+    setShowCsvMapping(false);
+    setShowQifAccount(false);
     setIsUploading(false);
   };
 
+  const handleCsvMappingConfirmed = (selection: CsvImportSelection) => {
+    if (!selectedFile || !fileUrl) return;
+
+    setCsvImport(selection);
+    setShowCsvMapping(false);
+    checkDuplicateMutation.mutate({
+      filename: selectedFile.name,
+      fileType: selectedFile.type,
+      fileUrl: fileUrl,
+    });
+  };
+
+  const handleQifAccountConfirmed = (bankAccountId: string) => {
+    if (!selectedFile || !fileUrl) return;
+
+    setQifAccountId(bankAccountId);
+    setShowQifAccount(false);
+    checkDuplicateMutation.mutate({
+      filename: selectedFile.name,
+      fileType: selectedFile.type,
+      fileUrl: fileUrl,
+    });
+  };
+
   return (
     <>
       <Card className="max-w-2xl mx-auto">
@@ -187,6 +238,8 @@ export function UploadForm() {
             </h3>
             <ul className="text-sm text-muted-foreground space-y-1 list-disc pl-5">
               <li>Use PDF statements directly from your bank</li>
+              <li>CSV activity exports are imported with a column mapping saved for each bank</li>
+              <li>QIF files from desktop finance software keep their categories</li>
               <li>Ensure the PDF is not password protected</li>
               <li>Statements should include account details and transaction history</li>
             </ul>
@@ -221,6 +274,19 @@ export function UploadForm() {
         </CardFooter>
       </Card>
 
+      <CsvMappingDialog
+        open={showCsvMapping}
+        fileUrl={fileUrl}
+        onCancel={handleCancelUpload}
+        onConfirm={handleCsvMappingConfirmed}
+      />
+
+      <QifAccountDialog
+        open={showQifAccount}
+        onCancel={handleCancelUpload}
+        onConfirm={handleQifAccountConfirmed}
+      />
+
       {/* Duplicate Statement Dialog */}
       <Dialog open={showDuplicateDialog} onOpenChange={setShowDuplicateDialog}>
         <DialogContent className="max-w-lg">
@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { hash } from "bcrypt";
 import { prisma } from "@/lib/prisma";
+import { seedDefaultCategories } from "@/lib/default-categories";
 import { z } from "zod";
 
 const userSchema = z.object({
@@ -38,6 +39,14 @@ export async function POST(req: Request) {
       },
     });
 
+    // Give the new user a starting set of categories
+    try {
+      await seedDefaultCategories(prisma, user.id);
+    } catch (error) {
+      // Categories can be restored later, don't fail the signup
+      console.error("Error seeding default categories:", error);
+    }
+
     // Remove password from response
     const { password: _, ...userWithoutPassword } = user;
 
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import {
+  createLedgerExport,
+  LEDGER_EXPORT_FORMATS,
+  ledgerExportFilterSchema,
+  type LedgerExportFormat,
+} from "@/lib/ledger-export";
+
+// Download transactions of a set of accounts and categories, optionally within
+// a date range. Accounts and categories can be repeated; leaving them out
+// exports all of them:
+// /api/export?format=csv&bankAccountId=...&categoryId=...&uncategorized=1&from=2024-01-01&to=2024-03-31
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session || !session.user || !session.user.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const params = request.nextUrl.searchParams;
+  const format = params.get("format") || "csv";
+  if (!LEDGER_EXPORT_FORMATS.includes(format as LedgerExportFormat)) {
+    return NextResponse.json({ error: `Unsupported export format "${format}"` }, { status: 400 });
+  }
+
+  const bankAccountIds = params.getAll("bankAccountId");
+  const categoryIds = params.getAll("categoryId");
+  const filter = ledgerExportFilterSchema.safeParse({
+    bankAccountIds: bankAccountIds.length > 0 ? bankAccountIds : undefined,
+    categoryIds: categoryIds.length > 0 ? categoryIds : undefined,
+    includeUncategorized: ["1", "true"].includes(params.get("uncategorized") ?? ""),
+    from: params.get("from") || undefined,
+    to: params.get("to") || undefined,
+  });
+  if (!filter.success) {
+    return NextResponse.json({ error: filter.error.issues[0].message }, { status: 400 });
+  }
+
+  try {
+    const ledgerExport = await createLedgerExport(
+      prisma,
+      session.user.id,
+      format as LedgerExportFormat,
+      filter.data
+    );
+
+    return new NextResponse(ledgerExport.content, {
+      headers: {
+        "Content-Type": ledgerExport.contentType,
+        "Content-Disposition": `attachment; filename="${ledgerExport.filename}"`,
+        "X-Ledger-Schema-Version": String(ledgerExport.schemaVersion),
+      },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Bank account not found") {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof Error && error.message === "QIF exports hold exactly one account") {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Error exporting transactions:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to export transactions" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { exchangeGoogleAuthCode, OAUTH_STATE_COOKIE } from "@/lib/sheets";
+
+// Store the tokens Google returns after the user granted access
+export async function GET(request: NextRequest) {
+  const settingsUrl = new URL("/settings", request.url);
+
+  const session = await getServerSession(authOptions);
+  if (!session || !session.user) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  const code = request.nextUrl.searchParams.get("code");
+  const state = request.nextUrl.searchParams.get("state");
+  const expectedState = request.cookies.get(OAUTH_STATE_COOKIE)?.value;
+
+  if (!code || !state || state !== expectedState) {
+    settingsUrl.searchParams.set("sheets", "error");
+    return NextResponse.redirect(settingsUrl);
+  }
+
+  try {
+    const tokens = await exchangeGoogleAuthCode(code);
+
+    await prisma.googleSheetConfig.upsert({
+      where: { userId: session.user.id },
+      create: {
+        userId: session.user.id,
+        ...tokens,
+      },
+      update: {
+        accessToken: tokens.accessToken,
+        tokenExpiry: tokens.tokenExpiry,
+        // Google only returns a refresh token on first consent, keep the old one otherwise
+        ...(tokens.refreshToken ? { refreshToken: tokens.refreshToken } : {}),
+      },
+    });
+
+    settingsUrl.searchParams.set("sheets", "connected");
+  } catch (error) {
+    console.error("Error completing Google Sheets connection:", error);
+    settingsUrl.searchParams.set("sheets", "error");
+  }
+
+  const response = NextResponse.redirect(settingsUrl);
+  response.cookies.delete({ name: OAUTH_STATE_COOKIE, path: "/api/google-sheets" });
+  return response;
+}
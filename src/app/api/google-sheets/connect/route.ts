@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { v4 as uuidv4 } from "uuid";
+import { authOptions } from "@/lib/auth";
+import { buildGoogleAuthUrl, OAUTH_STATE_COOKIE } from "@/lib/sheets";
+
+// Redirect the user to Google to grant access to their spreadsheets
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session || !session.user) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const state = uuidv4();
+    const response = NextResponse.redirect(buildGoogleAuthUrl(state));
+
+    // Checked in the callback to reject forged redirects
+    response.cookies.set(OAUTH_STATE_COOKIE, state, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: 10 * 60,
+      path: "/api/google-sheets",
+    });
+
+    return response;
+  } catch (error) {
+    console.error("Error starting Google Sheets connection:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to connect Google Sheets" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { runDueStatementJobs } from "@/lib/jobs";
+
+// Leave room within the serverless function timeout
+const MAX_JOBS_PER_RUN = 3;
+
+// Process due statement jobs; meant to be called by a scheduler
+export async function POST(request: NextRequest) {
+  const secret = process.env.JOB_RUNNER_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const processed = await runDueStatementJobs(prisma, { maxJobs: MAX_JOBS_PER_RUN });
+    return NextResponse.json({ processed });
+  } catch (error) {
+    console.error("Error running statement jobs:", error);
+    return NextResponse.json(
+      { error: "Failed to run statement jobs" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth";
 import { v4 as uuidv4 } from "uuid";
 import { authOptions } from "@/lib/auth";
 import { createClient } from '@supabase/supabase-js';
+import { resolveStatementFileType, STATEMENT_UPLOAD_BUCKET } from "@/lib/statement-files";
 
 // Create a Supabase client with the service role key (bypasses RLS)
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -91,10 +92,10 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate file type
-    const allowedTypes = ["application/pdf", "image/jpeg", "image/png"];
-    if (!allowedTypes.includes(file.type)) {
+    const contentType = resolveStatementFileType(file.type, file.name);
+    if (!contentType) {
       return NextResponse.json(
-        { error: "Invalid file type. Only PDF, JPEG and PNG are supported" },
+        { error: "Invalid file type. Only PDF, JPEG, PNG, CSV, OFX, QFX, QIF, camt.053 and MT940 are supported" },
         { status: 400 }
       );
     }
@@ -111,7 +112,7 @@ export async function POST(request: NextRequest) {
     // Generate a unique filename to avoid collisions
     const fileExtension = file.name.split(".").pop();
     const uniqueFilename = `${session.user.id}/${uuidv4()}.${fileExtension}`;
-    const bucket = "statements";
+    const bucket = STATEMENT_UPLOAD_BUCKET;
 
     // Ensure the statements bucket exists and is public
     const bucketReady = await ensureBucketExists(bucket, true);
@@ -124,14 +125,14 @@ export async function POST(request: NextRequest) {
 
     // Convert file to buffer
     const fileBuffer = await file.arrayBuffer();
-    const blob = new Blob([new Uint8Array(fileBuffer)], { type: file.type });
+    const blob = new Blob([new Uint8Array(fileBuffer)], { type: contentType });
 
     // Upload file to Supabase Storage using the admin client
     console.log(`Uploading file to ${bucket}/${uniqueFilename}`);
     const { data, error } = await supabaseAdmin.storage
       .from(bucket)
       .upload(uniqueFilename, blob, {
-        contentType: file.type,
+        contentType,
         upsert: true,
       });
 
@@ -5,9 +5,7 @@ import { promises as fs } from "fs";
 import path from "path";
 import { v4 as uuidv4 } from "uuid";
 import { mkdir } from "fs/promises";
-
-// Define allowed file types
-const ALLOWED_FILE_TYPES = ["image/jpeg", "image/png", "application/pdf"];
+import { resolveStatementFileType } from "@/lib/statement-files";
 
 // Max file size (10MB)
 const MAX_FILE_SIZE = 10 * 1024 * 1024;
@@ -45,9 +43,10 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate file type
-    if (!ALLOWED_FILE_TYPES.includes(file.type)) {
+    const fileType = resolveStatementFileType(file.type, file.name);
+    if (!fileType) {
       return NextResponse.json(
-        { error: "Invalid file type. Please upload JPEG, PNG, or PDF files." },
+        { error: "Invalid file type. Please upload JPEG, PNG, PDF, CSV, OFX, QFX, QIF, camt.053 or MT940 files." },
         { status: 400 },
       );
     }
@@ -85,7 +84,7 @@ export async function POST(request: NextRequest) {
       success: true,
       fileName: fileName,
       originalName: file.name,
-      mimeType: file.type,
+      mimeType: fileType,
       size: file.size,
       path: filePath,
     });
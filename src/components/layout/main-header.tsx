@@ -32,6 +32,16 @@ export function MainHeader() {
       label: "Upload Statement",
       active: pathname === "/upload",
     },
+    {
+      href: "/review",
+      label: "Review",
+      active: pathname.startsWith("/review"),
+    },
+    {
+      href: "/export",
+      label: "Export",
+      active: pathname === "/export",
+    },
   ];
 
   return (
@@ -0,0 +1,97 @@
+/**
+ * @jest-environment node
+ */
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { Prisma, type CategorizationRule, type PrismaClient } from "@/generated/prisma";
+import { applyCategorizationRules } from "../categorization-rules";
+
+type StoredRow = Record<string, unknown>;
+
+// Rules and the transactions they may categorize, recording the updates made
+function createPrismaStub(rules: Partial<CategorizationRule>[], transactions: StoredRow[]) {
+  const updates: StoredRow[] = [];
+
+  const prisma = {
+    categorizationRule: {
+      findMany: async () => rules,
+    },
+    transaction: {
+      findMany: async () => transactions,
+      updateMany: async (update: StoredRow) => {
+        updates.push(update);
+        return { count: 1 };
+      },
+    },
+    $transaction: async (operations: Promise<unknown>[]) => Promise.all(operations),
+  };
+
+  return { prisma: prisma as unknown as PrismaClient, updates };
+}
+
+function rule(overrides: Partial<CategorizationRule>): Partial<CategorizationRule> {
+  return {
+    name: "Rule",
+    priority: 100,
+    enabled: true,
+    matchType: "CONTAINS",
+    minAmount: null,
+    maxAmount: null,
+    bankAccountId: null,
+    bucket: null,
+    dayOfMonthFrom: null,
+    dayOfMonthTo: null,
+    ...overrides,
+  };
+}
+
+function transaction(overrides: StoredRow): StoredRow {
+  return {
+    amount: new Prisma.Decimal("-12.50"),
+    bankAccountId: "acct-1",
+    bucket: "WITHDRAWAL",
+    transactionDate: new Date("2024-01-09T00:00:00.000Z"),
+    categoryId: null,
+    categoryRuleId: null,
+    ...overrides,
+  };
+}
+
+describe("applyCategorizationRules", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("clears categories from rules that no longer match", async () => {
+    const { prisma, updates } = createPrismaStub(
+      [rule({ id: "coffee", categoryId: "dining", descriptionPattern: "coffee" })],
+      [
+        transaction({ id: "t1", description: "Corner Coffee" }),
+        // Categorized by the rule before its pattern was changed
+        transaction({ id: "t2", description: "Gas station", categoryId: "dining", categoryRuleId: "coffee" }),
+        transaction({ id: "t3", description: "Coffee beans", categoryId: "dining", categoryRuleId: "coffee" }),
+      ]
+    );
+
+    const result = await applyCategorizationRules(prisma, "user-1");
+
+    expect(result.changes.map((change) => [change.transactionId, change.toCategoryId, change.ruleId])).toEqual([
+      ["t1", "dining", "coffee"],
+      ["t2", null, null],
+    ]);
+    expect(updates).toEqual([
+      { where: { id: { in: ["t1"] } }, data: { categoryId: "dining", categoryRuleId: "coffee" } },
+      { where: { id: { in: ["t2"] } }, data: { categoryId: null, categoryRuleId: null } },
+    ]);
+  });
+
+  it("clears categories of disabled rules", async () => {
+    const { prisma } = createPrismaStub(
+      [rule({ id: "coffee", categoryId: "dining", descriptionPattern: "coffee", enabled: false })],
+      [transaction({ id: "t1", description: "Corner Coffee", categoryId: "dining", categoryRuleId: "coffee" })]
+    );
+
+    const result = await applyCategorizationRules(prisma, "user-1", { dryRun: true });
+
+    expect(result.changes).toEqual([expect.objectContaining({ transactionId: "t1", toCategoryId: null })]);
+  });
+});
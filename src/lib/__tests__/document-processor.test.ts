@@ -0,0 +1,52 @@
+/**
+ * @jest-environment node
+ */
+import path from "path";
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { DocumentProcessor, type SectionDefinition } from "../document-processor";
+import { FixtureBackend } from "../extraction";
+
+// A two-page statement whose deposits table continues on the second page,
+// replayed from its recorded pdf-text extraction
+const FIXTURES_DIR = path.resolve(__dirname, "../../../fixtures");
+const SAMPLE_PATH = path.join(FIXTURES_DIR, "statements", "harbor-savings-sections.pdf");
+
+const TABLE_HEADER = /^date\s+description\s+amount$/i;
+const SECTIONS: SectionDefinition[] = [
+  { name: "deposits", start: [/^deposits\b/i], end: [/^total\s+deposits\b/i], header: TABLE_HEADER },
+  { name: "withdrawals", start: [/^withdrawals$/i], end: [/^total\s+withdrawals\b/i], header: TABLE_HEADER },
+];
+
+describe("DocumentProcessor.extractSections", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("stitches a section split across two pages", async () => {
+    const processor = new DocumentProcessor(new FixtureBackend(path.join(FIXTURES_DIR, "extraction")));
+    expect(await processor.processDocument(SAMPLE_PATH, "application/pdf")).toBe(true);
+
+    const sections = await processor.extractSections(SECTIONS);
+
+    expect(sections.map((section) => [section.name, section.pages, section.heading.text])).toEqual([
+      // The "Deposits (continued)" heading on page 2 resumes the section
+      ["deposits", [1, 2], "Deposits"],
+      ["withdrawals", [2], "Withdrawals"],
+    ]);
+
+    // The repeated column header, the "continued" note, page numbers and the
+    // bank's header and footer lines are left out of the rows
+    const [deposits, withdrawals] = sections;
+    expect(deposits.header?.text).toBe("Date Description Amount");
+    expect(deposits.rows.map((row) => row.text)).toEqual([
+      "01/03 Payroll 1,000.00",
+      "01/10 Transfer In 200.00",
+      "01/20 Mobile Deposit 50.00",
+    ]);
+    expect(deposits.end?.text).toBe("Total Deposits 1,250.00");
+
+    // Runs into the end of the statement without a total
+    expect(withdrawals.rows.map((row) => row.text)).toEqual(["01/05 Rent 800.00"]);
+    expect(withdrawals.end).toBeNull();
+  });
+});
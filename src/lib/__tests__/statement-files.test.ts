@@ -0,0 +1,55 @@
+/**
+ * @jest-environment node
+ */
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import { isStorageUrl, isUserUploadUrl } from "../statement-files";
+
+const STORAGE_URL = "https://project.supabase.co";
+const UPLOADS = `${STORAGE_URL}/storage/v1/object/public/statements`;
+
+describe("storage URLs", () => {
+  const previousUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+
+  beforeAll(() => {
+    process.env.NEXT_PUBLIC_SUPABASE_URL = `${STORAGE_URL}/`;
+  });
+
+  afterAll(() => {
+    process.env.NEXT_PUBLIC_SUPABASE_URL = previousUrl;
+  });
+
+  it("accepts files in the user's upload folder", () => {
+    expect(isUserUploadUrl(`${UPLOADS}/user-1/3f2a.csv`, "user-1")).toBe(true);
+    // The upload route builds URLs from NEXT_PUBLIC_SUPABASE_URL, trailing slash included
+    const doubleSlashUrl = `${STORAGE_URL}//storage/v1/object/public/statements/user-1/3f2a.csv`;
+    expect(isUserUploadUrl(doubleSlashUrl, "user-1")).toBe(true);
+  });
+
+  it("rejects other users' uploads and other buckets", () => {
+    expect(isUserUploadUrl(`${UPLOADS}/user-2/3f2a.csv`, "user-1")).toBe(false);
+    expect(isUserUploadUrl(`${UPLOADS}/user-10/3f2a.csv`, "user-1")).toBe(false);
+    expect(isUserUploadUrl(`${STORAGE_URL}/storage/v1/object/public/avatars/user-1/me.png`, "user-1")).toBe(false);
+    expect(isUserUploadUrl(`${STORAGE_URL}/storage/v1/object/statements/user-1/3f2a.csv`, "user-1")).toBe(false);
+  });
+
+  it("rejects paths stepping out of the user's folder", () => {
+    expect(isUserUploadUrl(`${UPLOADS}/user-1/../user-2/3f2a.csv`, "user-1")).toBe(false);
+    expect(isUserUploadUrl(`${UPLOADS}/user-1/%2e%2e/user-2/3f2a.csv`, "user-1")).toBe(false);
+    expect(isUserUploadUrl(`${UPLOADS}/user-1/..%2fuser-2%2f3f2a.csv`, "user-1")).toBe(false);
+  });
+
+  it("rejects other hosts", () => {
+    const path = "/storage/v1/object/public/statements/user-1/a.csv";
+    expect(isUserUploadUrl(`https://example.com${path}`, "user-1")).toBe(false);
+    expect(isUserUploadUrl(`https://project.supabase.co.example.com${path}`, "user-1")).toBe(false);
+    expect(isUserUploadUrl("http://169.254.169.254/latest/meta-data/supabase", "user-1")).toBe(false);
+    expect(isUserUploadUrl("/etc/passwd", "user-1")).toBe(false);
+  });
+
+  it("tells storage objects from other URLs", () => {
+    expect(isStorageUrl(`${STORAGE_URL}/storage/v1/object/statements/user-2/3f2a.csv`)).toBe(true);
+    expect(isStorageUrl(`${STORAGE_URL}/rest/v1/users`)).toBe(false);
+    expect(isStorageUrl("http://localhost:5432/storage/v1/object/public/statements/a.csv")).toBe(false);
+    expect(isStorageUrl("http://169.254.169.254/latest/meta-data/")).toBe(false);
+  });
+});
@@ -0,0 +1,329 @@
+/**
+ * @jest-environment node
+ */
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import type { PrismaClient, Statement } from "@/generated/prisma";
+import type { Account, ProcessedStatementData } from "../parsers";
+import { getStatementFileType, mapAccountType, StatementIngestionService } from "../statement-ingestion";
+
+// The tables ingestion reads and writes, kept in memory
+interface StoredBankAccount {
+  id: string;
+  userId: string;
+  name: string;
+  financialInstitution: string;
+  accountType: string;
+  lastFourDigits: string | null;
+  externalAccountId: string | null;
+  balance: string | null;
+}
+
+type StoredRow = Record<string, unknown>;
+
+function createPrismaStub(bankAccounts: StoredBankAccount[] = []) {
+  const store = {
+    bankAccounts: [...bankAccounts],
+    transactions: [] as StoredRow[],
+    statementUpdates: [] as StoredRow[],
+  };
+
+  const matches = (record: object, where: Record<string, unknown>) =>
+    Object.entries(where).every(([key, value]) => (record as Record<string, unknown>)[key] === value);
+
+  const prisma = {
+    bankAccount: {
+      findFirst: async ({ where }: { where: Record<string, unknown> }) =>
+        store.bankAccounts.find((account) => matches(account, where)) ?? null,
+      create: async ({ data }: { data: Omit<StoredBankAccount, "id"> }) => {
+        const account = { ...data, id: `acct-${store.bankAccounts.length + 1}` };
+        store.bankAccounts.push(account);
+        return account;
+      },
+      update: async ({ where, data }: { where: { id: string }; data: Partial<StoredBankAccount> }) =>
+        Object.assign(store.bankAccounts.find((account) => account.id === where.id)!, data),
+    },
+    transaction: {
+      // Only asked for rows already imported by other statements
+      findMany: async () => [],
+      deleteMany: async () => ({ count: 0 }),
+      createMany: async ({ data }: { data: StoredRow[] }) => {
+        store.transactions.push(...data);
+        return { count: data.length };
+      },
+    },
+    category: {
+      findMany: async () => [],
+    },
+    categorizationRule: {
+      findMany: async () => [],
+    },
+    statement: {
+      update: async ({ data }: { data: StoredRow }) => {
+        store.statementUpdates.push(data);
+        return data;
+      },
+    },
+    googleSheetConfig: {
+      findUnique: async () => null,
+    },
+    $transaction: async (operations: Promise<unknown>[]) => Promise.all(operations),
+  };
+
+  return { prisma: prisma as unknown as PrismaClient, store };
+}
+
+const statement = { id: "stmt-1", userId: "user-1", filename: "statement.pdf", fileType: "application/pdf" } as Statement;
+
+function checkingAccount(overrides: Partial<Account> = {}): Account {
+  return {
+    accountNumberLast4: "1234",
+    accountType: "CHECKING",
+    allTransactions: {
+      deposits: [{ date: "2024-01-05", description: "Payroll", amount: 1000, type: "DEPOSIT" }],
+      atmDebit: [],
+      withdrawals: [{ date: "2024-01-09", description: "Rent", amount: -750.25, type: "WITHDRAWAL" }],
+      checks: [],
+      fees: [],
+      other: [],
+    },
+    metadata: { beginningBalance: 500, endingBalance: 749.75 },
+    ...overrides,
+  };
+}
+
+function statementData(accounts: Account[], overrides: Partial<ProcessedStatementData> = {}): ProcessedStatementData {
+  return {
+    bankName: "Chase",
+    accounts,
+    statementPeriodStartDate: "2024-01-01",
+    statementPeriodEndDate: "2024-01-31",
+    rawText: "",
+    entities: [],
+    ...overrides,
+  };
+}
+
+describe("mapAccountType", () => {
+  it("keeps known account types", () => {
+    expect(mapAccountType("SAVINGS")).toBe("SAVINGS");
+    expect(mapAccountType("CREDIT")).toBe("CREDIT");
+  });
+
+  it("maps product names printed on statements", () => {
+    expect(mapAccountType("Advantage Plus Banking")).toBe("CHECKING");
+  });
+
+  it("falls back to OTHER", () => {
+    expect(mapAccountType("Brokerage")).toBe("OTHER");
+    expect(mapAccountType(null)).toBe("OTHER");
+    expect(mapAccountType(undefined)).toBe("OTHER");
+  });
+});
+
+describe("getStatementFileType", () => {
+  it("uses the stored file type", () => {
+    expect(getStatementFileType({ filename: "statement.pdf", fileType: "image/png" })).toBe("image/png");
+  });
+
+  it("guesses the type of older statements from the filename", () => {
+    expect(getStatementFileType({ filename: "statement.pdf", fileType: null })).toBe("application/pdf");
+    expect(getStatementFileType({ filename: "activity.csv", fileType: null })).toBe("text/csv");
+  });
+
+  it("treats unknown files as images", () => {
+    expect(getStatementFileType({ filename: "scan", fileType: null })).toBe("image/jpeg");
+  });
+});
+
+describe("StatementIngestionService.ingestParsed", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("completes a statement that balances", async () => {
+    const { prisma, store } = createPrismaStub();
+
+    const result = await new StatementIngestionService(prisma).ingestParsed(
+      statement,
+      statementData([checkingAccount()])
+    );
+
+    expect(result.status).toBe("COMPLETED");
+    expect(result.reviewReasons).toEqual([]);
+    expect(result.transactionCount).toBe(2);
+    expect(result.accounts).toEqual([
+      { bankAccountId: "acct-1", lastFourDigits: "1234", created: true, transactionCount: 2 },
+    ]);
+    expect(result.reconciliation.balanced).toBe(true);
+
+    expect(store.bankAccounts[0]).toMatchObject({
+      financialInstitution: "Chase",
+      accountType: "CHECKING",
+      lastFourDigits: "1234",
+      balance: "749.75",
+    });
+    expect(store.transactions.map((row) => [row.description, String(row.amount), row.bucket])).toEqual([
+      ["Payroll", "1000.00", "DEPOSIT"],
+      ["Rent", "-750.25", "WITHDRAWAL"],
+    ]);
+    expect(store.statementUpdates[0]).toMatchObject({ status: "COMPLETED", reviewReasons: [] });
+  });
+
+  it("sends a statement that doesn't balance to review", async () => {
+    const { prisma, store } = createPrismaStub();
+
+    const result = await new StatementIngestionService(prisma).ingestParsed(
+      statement,
+      statementData([
+        checkingAccount({ metadata: { beginningBalance: 500, endingBalance: 800 } }),
+        checkingAccount({ accountNumberLast4: "" }),
+      ])
+    );
+
+    expect(result.status).toBe("REVIEW_NEEDED");
+    expect(result.skippedAccounts).toBe(1);
+    expect(result.reviewReasons).toEqual([
+      "1 account without an account number was skipped",
+      "Account ••1234 doesn't balance: transactions are off by -$50.25",
+    ]);
+    expect(store.statementUpdates[0]).toMatchObject({ status: "REVIEW_NEEDED" });
+  });
+
+  it("reconciles amounts that drift when added up as dollars", async () => {
+    const { prisma } = createPrismaStub();
+    const deposits = Array.from({ length: 10 }, (_, index) => ({
+      date: `2024-01-${String(index + 10)}`,
+      description: "Round-up transfer",
+      amount: 0.1,
+      type: "DEPOSIT" as const,
+    }));
+    // Ten dimes don't add up to a dollar as floats
+    expect(deposits.reduce((sum, deposit) => sum + deposit.amount, 0)).not.toBe(1);
+
+    const result = await new StatementIngestionService(prisma).ingestParsed(
+      statement,
+      statementData([
+        checkingAccount({
+          allTransactions: { deposits, atmDebit: [], withdrawals: [], checks: [], fees: [], other: [] },
+          // A balance a parser added up from two printed amounts
+          metadata: { beginningBalance: 0.1 + 0.2, depositsTotal: 1, endingBalance: 1.3 },
+        }),
+      ])
+    );
+
+    expect(result.status).toBe("COMPLETED");
+    expect(result.reconciliation.accounts[0]).toMatchObject({
+      beginningBalance: 0.3,
+      transactionsTotal: 1,
+      balanceDifference: 0,
+      buckets: [{ summaryField: "depositsTotal", expected: 1, actual: 1, difference: 0 }],
+      balanced: true,
+    });
+  });
+
+  it("fails a statement without a period", async () => {
+    const { prisma, store } = createPrismaStub();
+    const service = new StatementIngestionService(prisma);
+
+    await expect(
+      service.ingestParsed(statement, statementData([checkingAccount()], { statementPeriodEndDate: null }))
+    ).rejects.toThrow("Incomplete statement data");
+    await expect(
+      service.ingestParsed(statement, statementData([checkingAccount()], { statementPeriodStartDate: "sometime" }))
+    ).rejects.toThrow("Unreadable statement period");
+    expect(store.transactions).toEqual([]);
+    expect(store.statementUpdates).toEqual([]);
+  });
+
+  it("matches bank accounts on the full account id before the last four digits", async () => {
+    const { prisma, store } = createPrismaStub([
+      {
+        id: "by-last-four",
+        userId: "user-1",
+        name: "Checking",
+        financialInstitution: "Chase",
+        accountType: "CHECKING",
+        lastFourDigits: "1234",
+        externalAccountId: null,
+        balance: null,
+      },
+      {
+        id: "by-account-id",
+        userId: "user-1",
+        name: "Checking",
+        financialInstitution: "Chase",
+        accountType: "CHECKING",
+        lastFourDigits: "1234",
+        externalAccountId: "000111221234",
+        balance: null,
+      },
+    ]);
+
+    const result = await new StatementIngestionService(prisma).ingestParsed(
+      statement,
+      statementData([checkingAccount({ accountId: "000111221234" })])
+    );
+
+    expect(result.accounts).toEqual([
+      expect.objectContaining({ bankAccountId: "by-account-id", created: false }),
+    ]);
+    expect(store.bankAccounts).toHaveLength(2);
+    expect(store.bankAccounts[1].balance).toBe("749.75");
+  });
+
+  it("matches on the last four digits and remembers the full account id", async () => {
+    const { prisma, store } = createPrismaStub([
+      {
+        id: "from-pdf",
+        userId: "user-1",
+        name: "Checking",
+        financialInstitution: "Chase",
+        accountType: "CHECKING",
+        lastFourDigits: "1234",
+        externalAccountId: null,
+        balance: null,
+      },
+    ]);
+
+    const result = await new StatementIngestionService(prisma).ingestParsed(
+      statement,
+      statementData([checkingAccount({ accountId: "000111221234" })])
+    );
+
+    expect(result.accounts).toEqual([expect.objectContaining({ bankAccountId: "from-pdf", created: false })]);
+    expect(store.bankAccounts[0].externalAccountId).toBe("000111221234");
+  });
+
+  it("doesn't match accounts of another user or institution", async () => {
+    const { prisma, store } = createPrismaStub([
+      {
+        id: "other-user",
+        userId: "user-2",
+        name: "Checking",
+        financialInstitution: "Chase",
+        accountType: "CHECKING",
+        lastFourDigits: "1234",
+        externalAccountId: null,
+        balance: null,
+      },
+      {
+        id: "other-bank",
+        userId: "user-1",
+        name: "Checking",
+        financialInstitution: "Wells Fargo",
+        accountType: "CHECKING",
+        lastFourDigits: "1234",
+        externalAccountId: null,
+        balance: null,
+      },
+    ]);
+
+    const result = await new StatementIngestionService(prisma).ingestParsed(
+      statement,
+      statementData([checkingAccount()])
+    );
+
+    expect(result.accounts).toEqual([expect.objectContaining({ bankAccountId: "acct-3", created: true })]);
+    expect(store.bankAccounts).toHaveLength(3);
+  });
+});
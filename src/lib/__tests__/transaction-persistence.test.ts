@@ -0,0 +1,123 @@
+/**
+ * @jest-environment node
+ */
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { Prisma, type PrismaClient } from "@/generated/prisma";
+import type { Account, Transaction } from "../parsers";
+import { replaceStatementTransactions } from "../transaction-persistence";
+
+type StoredRow = Record<string, unknown>;
+
+// Serves the rows stored by an earlier run and records what replaces them
+function createPrismaStub(previousRows: StoredRow[]) {
+  const written: StoredRow[] = [];
+
+  const prisma = {
+    transaction: {
+      findMany: async ({ where }: { where: { statementId: unknown } }) =>
+        typeof where.statementId === "string" ? previousRows : [],
+      deleteMany: async () => ({ count: previousRows.length }),
+      createMany: async ({ data }: { data: StoredRow[] }) => {
+        written.push(...data);
+        return { count: data.length };
+      },
+    },
+    $transaction: async (operations: Promise<unknown>[]) => Promise.all(operations),
+  };
+
+  return { prisma: prisma as unknown as PrismaClient, written };
+}
+
+function previousRow(overrides: StoredRow): StoredRow {
+  return {
+    bankAccountId: "acct-1",
+    transactionDate: new Date("2024-01-09T00:00:00.000Z"),
+    description: "Rent",
+    amount: new Prisma.Decimal("-750.25"),
+    bucket: "WITHDRAWAL",
+    originalText: null,
+    externalId: null,
+    categoryId: null,
+    categoryRuleId: null,
+    reviewedAt: null,
+    sheetsExportedAt: null,
+    ...overrides,
+  };
+}
+
+function account(withdrawals: Transaction[]): Account {
+  return {
+    accountNumberLast4: "1234",
+    allTransactions: { deposits: [], atmDebit: [], withdrawals, checks: [], fees: [], other: [] },
+  };
+}
+
+const period = { start: new Date("2024-01-01T00:00:00.000Z"), end: new Date("2024-01-31T00:00:00.000Z") };
+
+describe("replaceStatementTransactions", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("keeps categories and review corrections of rows stored by an earlier run", async () => {
+    const exportedAt = new Date("2024-02-01T00:00:00.000Z");
+    const reviewedAt = new Date("2024-02-02T00:00:00.000Z");
+    const { prisma, written } = createPrismaStub([
+      // Matched on the bank's id
+      previousRow({ externalId: "FIT-1", description: "Card 4411", categoryId: "groceries", sheetsExportedAt: exportedAt }),
+      // Matched on the text it was read from; its amount was corrected in review
+      previousRow({
+        description: "Rent January",
+        amount: new Prisma.Decimal("-705.25"),
+        originalText: "01/09 Rent -750.25",
+        categoryId: "housing",
+        reviewedAt,
+      }),
+      // Matched on date, amount and description; categorized by a rule
+      previousRow({ description: "Gym", amount: new Prisma.Decimal("-40"), categoryId: "fitness", categoryRuleId: "rule-1" }),
+    ]);
+
+    const rows = await replaceStatementTransactions(
+      prisma,
+      "stmt-1",
+      [
+        {
+          bankAccountId: "acct-1",
+          account: account([
+            { date: "2024-01-09", description: "Card 4411 Market", amount: -52.1, type: "WITHDRAWAL", externalId: "FIT-1" },
+            { date: "2024-01-09", description: "Rent", amount: -750.25, type: "WITHDRAWAL", rawRowText: "01/09 Rent -750.25" },
+            { date: "2024-01-09", description: "Gym", amount: -40, type: "WITHDRAWAL" },
+            { date: "2024-01-10", description: "Coffee", amount: -3.5, type: "WITHDRAWAL" },
+          ]),
+        },
+      ],
+      period
+    );
+
+    expect(written).toEqual(rows);
+    expect(rows.map((row) => [row.description, row.amount, row.categoryId, row.categoryRuleId])).toEqual([
+      ["Card 4411 Market", "-52.10", "groceries", null],
+      ["Rent January", "-705.25", "housing", null],
+      ["Gym", "-40.00", "fitness", "rule-1"],
+      ["Coffee", "-3.50", null, null],
+    ]);
+    expect(rows[0]).toMatchObject({ sheetsExportedAt: exportedAt, reviewedAt: null });
+    expect(rows[1]).toMatchObject({ reviewedAt, needsReview: false, sheetsExportedAt: null });
+  });
+
+  it("pairs identical rows one to one", async () => {
+    const { prisma } = createPrismaStub([
+      previousRow({ description: "Coffee", amount: new Prisma.Decimal("-3.5"), categoryId: "dining" }),
+    ]);
+    const coffee: Transaction = { date: "2024-01-09", description: "Coffee", amount: -3.5, type: "WITHDRAWAL" };
+
+    const rows = await replaceStatementTransactions(
+      prisma,
+      "stmt-1",
+      [{ bankAccountId: "acct-1", account: account([coffee, { ...coffee }]) }],
+      period
+    );
+
+    expect(rows.map((row) => row.categoryId)).toEqual(["dining", null]);
+  });
+});
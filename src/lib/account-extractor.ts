@@ -4,6 +4,9 @@
  * This module extracts account information from bank statements
  */
 
+import { parseStatementDate } from './statement-dates';
+import { fromCents, parseMoney } from './money';
+
 interface ExtractedAccountInfo {
   accountName?: string;
   financialInstitution?: string; 
@@ -203,8 +206,8 @@ function extractBalance(text: string): number | undefined {
   for (const pattern of balancePatterns) {
     const match = text.match(pattern);
     if (match && match[1]) {
-      // Remove commas and convert to number
-      return parseFloat(match[1].replace(/,/g, ''));
+      const cents = parseMoney(match[1]);
+      if (cents !== null) return fromCents(cents);
     }
   }
   
@@ -227,16 +230,13 @@ export function extractStatementPeriod(text: string): { start?: Date, end?: Date
   for (const pattern of periodPatterns) {
     const match = text.match(pattern);
     if (match && match[1] && match[2]) {
-      try {
-        result.start = new Date(match[1]);
-        result.end = new Date(match[2]);
-        if (!isNaN(result.start.getTime()) && !isNaN(result.end.getTime())) {
-          return result;
-        }
-      } catch (e) {
-        // If date parsing fails, continue to next pattern
-        console.warn('Failed to parse dates:', match[1], match[2]);
+      const start = parseStatementDate(match[1]);
+      const end = parseStatementDate(match[2]);
+      if (start && end) {
+        return { start, end };
       }
+      // If date parsing fails, continue to next pattern
+      console.warn('Failed to parse dates:', match[1], match[2]);
     }
   }
   
@@ -250,19 +250,16 @@ export function extractStatementPeriod(text: string): { start?: Date, end?: Date
   for (const pattern of datePatterns) {
     const match = text.match(pattern);
     if (match && match[1]) {
-      try {
-        const date = new Date(match[1]);
-        if (!isNaN(date.getTime())) {
-          result.end = date;
-          // Estimate start date (30 days before for credit cards, end of previous month for checking)
-          const estimatedStart = new Date(date);
-          estimatedStart.setDate(1); // First day of the month
-          result.start = estimatedStart;
-          return result;
-        }
-      } catch (e) {
-        console.warn('Failed to parse date:', match[1]);
+      const date = parseStatementDate(match[1]);
+      if (date) {
+        result.end = date;
+        // Estimate start date (30 days before for credit cards, end of previous month for checking)
+        const estimatedStart = new Date(date);
+        estimatedStart.setUTCDate(1); // First day of the month
+        result.start = estimatedStart;
+        return result;
       }
+      console.warn('Failed to parse date:', match[1]);
     }
   }
   
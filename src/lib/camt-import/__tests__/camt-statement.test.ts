@@ -0,0 +1,55 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, it } from "@jest/globals";
+import { buildCamtStatement } from "../camt-statement";
+
+function balance(code: string, amount: string, date: string): string {
+  return `<Bal><Tp><CdOrPrtry><Cd>${code}</Cd></CdOrPrtry></Tp><Amt Ccy="EUR">${amount}</Amt>` +
+    `<CdtDbtInd>CRDT</CdtDbtInd><Dt><Dt>${date}</Dt></Dt></Bal>`;
+}
+
+function entry(amount: string, mark: "CRDT" | "DBIT", date: string, reference: string): string {
+  return `<Ntry><Amt Ccy="EUR">${amount}</Amt><CdtDbtInd>${mark}</CdtDbtInd><Sts><Cd>BOOK</Cd></Sts>` +
+    `<BookgDt><Dt>${date}</Dt></BookgDt><ValDt><Dt>${date}</Dt></ValDt><AcctSvcrRef>${reference}</AcctSvcrRef>` +
+    `<AddtlNtryInf>Entry ${reference}</AddtlNtryInf></Ntry>`;
+}
+
+function statement(iban: string, day: string, balances: string[], entries: string[]): string {
+  return `<Stmt><Id>${iban}-${day}</Id><Acct><Id><IBAN>${iban}</IBAN></Id><Tp><Cd>CACC</Cd></Tp></Acct>` +
+    `<FrToDt><FrDtTm>${day}T00:00:00</FrDtTm><ToDtTm>${day}T23:59:59</ToDtTm></FrToDt>` +
+    `${balances.join("")}${entries.join("")}</Stmt>`;
+}
+
+const IBAN = "DE89370400440532013000";
+
+// A statement per day for one account, and one for another account
+const CAMT = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02"><BkToCstmrStmt>
+${statement(IBAN, "2024-03-01", [balance("OPBD", "1000.00", "2024-03-01"), balance("CLBD", "900.00", "2024-03-01")], [
+  entry("100.00", "DBIT", "2024-03-01", "R1"),
+])}
+${statement(IBAN, "2024-03-02", [balance("OPBD", "900.00", "2024-03-02"), balance("CLBD", "1150.00", "2024-03-02")], [
+  entry("250.00", "CRDT", "2024-03-02", "R2"),
+])}
+${statement("DE02120300000000202051", "2024-03-02", [
+  balance("OPBD", "50.00", "2024-03-02"),
+  balance("CLBD", "50.00", "2024-03-02"),
+], [])}
+</BkToCstmrStmt></Document>`;
+
+describe("buildCamtStatement", () => {
+  it("joins the statements of an account into one account", () => {
+    const data = buildCamtStatement(CAMT);
+
+    expect(data.accounts.map((account) => account.accountId)).toEqual([IBAN, "DE02120300000000202051"]);
+    expect(data.statementPeriodStartDate).toBe("2024-03-01");
+    expect(data.statementPeriodEndDate).toBe("2024-03-02");
+
+    // The first statement's opening balance and the last one's closing balance
+    const [account] = data.accounts;
+    expect(account.metadata).toMatchObject({ beginningBalance: 1000, endingBalance: 1150 });
+    expect(account.allTransactions?.withdrawals.map((transaction) => transaction.amount)).toEqual([-100]);
+    expect(account.allTransactions?.deposits.map((transaction) => transaction.amount)).toEqual([250]);
+  });
+});
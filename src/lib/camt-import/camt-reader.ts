@@ -0,0 +1,100 @@
+export const CAMT_MIME_TYPE = "application/x-camt.053+xml";
+
+// An XML element of a camt document, named without its namespace prefix
+export interface CamtElement {
+  name: string;
+  attributes: Record<string, string>;
+  text?: string;
+  children: CamtElement[];
+}
+
+// <Tag attr="...">, </Tag>, <Tag/> or the text between tags
+const XML_TOKEN_PATTERN = /<(\/?)(?:[\w.-]+:)?([\w.-]+)((?:\s+[^>]*?)?)(\/?)>|([^<]+)/g;
+const XML_ATTRIBUTE_PATTERN = /(?:[\w.-]+:)?([\w.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const XML_ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&apos;": "'",
+};
+
+/**
+ * Read an ISO 20022 camt document
+ * @returns The <Document> element
+ * @throws When the file has no <Document> element
+ */
+export function readCamt(text: string): CamtElement {
+  // Declarations, comments and CDATA markers carry nothing camt needs
+  const body = text
+    .replace(/<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>]*>/g, "")
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, data: string) => data.replace(/&/g, "&amp;").replace(/</g, "&lt;"));
+
+  const root: CamtElement = { name: "ROOT", attributes: {}, children: [] };
+  const stack: CamtElement[] = [root];
+
+  for (const [, closing, name, attributeText, selfClosing, textValue] of body.matchAll(XML_TOKEN_PATTERN)) {
+    const parent = stack[stack.length - 1];
+    if (textValue !== undefined) {
+      if (textValue.trim()) parent.text = (parent.text ?? "") + decodeXmlText(textValue.trim());
+      continue;
+    }
+
+    if (closing) {
+      if (stack.length > 1 && parent.name === name) stack.pop();
+      continue;
+    }
+
+    const attributes: Record<string, string> = {};
+    for (const [, attribute, doubleQuoted, singleQuoted] of attributeText.matchAll(XML_ATTRIBUTE_PATTERN)) {
+      attributes[attribute] = decodeXmlText(doubleQuoted ?? singleQuoted ?? "");
+    }
+
+    const element: CamtElement = { name, attributes, children: [] };
+    parent.children.push(element);
+    if (!selfClosing) stack.push(element);
+  }
+
+  const document = root.children.find((element) => element.name === "Document");
+  if (!document) {
+    throw new Error("Not a camt file: no <Document> element");
+  }
+  return document;
+}
+
+function decodeXmlText(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code.startsWith("#x") || code.startsWith("#X")) return String.fromCodePoint(parseInt(code.slice(2), 16));
+    if (code.startsWith("#")) return String.fromCodePoint(parseInt(code.slice(1), 10));
+    return XML_ENTITIES[entity.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * The elements at a path of child names under an element: "Bal",
+ * "NtryDtls/TxDtls"
+ */
+export function getCamtElements(element: CamtElement | null, path: string): CamtElement[] {
+  if (!element) return [];
+
+  let elements = [element];
+  for (const name of path.split("/")) {
+    elements = elements.flatMap((current) => current.children.filter((child) => child.name === name));
+  }
+  return elements;
+}
+
+/**
+ * The first element at a path under an element
+ */
+export function getCamtElement(element: CamtElement | null, path: string): CamtElement | null {
+  return getCamtElements(element, path)[0] ?? null;
+}
+
+/**
+ * The text of the first element at a path under an element
+ */
+export function getCamtValue(element: CamtElement | null, path: string): string | null {
+  return getCamtElement(element, path)?.text?.trim() || null;
+}
@@ -0,0 +1,269 @@
+import type { Account, ProcessedStatementData, Transaction, TransactionBucketKey } from "../parsers";
+import { type Cents, fromCents, parseMoney } from "../money";
+import { getLastFour } from "../statement-files";
+import { type CamtElement, getCamtElement, getCamtElements, getCamtValue, readCamt } from "./camt-reader";
+
+/**
+ * camt.053 statements
+ *
+ * Reads ISO 20022 bank-to-customer statements (camt.053), which European
+ * banks provide instead of or next to PDFs, into a parsed statement. Each
+ * <Stmt> is a statement of an account identified by its IBAN; statements of
+ * the same account, like a file with a statement per day, are joined into
+ * one account. Booked entries become transactions with their booking date,
+ * value date, counterparty and remittance information; the opening and
+ * closing booked balances are reconciled against them.
+ */
+
+// Account type codes (ExternalCashAccountType1Code) -> account type
+const CAMT_ACCOUNT_TYPES: Record<string, string> = {
+  CACC: "CHECKING",
+  CASH: "CHECKING",
+  TRAN: "CHECKING",
+  SVGS: "SAVINGS",
+  MOMA: "SAVINGS",
+  CARD: "CREDIT",
+};
+
+// Bank transaction sub-family codes -> bucket, for money out
+const CAMT_TRANSACTION_BUCKETS: Record<string, TransactionBucketKey> = {
+  CWDL: "atmDebit", // Cash withdrawal
+  POSD: "atmDebit", // Point-of-sale debit
+  CCHQ: "checks",
+  BCHQ: "checks",
+  CHRG: "fees",
+  FEES: "fees",
+  COMM: "fees",
+};
+
+// Balance type codes: opening booked, previous closing booked and closing booked
+const OPENING_BALANCE_CODES = ["OPBD", "PRCD"];
+const CLOSING_BALANCE_CODE = "CLBD";
+
+/**
+ * Read a camt.053 file, with an account per account id it contains
+ * @throws When the file isn't camt or contains no statements
+ */
+export function buildCamtStatement(text: string): ProcessedStatementData {
+  const document = readCamt(text);
+  const statements = getCamtElements(document, "BkToCstmrStmt/Stmt");
+  if (statements.length === 0) {
+    throw new Error("No statements found in the camt file; only camt.053 statements can be imported");
+  }
+
+  const reviewReasons: string[] = [];
+  const accounts = new Map<string, Account>();
+  const periodStarts: string[] = [];
+  const periodEnds: string[] = [];
+  let bankName: string | null = null;
+  let pendingEntries = 0;
+
+  for (const statement of statements) {
+    const accountElement = getCamtElement(statement, "Acct");
+    const accountId = getCamtValue(accountElement, "Id/IBAN") ?? getCamtValue(accountElement, "Id/Othr/Id");
+    if (!accountId) {
+      reviewReasons.push("camt statement without an account id was skipped");
+      continue;
+    }
+
+    // The account servicer (bank), by name or BIC
+    bankName ||=
+      getCamtValue(accountElement, "Svcr/FinInstnId/Nm") ||
+      getCamtValue(accountElement, "Svcr/FinInstnId/BICFI") ||
+      getCamtValue(accountElement, "Svcr/FinInstnId/BIC");
+
+    // Statements of the same account share one account
+    let account = accounts.get(accountId);
+    if (!account) {
+      account = {
+        accountNumberLast4: getLastFour(accountId),
+        accountId,
+        accountType: CAMT_ACCOUNT_TYPES[getCamtValue(accountElement, "Tp/Cd") ?? ""] ?? "OTHER",
+        allTransactions: { deposits: [], atmDebit: [], withdrawals: [], checks: [], fees: [], other: [] },
+        metadata: {},
+      };
+      accounts.set(accountId, account);
+    }
+
+    const readAmount = (element: CamtElement | null): Cents | null => readCamtAmount(element, reviewReasons);
+
+    // Opening and closing booked balances, with the dates they're struck on
+    let openingDate: string | null = null;
+    let closingDate: string | null = null;
+    for (const balance of getCamtElements(statement, "Bal")) {
+      const code = getCamtValue(balance, "Tp/CdOrPrtry/Cd");
+      const amount = readAmount(balance);
+      if (amount === null) continue;
+
+      const date = readCamtDate(getCamtElement(balance, "Dt"));
+      if (code && OPENING_BALANCE_CODES.includes(code)) {
+        // The first statement's opening balance opens the account
+        if (account.metadata!.beginningBalance === undefined) account.metadata!.beginningBalance = fromCents(amount);
+        openingDate = openingDate ?? date;
+      } else if (code === CLOSING_BALANCE_CODE) {
+        // The last statement's closing balance closes it
+        account.metadata!.endingBalance = fromCents(amount);
+        closingDate = date;
+      }
+    }
+
+    // The statement's date range, or else the dates of its balances
+    const start = readCamtDate(getCamtElement(statement, "FrToDt"), "FrDtTm") ?? openingDate;
+    const end = readCamtDate(getCamtElement(statement, "FrToDt"), "ToDtTm") ?? closingDate;
+    if (start) periodStarts.push(start);
+    if (end) periodEnds.push(end);
+
+    for (const entry of getCamtElements(statement, "Ntry")) {
+      // Pending and informational entries aren't on the account yet
+      const status = getCamtValue(entry, "Sts/Cd") ?? getCamtValue(entry, "Sts");
+      if (status && status !== "BOOK") {
+        pendingEntries++;
+        continue;
+      }
+
+      const amount = readAmount(entry);
+      const bucket = getBucket(entry, amount, account.accountType === "CREDIT");
+      (account.allTransactions![bucket] ||= []).push(...readCamtEntry(entry, amount, readAmount));
+    }
+  }
+
+  if (pendingEntries > 0) {
+    reviewReasons.push(`${pendingEntries} pending entries in the camt file were not imported`);
+  }
+  if (accounts.size === 0) {
+    throw new Error("No statements with an account id found in the camt file");
+  }
+
+  // Statements without a date range or balance dates cover their booking dates
+  const transactionDates = [...accounts.values()]
+    .flatMap((account) => Object.values(account.allTransactions || {}).flat())
+    .map((transaction) => transaction.date)
+    .filter((date): date is string => !!date);
+  const starts = periodStarts.length > 0 ? periodStarts : transactionDates;
+  const ends = periodEnds.length > 0 ? periodEnds : transactionDates;
+
+  return {
+    bankName: bankName || "Unknown",
+    accounts: [...accounts.values()],
+    statementPeriodStartDate: starts.length > 0 ? starts.reduce((a, b) => (a < b ? a : b)) : null,
+    statementPeriodEndDate: ends.length > 0 ? ends.reduce((a, b) => (a > b ? a : b)) : null,
+    rawText: text,
+    entities: [],
+    reviewReasons,
+  };
+}
+
+/**
+ * The transactions of a booked entry. A batch entry whose transaction
+ * details each carry an amount adding up to the entry's becomes a
+ * transaction per detail; other entries are one transaction.
+ */
+function readCamtEntry(
+  entry: CamtElement,
+  amount: Cents | null,
+  readAmount: (element: CamtElement | null) => Cents | null
+): Transaction[] {
+  const details = getCamtElements(entry, "NtryDtls/TxDtls");
+  // The bank's reference is unique for the account; NtryRef only within one statement
+  const reference = getCamtValue(entry, "AcctSvcrRef");
+
+  const detailAmounts = details.map((detail) =>
+    readAmount(getCamtElement(detail, "Amt") ? detail : getCamtElement(detail, "AmtDtls/TxAmt"))
+  );
+  const isBatch =
+    details.length > 1 &&
+    amount !== null &&
+    detailAmounts.every((detailAmount) => detailAmount !== null) &&
+    detailAmounts.reduce((sum: number, detailAmount) => sum + Math.abs(detailAmount!), 0) === Math.abs(amount);
+
+  if (!isBatch) {
+    return [toTransaction(entry, details[0] ?? null, amount, reference)];
+  }
+  return details.map((detail, index) => {
+    const detailAmount = Math.sign(amount!) * Math.abs(detailAmounts[index]!);
+    return toTransaction(entry, detail, detailAmount, reference ? `${reference}/${index + 1}` : null);
+  });
+}
+
+function toTransaction(
+  entry: CamtElement,
+  detail: CamtElement | null,
+  amount: Cents | null,
+  externalId: string | null
+): Transaction {
+  // The counterparty is the debtor of money in and the creditor of money out
+  const party = amount !== null && amount > 0 ? "Dbtr" : "Cdtr";
+  const counterparty =
+    getCamtValue(detail, `RltdPties/${party}/Nm`) ?? getCamtValue(detail, `RltdPties/${party}/Pty/Nm`);
+
+  const remittance =
+    getCamtElements(detail, "RmtInf/Ustrd")
+      .map((element) => element.text?.trim())
+      .filter(Boolean)
+      .join(" ") ||
+    getCamtValue(detail, "RmtInf/Strd/CdtrRefInf/Ref") ||
+    getCamtValue(detail, "AddtlTxInf");
+  const entryInfo = getCamtValue(entry, "AddtlNtryInf");
+
+  const bookingDate = readCamtDate(getCamtElement(entry, "BookgDt"));
+  const valueDate = readCamtDate(getCamtElement(entry, "ValDt"));
+
+  return {
+    date: bookingDate ?? valueDate,
+    valueDate,
+    description: [counterparty, remittance].filter(Boolean).join(" ") || entryInfo || "",
+    counterparty,
+    amount: amount === null ? null : fromCents(amount),
+    type: amount !== null && amount > 0 ? "DEPOSIT" : "WITHDRAWAL",
+    externalId,
+    rawRowText: [
+      bookingDate,
+      valueDate,
+      getCamtValue(entry, "CdtDbtInd"),
+      getCamtValue(entry, "Amt"),
+      counterparty,
+      remittance,
+      entryInfo,
+    ]
+      .filter(Boolean)
+      .join(" "),
+  };
+}
+
+function getBucket(entry: CamtElement, amount: Cents | null, isCreditCard: boolean): TransactionBucketKey {
+  if (amount === null) return "other";
+  if (isCreditCard) return amount > 0 ? "payments" : "purchases";
+
+  const subFamily = getCamtValue(entry, "BkTxCd/Domn/Fmly/SubFmlyCd") ?? "";
+  if (amount < 0 && CAMT_TRANSACTION_BUCKETS[subFamily]) return CAMT_TRANSACTION_BUCKETS[subFamily];
+  return amount > 0 ? "deposits" : "withdrawals";
+}
+
+/**
+ * The date of a camt date choice: <Dt>2024-03-14</Dt> or
+ * <DtTm>2024-03-14T10:00:00+01:00</DtTm>, in the bank's time zone
+ */
+function readCamtDate(element: CamtElement | null, dateTimeName = "DtTm"): string | null {
+  const value = getCamtValue(element, "Dt") ?? getCamtValue(element, dateTimeName);
+  const match = value?.match(/^\d{4}-\d{2}-\d{2}/);
+  return match ? match[0] : null;
+}
+
+/**
+ * The signed amount of an element with an <Amt> and a <CdtDbtInd>: debits
+ * are negative. Amounts are written with a decimal point.
+ */
+function readCamtAmount(element: CamtElement | null, reviewReasons: string[]): Cents | null {
+  const value = getCamtValue(element, "Amt");
+  if (!value) return null;
+
+  try {
+    const amount = parseMoney(value, { plainNumbers: true });
+    if (amount === null) return null;
+    return getCamtValue(element, "CdtDbtInd") === "DBIT" ? -Math.abs(amount) : Math.abs(amount);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    if (!reviewReasons.includes(reason)) reviewReasons.push(reason);
+    return null;
+  }
+}
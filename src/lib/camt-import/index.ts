@@ -0,0 +1,2 @@
+export * from "./camt-reader";
+export * from "./camt-statement";
@@ -0,0 +1,254 @@
+import type { PrismaClient, CategorizationRule } from "@/generated/prisma";
+import type { TransactionBucket } from "./transaction-persistence";
+import { toCents, type Cents } from "./money";
+
+/**
+ * Rule-based auto-categorization
+ *
+ * Rules are checked in priority order (lowest first) and the first enabled
+ * rule whose conditions all match assigns its category. Transactions that
+ * were categorized by hand are never touched.
+ */
+
+// A rule with its description matcher prepared for repeated use
+export interface CompiledRule {
+  id: string;
+  name: string;
+  categoryId: string;
+  priority: number;
+  descriptionMatcher: ((description: string) => boolean) | null;
+  minAmount: Cents | null;
+  maxAmount: Cents | null;
+  bankAccountId: string | null;
+  bucket: TransactionBucket | null;
+  dayOfMonthFrom: number | null;
+  dayOfMonthTo: number | null;
+}
+
+// The transaction fields rules can match on
+export interface CategorizableTransaction {
+  description: string;
+  amount: string; // Decimal string as stored
+  bankAccountId: string;
+  bucket: TransactionBucket;
+  transactionDate: Date | null;
+}
+
+export interface CategorizationChange {
+  transactionId: string;
+  description: string;
+  fromCategoryId: string | null;
+  toCategoryId: string | null; // Null when no rule matches a rule-assigned category anymore
+  ruleId: string | null;
+}
+
+export interface CategorizationResult {
+  dryRun: boolean;
+  examined: number;
+  changes: CategorizationChange[];
+}
+
+/**
+ * Check that a rule pattern can be used, returning an error message if not
+ */
+export function validateRulePattern(pattern: string, matchType: "CONTAINS" | "REGEX"): string | null {
+  if (!pattern.trim()) return "Pattern cannot be empty";
+  if (matchType !== "REGEX") return null;
+
+  try {
+    new RegExp(pattern, "i");
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid regular expression";
+  }
+}
+
+/**
+ * Prepare stored rules for matching, dropping disabled rules and rules with
+ * a pattern that no longer compiles
+ */
+export function compileRules(rules: CategorizationRule[]): CompiledRule[] {
+  const compiled: CompiledRule[] = [];
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+
+    let descriptionMatcher: CompiledRule["descriptionMatcher"] = null;
+    if (rule.descriptionPattern) {
+      if (rule.matchType === "REGEX") {
+        try {
+          const regex = new RegExp(rule.descriptionPattern, "i");
+          descriptionMatcher = (description) => regex.test(description);
+        } catch (error) {
+          console.warn(`Skipping rule ${rule.id} with invalid pattern: ${error}`);
+          continue;
+        }
+      } else {
+        const needle = rule.descriptionPattern.toLowerCase();
+        descriptionMatcher = (description) => description.toLowerCase().includes(needle);
+      }
+    }
+
+    compiled.push({
+      id: rule.id,
+      name: rule.name,
+      categoryId: rule.categoryId,
+      priority: rule.priority,
+      descriptionMatcher,
+      minAmount: rule.minAmount !== null ? toCents(rule.minAmount) : null,
+      maxAmount: rule.maxAmount !== null ? toCents(rule.maxAmount) : null,
+      bankAccountId: rule.bankAccountId,
+      bucket: rule.bucket,
+      dayOfMonthFrom: rule.dayOfMonthFrom,
+      dayOfMonthTo: rule.dayOfMonthTo,
+    });
+  }
+
+  // Stable tie-break on id so equal priorities always resolve the same way
+  return compiled.sort((a, b) => a.priority - b.priority || a.id.localeCompare(b.id));
+}
+
+/**
+ * Check whether a day of month falls within a rule's range.
+ * A range whose start is after its end wraps around the month end.
+ */
+function matchesDayOfMonth(day: number, from: number | null, to: number | null): boolean {
+  const start = from ?? 1;
+  const end = to ?? 31;
+  return start <= end ? day >= start && day <= end : day >= start || day <= end;
+}
+
+/**
+ * Check whether every condition of a rule matches a transaction
+ */
+export function ruleMatches(rule: CompiledRule, transaction: CategorizableTransaction): boolean {
+  if (rule.descriptionMatcher && !rule.descriptionMatcher(transaction.description)) return false;
+
+  const absoluteAmount = Math.abs(toCents(transaction.amount));
+  if (rule.minAmount !== null && absoluteAmount < rule.minAmount) return false;
+  if (rule.maxAmount !== null && absoluteAmount > rule.maxAmount) return false;
+
+  if (rule.bankAccountId && rule.bankAccountId !== transaction.bankAccountId) return false;
+  if (rule.bucket && rule.bucket !== transaction.bucket) return false;
+
+  if (rule.dayOfMonthFrom !== null || rule.dayOfMonthTo !== null) {
+    if (!transaction.transactionDate) return false;
+    if (!matchesDayOfMonth(transaction.transactionDate.getUTCDate(), rule.dayOfMonthFrom, rule.dayOfMonthTo)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Find the first rule (in priority order) that matches a transaction
+ */
+export function findMatchingRule(rules: CompiledRule[], transaction: CategorizableTransaction): CompiledRule | null {
+  return rules.find((rule) => ruleMatches(rule, transaction)) ?? null;
+}
+
+/**
+ * Derive a reusable description pattern from a transaction description,
+ * e.g. "CHECKCARD 0312 SHELL OIL 57444 SAN JOSE CA" -> "SHELL OIL"
+ */
+export function suggestRulePattern(description: string): string {
+  const noiseWords = new Set(["CHECKCARD", "PURCHASE", "POS", "DEBIT", "CARD", "RECURRING", "ONLINE", "PAYMENT", "ACH", "WEB"]);
+
+  const words = description
+    .toUpperCase()
+    .split(/\s+/)
+    .filter((word) => word && !/[\d#*]/.test(word) && !noiseWords.has(word));
+
+  return words.slice(0, 2).join(" ") || description.trim();
+}
+
+/**
+ * Run the user's rules over their transactions.
+ * Only uncategorized transactions and ones previously categorized by a rule
+ * are considered; a rule-assigned category that no rule gives anymore, e.g.
+ * after its rule was edited or disabled, is cleared. With dryRun the changes
+ * are returned without being saved.
+ */
+export async function applyCategorizationRules(
+  prisma: PrismaClient,
+  userId: string,
+  options: { statementId?: string; transactionIds?: string[]; dryRun?: boolean } = {}
+): Promise<CategorizationResult> {
+  const dryRun = options.dryRun ?? false;
+
+  const rules = compileRules(
+    await prisma.categorizationRule.findMany({
+      where: { userId },
+    })
+  );
+
+  const transactions = await prisma.transaction.findMany({
+    where: {
+      statement: { userId },
+      statementId: options.statementId,
+      id: options.transactionIds ? { in: options.transactionIds } : undefined,
+      // Without rules only rule-assigned categories can change
+      OR: [
+        ...(rules.length > 0 ? [{ categoryId: null }] : []),
+        { categoryRuleId: { not: null } },
+      ],
+    },
+    select: {
+      id: true,
+      description: true,
+      amount: true,
+      bankAccountId: true,
+      bucket: true,
+      transactionDate: true,
+      categoryId: true,
+      categoryRuleId: true,
+    },
+  });
+
+  const changes: CategorizationChange[] = [];
+
+  for (const transaction of transactions) {
+    const rule = findMatchingRule(rules, {
+      description: transaction.description,
+      amount: transaction.amount.toString(),
+      bankAccountId: transaction.bankAccountId,
+      bucket: transaction.bucket,
+      transactionDate: transaction.transactionDate,
+    });
+
+    if (!rule && !transaction.categoryRuleId) continue;
+    if (rule && rule.categoryId === transaction.categoryId && rule.id === transaction.categoryRuleId) continue;
+
+    changes.push({
+      transactionId: transaction.id,
+      description: transaction.description,
+      fromCategoryId: transaction.categoryId,
+      toCategoryId: rule?.categoryId ?? null,
+      ruleId: rule?.id ?? null,
+    });
+  }
+
+  if (!dryRun && changes.length > 0) {
+    // One update per rule rather than one per transaction, plus one for the cleared categories
+    const changesByRule = new Map<string | null, CategorizationChange[]>();
+    for (const change of changes) {
+      const ruleChanges = changesByRule.get(change.ruleId) || [];
+      ruleChanges.push(change);
+      changesByRule.set(change.ruleId, ruleChanges);
+    }
+
+    await prisma.$transaction(
+      [...changesByRule.entries()].map(([ruleId, ruleChanges]) =>
+        prisma.transaction.updateMany({
+          where: { id: { in: ruleChanges.map((change) => change.transactionId) } },
+          data: { categoryId: ruleChanges[0].toCategoryId, categoryRuleId: ruleId },
+        })
+      )
+    );
+
+    console.log(`Recategorized ${changes.length} transactions`);
+  }
+
+  return { dryRun, examined: transactions.length, changes };
+}
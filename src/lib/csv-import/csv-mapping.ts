@@ -0,0 +1,91 @@
+import { z } from "zod";
+import type { DateOrder } from "../statement-dates";
+
+/**
+ * How the columns of a bank's CSV activity export map to transactions.
+ * Columns are named by their header, or "Column 1", "Column 2", ... in files
+ * without a header row. Amounts are either signed in one column or split
+ * into money out (debit) and money in (credit) columns.
+ */
+export interface CsvMapping {
+  delimiter: string;
+  hasHeaderRow: boolean;
+  dateColumn: string;
+  descriptionColumn: string;
+  amountColumn?: string | null;
+  debitColumn?: string | null;
+  creditColumn?: string | null;
+  balanceColumn?: string | null;
+  dateOrder: DateOrder;
+  decimalSeparator: string; // "." or ","
+  invertAmounts: boolean; // Amounts are positive for money out, as in many card exports
+}
+
+export const csvMappingSchema = z
+  .object({
+    delimiter: z.string().length(1),
+    hasHeaderRow: z.boolean(),
+    dateColumn: z.string().min(1),
+    descriptionColumn: z.string().min(1),
+    amountColumn: z.string().min(1).nullable().optional(),
+    debitColumn: z.string().min(1).nullable().optional(),
+    creditColumn: z.string().min(1).nullable().optional(),
+    balanceColumn: z.string().min(1).nullable().optional(),
+    dateOrder: z.enum(["MDY", "DMY", "YMD"]),
+    decimalSeparator: z.enum([".", ","]),
+    invertAmounts: z.boolean(),
+  })
+  .refine((mapping) => mapping.amountColumn || (mapping.debitColumn && mapping.creditColumn), {
+    message: "Map either an amount column or both debit and credit columns",
+  });
+
+// Header names banks use for each mapped column, best match first
+const COLUMN_ALIASES: Record<"date" | "description" | "amount" | "debit" | "credit" | "balance", RegExp[]> = {
+  date: [/^date$/i, /^(transaction|trans\.?|posting|post|posted|value) date$/i],
+  description: [/^description$/i, /^(details|payee|merchant|memo|name|transaction)$/i],
+  amount: [/^amount$/i, /^(transaction amount|amount \(\w+\))$/i],
+  debit: [/^(debit|debits|withdrawal|withdrawals|money out|paid out)( amount)?$/i],
+  credit: [/^(credit|credits|deposit|deposits|money in|paid in)( amount)?$/i],
+  balance: [/^(running )?balance$/i],
+};
+
+/**
+ * Column names of a file: its header row, or numbered names when it has none
+ */
+export function getCsvColumns(rows: string[][], hasHeaderRow: boolean): string[] {
+  if (hasHeaderRow) return rows[0] || [];
+
+  const width = Math.max(0, ...rows.map((row) => row.length));
+  return Array.from({ length: width }, (_, index) => `Column ${index + 1}`);
+}
+
+/**
+ * Guess a mapping from a file's header names, for a bank without a saved profile
+ */
+export function suggestCsvMapping(columns: string[], delimiter: string): CsvMapping {
+  const find = (patterns: RegExp[]) => {
+    for (const pattern of patterns) {
+      const column = columns.find((name) => pattern.test(name.trim()));
+      if (column) return column;
+    }
+    return null;
+  };
+
+  const amountColumn = find(COLUMN_ALIASES.amount);
+  const debitColumn = amountColumn ? null : find(COLUMN_ALIASES.debit);
+  const creditColumn = amountColumn ? null : find(COLUMN_ALIASES.credit);
+
+  return {
+    delimiter,
+    hasHeaderRow: true,
+    dateColumn: find(COLUMN_ALIASES.date) ?? columns[0] ?? "",
+    descriptionColumn: find(COLUMN_ALIASES.description) ?? columns[1] ?? "",
+    amountColumn,
+    debitColumn,
+    creditColumn,
+    balanceColumn: find(COLUMN_ALIASES.balance),
+    dateOrder: "MDY",
+    decimalSeparator: delimiter === ";" ? "," : ".",
+    invertAmounts: false,
+  };
+}
@@ -0,0 +1,83 @@
+export const CSV_MIME_TYPE = "text/csv";
+
+// Delimiters tried when a file's delimiter isn't known yet
+export const CSV_DELIMITERS = [",", ";", "\t", "|"] as const;
+
+/**
+ * Whether an upload is a CSV file. Browsers report .csv files as text/csv,
+ * as application/vnd.ms-excel on Windows or without a type.
+ */
+export function isCsvFile(fileType: string | null | undefined, filename?: string | null): boolean {
+  if (fileType === CSV_MIME_TYPE) return true;
+  return (!fileType || fileType === "application/vnd.ms-excel") && !!filename?.toLowerCase().endsWith(".csv");
+}
+
+/**
+ * Split CSV text into rows of cells. Quoted cells may contain the delimiter,
+ * line breaks and doubled quotes (""). Blank lines are dropped.
+ */
+export function readCsv(text: string, delimiter: string = ","): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  // A byte order mark would end up in the first header
+  const input = text.replace(/^\uFEFF/, "");
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim() !== "")) rows.push(row);
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === "") {
+      quoted = true;
+      cell = "";
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  endRow();
+
+  return rows.map((cells) => cells.map((value) => value.trim()));
+}
+
+/**
+ * Guess a file's delimiter from its first line: the candidate that splits it
+ * into the most cells
+ */
+export function detectCsvDelimiter(text: string): string {
+  const firstLine = text.replace(/^\uFEFF/, "").split(/\r?\n/).find((line) => line.trim() !== "") || "";
+
+  let best: string = CSV_DELIMITERS[0];
+  let bestCount = 0;
+  for (const delimiter of CSV_DELIMITERS) {
+    const count = readCsv(firstLine, delimiter)[0]?.length ?? 0;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,158 @@
+import type { Account, ProcessedStatementData, Transaction } from "../parsers";
+import { type Cents, fromCents, parseMoney, type MoneyFormat } from "../money";
+import { parseOrderedDate, toIsoDate } from "../statement-dates";
+import { readCsv } from "./csv-reader";
+import { type CsvMapping, getCsvColumns } from "./csv-mapping";
+import type { ImportAccount } from "../statement-files";
+
+/**
+ * CSV statements
+ *
+ * Turns a CSV activity export into the same parsed statement the PDF parsers
+ * produce, so imported rows go through persistence, categorization and
+ * review like any statement. An export has no statement period or account
+ * number: the period runs from the first to the last transaction date and
+ * the account is the one the file was uploaded for.
+ */
+
+interface CsvRow {
+  date: Date | null;
+  transaction: Transaction;
+  amount: Cents | null;
+  balance: Cents | null;
+}
+
+/**
+ * Read a CSV export with a column mapping
+ * @throws When a mapped column is missing from the file or no row has a date
+ */
+export function buildCsvStatement(text: string, mapping: CsvMapping, csvAccount: ImportAccount): ProcessedStatementData {
+  const rows = readCsv(text, mapping.delimiter);
+  const columns = getCsvColumns(rows, mapping.hasHeaderRow);
+  const dataRows = mapping.hasHeaderRow ? rows.slice(1) : rows;
+
+  const columnIndex = (column: string | null | undefined): number | null => {
+    if (!column) return null;
+    const index = columns.findIndex((name) => name.trim().toLowerCase() === column.trim().toLowerCase());
+    if (index === -1) {
+      throw new Error(`CSV column "${column}" not found`);
+    }
+    return index;
+  };
+
+  const dateIndex = columnIndex(mapping.dateColumn) as number;
+  const descriptionIndex = columnIndex(mapping.descriptionColumn) as number;
+  const amountIndex = columnIndex(mapping.amountColumn);
+  const debitIndex = columnIndex(mapping.debitColumn);
+  const creditIndex = columnIndex(mapping.creditColumn);
+  const balanceIndex = columnIndex(mapping.balanceColumn);
+
+  const format: MoneyFormat = {
+    decimalSeparator: mapping.decimalSeparator === "," ? "," : ".",
+    plainNumbers: true,
+  };
+  const sign = mapping.invertAmounts ? -1 : 1;
+  const reviewReasons: string[] = [];
+
+  // Unreadable amounts are reported once each and leave the row without an amount
+  const readAmount = (cell: string | undefined): Cents | null => {
+    if (!cell) return null;
+    try {
+      return parseMoney(cell, format);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      if (!reviewReasons.includes(reason)) reviewReasons.push(reason);
+      return null;
+    }
+  };
+
+  const csvRows: CsvRow[] = [];
+  for (const cells of dataRows) {
+    const dateText = cells[dateIndex] || "";
+    const date = parseOrderedDate(dateText, mapping.dateOrder);
+
+    let amount: Cents | null;
+    if (amountIndex !== null) {
+      const signed = readAmount(cells[amountIndex]);
+      amount = signed === null ? null : signed * sign;
+    } else {
+      // Banks print the split columns unsigned or signed, so the column decides
+      const debit = readAmount(cells[debitIndex as number]);
+      const credit = readAmount(cells[creditIndex as number]);
+      amount = debit ? -Math.abs(debit) : credit !== null ? Math.abs(credit) : debit;
+    }
+
+    // Totals and notes under the transactions have neither a date nor an amount
+    if (!date && amount === null) continue;
+
+    const balance = balanceIndex !== null ? readAmount(cells[balanceIndex]) : null;
+
+    csvRows.push({
+      date,
+      amount,
+      balance: balance === null ? null : balance * sign,
+      transaction: {
+        // Dates that can't be read are kept as exported so the row is flagged
+        date: date ? toIsoDate(date) : dateText || null,
+        description: cells[descriptionIndex] || "",
+        amount: amount === null ? null : fromCents(amount),
+        type: amount !== null && amount > 0 ? "DEPOSIT" : "WITHDRAWAL",
+        rawRowText: cells.join(mapping.delimiter),
+      },
+    });
+  }
+
+  const dates = csvRows.map((row) => row.date).filter((date): date is Date => date !== null);
+  if (dates.length === 0) {
+    throw new Error("No dated transactions found in the CSV file");
+  }
+  const periodStart = new Date(Math.min(...dates.map((date) => date.getTime())));
+  const periodEnd = new Date(Math.max(...dates.map((date) => date.getTime())));
+
+  // Exports list the newest transactions first or last
+  const firstDate = dates[0];
+  const lastDate = dates[dates.length - 1];
+  const chronological = firstDate > lastDate ? [...csvRows].reverse() : csvRows;
+
+  const account: Account = {
+    accountNumberLast4: csvAccount.accountNumberLast4,
+    accountType: csvAccount.accountType,
+    allTransactions: { deposits: [], atmDebit: [], withdrawals: [], checks: [], fees: [], other: [] },
+    metadata: getBalances(chronological),
+  };
+
+  const isCreditCard = csvAccount.accountType === "CREDIT";
+  const transactions = account.allTransactions!;
+  for (const row of chronological) {
+    const bucket =
+      row.amount === null ? "other"
+      : isCreditCard ? (row.amount > 0 ? "payments" : "purchases")
+      : row.amount > 0 ? "deposits" : "withdrawals";
+    (transactions[bucket] ||= []).push(row.transaction);
+  }
+
+  return {
+    bankName: csvAccount.bankName,
+    accounts: [account],
+    statementPeriodStartDate: toIsoDate(periodStart),
+    statementPeriodEndDate: toIsoDate(periodEnd),
+    rawText: text,
+    entities: [],
+    reviewReasons,
+  };
+}
+
+/**
+ * Beginning and ending balance from the running balance column: the balance
+ * before the first transaction and after the last
+ */
+function getBalances(chronological: CsvRow[]): Account["metadata"] {
+  const first = chronological[0];
+  const last = chronological[chronological.length - 1];
+  if (first.balance === null || first.amount === null || last.balance === null) return {};
+
+  return {
+    beginningBalance: fromCents(first.balance - first.amount),
+    endingBalance: fromCents(last.balance),
+  };
+}
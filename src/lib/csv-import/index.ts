@@ -0,0 +1,3 @@
+export * from "./csv-reader";
+export * from "./csv-mapping";
+export * from "./csv-statement";
@@ -0,0 +1,47 @@
+import type { PrismaClient } from "@/generated/prisma";
+
+/**
+ * Default spending categories created for every new user
+ */
+
+interface DefaultCategory {
+  name: string;
+  description: string;
+  color: string; // Hex color code
+  icon: string; // lucide-react icon name
+}
+
+export const DEFAULT_CATEGORIES: DefaultCategory[] = [
+  { name: "Income", description: "Salary, refunds and other money coming in", color: "#16a34a", icon: "Banknote" },
+  { name: "Transfers", description: "Moves between your own accounts", color: "#64748b", icon: "ArrowLeftRight" },
+  { name: "Housing", description: "Rent, mortgage and home maintenance", color: "#9333ea", icon: "Home" },
+  { name: "Utilities", description: "Electricity, water, internet and phone", color: "#0891b2", icon: "Plug" },
+  { name: "Groceries", description: "Supermarkets and food stores", color: "#65a30d", icon: "ShoppingCart" },
+  { name: "Dining", description: "Restaurants, cafes and takeout", color: "#ea580c", icon: "Utensils" },
+  { name: "Transportation", description: "Transit, rideshare, parking and tolls", color: "#2563eb", icon: "Bus" },
+  { name: "Fuel", description: "Gas stations and EV charging", color: "#ca8a04", icon: "Fuel" },
+  { name: "Shopping", description: "Retail and online purchases", color: "#db2777", icon: "ShoppingBag" },
+  { name: "Health", description: "Doctors, pharmacy and insurance", color: "#dc2626", icon: "HeartPulse" },
+  { name: "Entertainment", description: "Streaming, events and hobbies", color: "#7c3aed", icon: "Clapperboard" },
+  { name: "Travel", description: "Flights, hotels and vacations", color: "#0d9488", icon: "Plane" },
+  { name: "Fees & Charges", description: "Bank fees, interest and service charges", color: "#475569", icon: "Receipt" },
+  { name: "Cash", description: "ATM withdrawals", color: "#4d7c0f", icon: "Wallet" },
+  { name: "Other", description: "Everything else", color: "#94a3b8", icon: "CircleHelp" },
+];
+
+/**
+ * Create the default categories for a user.
+ * Categories the user already has (by name) are left untouched.
+ * @returns Number of categories created
+ */
+export async function seedDefaultCategories(prisma: PrismaClient, userId: string): Promise<number> {
+  const result = await prisma.category.createMany({
+    data: DEFAULT_CATEGORIES.map((category) => ({
+      userId,
+      ...category,
+    })),
+    skipDuplicates: true,
+  });
+
+  return result.count;
+}
@@ -1,24 +1,20 @@
-import { DocumentProcessorServiceClient } from "@google-cloud/documentai";
 import dotenv from 'dotenv';
 import { 
   BankStatementParser, 
   ProcessedStatementData,
-  BankOfAmericaStatementParser,
-  ChaseStatementParser,
-  GenericBankStatementParser
+  GenericBankStatementParser,
+  DETECTION_PAGE_COUNT,
+  detectStatementParser
 } from './parsers';
 import { DocumentProcessor } from './document-processor';
+import { getDefaultProcessorId } from './extraction';
+import { registerParserDefinitions } from './parser-definitions';
+import { normalizeStatementDates } from './statement-dates';
 
 dotenv.config();
 
-// Environment configuration
-const GCLOUD_PROJECT_ID = process.env.GOOGLE_CLOUD_PROJECT_ID;
-const GCLOUD_LOCATION = process.env.GOOGLE_CLOUD_LOCATION; 
-const GCLOUD_OCR_PROCESSOR_ID = process.env.GOOGLE_DOCUMENT_AI_OCR_PROCESSOR_ID;
-const GCLOUD_FORM_PROCESSOR_ID = process.env.GOOGLE_DOCUMENT_AI_FORM_PROCESSOR_ID;
-
 /**
- * Process a bank statement using Document AI Form Parser
+ * Process a bank statement with the configured extraction backend
  * This provides backward compatibility with the existing API
  */
 export async function processStatement(
@@ -31,7 +27,7 @@ export async function processStatement(
     // Create and use a DocumentProcessor for initial document processing
     const processor = new DocumentProcessor();
     // Use Form Parser if available, with OCR as fallback
-    const processorId = GCLOUD_FORM_PROCESSOR_ID || GCLOUD_OCR_PROCESSOR_ID;
+    const processorId = getDefaultProcessorId();
     const success = await processor.processDocument(filePath, fileType, processorId);
     
     if (!success) {
@@ -39,73 +35,38 @@ export async function processStatement(
       return null;
     }
     
-    // Analyze the first page to identify the bank
+    // The first page's text is handed to the parser
     const firstPage = await processor.processPage(1);
     if (!firstPage) {
       console.error("Failed to process the first page");
       return null;
     }
     
-    // Look for bank identifiers in the page text
-    let bankName: string | null = null;
-    const fullText = firstPage.fullText;
+    // Parsers from definition files take part in detection like the built-in ones
+    await registerParserDefinitions();
     
-    // Check for common bank names
-    const bankPatterns = [
-      { name: 'Bank of America', pattern: /bank\s+of\s+america|bankofamerica|bofa/i },
-      { name: 'Chase', pattern: /chase|jpmorgan/i },
-      { name: 'Wells Fargo', pattern: /wells\s+fargo/i },
-      { name: 'Citibank', pattern: /citi|citibank/i },
-      { name: 'Capital One', pattern: /capital\s+one/i }
-    ];
+    // Let the registered parsers score the first pages and pick the best match
+    const detectionPages = await processor.processPageRange(1, Math.min(DETECTION_PAGE_COUNT, processor.getPageCount()));
+    const detection = detectStatementParser(detectionPages);
     
-    for (const bank of bankPatterns) {
-      if (bank.pattern.test(fullText)) {
-        bankName = bank.name;
-        console.log(`Detected bank: ${bankName}`);
-        break;
-      }
-    }
+    const ocrResult = { success: true, fullPageText: firstPage.fullText, visualBlocks: firstPage.textBlocks };
+    const parser: BankStatementParser = detection.parser
+      ? new detection.parser(ocrResult, filePath, fileType, processor)
+      // Generic processing for unrecognized banks
+      : new GenericBankStatementParser(ocrResult, filePath, fileType, detection.bankName, processor);
     
-    if (!bankName) {
-      console.warn("Could not identify the bank from document content");
-      bankName = "Unknown";
-    }
+    // Process using the selected parser
+    const processedData = await parser.process();
     
-    // Create the appropriate parser based on the bank
-    let parser: BankStatementParser;
+    // Every parser's dates leave here as ISO dates
+    normalizeStatementDates(processedData);
     
-    switch (bankName) {
-      case 'Bank of America':
-        parser = new BankOfAmericaStatementParser(
-          { success: true, fullPageText: fullText, visualBlocks: firstPage.textBlocks },
-          filePath,
-          fileType,
-          processor
-        );
-        break;
-      case 'Chase':
-        parser = new ChaseStatementParser(
-          { success: true, fullPageText: fullText, visualBlocks: firstPage.textBlocks },
-          filePath,
-          fileType,
-          processor
-        );
-        break;
-      default:
-        // Generic processing for unrecognized banks
-        parser = new GenericBankStatementParser(
-          { success: true, fullPageText: fullText, visualBlocks: firstPage.textBlocks },
-          filePath,
-          fileType,
-          bankName,
-          processor
-        );
-        break;
+    // Uncertain bank matches and unreadable amounts go to review
+    const reviewReasons = [...parser.getReviewReasons(), ...(detection.reviewReason ? [detection.reviewReason] : [])];
+    if (reviewReasons.length > 0) {
+      processedData.reviewReasons = [...(processedData.reviewReasons || []), ...reviewReasons];
     }
     
-    // Process using the selected parser
-    const processedData = await parser.process();
     return processedData;
     
   } catch (error) {
@@ -1,72 +1,53 @@
-// Try to import DocumentAI, but provide mock if it's not available
-import { protos } from "@google-cloud/documentai";
-import { promises as fs } from "fs";
-import path from "path";
-import crypto from "crypto";
 import dotenv from 'dotenv';
-
-let documentai: any;
-let DocumentProcessorServiceClient: any;
-let documentAiAvailable = true;
-
-try {
-  documentai = require("@google-cloud/documentai");
-  DocumentProcessorServiceClient = documentai.DocumentProcessorServiceClient;
-} catch (error) {
-  console.warn("@google-cloud/documentai module not available, using mock implementation");
-  documentAiAvailable = false;
-  // Create a mock DocumentProcessorServiceClient
-  DocumentProcessorServiceClient = class MockDocumentProcessorServiceClient {
-    async processDocument() {
-      console.warn("Using mock DocumentProcessorServiceClient - document processing not available");
-      return [{ document: null }];
-    }
-  };
-}
+import { createExtractionBackend, recordExtractionFixture } from "./extraction";
+import type { ExtractedEntity, ExtractionBackend, ProcessedPage, ProcessedTable, TextBlock } from "./extraction";
 
 dotenv.config();
 
-// Core type aliases from Google Cloud SDK
-type IDocument = protos.google.cloud.documentai.v1.IDocument;
-type IDocumentPage = protos.google.cloud.documentai.v1.Document.IPage;
-type IDocumentEntity = protos.google.cloud.documentai.v1.Document.IEntity;
-type IDocumentTable = protos.google.cloud.documentai.v1.Document.Page.ITable;
-type IDocumentTableCell = protos.google.cloud.documentai.v1.Document.Page.Table.ITableCell;
+// Page structures live with the extraction backends; re-exported for the parsers
+export type { TextBlock, ProcessedTable, ProcessedPage } from "./extraction";
 
-// Environment configuration
-const GCLOUD_PROJECT_ID = process.env.GOOGLE_CLOUD_PROJECT_ID;
-const GCLOUD_LOCATION = process.env.GOOGLE_CLOUD_LOCATION; 
-const GCLOUD_OCR_PROCESSOR_ID = process.env.GOOGLE_DOCUMENT_AI_OCR_PROCESSOR_ID;
-const GCLOUD_FORM_PROCESSOR_ID = process.env.GOOGLE_DOCUMENT_AI_FORM_PROCESSOR_ID;
-
-// Define types for text blocks
-export interface TextBlock {
-  text: string;
-  boundingBox: {
-    x1: number;
-    y1: number;
-    x2: number;
-    y2: number;
-  };
+// A line of text on a page: the text blocks sharing a row, left to right
+export interface PageLine {
+  pageNumber: number;
+  cells: string[];
+  blocks: TextBlock[]; // The blocks behind `cells`, for their positions
+  text: string; // Cells joined with single spaces
+  centerY: number;
 }
 
-// Define the structure for a processed table
-export interface ProcessedTable {
-  tableIndex: number;
-  headerCells: string[];
-  rowCount: number;
-  rows?: any[][]; // Optional: processed row data 
+// A logical section of a statement, such as a transaction table, which may
+// continue over several pages
+export interface SectionDefinition {
+  name: string;
+  // Heading lines that open the section. Also matched by its "continued"
+  // headings on later pages, which resume the section instead of opening it again.
+  start: RegExp[];
+  // Lines that close it, e.g. the section total
+  end?: RegExp[];
+  // The table's column header line, dropped wherever the table repeats it
+  header?: RegExp;
 }
 
-// Define the structure for a processed page
-export interface ProcessedPage {
-  pageNumber: number;
-  textBlocks: TextBlock[];
-  tables: ProcessedTable[]; // Will always be initialized as at least an empty array
-  fullText: string;
-  extractedData: Map<string, any>; // Template ID -> extracted data
+// A section's lines stitched together from every page it spans
+export interface StitchedSection {
+  name: string;
+  pages: number[];
+  heading: PageLine;
+  header: PageLine | null;
+  rows: PageLine[];
+  end: PageLine | null; // The line that closed the section, null when it ran into the next section or the last page
 }
 
+// Page furniture dropped from sections
+const PAGE_FURNITURE_PATTERNS = [
+  /^page\s+\d+\s+of\s+\d+$/i,
+  /^\(?continued\s+on\s+(the\s+)?next\s+page\)?$/i,
+];
+
+// Page headers and footers sit in these bands at the top and bottom of a page
+const PAGE_MARGIN = 0.12;
+
 // Define an extraction template
 export interface ExtractionTemplate {
   id: string;
@@ -78,172 +59,53 @@ export interface ExtractionTemplate {
 }
 
 /**
- * DocumentProcessor class for processing documents with Document AI
+ * DocumentProcessor class for reading documents through an extraction backend
  * Provides centralized caching and extraction methods
  */
 export class DocumentProcessor {
-  private client: any = null;
-  private processorName: string | null = null;
+  private backend: ExtractionBackend | null;
   
   // Document storage
-  private document: IDocument | null = null;
-  private documentHash: string | null = null; // Unique identifier based on file content
-  private filePath: string | null = null;
-  private mimeType: string | null = null;
-  
-  // Cache for processed pages
-  private pageCache: Map<number, ProcessedPage> = new Map();
+  private pages: ProcessedPage[] = [];
+  private entities: ExtractedEntity[] = [];
   
   /**
-   * Initialize the Document AI client
+   * @param backend Backend to extract with. Defaults to the one selected by EXTRACTION_BACKEND.
    */
-  private initDocumentAiClient(processorId: string): any {
-    if (!documentAiAvailable) {
-      console.warn("Document AI is not available in this environment. Using mock client.");
-      this.client = new DocumentProcessorServiceClient();
-      return this.client;
-    }
-
-    if (!GCLOUD_PROJECT_ID || !GCLOUD_LOCATION || !processorId) {
-      throw new Error(
-        "Google Cloud Document AI configuration (PROJECT_ID, LOCATION, or PROCESSOR_ID) is missing in environment variables."
-      );
-    }
-  
-    if (!this.client) {
-      try {
-        const credentialsPath = process.env.GOOGLE_APPLICATION_CREDENTIALS;
-        if (!credentialsPath) {
-          throw new Error(
-            "GOOGLE_APPLICATION_CREDENTIALS environment variable not set."
-          );
-        }
-  
-        const fullPath = path.isAbsolute(credentialsPath)
-          ? credentialsPath
-          : path.join(process.cwd(), credentialsPath);
-        
-        if (!require('fs').existsSync(fullPath)) {
-          throw new Error(`Credentials file not found at ${fullPath}`);
-        }
-  
-        this.client = new DocumentProcessorServiceClient({});
-        this.processorName = `projects/${GCLOUD_PROJECT_ID}/locations/${GCLOUD_LOCATION}/processors/${processorId}`;
-        console.log(`Document AI client initialized for processor: ${this.processorName}`);
-  
-      } catch (error) {
-        console.error("Failed to initialize Document AI client:", error);
-        this.client = null; 
-        this.processorName = null;
-        throw error;
-      }
-    }
-    return this.client;
+  constructor(backend?: ExtractionBackend) {
+    this.backend = backend || null;
   }
   
   /**
-   * Process a document with Document AI
+   * Process a document with the extraction backend
    * This is the main method that processes the entire document once
    */
   public async processDocument(filePath: string, mimeType: string, processorId?: string): Promise<boolean> {
     console.log(`Processing document: ${filePath}, MIME Type: ${mimeType}`);
     
-    // If Document AI is not available, return a mock success but log warning
-    if (!documentAiAvailable) {
-      console.warn("Document AI is not available. Document processing will be skipped.");
-      return false;
-    }
+    const backend = this.backend || createExtractionBackend({ processorId });
+    console.log(`Using extraction backend: ${backend.name}`);
     
     try {
-      this.filePath = filePath;
-      this.mimeType = mimeType;
-      
-      // Use the provided processor ID or fall back to OCR processor
-      const actualProcessorId = processorId || GCLOUD_OCR_PROCESSOR_ID;
-      if (!actualProcessorId) {
-        console.error("No Document AI processor ID available. Check your environment variables.");
+      const document = await backend.extract(filePath, mimeType);
+      if (!document) {
+        console.error(`The ${backend.name} backend could not extract the document.`);
         return false;
       }
       
-      // Include processor ID in logs
-      console.log(`Using processor ID: ${actualProcessorId}`);
-      
-      // Generate a hash for the file
-      const fileContent = await fs.readFile(filePath);
-      this.documentHash = crypto
-        .createHash('md5')
-        .update(fileContent)
-        .digest('hex');
-      
-      // Check if we already have this document cached on disk
-      // Include the processor ID in the cache filename to avoid using cache from different processors
-      const cacheDir = path.join(process.cwd(), '.cache');
-      const cacheFile = path.join(cacheDir, `${this.documentHash}-${actualProcessorId}.json`);
-      
-      let cachedDocument = null;
+      this.pages = document.pages;
+      this.entities = document.entities;
       
-      // Try to load from cache if exists
-      try {
-        if (require('fs').existsSync(cacheFile)) {
-          console.log(`Found cached document processed with this processor: ${cacheFile}`);
-          const cachedData = await fs.readFile(cacheFile, 'utf8');
-          cachedDocument = JSON.parse(cachedData);
+      // Record what was extracted so it can be replayed with the fixture backend
+      if (process.env.EXTRACTION_RECORD_FIXTURES === "true" && backend.name !== "fixture") {
+        try {
+          await recordExtractionFixture(filePath, document, backend.name);
+        } catch (recordError) {
+          console.warn(`Failed to record extraction fixture: ${recordError}`);
         }
-      } catch (cacheError) {
-        console.warn(`Cache read error, will process again: ${cacheError}`);
-        cachedDocument = null;
       }
       
-      if (cachedDocument) {
-        // Use cached document
-        this.document = cachedDocument;
-        console.log(`Using cached document with ${this.document?.pages?.length || 0} pages`);
-        return true;
-      }
-      
-      // Process document with Document AI
-      const client = this.initDocumentAiClient(actualProcessorId);
-      if (!this.processorName) {
-        console.error("Document AI processor is not configured.");
-        return false;
-      }
-      
-      const encodedImage = fileContent.toString("base64");
-      
-      const request = {
-        name: this.processorName,
-        rawDocument: {
-          content: encodedImage,
-          mimeType: mimeType,
-        },
-      };
-      
-      console.log(`Sending to Document AI processor: ${this.processorName}`);
-      const [result] = await client.processDocument(request);
-      
-      if (!result.document) {
-        console.error("No document returned from Document AI.");
-        return false;
-      }
-      
-      // Store the document
-      this.document = result.document;
-      
-      // Save to cache for future use
-      try {
-        if (!require('fs').existsSync(cacheDir)) {
-          await fs.mkdir(cacheDir, { recursive: true });
-        }
-        await fs.writeFile(
-          cacheFile,
-          JSON.stringify(this.document)
-        );
-        console.log(`Document cached to: ${cacheFile}`);
-      } catch (saveError) {
-        console.warn(`Failed to cache document: ${saveError}`);
-      }
-      
-      console.log(`Successfully processed document with ${this.document?.pages?.length || 0} pages`);
+      console.log(`Successfully processed document with ${this.pages.length} pages`);
       return true;
     
     } catch (error) {
@@ -253,177 +115,163 @@ export class DocumentProcessor {
   }
   
   /**
-   * Extract text blocks with their positions from a page
-   */
-  private extractTextBlocksWithPositions(page: IDocumentPage, fullText: string): TextBlock[] {
-    const blocks: TextBlock[] = [];
-    
-    // Extract from paragraphs (preferred)
-    if (page.paragraphs) {
-      for (const paragraph of page.paragraphs) {
-        if (paragraph.layout?.textAnchor?.textSegments && paragraph.layout.boundingPoly?.normalizedVertices) {
-          const vertices = paragraph.layout.boundingPoly.normalizedVertices;
-          if (vertices.length >= 4) {
-            // Extract coordinates
-            const x1 = vertices[0].x || 0;
-            const y1 = vertices[0].y || 0;
-            const x2 = vertices[2].x || 1;
-            const y2 = vertices[2].y || 1;
-            
-            // Extract text
-            let text = '';
-            for (const segment of paragraph.layout.textAnchor.textSegments) {
-              const startIndex = Number(segment.startIndex || 0);
-              const endIndex = Number(segment.endIndex || 0);
-              text += fullText.substring(startIndex, endIndex);
-            }
-            
-            blocks.push({
-              text,
-              boundingBox: { x1, y1, x2, y2 }
-            });
-          }
-        }
-      }
-    } 
-    // Fall back to tokens if no paragraphs
-    else if (page.tokens) {
-      for (const token of page.tokens) {
-        if (token.layout?.textAnchor?.textSegments && token.layout.boundingPoly?.normalizedVertices) {
-          const vertices = token.layout.boundingPoly.normalizedVertices;
-          if (vertices.length >= 4) {
-            // Extract coordinates
-            const x1 = vertices[0].x || 0;
-            const y1 = vertices[0].y || 0;
-            const x2 = vertices[2].x || 1;
-            const y2 = vertices[2].y || 1;
-            
-            // Extract text
-            let text = '';
-            for (const segment of token.layout.textAnchor.textSegments) {
-              const startIndex = Number(segment.startIndex || 0);
-              const endIndex = Number(segment.endIndex || 0);
-              text += fullText.substring(startIndex, endIndex);
-            }
-            
-            blocks.push({
-              text,
-              boundingBox: { x1, y1, x2, y2 }
-            });
-          }
-        }
-      }
-    }
-    
-    return blocks;
-  }
-  
-  /**
-   * Process and extract data from a specific page
+   * Get a processed page (1-indexed)
    */
   public async processPage(pageNumber: number): Promise<ProcessedPage | null> {
-    if (!this.document || !this.document.pages) {
+    if (this.pages.length === 0) {
       console.error("No document loaded. Call processDocument first.");
       return null;
     }
     
     // Check page bounds
-    if (pageNumber < 1 || pageNumber > this.document.pages.length) {
-      console.error(`Page ${pageNumber} is out of bounds. Document has ${this.document.pages.length} pages.`);
+    if (pageNumber < 1 || pageNumber > this.pages.length) {
+      console.error(`Page ${pageNumber} is out of bounds. Document has ${this.pages.length} pages.`);
       return null;
     }
     
-    // Check if page is already cached
-    if (this.pageCache.has(pageNumber)) {
-      console.log(`Using cached data for page ${pageNumber}`);
-      return this.pageCache.get(pageNumber)!;
+    const page = this.pages[pageNumber - 1];
+    console.log(`Detected ${page.tables.length} tables on page ${pageNumber}`);
+    return page;
+  }
+  
+  /**
+   * Process a range of pages
+   */
+  public async processPageRange(startPage: number, endPage: number): Promise<ProcessedPage[]> {
+    const results: ProcessedPage[] = [];
+    
+    for (let i = startPage; i <= endPage; i++) {
+      const page = await this.processPage(i);
+      if (page) {
+        results.push(page);
+      }
     }
     
-    // Process page
-    console.log(`\n--------------------- PROCESSING PAGE ${pageNumber}`);
-    const pageIndex = pageNumber - 1; // Convert to 0-indexed
-    const page = this.document.pages[pageIndex];
-    const fullText = this.document.text || "";
+    return results;
+  }
+  
+  /**
+   * Group a page's text blocks into lines, top to bottom.
+   * Blocks belong to the same line when their vertical centers are within
+   * half a block height of the line's first block.
+   */
+  public async getPageLines(pageNumber: number): Promise<PageLine[]> {
+    const page = await this.processPage(pageNumber);
+    if (!page) {
+      return [];
+    }
     
-    // Extract text blocks with positions
-    const textBlocks = this.extractTextBlocksWithPositions(page, fullText);
+    const centerY = (block: TextBlock) => (block.boundingBox.y1 + block.boundingBox.y2) / 2;
+    const sortedBlocks = page.textBlocks
+      .filter(block => block.text.trim())
+      .sort((a, b) => centerY(a) - centerY(b));
     
-    // Process tables if any - Form Parser should better detect tables
-    const tables = page.tables || [];
-    const processedTables: ProcessedTable[] = tables.map((table, index) => {
-      const headerRow = table.headerRows && table.headerRows[0]?.cells ? 
-        table.headerRows[0].cells.map(cell => {
-          if (cell.layout?.textAnchor?.textSegments) {
-            let headerText = '';
-            for (const segment of cell.layout.textAnchor.textSegments) {
-              const startIndex = Number(segment.startIndex || 0);
-              const endIndex = Number(segment.endIndex || 0);
-              headerText += fullText.substring(startIndex, endIndex);
-            }
-            return headerText.trim();
-          }
-          return '';
-        }).filter(Boolean) : [];
+    const lineGroups: TextBlock[][] = [];
+    for (const block of sortedBlocks) {
+      const currentLine = lineGroups[lineGroups.length - 1];
+      const first = currentLine?.[0];
+      const tolerance = first
+        ? Math.max(first.boundingBox.y2 - first.boundingBox.y1, block.boundingBox.y2 - block.boundingBox.y1) / 2
+        : 0;
       
+      if (first && centerY(block) - centerY(first) <= tolerance) {
+        currentLine.push(block);
+      } else {
+        lineGroups.push([block]);
+      }
+    }
+    
+    return lineGroups.map(blocks => {
+      blocks.sort((a, b) => a.boundingBox.x1 - b.boundingBox.x1);
+      const cells = blocks.map(block => block.text.replace(/\s+/g, ' ').trim());
       return {
-        tableIndex: index,
-        headerCells: headerRow,
-        rowCount: table.bodyRows?.length || 0
+        pageNumber,
+        cells,
+        blocks,
+        text: cells.join(' '),
+        centerY: centerY(blocks[0]),
       };
     });
+  }
+  
+  /**
+   * Read sections as one stream of rows each, stitching tables that continue
+   * over page breaks. A section open at the end of a page carries on at the
+   * top of the next one; its "continued" heading and repeated column header
+   * are dropped, as are page numbers, "continued on next page" notes and
+   * header or footer lines printed on every page.
+   */
+  public async extractSections(
+    definitions: SectionDefinition[],
+    pageRange: { startPage?: number; endPage?: number } = {}
+  ): Promise<StitchedSection[]> {
+    const startPage = pageRange.startPage || 1;
+    const endPage = pageRange.endPage || this.pages.length;
     
-    console.log(`Detected ${processedTables.length} tables on page ${pageNumber}`);
-    
-    // Create processed page object
-    const processedPage: ProcessedPage = {
-      pageNumber,
-      textBlocks,
-      tables: processedTables,
-      fullText,
-      extractedData: new Map()
-    };
+    const pageLines: PageLine[][] = [];
+    for (let pageNumber = startPage; pageNumber <= endPage; pageNumber++) {
+      pageLines.push(await this.getPageLines(pageNumber));
+    }
+    const repeatedLines = this.findRepeatedMarginLines(pageLines);
     
-    // Cache the processed page
-    this.pageCache.set(pageNumber, processedPage);
+    const sections: StitchedSection[] = [];
+    let current: { section: StitchedSection; definition: SectionDefinition } | null = null;
     
-    // Save debugging info to file
-    if (this.filePath) {
-      const originalFilename = path.basename(this.filePath);
-      const outputFilename = `page-${pageNumber}-${originalFilename}.json`;
-      
-      // Prepare for serialization
-      const serializedPage = {
-        pageNumber,
-        textBlocks: textBlocks.map(block => ({
-          text: block.text,
-          position: {
-            x1: Math.round(block.boundingBox.x1 * 1000) / 1000,
-            y1: Math.round(block.boundingBox.y1 * 1000) / 1000,
-            x2: Math.round(block.boundingBox.x2 * 1000) / 1000,
-            y2: Math.round(block.boundingBox.y2 * 1000) / 1000
-          }
-        })),
-        tables: processedTables
-      };
+    for (const lines of pageLines) {
+      for (const line of lines) {
+        if (PAGE_FURNITURE_PATTERNS.some(pattern => pattern.test(line.text))) continue;
+        if (repeatedLines.has(line.text) && this.isInPageMargin(line)) continue;
+        
+        const definition = definitions.find(candidate => candidate.start.some(pattern => pattern.test(line.text)));
+        if (definition) {
+          // A continued heading of the open section
+          if (current && current.definition === definition) continue;
+          
+          current = {
+            section: { name: definition.name, pages: [line.pageNumber], heading: line, header: null, rows: [], end: null },
+            definition,
+          };
+          sections.push(current.section);
+          continue;
+        }
+        
+        if (!current) continue;
+        const { section, definition: openDefinition } = current;
+        
+        if (openDefinition.end?.some(pattern => pattern.test(line.text))) {
+          section.end = line;
+          current = null;
+          continue;
+        }
+        
+        if (section.header ? line.text === section.header.text : openDefinition.header?.test(line.text)) {
+          section.header = section.header || line;
+          continue;
+        }
+        
+        if (!section.pages.includes(line.pageNumber)) {
+          section.pages.push(line.pageNumber);
+        }
+        section.rows.push(line);
+      }
     }
     
-    return processedPage;
+    return sections;
   }
   
   /**
-   * Process a range of pages
+   * Lines printed in the top or bottom margin of every page, like the
+   * account holder's name and account number repeated over each page
    */
-  public async processPageRange(startPage: number, endPage: number): Promise<ProcessedPage[]> {
-    const results: ProcessedPage[] = [];
-    
-    for (let i = startPage; i <= endPage; i++) {
-      const page = await this.processPage(i);
-      if (page) {
-        results.push(page);
-      }
-    }
+  private findRepeatedMarginLines(pageLines: PageLine[][]): Set<string> {
+    if (pageLines.length < 2) return new Set();
     
-    return results;
+    const marginTexts = pageLines.map(lines => new Set(lines.filter(line => this.isInPageMargin(line)).map(line => line.text)));
+    return new Set([...marginTexts[0]].filter(text => marginTexts.every(texts => texts.has(text))));
+  }
+  
+  private isInPageMargin(line: PageLine): boolean {
+    return line.centerY < PAGE_MARGIN || line.centerY > 1 - PAGE_MARGIN;
   }
   
   /**
@@ -431,13 +279,9 @@ export class DocumentProcessor {
    */
   public async extractUsingTemplate(pageNumber: number, template: ExtractionTemplate): Promise<any> {
     // Get the processed page
-    let page = this.pageCache.get(pageNumber);
+    const page = await this.processPage(pageNumber);
     if (!page) {
-      const processedPage = await this.processPage(pageNumber);
-      if (!processedPage) {
-        return null;
-      }
-      page = processedPage;
+      return null;
     }
     
     // Check if we already extracted data for this template
@@ -487,13 +331,9 @@ export class DocumentProcessor {
     requiredHeaders?: string[] 
   }): Promise<ProcessedTable[]> {
     // Get the processed page
-    let page = this.pageCache.get(pageNumber);
+    const page = await this.processPage(pageNumber);
     if (!page) {
-      const processedPage = await this.processPage(pageNumber);
-      if (!processedPage) {
-        return [];
-      }
-      page = processedPage;
+      return [];
     }
     
     // Filter tables based on criteria
@@ -513,21 +353,17 @@ export class DocumentProcessor {
    * Find the first page containing specific text
    */
   public async findFirstPageMatching(searchText: string): Promise<number | null> {
-    if (!this.document || !this.document.pages) {
+    if (this.pages.length === 0) {
       console.error("No document loaded. Call processDocument first.");
       return null;
     }
     
     const regex = new RegExp(searchText, 'i');
     
-    for (let i = 1; i <= this.document.pages.length; i++) {
-      const page = await this.processPage(i);
-      if (!page) continue;
-      
+    for (const page of this.pages) {
       // Check if any text block matches
-      const found = page.textBlocks.some(block => regex.test(block.text));
-      if (found) {
-        return i;
+      if (page.textBlocks.some(block => regex.test(block.text))) {
+        return page.pageNumber;
       }
     }
     
@@ -538,23 +374,29 @@ export class DocumentProcessor {
    * Get the total number of pages in the document
    */
   public getPageCount(): number {
-    if (!this.document || !this.document.pages) {
-      return 0;
-    }
-    return this.document.pages.length;
+    return this.pages.length;
   }
   
   /**
-   * Clear cache for a specific page
+   * Get the entities the backend recognized in the document
+   */
+  public getEntities(): ExtractedEntity[] {
+    return this.entities;
+  }
+  
+  /**
+   * Clear cached template extractions for a specific page
    */
   public clearPageCache(pageNumber: number): void {
-    this.pageCache.delete(pageNumber);
+    this.pages[pageNumber - 1]?.extractedData.clear();
   }
   
   /**
    * Clear all caches
    */
   public clearAllCaches(): void {
-    this.pageCache.clear();
+    for (const page of this.pages) {
+      page.extractedData.clear();
+    }
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,48 @@
+import type { ExtractionBackend } from "./types";
+import { DocumentAiBackend, isDocumentAiConfigured } from "./document-ai-backend";
+import { PdfTextBackend } from "./pdf-text-backend";
+import { FixtureBackend } from "./fixture-backend";
+
+/**
+ * Extraction backend selection
+ *
+ * EXTRACTION_BACKEND picks the backend per environment: "document-ai",
+ * "pdf-text" or "fixture". When unset, Document AI is used if it is
+ * configured and the PDF text layer otherwise.
+ */
+
+export const EXTRACTION_BACKEND_NAMES = ["document-ai", "pdf-text", "fixture"] as const;
+export type ExtractionBackendName = (typeof EXTRACTION_BACKEND_NAMES)[number];
+
+/**
+ * Resolve the configured backend name
+ */
+export function getExtractionBackendName(processorId?: string): ExtractionBackendName {
+  const configured = process.env.EXTRACTION_BACKEND;
+
+  if (configured) {
+    if ((EXTRACTION_BACKEND_NAMES as readonly string[]).includes(configured)) {
+      return configured as ExtractionBackendName;
+    }
+    console.warn(`Unknown EXTRACTION_BACKEND "${configured}", choosing a backend automatically`);
+  }
+
+  return isDocumentAiConfigured(processorId) ? "document-ai" : "pdf-text";
+}
+
+/**
+ * Create the extraction backend for this environment
+ */
+export function createExtractionBackend(options: { name?: ExtractionBackendName; processorId?: string } = {}): ExtractionBackend {
+  const name = options.name || getExtractionBackendName(options.processorId);
+
+  switch (name) {
+    case "document-ai":
+      return new DocumentAiBackend(options.processorId);
+    case "fixture":
+      return new FixtureBackend();
+    case "pdf-text":
+    default:
+      return new PdfTextBackend();
+  }
+}
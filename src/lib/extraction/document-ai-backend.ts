@@ -0,0 +1,228 @@
+import type { protos } from "@google-cloud/documentai";
+import { promises as fs, existsSync } from "fs";
+import path from "path";
+import crypto from "crypto";
+import type { ExtractedDocument, ExtractedEntity, ExtractionBackend, ProcessedPage, ProcessedTable, TextBlock } from "./types";
+
+/**
+ * Google Document AI extraction backend
+ *
+ * Sends the file to a Document AI processor and converts the returned
+ * document into processed pages. Responses are cached on disk in `.cache`
+ * by file hash and processor, so re-processing a statement is free.
+ */
+
+// Google Cloud SDK types stay inside this backend
+type IDocument = protos.google.cloud.documentai.v1.IDocument;
+type IDocumentPage = protos.google.cloud.documentai.v1.Document.IPage;
+type ITextAnchor = protos.google.cloud.documentai.v1.Document.ITextAnchor;
+
+// Environment configuration
+const GCLOUD_PROJECT_ID = process.env.GOOGLE_CLOUD_PROJECT_ID;
+const GCLOUD_LOCATION = process.env.GOOGLE_CLOUD_LOCATION;
+const GCLOUD_OCR_PROCESSOR_ID = process.env.GOOGLE_DOCUMENT_AI_OCR_PROCESSOR_ID;
+const GCLOUD_FORM_PROCESSOR_ID = process.env.GOOGLE_DOCUMENT_AI_FORM_PROCESSOR_ID;
+
+/**
+ * Load the Document AI SDK, or null when it isn't installed
+ */
+async function loadDocumentAi(): Promise<typeof import("@google-cloud/documentai") | null> {
+  try {
+    return await import("@google-cloud/documentai");
+  } catch {
+    console.warn("@google-cloud/documentai module not available");
+    return null;
+  }
+}
+
+/**
+ * The processor to use by default: Form Parser if configured, OCR otherwise
+ */
+export function getDefaultProcessorId(): string | undefined {
+  return GCLOUD_FORM_PROCESSOR_ID || GCLOUD_OCR_PROCESSOR_ID;
+}
+
+/**
+ * Check whether the environment has everything Document AI needs
+ */
+export function isDocumentAiConfigured(processorId = getDefaultProcessorId()): boolean {
+  return Boolean(GCLOUD_PROJECT_ID && GCLOUD_LOCATION && processorId && process.env.GOOGLE_APPLICATION_CREDENTIALS);
+}
+
+/**
+ * Concatenate the document text a layout's anchor points to
+ */
+function getAnchorText(textAnchor: ITextAnchor | null | undefined, fullText: string): string {
+  let text = "";
+  for (const segment of textAnchor?.textSegments || []) {
+    const startIndex = Number(segment.startIndex || 0);
+    const endIndex = Number(segment.endIndex || 0);
+    text += fullText.substring(startIndex, endIndex);
+  }
+  return text;
+}
+
+/**
+ * Extract text blocks with their positions from a page.
+ * Paragraphs are preferred, tokens are used when there are none.
+ */
+function extractTextBlocksWithPositions(page: IDocumentPage, fullText: string): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  const elements = page.paragraphs || page.tokens || [];
+
+  for (const element of elements) {
+    const vertices = element.layout?.boundingPoly?.normalizedVertices;
+    if (!element.layout?.textAnchor?.textSegments || !vertices || vertices.length < 4) continue;
+
+    blocks.push({
+      text: getAnchorText(element.layout.textAnchor, fullText),
+      boundingBox: {
+        x1: vertices[0].x || 0,
+        y1: vertices[0].y || 0,
+        x2: vertices[2].x || 1,
+        y2: vertices[2].y || 1,
+      },
+    });
+  }
+
+  return blocks;
+}
+
+/**
+ * Convert a Document AI page into a processed page
+ */
+function toProcessedPage(page: IDocumentPage, pageNumber: number, fullText: string): ProcessedPage {
+  // Process tables if any - Form Parser should better detect tables
+  const tables: ProcessedTable[] = (page.tables || []).map((table, index) => ({
+    tableIndex: index,
+    headerCells: (table.headerRows?.[0]?.cells || [])
+      .map((cell) => getAnchorText(cell.layout?.textAnchor, fullText).trim())
+      .filter(Boolean),
+    rowCount: table.bodyRows?.length || 0,
+  }));
+
+  return {
+    pageNumber,
+    textBlocks: extractTextBlocksWithPositions(page, fullText),
+    tables,
+    fullText,
+    extractedData: new Map(),
+  };
+}
+
+/**
+ * Convert a Document AI document into extracted pages and entities
+ */
+function toExtractedDocument(document: IDocument): ExtractedDocument {
+  const fullText = document.text || "";
+
+  const entities: ExtractedEntity[] = (document.entities || []).map((entity) => ({
+    type: entity.type || "",
+    mentionText: entity.mentionText || "",
+    confidence: entity.confidence ?? undefined,
+  }));
+
+  return {
+    pages: (document.pages || []).map((page, index) => toProcessedPage(page, index + 1, fullText)),
+    entities,
+  };
+}
+
+export class DocumentAiBackend implements ExtractionBackend {
+  public readonly name = "document-ai";
+  private processorId: string | undefined;
+
+  constructor(processorId?: string) {
+    this.processorId = processorId || getDefaultProcessorId();
+  }
+
+  /**
+   * Initialize the Document AI client
+   */
+  private async createClient() {
+    const documentai = await loadDocumentAi();
+    if (!documentai) {
+      throw new Error("Document AI is not available in this environment.");
+    }
+
+    if (!GCLOUD_PROJECT_ID || !GCLOUD_LOCATION || !this.processorId) {
+      throw new Error(
+        "Google Cloud Document AI configuration (PROJECT_ID, LOCATION, or PROCESSOR_ID) is missing in environment variables."
+      );
+    }
+
+    const credentialsPath = process.env.GOOGLE_APPLICATION_CREDENTIALS;
+    if (!credentialsPath) {
+      throw new Error("GOOGLE_APPLICATION_CREDENTIALS environment variable not set.");
+    }
+
+    const fullPath = path.isAbsolute(credentialsPath) ? credentialsPath : path.join(process.cwd(), credentialsPath);
+    if (!existsSync(fullPath)) {
+      throw new Error(`Credentials file not found at ${fullPath}`);
+    }
+
+    const client = new documentai.DocumentProcessorServiceClient({});
+    const processorName = `projects/${GCLOUD_PROJECT_ID}/locations/${GCLOUD_LOCATION}/processors/${this.processorId}`;
+    console.log(`Document AI client initialized for processor: ${processorName}`);
+
+    return { client, processorName };
+  }
+
+  /**
+   * Process a document with Document AI, using the on-disk cache when possible
+   */
+  public async extract(filePath: string, mimeType: string): Promise<ExtractedDocument | null> {
+    if (!this.processorId) {
+      console.error("No Document AI processor ID available. Check your environment variables.");
+      return null;
+    }
+
+    console.log(`Using processor ID: ${this.processorId}`);
+
+    const fileContent = await fs.readFile(filePath);
+    const documentHash = crypto.createHash("md5").update(fileContent).digest("hex");
+
+    // Include the processor ID in the cache filename to avoid using cache from different processors
+    const cacheDir = path.join(process.cwd(), ".cache");
+    const cacheFile = path.join(cacheDir, `${documentHash}-${this.processorId}.json`);
+
+    try {
+      if (existsSync(cacheFile)) {
+        console.log(`Found cached document processed with this processor: ${cacheFile}`);
+        const cachedDocument: IDocument = JSON.parse(await fs.readFile(cacheFile, "utf8"));
+        console.log(`Using cached document with ${cachedDocument.pages?.length || 0} pages`);
+        return toExtractedDocument(cachedDocument);
+      }
+    } catch (cacheError) {
+      console.warn(`Cache read error, will process again: ${cacheError}`);
+    }
+
+    const { client, processorName } = await this.createClient();
+
+    console.log(`Sending to Document AI processor: ${processorName}`);
+    const [result] = await client.processDocument({
+      name: processorName,
+      rawDocument: {
+        content: fileContent.toString("base64"),
+        mimeType,
+      },
+    });
+
+    if (!result.document) {
+      console.error("No document returned from Document AI.");
+      return null;
+    }
+
+    // Save to cache for future use
+    try {
+      await fs.mkdir(cacheDir, { recursive: true });
+      await fs.writeFile(cacheFile, JSON.stringify(result.document));
+      console.log(`Document cached to: ${cacheFile}`);
+    } catch (saveError) {
+      console.warn(`Failed to cache document: ${saveError}`);
+    }
+
+    console.log(`Successfully processed document with ${result.document.pages?.length || 0} pages`);
+    return toExtractedDocument(result.document);
+  }
+}
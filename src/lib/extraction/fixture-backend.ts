@@ -0,0 +1,101 @@
+import { promises as fs } from "fs";
+import path from "path";
+import crypto from "crypto";
+import type { ExtractedDocument, ExtractedEntity, ExtractionBackend, ProcessedPage } from "./types";
+
+/**
+ * Recorded fixture extraction backend
+ *
+ * Replays extraction results recorded from another backend, so parsers can
+ * be run against real statements without Document AI or the original
+ * credentials. Fixtures are JSON files named after the MD5 hash of the
+ * statement file, stored in EXTRACTION_FIXTURE_DIR (default
+ * `fixtures/extraction`).
+ */
+
+// On-disk fixture format. Pages are stored without their extraction cache.
+interface ExtractionFixture {
+  source: string;
+  backend: string;
+  recordedAt: string;
+  pages: Array<Omit<ProcessedPage, "extractedData">>;
+  entities: ExtractedEntity[];
+}
+
+/**
+ * Directory fixtures are read from and recorded to
+ */
+export function getExtractionFixtureDir(): string {
+  return path.resolve(process.cwd(), process.env.EXTRACTION_FIXTURE_DIR || "fixtures/extraction");
+}
+
+/**
+ * Path of the fixture for a statement file
+ */
+async function getFixturePath(filePath: string, fixtureDir: string): Promise<string> {
+  const fileContent = await fs.readFile(filePath);
+  const fileHash = crypto.createHash("md5").update(fileContent).digest("hex");
+  return path.join(fixtureDir, `${fileHash}.json`);
+}
+
+/**
+ * Record an extraction result as a fixture for the fixture backend
+ */
+export async function recordExtractionFixture(
+  filePath: string,
+  document: ExtractedDocument,
+  backendName: string,
+  fixtureDir = getExtractionFixtureDir()
+): Promise<string> {
+  const fixturePath = await getFixturePath(filePath, fixtureDir);
+
+  const fixture: ExtractionFixture = {
+    source: path.basename(filePath),
+    backend: backendName,
+    recordedAt: new Date().toISOString(),
+    pages: document.pages.map((page) => ({
+      pageNumber: page.pageNumber,
+      textBlocks: page.textBlocks,
+      tables: page.tables,
+      fullText: page.fullText,
+    })),
+    entities: document.entities,
+  };
+
+  await fs.mkdir(fixtureDir, { recursive: true });
+  await fs.writeFile(fixturePath, JSON.stringify(fixture, null, 2));
+  console.log(`Recorded extraction fixture: ${fixturePath}`);
+
+  return fixturePath;
+}
+
+export class FixtureBackend implements ExtractionBackend {
+  public readonly name = "fixture";
+  private fixtureDir: string;
+
+  constructor(fixtureDir = getExtractionFixtureDir()) {
+    this.fixtureDir = fixtureDir;
+  }
+
+  /**
+   * Load the recorded extraction for a file, or null when none was recorded
+   */
+  public async extract(filePath: string): Promise<ExtractedDocument | null> {
+    const fixturePath = await getFixturePath(filePath, this.fixtureDir);
+
+    let fixture: ExtractionFixture;
+    try {
+      fixture = JSON.parse(await fs.readFile(fixturePath, "utf8"));
+    } catch (error) {
+      console.error(`No extraction fixture for ${path.basename(filePath)} at ${fixturePath}:`, error);
+      return null;
+    }
+
+    console.log(`Using extraction fixture recorded from ${fixture.source} with ${fixture.backend}`);
+
+    return {
+      pages: fixture.pages.map((page) => ({ ...page, extractedData: new Map() })),
+      entities: fixture.entities || [],
+    };
+  }
+}
@@ -0,0 +1,5 @@
+export * from "./types";
+export * from "./document-ai-backend";
+export * from "./pdf-text-backend";
+export * from "./fixture-backend";
+export * from "./create-backend";
@@ -0,0 +1,270 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import type { ExtractedDocument, ExtractionBackend, ProcessedPage, ProcessedTable, TextBlock } from "./types";
+
+/**
+ * PDF text layer extraction backend
+ *
+ * Reads the text embedded in a PDF with pdf.js instead of running OCR, and
+ * builds the same page structures Document AI produces: positioned text
+ * blocks (normalized 0-1 coordinates, origin at the top left) and tables
+ * guessed from lines whose blocks line up in columns. Scanned statements
+ * have no text layer and come back without any text blocks.
+ */
+
+// Items on a line closer than this many font heights are merged into one block
+const BLOCK_GAP_FACTOR = 1.2;
+// Gap (in font heights) above which merged items are joined with a space
+const WORD_GAP_FACTOR = 0.15;
+// Consecutive lines further apart than this many line heights end a table
+const TABLE_LINE_GAP_FACTOR = 3;
+// Minimum number of body rows for a run of lines to count as a table
+const MIN_TABLE_ROWS = 2;
+
+// A text item in page coordinates (points, origin at the top left)
+interface PositionedItem {
+  text: string;
+  x1: number;
+  x2: number;
+  y1: number;
+  y2: number;
+  fontHeight: number;
+}
+
+// Text blocks that share a baseline
+interface TextLine {
+  blocks: PositionedItem[];
+  centerY: number;
+  height: number;
+}
+
+const AMOUNT_OR_DATE_PATTERN = /\d+[.,/-]\d+/;
+
+function isTextItem(item: unknown): item is TextItem {
+  return typeof item === "object" && item !== null && "str" in item && "transform" in item;
+}
+
+/**
+ * Convert pdf.js text items into positioned items, dropping whitespace-only runs
+ */
+function toPositionedItems(items: unknown[], pageHeight: number): PositionedItem[] {
+  const positioned: PositionedItem[] = [];
+
+  for (const item of items) {
+    if (!isTextItem(item) || !item.str.trim()) continue;
+
+    const [, , c, d, x, baselineY] = item.transform as number[];
+    const fontHeight = item.height || Math.hypot(c, d) || 1;
+
+    positioned.push({
+      text: item.str.trim(),
+      x1: x,
+      x2: x + item.width,
+      y1: pageHeight - baselineY - fontHeight,
+      y2: pageHeight - baselineY,
+      fontHeight,
+    });
+  }
+
+  return positioned;
+}
+
+/**
+ * Group items into lines by vertical position, then merge neighbouring items
+ * on each line into blocks
+ */
+function groupIntoLines(items: PositionedItem[]): TextLine[] {
+  const sorted = [...items].sort((a, b) => (a.y1 + a.y2) / 2 - (b.y1 + b.y2) / 2 || a.x1 - b.x1);
+  const lines: PositionedItem[][] = [];
+
+  for (const item of sorted) {
+    const centerY = (item.y1 + item.y2) / 2;
+    const currentLine = lines[lines.length - 1];
+    const lineItem = currentLine?.[0];
+
+    if (lineItem && Math.abs((lineItem.y1 + lineItem.y2) / 2 - centerY) <= Math.max(lineItem.fontHeight, item.fontHeight) / 2) {
+      currentLine.push(item);
+    } else {
+      lines.push([item]);
+    }
+  }
+
+  return lines.map((lineItems) => {
+    const byX = lineItems.sort((a, b) => a.x1 - b.x1);
+    const blocks: PositionedItem[] = [];
+
+    for (const item of byX) {
+      const previous = blocks[blocks.length - 1];
+      const gap = previous ? item.x1 - previous.x2 : Infinity;
+      const fontHeight = Math.max(previous?.fontHeight || 0, item.fontHeight);
+
+      if (previous && gap < fontHeight * BLOCK_GAP_FACTOR) {
+        previous.text += (gap > fontHeight * WORD_GAP_FACTOR ? " " : "") + item.text;
+        previous.x2 = Math.max(previous.x2, item.x2);
+        previous.y1 = Math.min(previous.y1, item.y1);
+        previous.y2 = Math.max(previous.y2, item.y2);
+        previous.fontHeight = fontHeight;
+      } else {
+        blocks.push({ ...item });
+      }
+    }
+
+    const y1 = Math.min(...blocks.map((block) => block.y1));
+    const y2 = Math.max(...blocks.map((block) => block.y2));
+    return { blocks, centerY: (y1 + y2) / 2, height: y2 - y1 };
+  });
+}
+
+/**
+ * Find the column a block belongs to: the column whose span contains the
+ * block's center, or the nearest one
+ */
+function findColumnIndex(block: PositionedItem, columns: PositionedItem[]): number {
+  const centerX = (block.x1 + block.x2) / 2;
+
+  for (let i = 0; i < columns.length; i++) {
+    const start = i === 0 ? -Infinity : (columns[i - 1].x2 + columns[i].x1) / 2;
+    const end = i === columns.length - 1 ? Infinity : (columns[i].x2 + columns[i + 1].x1) / 2;
+    if (centerX >= start && centerX < end) return i;
+  }
+
+  return columns.length - 1;
+}
+
+/**
+ * Build pseudo-tables from runs of consecutive lines with two or more blocks.
+ * The first line of a run is taken as the header when it has no dates or
+ * amounts in it.
+ */
+function findPseudoTables(lines: TextLine[]): ProcessedTable[] {
+  const runs: TextLine[][] = [];
+  let currentRun: TextLine[] = [];
+
+  for (const line of lines) {
+    const previous = currentRun[currentRun.length - 1];
+    const isContinuation =
+      line.blocks.length >= 2 &&
+      (!previous || line.centerY - previous.centerY <= Math.max(previous.height, line.height) * TABLE_LINE_GAP_FACTOR);
+
+    if (isContinuation) {
+      currentRun.push(line);
+      continue;
+    }
+
+    if (currentRun.length > 0) runs.push(currentRun);
+    currentRun = line.blocks.length >= 2 ? [line] : [];
+  }
+  if (currentRun.length > 0) runs.push(currentRun);
+
+  const tables: ProcessedTable[] = [];
+  for (const run of runs) {
+    const [firstLine, ...rest] = run;
+    const hasHeader = !firstLine.blocks.some((block) => AMOUNT_OR_DATE_PATTERN.test(block.text));
+    const bodyLines = hasHeader ? rest : run;
+    if (bodyLines.length < MIN_TABLE_ROWS) continue;
+
+    // Columns come from the header, or from the widest row without one
+    const columns = hasHeader
+      ? firstLine.blocks
+      : bodyLines.reduce((widest, line) => (line.blocks.length > widest.blocks.length ? line : widest)).blocks;
+
+    const rows = bodyLines.map((line) => {
+      const cells: string[] = columns.map(() => "");
+      for (const block of line.blocks) {
+        const index = findColumnIndex(block, columns);
+        cells[index] = cells[index] ? `${cells[index]} ${block.text}` : block.text;
+      }
+      return cells;
+    });
+
+    tables.push({
+      tableIndex: tables.length,
+      headerCells: hasHeader ? firstLine.blocks.map((block) => block.text) : [],
+      rowCount: rows.length,
+      rows,
+    });
+  }
+
+  return tables;
+}
+
+/**
+ * Extract the text layer of a PDF as processed pages. `fullText` holds the
+ * text of the whole document on every page, like Document AI's document text.
+ */
+async function extractPdfTextPages(filePath: string): Promise<ProcessedPage[]> {
+  // pdf.js is only published as an ES module
+  const pdfjs = await import("pdfjs-dist/legacy/build/pdf.mjs");
+
+  const data = new Uint8Array(await fs.readFile(filePath));
+  const pdf = await pdfjs.getDocument({
+    data,
+    standardFontDataUrl: path.join(process.cwd(), "node_modules/pdfjs-dist/standard_fonts/"),
+    isEvalSupported: false,
+    useSystemFonts: false,
+  }).promise;
+
+  try {
+    const pages: Array<Omit<ProcessedPage, "fullText">> = [];
+    const pageTexts: string[] = [];
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const { width, height } = page.getViewport({ scale: 1 });
+      const content = await page.getTextContent();
+
+      const lines = groupIntoLines(toPositionedItems(content.items, height));
+      const textBlocks: TextBlock[] = lines.flatMap((line) =>
+        line.blocks.map((block) => ({
+          text: block.text,
+          boundingBox: {
+            x1: block.x1 / width,
+            y1: block.y1 / height,
+            x2: block.x2 / width,
+            y2: block.y2 / height,
+          },
+        }))
+      );
+
+      pages.push({
+        pageNumber,
+        textBlocks,
+        tables: findPseudoTables(lines),
+        extractedData: new Map(),
+      });
+      pageTexts.push(lines.map((line) => line.blocks.map((block) => block.text).join(" ")).join("\n"));
+      page.cleanup();
+    }
+
+    const fullText = pageTexts.join("\n");
+    console.log(`Extracted text layer from ${pages.length} PDF pages (${fullText.length} characters)`);
+
+    return pages.map((page) => ({ ...page, fullText }));
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+export class PdfTextBackend implements ExtractionBackend {
+  public readonly name = "pdf-text";
+
+  /**
+   * Read the pages of a PDF from its text layer.
+   * Returns null for other file types and for PDFs without text (e.g. scans).
+   */
+  public async extract(filePath: string, mimeType: string): Promise<ExtractedDocument | null> {
+    if (mimeType !== "application/pdf") {
+      console.warn(`The PDF text layer backend can't read ${mimeType} files`);
+      return null;
+    }
+
+    const pages = await extractPdfTextPages(filePath);
+    if (!pages.some((page) => page.textBlocks.length > 0)) {
+      console.warn("PDF has no text layer");
+      return null;
+    }
+
+    return { pages, entities: [] };
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Document extraction types
+ *
+ * The page structures every extraction backend produces and the parsers
+ * read. Coordinates are normalized to 0-1 with the origin at the top left.
+ */
+
+// Define types for text blocks
+export interface TextBlock {
+  text: string;
+  boundingBox: {
+    x1: number;
+    y1: number;
+    x2: number;
+    y2: number;
+  };
+}
+
+// Define the structure for a processed table
+export interface ProcessedTable {
+  tableIndex: number;
+  headerCells: string[];
+  rowCount: number;
+  rows?: string[][]; // Optional: processed row data
+}
+
+// Define the structure for a processed page
+export interface ProcessedPage {
+  pageNumber: number;
+  textBlocks: TextBlock[];
+  tables: ProcessedTable[]; // Will always be initialized as at least an empty array
+  fullText: string;
+  extractedData: Map<string, unknown>; // Template ID -> extracted data
+}
+
+// An entity recognized by the extraction service, e.g. a date or an amount
+export interface ExtractedEntity {
+  type: string;
+  mentionText: string;
+  confidence?: number;
+}
+
+// Everything a backend extracted from one file
+export interface ExtractedDocument {
+  pages: ProcessedPage[];
+  entities: ExtractedEntity[];
+}
+
+/**
+ * A way of turning an uploaded file into pages of text blocks and tables
+ */
+export interface ExtractionBackend {
+  readonly name: string;
+  /**
+   * Extract the pages of a file, or null when this backend can't read it
+   */
+  extract(filePath: string, mimeType: string): Promise<ExtractedDocument | null>;
+}
@@ -1,5 +1,9 @@
 import { processStatement } from "./document-ai";
+import { buildOfxStatement, OFX_MIME_TYPE } from "./ofx-import";
+import { buildCamtStatement, CAMT_MIME_TYPE } from "./camt-import";
+import { buildMt940Statement, MT940_MIME_TYPE } from "./mt940-import";
 import { ProcessedStatementData } from "./parsers";
+import { isStorageUrl } from "./statement-files";
 import { promises as fs } from "fs";
 import fetch from "node-fetch";
 
@@ -9,30 +13,28 @@ interface ProcessUploadResult {
   error?: string;
 }
 
+// Downloads that are already structured, read without extraction
+const STRUCTURED_FILE_READERS: Record<string, { format: string; read: (text: string) => ProcessedStatementData }> = {
+  [OFX_MIME_TYPE]: { format: "OFX", read: buildOfxStatement },
+  [CAMT_MIME_TYPE]: { format: "camt", read: buildCamtStatement },
+  [MT940_MIME_TYPE]: { format: "MT940", read: buildMt940Statement },
+};
+
 /**
- * Process an uploaded file using Document AI
- * @param filePathOrUrl Path or URL to the uploaded file
- * @param fileType MIME type of the file
- * @returns ProcessUploadResult containing structured data or an error
+ * Read an uploaded file from a local path or a Supabase storage URL
+ * @throws When the file can't be fetched or read, or the URL is outside storage
  */
-export async function processUploadedFile(
-  filePathOrUrl: string,
-  fileType: string,
-): Promise<ProcessUploadResult> {
-  console.log('\n--------------- BEGIN FILE PROCESSING USING DOCUMENT AI FORM PARSER ----------------');
-  console.log(`Processing uploaded file: ${filePathOrUrl} (${fileType})`);
-
-  let fileContent: Buffer;
-  let isUrl = false;
-
-  // Determine if it's a URL and fetch content
+export async function readUploadedFile(filePathOrUrl: string): Promise<Buffer> {
   if (filePathOrUrl.startsWith('http')) {
-    isUrl = true;
+    // Only uploads are read; other hosts would be fetched from the server's network
+    if (!isStorageUrl(filePathOrUrl)) {
+      throw new Error("Only files in the app's storage can be read");
+    }
+
     try {
       console.log('Processing file from URL');
       const headers: Record<string, string> = {};
       if (
-        filePathOrUrl.includes('supabase') && 
         !filePathOrUrl.includes('/public/') &&
         process.env.SUPABASE_SERVICE_ROLE_KEY
       ) {
@@ -45,27 +47,72 @@ export async function processUploadedFile(
         throw new Error(`Failed to fetch file: ${response.statusText} (${response.status})`);
       }
       const arrayBuffer = await response.arrayBuffer();
-      fileContent = Buffer.from(arrayBuffer);
+      const fileContent = Buffer.from(arrayBuffer);
       console.log(`Successfully downloaded file: ${fileContent.length} bytes`);
+      return fileContent;
     } catch (fetchError) {
       console.error('Error fetching file from URL:', fetchError);
-      return {
-        success: false,
-        error: `Failed to fetch file from URL: ${fetchError instanceof Error ? fetchError.message : String(fetchError)}`,
-      };
+      throw new Error(`Failed to fetch file from URL: ${fetchError instanceof Error ? fetchError.message : String(fetchError)}`);
     }
-  } else {
-    // It's a local file path
+  }
+
+  // It's a local file path
+  try {
+    await fs.access(filePathOrUrl);
+    const stats = await fs.stat(filePathOrUrl);
+    console.log(`File exists and is accessible. Size: ${stats.size} bytes`);
+    return await fs.readFile(filePathOrUrl);
+  } catch (error) {
+    console.error(`File access error: ${error instanceof Error ? error.message : String(error)}`);
+    throw new Error(`File not found or not accessible: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * The text of a downloaded file: UTF-8, or Latin-1 as older OFX and many
+ * MT940 files are written
+ */
+export function decodeText(content: Buffer): string {
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(content);
+  } catch {
+    return content.toString("latin1");
+  }
+}
+
+/**
+ * Process an uploaded file using Document AI
+ * @param filePathOrUrl Path or URL to the uploaded file
+ * @param fileType MIME type of the file
+ * @returns ProcessUploadResult containing structured data or an error
+ */
+export async function processUploadedFile(
+  filePathOrUrl: string,
+  fileType: string,
+): Promise<ProcessUploadResult> {
+  console.log('\n--------------- BEGIN FILE PROCESSING USING DOCUMENT AI FORM PARSER ----------------');
+  console.log(`Processing uploaded file: ${filePathOrUrl} (${fileType})`);
+
+  const isUrl = filePathOrUrl.startsWith('http');
+  let fileContent: Buffer;
+  try {
+    fileContent = await readUploadedFile(filePathOrUrl);
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  // Structured downloads skip extraction
+  const structuredReader = STRUCTURED_FILE_READERS[fileType];
+  if (structuredReader) {
     try {
-      await fs.access(filePathOrUrl);
-      const stats = await fs.stat(filePathOrUrl);
-      console.log(`File exists and is accessible. Size: ${stats.size} bytes`);
-      fileContent = await fs.readFile(filePathOrUrl);
+      return { success: true, data: structuredReader.read(decodeText(fileContent)) };
     } catch (error) {
-      console.error(`File access error: ${error instanceof Error ? error.message : String(error)}`);
       return {
         success: false,
-        error: `File not found or not accessible: ${error instanceof Error ? error.message : String(error)}`,
+        error: `Failed to read ${structuredReader.format} file: ${error instanceof Error ? error.message : String(error)}`,
       };
     }
   }
@@ -0,0 +1,2 @@
+export * from "./statement-queue";
+export * from "./statement-worker";
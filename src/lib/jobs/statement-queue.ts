@@ -0,0 +1,280 @@
+import type { PrismaClient, StatementJob } from "@/generated/prisma";
+
+/**
+ * Statement job queue
+ *
+ * Jobs live in the StatementJob table so they survive restarts and
+ * serverless timeouts. Workers claim jobs with FOR UPDATE SKIP LOCKED, so
+ * any number of them can poll the same table without processing a statement
+ * twice. Failed jobs are retried with exponential backoff until maxAttempts.
+ */
+
+// First retry after 30 seconds, doubling up to an hour
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+// A job still PROCESSING after this long is assumed to belong to a dead worker
+export const DEFAULT_STALE_JOB_TIMEOUT_MS = 15 * 60 * 1000;
+
+/**
+ * Delay before the next attempt after a failed one
+ * @param attempts Number of attempts made so far
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Queue a statement for processing.
+ * A statement that already has a job gets it reset so it runs again.
+ */
+export async function enqueueStatementJob(
+  prisma: PrismaClient,
+  statementId: string,
+  options: { runAt?: Date; maxAttempts?: number } = {}
+): Promise<StatementJob> {
+  const runAt = options.runAt || new Date();
+
+  return prisma.statementJob.upsert({
+    where: { statementId },
+    create: {
+      statementId,
+      runAt,
+      maxAttempts: options.maxAttempts,
+    },
+    update: {
+      status: "PENDING",
+      attempts: 0,
+      runAt,
+      lockedAt: null,
+      lockedBy: null,
+      lastError: null,
+      completedAt: null,
+    },
+  });
+}
+
+/**
+ * Queue a statement to be processed again, unless a worker is processing it
+ * right now; resetting a running job would let a second worker claim it.
+ * @returns The queued job, or null when the statement is being processed
+ */
+export async function requeueStatementJob(prisma: PrismaClient, statementId: string): Promise<StatementJob | null> {
+  const { count } = await prisma.statementJob.updateMany({
+    where: { statementId, status: { not: "PROCESSING" } },
+    data: {
+      status: "PENDING",
+      attempts: 0,
+      runAt: new Date(),
+      lockedAt: null,
+      lockedBy: null,
+      lastError: null,
+      completedAt: null,
+    },
+  });
+
+  if (count > 0) {
+    return prisma.statementJob.findUniqueOrThrow({ where: { statementId } });
+  }
+
+  // No job to reset: either it is running, or the statement was never queued
+  const runningJob = await prisma.statementJob.findUnique({ where: { statementId } });
+  if (runningJob) return null;
+
+  return prisma.statementJob.create({ data: { statementId } });
+}
+
+/**
+ * Create jobs for statements that aren't queued: UPLOADED statements without
+ * a job, e.g. uploaded before the queue existed or whose enqueue failed, and
+ * statements stuck in PROCESSING with no pending or running job, e.g. when
+ * the process handling them died. PROCESSING statements are only picked up
+ * once they haven't changed for staleAfterMs, so a statement being processed
+ * outside the queue isn't processed twice.
+ */
+export async function enqueueOrphanedStatements(
+  prisma: PrismaClient,
+  staleAfterMs: number = DEFAULT_STALE_JOB_TIMEOUT_MS
+): Promise<number> {
+  const statements = await prisma.statement.findMany({
+    where: {
+      status: "UPLOADED",
+      job: null,
+    },
+    select: { id: true },
+  });
+
+  let queued = 0;
+  if (statements.length > 0) {
+    const result = await prisma.statementJob.createMany({
+      data: statements.map((statement) => ({ statementId: statement.id })),
+      skipDuplicates: true,
+    });
+    queued += result.count;
+  }
+
+  const stuckStatements = await prisma.statement.findMany({
+    where: {
+      status: "PROCESSING",
+      updatedAt: { lt: new Date(Date.now() - staleAfterMs) },
+      OR: [{ job: null }, { job: { status: { notIn: ["PENDING", "PROCESSING"] } } }],
+    },
+    select: { id: true },
+  });
+
+  for (const statement of stuckStatements) {
+    await enqueueStatementJob(prisma, statement.id);
+    queued++;
+  }
+
+  if (queued > 0) {
+    console.log(`Queued ${queued} statements without a pending or running job`);
+  }
+  return queued;
+}
+
+/**
+ * Claim the next due job for a worker, or null when none is due.
+ * The claim counts as an attempt.
+ */
+export async function claimNextStatementJob(prisma: PrismaClient, workerId: string): Promise<StatementJob | null> {
+  const jobs = await prisma.$queryRaw<StatementJob[]>`
+    UPDATE "StatementJob"
+    SET "status" = 'PROCESSING',
+        "attempts" = "attempts" + 1,
+        "lockedAt" = NOW(),
+        "lockedBy" = ${workerId},
+        "updatedAt" = NOW()
+    WHERE "id" = (
+      SELECT "id" FROM "StatementJob"
+      WHERE "status" = 'PENDING' AND "runAt" <= NOW()
+      ORDER BY "runAt" ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+
+  return jobs[0] ?? null;
+}
+
+/**
+ * Mark a claimed job as done. Nothing is written when the job is no longer
+ * locked by the worker that claimed it, e.g. when the worker ran past the
+ * stale timeout and the job was recovered and claimed again.
+ * @returns Whether the job was completed
+ */
+export async function completeStatementJob(prisma: PrismaClient, job: StatementJob): Promise<boolean> {
+  const { count } = await prisma.statementJob.updateMany({
+    where: { id: job.id, status: "PROCESSING", lockedBy: job.lockedBy },
+    data: {
+      status: "COMPLETED",
+      completedAt: new Date(),
+      lockedAt: null,
+      lockedBy: null,
+      lastError: null,
+    },
+  });
+
+  if (count === 0) {
+    console.warn(`Statement job ${job.id} was taken over by another worker; not completing it`);
+  }
+  return count > 0;
+}
+
+/**
+ * Record a failed attempt. The job is rescheduled with backoff, or marked
+ * FAILED together with its statement once it is out of attempts. Like
+ * completeStatementJob, nothing is written when the worker lost the job.
+ * @returns Whether the failure was recorded
+ */
+export async function failStatementJob(prisma: PrismaClient, job: StatementJob, error: unknown): Promise<boolean> {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  const exhausted = job.attempts >= job.maxAttempts;
+
+  const recorded = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.statementJob.updateMany({
+      where: { id: job.id, status: "PROCESSING", lockedBy: job.lockedBy },
+      data: exhausted
+        ? {
+            status: "FAILED",
+            lockedAt: null,
+            lockedBy: null,
+            lastError: errorMessage,
+          }
+        : {
+            status: "PENDING",
+            runAt: new Date(Date.now() + getRetryDelay(job.attempts)),
+            lockedAt: null,
+            lockedBy: null,
+            lastError: errorMessage,
+          },
+    });
+    if (count === 0) return false;
+
+    await tx.statement.update({
+      where: { id: job.statementId },
+      data: exhausted
+        ? {
+            status: "FAILED",
+            errorMessage,
+            processedTimestamp: new Date(),
+          }
+        : {
+            status: "UPLOADED",
+            errorMessage,
+          },
+    });
+    return true;
+  });
+
+  if (!recorded) {
+    console.warn(`Statement job ${job.id} was taken over by another worker; not recording its failure`);
+  } else if (exhausted) {
+    console.error(`Statement job ${job.id} failed after ${job.attempts} attempts: ${errorMessage}`);
+  } else {
+    console.warn(`Statement job ${job.id} attempt ${job.attempts} failed, retrying: ${errorMessage}`);
+  }
+  return recorded;
+}
+
+/**
+ * Put jobs whose worker died mid-processing back in the queue.
+ * Jobs that already used all their attempts are failed instead.
+ */
+export async function recoverStaleStatementJobs(
+  prisma: PrismaClient,
+  staleAfterMs: number = DEFAULT_STALE_JOB_TIMEOUT_MS
+): Promise<number> {
+  const staleJobs = await prisma.statementJob.findMany({
+    where: {
+      status: "PROCESSING",
+      lockedAt: { lt: new Date(Date.now() - staleAfterMs) },
+    },
+  });
+
+  let recovered = 0;
+  for (const job of staleJobs) {
+    // Take over the lock first so two workers don't both recover the same job,
+    // and the stale worker can no longer complete it
+    const recoveryLock = `recovery:${job.lockedBy ?? "unknown"}`;
+    const { count } = await prisma.statementJob.updateMany({
+      where: { id: job.id, status: "PROCESSING", lockedAt: job.lockedAt },
+      data: { lockedAt: new Date(), lockedBy: recoveryLock },
+    });
+    if (count === 0) continue;
+
+    await failStatementJob(
+      prisma,
+      { ...job, lockedBy: recoveryLock },
+      new Error(`Worker ${job.lockedBy ?? "unknown"} stopped responding`)
+    );
+    recovered++;
+  }
+
+  if (recovered > 0) {
+    console.log(`Recovered ${recovered} stale statement jobs`);
+  }
+
+  return recovered;
+}
@@ -0,0 +1,100 @@
+import type { PrismaClient } from "@/generated/prisma";
+import { hostname } from "os";
+import { StatementIngestionService } from "../statement-ingestion";
+import {
+  claimNextStatementJob,
+  completeStatementJob,
+  enqueueOrphanedStatements,
+  failStatementJob,
+  recoverStaleStatementJobs,
+} from "./statement-queue";
+
+/**
+ * Statement worker
+ *
+ * Claims due statement jobs and processes them one at a time.
+ */
+
+export interface StatementWorkerOptions {
+  workerId?: string;
+  pollIntervalMs?: number; // Wait between polls when the queue is empty
+  staleAfterMs?: number;
+  signal?: AbortSignal; // Stops the worker after the current job
+}
+
+/**
+ * Build a worker ID that identifies the host and process in job locks
+ */
+export function createWorkerId(): string {
+  return `${hostname()}:${process.pid}`;
+}
+
+/**
+ * Process due jobs until the queue is empty or maxJobs were processed
+ * @returns Number of jobs processed
+ */
+export async function runDueStatementJobs(
+  prisma: PrismaClient,
+  options: { workerId?: string; maxJobs?: number; staleAfterMs?: number } = {}
+): Promise<number> {
+  const workerId = options.workerId || createWorkerId();
+  const maxJobs = options.maxJobs ?? Infinity;
+
+  await recoverStaleStatementJobs(prisma, options.staleAfterMs);
+  await enqueueOrphanedStatements(prisma, options.staleAfterMs);
+
+  const ingestion = new StatementIngestionService(prisma);
+
+  let processed = 0;
+  while (processed < maxJobs) {
+    const job = await claimNextStatementJob(prisma, workerId);
+    if (!job) break;
+
+    console.log(`Worker ${workerId} processing statement ${job.statementId} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+    try {
+      await ingestion.ingest(job.statementId);
+      await completeStatementJob(prisma, job);
+    } catch (error) {
+      await failStatementJob(prisma, job, error);
+    }
+
+    processed++;
+  }
+
+  return processed;
+}
+
+/**
+ * Poll the queue until the signal is aborted
+ */
+export async function runStatementWorker(prisma: PrismaClient, options: StatementWorkerOptions = {}): Promise<void> {
+  const workerId = options.workerId || createWorkerId();
+  const pollIntervalMs = options.pollIntervalMs ?? 5000;
+
+  console.log(`Statement worker ${workerId} started`);
+
+  while (!options.signal?.aborted) {
+    try {
+      // One job per round so an abort is noticed between jobs
+      const processed = await runDueStatementJobs(prisma, {
+        workerId,
+        maxJobs: 1,
+        staleAfterMs: options.staleAfterMs,
+      });
+      if (processed > 0) continue;
+    } catch (error) {
+      console.error("Error polling statement jobs:", error);
+    }
+
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, pollIntervalMs);
+      options.signal?.addEventListener("abort", () => {
+        clearTimeout(timer);
+        resolve();
+      }, { once: true });
+    });
+  }
+
+  console.log(`Statement worker ${workerId} stopped`);
+}
@@ -0,0 +1,5 @@
+export * from "./ledger";
+export * from "./ledger-export";
+export * from "./ledger-ofx";
+export * from "./ledger-writers";
+export * from "./ledger-xlsx";
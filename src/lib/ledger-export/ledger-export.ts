@@ -0,0 +1,105 @@
+import type { PrismaClient } from "@/generated/prisma";
+import { toCents } from "../money";
+import { OFX_MIME_TYPE } from "../ofx-import";
+import { QIF_MIME_TYPE, writeQif } from "../qif";
+import { parseOrderedDate } from "../statement-dates";
+import { LEDGER_SCHEMA_VERSION, type Ledger, type LedgerExportFilter, loadLedger } from "./ledger";
+import { writeLedgerOfx } from "./ledger-ofx";
+import { writeLedgerCsv, writeLedgerJson } from "./ledger-writers";
+import { XLSX_MIME_TYPE, writeLedgerXlsx } from "./ledger-xlsx";
+
+export const LEDGER_EXPORT_FORMATS = ["csv", "xlsx", "json", "ofx", "qif"] as const;
+
+export type LedgerExportFormat = (typeof LEDGER_EXPORT_FORMATS)[number];
+
+// A written export, ready to download
+export interface LedgerExport {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+  schemaVersion: number;
+  transactionCount: number;
+}
+
+const LEDGER_EXPORT_TYPES: Record<LedgerExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: XLSX_MIME_TYPE,
+  json: "application/json; charset=utf-8",
+  ofx: OFX_MIME_TYPE,
+  qif: QIF_MIME_TYPE,
+};
+
+/**
+ * Export the user's transactions matching a filter in a format
+ * @throws When an account in the filter isn't the user's, or a QIF export
+ * isn't of exactly one account
+ */
+export async function createLedgerExport(
+  prisma: PrismaClient,
+  userId: string,
+  format: LedgerExportFormat,
+  filter: LedgerExportFilter,
+  exportedAt = new Date()
+): Promise<LedgerExport> {
+  const ledger = await loadLedger(prisma, userId, filter);
+
+  let content: Buffer;
+  switch (format) {
+    case "csv":
+      content = Buffer.from(writeLedgerCsv(ledger), "utf8");
+      break;
+    case "xlsx":
+      content = writeLedgerXlsx(ledger, exportedAt);
+      break;
+    case "json":
+      content = Buffer.from(writeLedgerJson(ledger, exportedAt), "utf8");
+      break;
+    case "ofx":
+      content = Buffer.from(writeLedgerOfx(ledger, exportedAt), "utf8");
+      break;
+    case "qif":
+      content = Buffer.from(writeLedgerQif(ledger), "utf8");
+      break;
+  }
+
+  return {
+    filename: `${getExportName(ledger)}.${format}`,
+    contentType: LEDGER_EXPORT_TYPES[format],
+    content,
+    schemaVersion: LEDGER_SCHEMA_VERSION,
+    transactionCount: ledger.entries.length,
+  };
+}
+
+// QIF files hold one account, and every transaction needs a date
+function writeLedgerQif(ledger: Ledger): string {
+  if (ledger.accounts.length !== 1) {
+    throw new Error("QIF exports hold exactly one account");
+  }
+
+  return writeQif(
+    ledger.accounts[0],
+    ledger.entries
+      .filter((entry) => entry.date)
+      .map((entry) => ({
+        date: parseOrderedDate(entry.date, "YMD")!,
+        description: entry.description ?? "",
+        amount: toCents(entry.amount ?? "0"),
+        category: entry.category,
+      }))
+  );
+}
+
+// "chase-1234-2024-01-01-2024-03-31" for one account, "ledger-..." for several
+function getExportName(ledger: Ledger): string {
+  const [account] = ledger.accounts;
+  const subject =
+    ledger.accounts.length === 1
+      ? `${account.financialInstitution} ${account.lastFourDigits ?? account.name}`
+      : "ledger";
+  return [subject, ledger.from, ledger.to]
+    .filter(Boolean)
+    .join(" ")
+    .replace(/[^\w.-]+/g, "-")
+    .toLowerCase();
+}
@@ -0,0 +1,122 @@
+import { type Ledger, type LedgerAccount, type LedgerEntry, LEDGER_SCHEMA_VERSION } from "./ledger";
+
+/**
+ * OFX ledger files
+ *
+ * Writes an OFX 2.x file with a statement per account: credit card accounts
+ * as CCSTMTRS, the others as bank STMTRS. Transactions keep their FITID when
+ * they were imported with one and use their own ID otherwise, so importing
+ * the same export twice doesn't duplicate them. Transactions without a date
+ * can't be written to OFX and are left out.
+ */
+
+// NAME holds at most 32 characters in OFX
+const OFX_NAME_LENGTH = 32;
+
+// Account type -> OFX ACCTTYPE
+const OFX_ACCOUNT_TYPES: Record<string, string> = {
+  CHECKING: "CHECKING",
+  SAVINGS: "SAVINGS",
+};
+
+/**
+ * Write a ledger as an OFX file. The schema version is written to the
+ * header's NEWFILEUID, which OFX readers ignore.
+ */
+export function writeLedgerOfx(ledger: Ledger, exportedAt: Date): string {
+  const now = formatOfxDate(exportedAt.toISOString().slice(0, 10));
+  const institutions = new Set(ledger.accounts.map((account) => account.financialInstitution));
+  const bankStatements: string[] = [];
+  const cardStatements: string[] = [];
+
+  ledger.accounts.forEach((account, index) => {
+    const entries = ledger.entries.filter((entry) => entry.account_id === account.id && entry.date);
+    const statement = writeStatement(account, entries, ledger, now, index + 1);
+    (account.accountType === "CREDIT" ? cardStatements : bankStatements).push(statement);
+  });
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" ' +
+      `NEWFILEUID="LEDGER-SCHEMA-${LEDGER_SCHEMA_VERSION}"?>`,
+    "<OFX>",
+    "<SIGNONMSGSRSV1><SONRS>",
+    "<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>",
+    `<DTSERVER>${now}</DTSERVER><LANGUAGE>ENG</LANGUAGE>`,
+    // Readers name the institution after ORG, which only fits when there is one
+    ...(institutions.size === 1 ? [`<FI><ORG>${toOfxText([...institutions][0])}</ORG></FI>`] : []),
+    "</SONRS></SIGNONMSGSRSV1>",
+    ...(bankStatements.length > 0 ? ["<BANKMSGSRSV1>", ...bankStatements, "</BANKMSGSRSV1>"] : []),
+    ...(cardStatements.length > 0 ? ["<CREDITCARDMSGSRSV1>", ...cardStatements, "</CREDITCARDMSGSRSV1>"] : []),
+    "</OFX>",
+  ];
+  return `${lines.join("\n")}\n`;
+}
+
+function writeStatement(
+  account: LedgerAccount,
+  entries: LedgerEntry[],
+  ledger: Ledger,
+  now: string,
+  transactionId: number
+): string {
+  const isCard = account.accountType === "CREDIT";
+  const accountId = toOfxText(account.externalAccountId || account.lastFourDigits || account.id);
+  const dates = entries.map((entry) => entry.date!);
+  const start = ledger.from ?? dates[0] ?? null;
+  const end = ledger.to ?? dates[dates.length - 1] ?? null;
+
+  const lines = [
+    isCard ? "<CCSTMTTRNRS>" : "<STMTTRNRS>",
+    `<TRNUID>${transactionId}</TRNUID>`,
+    "<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>",
+    isCard ? "<CCSTMTRS>" : "<STMTRS>",
+    "<CURDEF>USD</CURDEF>",
+    // The bank's routing number isn't stored, so there is no BANKID
+    isCard
+      ? `<CCACCTFROM><ACCTID>${accountId}</ACCTID></CCACCTFROM>`
+      : `<BANKACCTFROM><ACCTID>${accountId}</ACCTID>` +
+        `<ACCTTYPE>${OFX_ACCOUNT_TYPES[account.accountType] ?? "CHECKING"}</ACCTTYPE></BANKACCTFROM>`,
+    "<BANKTRANLIST>",
+    `<DTSTART>${start ? formatOfxDate(start) : now}</DTSTART>`,
+    `<DTEND>${end ? formatOfxDate(end) : now}</DTEND>`,
+    ...entries.map(writeTransaction),
+    "</BANKTRANLIST>",
+    ...(account.balance !== null
+      ? [`<LEDGERBAL><BALAMT>${account.balance}</BALAMT><DTASOF>${now}</DTASOF></LEDGERBAL>`]
+      : []),
+    isCard ? "</CCSTMTRS>" : "</STMTRS>",
+    isCard ? "</CCSTMTTRNRS>" : "</STMTTRNRS>",
+  ];
+  return lines.join("\n");
+}
+
+function writeTransaction(entry: LedgerEntry): string {
+  const amount = entry.amount ?? "0.00";
+  const description = entry.description ?? "";
+  // The counterparty is the payee; otherwise the description is, cut to fit
+  // NAME and given in full as the MEMO
+  const name = (entry.counterparty || description).slice(0, OFX_NAME_LENGTH);
+  const memo = entry.counterparty ? description : description.length > OFX_NAME_LENGTH ? description : "";
+
+  return [
+    "<STMTTRN>",
+    `<TRNTYPE>${amount.startsWith("-") ? "DEBIT" : "CREDIT"}</TRNTYPE>`,
+    `<DTPOSTED>${formatOfxDate(entry.date!)}</DTPOSTED>`,
+    ...(entry.value_date ? [`<DTAVAIL>${formatOfxDate(entry.value_date)}</DTAVAIL>`] : []),
+    `<TRNAMT>${amount}</TRNAMT>`,
+    `<FITID>${toOfxText(entry.external_id || entry.transaction_id!)}</FITID>`,
+    ...(name ? [`<NAME>${toOfxText(name)}</NAME>`] : []),
+    ...(memo ? [`<MEMO>${toOfxText(memo)}</MEMO>`] : []),
+    "</STMTTRN>",
+  ].join("");
+}
+
+// YYYY-MM-DD -> YYYYMMDD
+function formatOfxDate(date: string): string {
+  return date.replace(/-/g, "");
+}
+
+function toOfxText(value: string): string {
+  return value.replace(/\s+/g, " ").trim().replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
@@ -0,0 +1,46 @@
+import { LEDGER_COLUMNS, LEDGER_SCHEMA_VERSION, type Ledger, toLedgerCells } from "./ledger";
+
+/**
+ * CSV and JSON ledger files
+ */
+
+/**
+ * Write a ledger as CSV: a "# schema_version: N" line, the header row and a
+ * row per transaction. Cells are quoted where needed (RFC 4180).
+ */
+export function writeLedgerCsv(ledger: Ledger): string {
+  const rows = [[...LEDGER_COLUMNS], ...ledger.entries.map(toLedgerCells)];
+  const lines = [`# schema_version: ${LEDGER_SCHEMA_VERSION}`, ...rows.map((row) => row.map(toCsvCell).join(","))];
+  return `${lines.join("\r\n")}\r\n`;
+}
+
+function toCsvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Write a ledger as JSON: the schema version, the filter's date range, the
+ * accounts and the transactions, each with every column
+ */
+export function writeLedgerJson(ledger: Ledger, exportedAt: Date): string {
+  return JSON.stringify(
+    {
+      schema_version: LEDGER_SCHEMA_VERSION,
+      exported_at: exportedAt.toISOString(),
+      from: ledger.from,
+      to: ledger.to,
+      columns: LEDGER_COLUMNS,
+      accounts: ledger.accounts.map((account) => ({
+        account_id: account.id,
+        account_name: account.name,
+        institution: account.financialInstitution,
+        account_last4: account.lastFourDigits,
+        account_type: account.accountType,
+        balance: account.balance,
+      })),
+      transactions: ledger.entries,
+    },
+    null,
+    2
+  );
+}
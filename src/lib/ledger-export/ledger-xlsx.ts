@@ -0,0 +1,128 @@
+import { LEDGER_COLUMNS, LEDGER_SCHEMA_VERSION, type Ledger, toLedgerCells } from "./ledger";
+import { writeZip } from "./zip-writer";
+
+export const XLSX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+/**
+ * XLSX ledger files
+ *
+ * A workbook with a "Transactions" sheet, the header row and a row per
+ * transaction in column order, and an "Export" sheet giving the schema
+ * version and the date range. Amounts are numbers so spreadsheets can sum
+ * them; everything else is text, so IDs and dates aren't reformatted.
+ */
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/worksheets/sheet2.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+</Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+const WORKBOOK = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets>
+<sheet name="Transactions" sheetId="1" r:id="rId1"/>
+<sheet name="Export" sheetId="2" r:id="rId2"/>
+</sheets>
+</workbook>`;
+
+const WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet2.xml"/>
+<Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+// Style 0 is the default; style 1 shows numbers with two decimals
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<fonts count="1"><font><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs>
+</styleSheet>`;
+
+// A cell: text, or a number shown as an amount
+type XlsxCell = string | { amount: string };
+
+/**
+ * Write a ledger as an XLSX workbook
+ */
+export function writeLedgerXlsx(ledger: Ledger, exportedAt: Date): Buffer {
+  const amountIndex = LEDGER_COLUMNS.indexOf("amount");
+  const transactionRows: XlsxCell[][] = [
+    [...LEDGER_COLUMNS],
+    ...ledger.entries.map((entry) =>
+      toLedgerCells(entry).map((cell, index) => (index === amountIndex && cell ? { amount: cell } : cell))
+    ),
+  ];
+  const exportRows: XlsxCell[][] = [
+    ["schema_version", String(LEDGER_SCHEMA_VERSION)],
+    ["exported_at", exportedAt.toISOString()],
+    ["from", ledger.from ?? ""],
+    ["to", ledger.to ?? ""],
+    ["transactions", String(ledger.entries.length)],
+  ];
+
+  return writeZip([
+    { name: "[Content_Types].xml", data: Buffer.from(CONTENT_TYPES, "utf8") },
+    { name: "_rels/.rels", data: Buffer.from(ROOT_RELS, "utf8") },
+    { name: "xl/workbook.xml", data: Buffer.from(WORKBOOK, "utf8") },
+    { name: "xl/_rels/workbook.xml.rels", data: Buffer.from(WORKBOOK_RELS, "utf8") },
+    { name: "xl/styles.xml", data: Buffer.from(STYLES, "utf8") },
+    { name: "xl/worksheets/sheet1.xml", data: Buffer.from(writeSheet(transactionRows, true), "utf8") },
+    { name: "xl/worksheets/sheet2.xml", data: Buffer.from(writeSheet(exportRows, false), "utf8") },
+  ]);
+}
+
+function writeSheet(rows: XlsxCell[][], freezeHeader: boolean): string {
+  const view = freezeHeader
+    ? '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" ' +
+      'state="frozen"/></sheetView></sheetViews>'
+    : "";
+  const sheetRows = rows.map((row, rowIndex) => {
+    const cells = row.map((cell, columnIndex) => {
+      const reference = `${toColumnName(columnIndex)}${rowIndex + 1}`;
+      if (typeof cell === "object") return `<c r="${reference}" s="1"><v>${cell.amount}</v></c>`;
+      if (!cell) return "";
+      return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${toXmlText(cell)}</t></is></c>`;
+    });
+    return `<row r="${rowIndex + 1}">${cells.join("")}</row>`;
+  });
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `${view}<sheetData>${sheetRows.join("")}</sheetData></worksheet>`
+  );
+}
+
+// 0 -> A, 25 -> Z, 26 -> AA
+function toColumnName(index: number): string {
+  let name = "";
+  for (let rest = index + 1; rest > 0; rest = Math.floor((rest - 1) / 26)) {
+    name = String.fromCharCode(65 + ((rest - 1) % 26)) + name;
+  }
+  return name;
+}
+
+// Escaped, without the control characters XML can't hold
+function toXmlText(value: string): string {
+  return value
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,153 @@
+import { z } from "zod";
+import type { PrismaClient } from "@/generated/prisma";
+import { toCents, toDecimalString } from "../money";
+import { parseOrderedDate, toIsoDate } from "../statement-dates";
+
+/**
+ * Ledger export
+ *
+ * Selects the transactions to export: those of a set of accounts and
+ * categories within a date range, oldest first. Every format writes the
+ * same columns in the same order and states the schema version, so scripts
+ * reading exports can rely on both.
+ */
+
+// Bumped when a column is renamed, removed or changes meaning. New columns
+// are only appended at the end and don't change the version.
+export const LEDGER_SCHEMA_VERSION = 1;
+
+export const LEDGER_COLUMNS = [
+  "transaction_id",
+  "date",
+  "value_date",
+  "account_id",
+  "account_name",
+  "institution",
+  "account_last4",
+  "account_type",
+  "description",
+  "counterparty",
+  "amount",
+  "bucket",
+  "category",
+  "statement",
+  "external_id",
+  "needs_review",
+] as const;
+
+export type LedgerColumn = (typeof LEDGER_COLUMNS)[number];
+
+// One exported transaction. Amounts are decimal strings ("-12.50") and dates
+// ISO dates, so no format rounds or shifts them.
+export type LedgerEntry = { [Column in LedgerColumn]: Column extends "needs_review" ? boolean : string | null };
+
+export interface LedgerAccount {
+  id: string;
+  name: string;
+  financialInstitution: string;
+  lastFourDigits: string | null;
+  externalAccountId: string | null;
+  accountType: string;
+  balance: string | null;
+}
+
+export interface Ledger {
+  accounts: LedgerAccount[]; // The accounts exported, with or without transactions in the range
+  entries: LedgerEntry[];
+  from: string | null;
+  to: string | null;
+}
+
+const isoDateSchema = z.string().refine((value) => parseOrderedDate(value, "YMD") !== null, {
+  message: "Dates must be given as YYYY-MM-DD",
+});
+
+export const ledgerExportFilterSchema = z.object({
+  bankAccountIds: z.array(z.string()).optional(), // All of the user's accounts when left out
+  categoryIds: z.array(z.string()).optional(), // All transactions when left out
+  includeUncategorized: z.boolean().optional(), // With categoryIds: also export transactions without a category
+  from: isoDateSchema.optional(),
+  to: isoDateSchema.optional(),
+});
+
+export type LedgerExportFilter = z.infer<typeof ledgerExportFilterSchema>;
+
+/**
+ * Load the user's transactions matching a filter. Transactions without a
+ * date are only exported when no date range is given.
+ * @throws When an account in the filter isn't the user's
+ */
+export async function loadLedger(prisma: PrismaClient, userId: string, filter: LedgerExportFilter): Promise<Ledger> {
+  const accounts = await prisma.bankAccount.findMany({
+    where: { userId, ...(filter.bankAccountIds ? { id: { in: filter.bankAccountIds } } : {}) },
+    orderBy: [{ financialInstitution: "asc" }, { name: "asc" }, { id: "asc" }],
+  });
+  if (filter.bankAccountIds && accounts.length !== new Set(filter.bankAccountIds).size) {
+    throw new Error("Bank account not found");
+  }
+
+  const from = filter.from ? parseOrderedDate(filter.from, "YMD") : null;
+  const to = filter.to ? parseOrderedDate(filter.to, "YMD") : null;
+
+  const transactions = await prisma.transaction.findMany({
+    where: {
+      bankAccountId: { in: accounts.map((account) => account.id) },
+      ...(from || to
+        ? { transactionDate: { ...(from ? { gte: from } : {}), ...(to ? { lte: to } : {}) } }
+        : {}),
+      ...(filter.categoryIds
+        ? {
+            OR: [
+              { categoryId: { in: filter.categoryIds } },
+              ...(filter.includeUncategorized ? [{ categoryId: null }] : []),
+            ],
+          }
+        : {}),
+    },
+    include: { bankAccount: true, category: true, statement: true },
+    // Stable order, so exporting the same range twice gives the same file
+    orderBy: [{ transactionDate: { sort: "asc", nulls: "last" } }, { createdAt: "asc" }, { id: "asc" }],
+  });
+
+  return {
+    accounts: accounts.map((account) => ({
+      id: account.id,
+      name: account.name,
+      financialInstitution: account.financialInstitution,
+      lastFourDigits: account.lastFourDigits,
+      externalAccountId: account.externalAccountId,
+      accountType: account.accountType,
+      balance: account.balance === null ? null : toDecimalString(toCents(account.balance)),
+    })),
+    entries: transactions.map((transaction) => ({
+      transaction_id: transaction.id,
+      date: transaction.transactionDate ? toIsoDate(transaction.transactionDate) : null,
+      value_date: transaction.valueDate ? toIsoDate(transaction.valueDate) : null,
+      account_id: transaction.bankAccountId,
+      account_name: transaction.bankAccount.name,
+      institution: transaction.bankAccount.financialInstitution,
+      account_last4: transaction.bankAccount.lastFourDigits,
+      account_type: transaction.bankAccount.accountType,
+      description: transaction.description,
+      counterparty: transaction.counterparty,
+      amount: toDecimalString(toCents(transaction.amount)),
+      bucket: transaction.bucket,
+      category: transaction.category?.name ?? null,
+      statement: transaction.statement.filename,
+      external_id: transaction.externalId,
+      needs_review: transaction.needsReview,
+    })),
+    from: filter.from ?? null,
+    to: filter.to ?? null,
+  };
+}
+
+/**
+ * An entry's values in column order, as text
+ */
+export function toLedgerCells(entry: LedgerEntry): string[] {
+  return LEDGER_COLUMNS.map((column) => {
+    const value = entry[column];
+    return value === null ? "" : String(value);
+  });
+}
@@ -0,0 +1,153 @@
+import { z } from "zod";
+
+/**
+ * Money
+ *
+ * Amounts are counted in whole cents from the moment they're read off a
+ * statement until they're shown. Cent counts are integers, which JS numbers
+ * hold exactly, so sums don't drift the way dollar floats do (0.1 + 0.2).
+ * Parsers still hand over dollar numbers, in Transaction.amount and the
+ * balances and totals of Account.metadata. Those always come from a cent
+ * count and are converted back with toCents where a parsed statement is
+ * taken in: buildTransactionRows for transactions and the reconciliation for
+ * the summary, so they're never added up as dollars. Database amounts are
+ * Decimal(12,2) and go in and out as decimal strings.
+ *
+ * Nothing here rounds: an amount that isn't a whole number of cents, or text
+ * that looks like an amount but can't be read unambiguously, throws.
+ */
+
+export type Cents = number;
+
+// Anything shaped like a printed amount: signs, parentheses, a currency
+// symbol, digits with separators and a CR/DR or trailing minus marker
+const AMOUNT_SHAPE_PATTERN = /^(\()?\s*([-+])?\s*\$?\s*([-+])?\s*([\d.,]*\d[\d.,]*)\s*(\))?\s*(-|CR|DR)?$/i;
+// 1234.56, 1,234.56
+const DECIMAL_AMOUNT_PATTERN = /^(?:\d{1,3}(?:,\d{3})+|\d+)\.\d{2}$/;
+// 1,234 or $1234 (whole dollars, accepted with a currency symbol or thousands separators)
+const WHOLE_AMOUNT_PATTERN = /^(?:\d{1,3}(?:,\d{3})+|\d+)$/;
+// 12.5, written by software that drops trailing zeros
+const SHORT_DECIMAL_AMOUNT_PATTERN = /^(?:\d{1,3}(?:,\d{3})+|\d+)\.\d$/;
+// A decimal string as stored: -1234.5, 12, 0.07
+const DECIMAL_STRING_PATTERN = /^(-)?(\d+)(?:\.(\d{1,2}))?$/;
+
+// How amounts are written in an exported file, as opposed to a printed statement
+export interface MoneyFormat {
+  decimalSeparator?: "." | ","; // "," for 1.234,56
+  plainNumbers?: boolean; // "12" and "12.5" are amounts rather than a reference and a misread
+}
+
+// Tolerance for float noise when converting dollar numbers, far below a cent
+const CENT_EPSILON = 1e-6;
+
+/**
+ * Read a printed amount: "$1,234.56", "-$4.50", "+ $1.00", "(1,234.56)",
+ * "1,234.56-", "12.00 CR" or "12.00 DR". Parentheses, a minus sign and DR
+ * make the amount negative.
+ * @param format How the amount is written, for amounts from exported files
+ * @returns The amount in cents, or null when the text isn't an amount (plain
+ * digit runs like check numbers aren't)
+ * @throws When the text looks like an amount but is ambiguous, e.g.
+ * "12.345", "1.234,56", "12.5" or "(-12.00)"
+ */
+export function parseMoney(text: string, format: MoneyFormat = {}): Cents | null {
+  const printed = text.trim();
+  const trimmed = format.decimalSeparator === "," ? toPointDecimal(printed) : printed;
+  const shape = trimmed.match(AMOUNT_SHAPE_PATTERN);
+  if (!shape) return null;
+
+  const [, openParen, leadingSign, innerSign, digits, closeParen, marker] = shape;
+  const hasCurrency = trimmed.includes("$");
+
+  if (!DECIMAL_AMOUNT_PATTERN.test(digits)) {
+    if (WHOLE_AMOUNT_PATTERN.test(digits)) {
+      // A bare number is a count or reference, not money
+      if (!hasCurrency && !digits.includes(",") && !format.plainNumbers) return null;
+    } else if (!(format.plainNumbers && SHORT_DECIMAL_AMOUNT_PATTERN.test(digits))) {
+      throw new Error(`Ambiguous amount "${printed}"`);
+    }
+  }
+
+  if (Boolean(openParen) !== Boolean(closeParen)) {
+    throw new Error(`Ambiguous amount "${printed}": unbalanced parentheses`);
+  }
+
+  const markerSign = marker ? (marker.toUpperCase() === "CR" ? "+" : "-") : undefined;
+  const signs = [openParen ? "-" : undefined, leadingSign, innerSign, markerSign].filter(Boolean);
+  if (signs.length > 1) {
+    throw new Error(`Ambiguous amount "${printed}": more than one sign`);
+  }
+
+  const [whole, fraction = "00"] = digits.replace(/,/g, "").split(".");
+  const cents = parseInt(whole, 10) * 100 + parseInt(fraction.padEnd(2, "0"), 10);
+  return signs[0] === "-" ? -cents : cents;
+}
+
+/**
+ * Rewrite a decimal comma amount with a decimal point: "1.234,56" and
+ * "1 234,56" -> "1,234.56"
+ */
+function toPointDecimal(text: string): string {
+  return text
+    .replace(/(\d)[\s\u00a0\u202f'](?=\d{3}(?!\d))/g, "$1.")
+    .replace(/[.,]/g, (separator) => (separator === "." ? "," : "."));
+}
+
+/**
+ * Whether a dollar number is a whole number of cents
+ */
+export function isWholeCents(value: number): boolean {
+  return Number.isFinite(value) && Math.abs(value * 100 - Math.round(value * 100)) < CENT_EPSILON;
+}
+
+/**
+ * Convert an amount to cents: a dollar number, or a decimal string or
+ * Prisma Decimal from the database.
+ * @throws When the amount isn't a whole number of cents
+ */
+export function toCents(value: number | string | { toString(): string }): Cents {
+  if (typeof value === "number") {
+    if (!isWholeCents(value)) {
+      throw new Error(`Amount ${value} is not a whole number of cents`);
+    }
+    return Math.round(value * 100);
+  }
+
+  const text = value.toString().trim();
+  const match = text.match(DECIMAL_STRING_PATTERN);
+  if (!match) {
+    throw new Error(`Amount "${text}" is not a whole number of cents`);
+  }
+
+  const cents = parseInt(match[2], 10) * 100 + parseInt((match[3] || "0").padEnd(2, "0"), 10);
+  return match[1] ? -cents : cents;
+}
+
+/**
+ * Cents as dollars, the form parsed transactions carry amounts in
+ */
+export function fromCents(cents: Cents): number {
+  return cents / 100;
+}
+
+/**
+ * Cents as a decimal string for Decimal columns, e.g. -1234.5 dollars -> "-1234.50"
+ */
+export function toDecimalString(cents: Cents): string {
+  const sign = cents < 0 ? "-" : "";
+  const absolute = Math.abs(cents);
+  return `${sign}${Math.floor(absolute / 100)}.${String(absolute % 100).padStart(2, "0")}`;
+}
+
+/**
+ * Format cents for display, e.g. -123456 -> "-$1,234.56"
+ */
+export function formatMoney(cents: Cents): string {
+  const [whole, fraction] = toDecimalString(Math.abs(cents)).split(".");
+  return `${cents < 0 ? "-" : ""}$${whole.replace(/\B(?=(\d{3})+(?!\d))/g, ",")}.${fraction}`;
+}
+
+// Dollar amounts accepted from API input, rejecting fractions of a cent
+export const moneyInputSchema = z.number().refine(isWholeCents, {
+  message: "Amounts must be a whole number of cents",
+});
@@ -0,0 +1,36 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, it } from "@jest/globals";
+import { buildMt940Statement } from "../mt940-statement";
+
+const MT940 = [
+  ":20:STMT240131",
+  ":25:NL91ABNA0417164300",
+  ":28C:1/1",
+  ":60F:C240130EUR1000,00",
+  ":61:2401310131D150,00NCHK000123//BANK1",
+  "Check 000123",
+  ":86:Check 000123 paid",
+  ":61:2401310131D2,50NCHGNONREF",
+  ":86:Account fee January",
+  ":61:2401310131D40,00NTRFNONREF//BANK2",
+  "Online transfer",
+  ":86:/NAME/J Smith/REMI/Rent share",
+  ":61:2401310131C500,00NTRFNONREF",
+  ":86:/NAME/ACME Corp/REMI/Salary",
+  ":62F:C240131EUR1307,50",
+  "-",
+].join("\n");
+
+describe("buildMt940Statement", () => {
+  it("buckets statement lines by their type code, with or without supplementary details", () => {
+    const [account] = buildMt940Statement(MT940).accounts;
+
+    expect(account.metadata).toMatchObject({ beginningBalance: 1000, endingBalance: 1307.5 });
+    expect(account.allTransactions?.checks.map((transaction) => transaction.amount)).toEqual([-150]);
+    expect(account.allTransactions?.fees.map((transaction) => transaction.amount)).toEqual([-2.5]);
+    expect(account.allTransactions?.withdrawals.map((transaction) => transaction.amount)).toEqual([-40]);
+    expect(account.allTransactions?.deposits.map((transaction) => transaction.amount)).toEqual([500]);
+  });
+});
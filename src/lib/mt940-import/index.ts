@@ -0,0 +1,2 @@
+export * from "./mt940-reader";
+export * from "./mt940-statement";
@@ -0,0 +1,61 @@
+export const MT940_MIME_TYPE = "application/x-mt940";
+
+// A tagged field (":61:") with its value, continuation lines included
+export interface Mt940Field {
+  tag: string;
+  value: string;
+}
+
+// One MT940 message: a statement, or one page of a statement
+export interface Mt940Message {
+  senderBic: string | null; // From the SWIFT envelope ({1:F01BANKDEFFAXXX...}), when the file has one
+  fields: Mt940Field[];
+}
+
+// ":20:", ":60F:", ":61:" ...
+const MT940_FIELD_PATTERN = /^:(\d{2}[A-Z]?):(.*)$/;
+
+/**
+ * Read the messages of an MT940 file. Messages start with a :20: field and
+ * end with "-"; files sent over SWIFT wrap each in an envelope of {1:...},
+ * {2:...} and {4: ... -} blocks.
+ * @throws When the file has no :25: account field
+ */
+export function readMt940(text: string): Mt940Message[] {
+  const messages: Mt940Message[] = [];
+  let senderBic: string | null = null;
+  let current: Mt940Message | null = null;
+  let field: Mt940Field | null = null;
+
+  for (const rawLine of text.replace(/^\uFEFF/, "").split(/\r?\n/)) {
+    // The basic header names the sending bank's BIC
+    const header = rawLine.match(/\{1:F\d{2}([A-Z0-9]{8})/);
+    if (header) senderBic = header[1];
+
+    const line = rawLine.replace(/\{[1235]:[^{}]*\}|\{4:|\{5:.*$/g, "").trimEnd();
+    if (!line.trim()) continue;
+
+    if (/^-\}?$/.test(line.trim())) {
+      current = null;
+      field = null;
+      continue;
+    }
+
+    const match = line.match(MT940_FIELD_PATTERN);
+    if (match) {
+      if (!current || match[1] === "20") {
+        current = { senderBic, fields: [] };
+        messages.push(current);
+      }
+      field = { tag: match[1], value: match[2] };
+      current.fields.push(field);
+    } else if (field) {
+      field.value += `\n${line}`;
+    }
+  }
+
+  if (!messages.some((message) => message.fields.some((candidate) => candidate.tag === "25"))) {
+    throw new Error("Not an MT940 file: no :25: account field");
+  }
+  return messages;
+}
@@ -0,0 +1,251 @@
+import type { Account, ProcessedStatementData, Transaction, TransactionBucketKey } from "../parsers";
+import { type Cents, fromCents, parseMoney } from "../money";
+import { toIsoDate } from "../statement-dates";
+import { getLastFour } from "../statement-files";
+import { type Mt940Field, readMt940 } from "./mt940-reader";
+
+/**
+ * MT940 statements
+ *
+ * Reads SWIFT MT940 customer statements into a parsed statement. Each :25:
+ * account is an account, with statements continued over several messages
+ * (:28C: pages) joined into one. :61: statement lines become transactions
+ * with their value and booking dates; the :86: field after each gives the
+ * counterparty and remittance information, in the German "?20" layout, the
+ * "/NAME/.../REMI/..." layout of SEPA banks or as free text. :60F: and
+ * :62F: are the opening and closing balances.
+ */
+
+// :61: value date, booking date (MMDD), debit/credit mark, funds code,
+// amount, transaction type and the references
+const STATEMENT_LINE_PATTERN = /^(\d{6})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d{0,2})([NSF][A-Z0-9]{3})(.*)$/;
+
+// :60F:, :62F: ... balances: mark, date, currency and amount
+const BALANCE_PATTERN = /^([CD])(\d{6})([A-Z]{3})(\d+,\d{0,2})/;
+
+// Transaction type codes of :61: -> bucket, for money out
+const MT940_TRANSACTION_BUCKETS: Record<string, TransactionBucketKey> = {
+  NCHK: "checks",
+  NCHG: "fees",
+  NCOM: "fees",
+};
+
+interface Mt940Account {
+  account: Account;
+  openingDate: string | null;
+  closingDate: string | null;
+}
+
+/**
+ * Read an MT940 file, with an account per :25: account it contains
+ * @throws When the file isn't MT940
+ */
+export function buildMt940Statement(text: string): ProcessedStatementData {
+  const messages = readMt940(text);
+  const reviewReasons: string[] = [];
+  const accounts = new Map<string, Mt940Account>();
+  let bankName: string | null = null;
+
+  const readAmount = (mark: string, value: string): Cents | null => {
+    try {
+      // "1234," has no decimals written
+      const written = value.endsWith(",") ? `${value}00` : value;
+      const amount = parseMoney(written, { decimalSeparator: ",", plainNumbers: true });
+      if (amount === null) return null;
+      return mark === "D" || mark === "RC" ? -Math.abs(amount) : Math.abs(amount);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      if (!reviewReasons.includes(reason)) reviewReasons.push(reason);
+      return null;
+    }
+  };
+
+  for (const message of messages) {
+    const accountValue = message.fields.find((field) => field.tag === "25")?.value.trim();
+    if (!accountValue) {
+      reviewReasons.push("MT940 statement without an account (:25:) was skipped");
+      continue;
+    }
+
+    // "NL91ABNA0417164300", "NL91ABNA0417164300EUR" or "10020030/1234567890" (bank code/account)
+    const accountId = accountValue.replace(/(\d)[A-Z]{3}$/, "$1");
+    bankName ||= message.senderBic || (accountId.includes("/") ? accountId.split("/")[0] : null);
+
+    // Statements continued over several messages share one account
+    let entry = accounts.get(accountId);
+    if (!entry) {
+      entry = {
+        account: {
+          accountNumberLast4: getLastFour(accountId.split("/").pop()!),
+          accountId,
+          accountType: "CHECKING",
+          allTransactions: { deposits: [], atmDebit: [], withdrawals: [], checks: [], fees: [], other: [] },
+          metadata: {},
+        },
+        openingDate: null,
+        closingDate: null,
+      };
+      accounts.set(accountId, entry);
+    }
+    const { account } = entry;
+
+    let transaction: Transaction | null = null;
+    for (const field of message.fields) {
+      if (field.tag === "60F" || field.tag === "60M") {
+        // The first page's opening balance opens the statement
+        const balance = field.value.match(BALANCE_PATTERN);
+        if (balance && account.metadata!.beginningBalance === undefined) {
+          const amount = readAmount(balance[1], balance[4]);
+          if (amount !== null) account.metadata!.beginningBalance = fromCents(amount);
+          entry.openingDate = readMt940Date(balance[2]);
+        }
+      } else if (field.tag === "62F" || field.tag === "62M") {
+        // The last page's closing balance closes it
+        const balance = field.value.match(BALANCE_PATTERN);
+        if (balance) {
+          const amount = readAmount(balance[1], balance[4]);
+          if (amount !== null) account.metadata!.endingBalance = fromCents(amount);
+          entry.closingDate = readMt940Date(balance[2]);
+        }
+      } else if (field.tag === "61") {
+        transaction = readStatementLine(field, readAmount, reviewReasons);
+        if (transaction) {
+          const bucket = getBucket(field, transaction.amount);
+          (account.allTransactions![bucket] ||= []).push(transaction);
+        }
+      } else if (field.tag === "86" && transaction) {
+        addInformation(transaction, field.value);
+        transaction = null;
+      }
+    }
+  }
+
+  if (accounts.size === 0) {
+    throw new Error("No accounts found in the MT940 file");
+  }
+
+  // The opening balance is dated on the previous statement's closing day, so
+  // the period runs from the first booking to the closing balance
+  const entries = [...accounts.values()];
+  const transactionDates = entries
+    .flatMap(({ account }) => Object.values(account.allTransactions || {}).flat())
+    .map((transaction) => transaction.date)
+    .filter((date): date is string => !!date);
+  const starts = transactionDates.length > 0 ? transactionDates : entries.map((entry) => entry.openingDate);
+  const ends = [...transactionDates, ...entries.map((entry) => entry.closingDate)];
+  const dates = (values: (string | null)[]) => values.filter((date): date is string => !!date);
+
+  return {
+    bankName: bankName || "Unknown",
+    accounts: entries.map(({ account }) => account),
+    statementPeriodStartDate: dates(starts).reduce<string | null>((a, b) => (a === null || b < a ? b : a), null),
+    statementPeriodEndDate: dates(ends).reduce<string | null>((a, b) => (a === null || b > a ? b : a), null),
+    rawText: text,
+    entities: [],
+    reviewReasons,
+  };
+}
+
+/**
+ * Read a :61: statement line. Its booking date has no year: it's the value
+ * date's year, or the next or previous one around new year.
+ */
+function readStatementLine(
+  field: Mt940Field,
+  readAmount: (mark: string, value: string) => Cents | null,
+  reviewReasons: string[]
+): Transaction | null {
+  const [firstLine, ...supplementary] = field.value.split("\n");
+  const match = firstLine.trim().match(STATEMENT_LINE_PATTERN);
+  if (!match) {
+    reviewReasons.push(`Unreadable MT940 statement line ":61:${firstLine.trim()}"`);
+    return null;
+  }
+
+  const [, valueDateText, bookingText, mark, , amountText, , references] = match;
+  const valueDate = readMt940Date(valueDateText);
+  let bookingDate: string | null = null;
+  if (valueDate && bookingText) {
+    const valueYear = parseInt(valueDate.slice(0, 4), 10);
+    const monthGap = parseInt(bookingText.slice(0, 2), 10) - parseInt(valueDate.slice(5, 7), 10);
+    const year = monthGap > 6 ? valueYear - 1 : monthGap < -6 ? valueYear + 1 : valueYear;
+    bookingDate = readMt940Date(`${String(year).slice(2)}${bookingText}`);
+  }
+
+  const amount = readAmount(mark, amountText);
+  const [customerReference] = references.split("//");
+
+  return {
+    date: bookingDate ?? valueDate,
+    valueDate,
+    description: [customerReference, ...supplementary]
+      .map((part) => part.trim())
+      .filter((part) => part && part !== "NONREF")
+      .join(" "),
+    amount: amount === null ? null : fromCents(amount),
+    type: amount !== null && amount > 0 ? "DEPOSIT" : "WITHDRAWAL",
+    rawRowText: `:61:${field.value.replace(/\n/g, " ")}`,
+  };
+}
+
+/**
+ * Take the counterparty and remittance information of a :86: field into
+ * its transaction
+ */
+function addInformation(transaction: Transaction, value: string): void {
+  let counterparty: string | null = null;
+  let remittance: string | null = null;
+  let postingText: string | null = null;
+
+  if (/^\d{3}\?/.test(value.trim())) {
+    // German layout: "166?00GUTSCHRIFT?20remittance?21...?32name?33name"
+    const subfields = new Map<string, string>();
+    const parts = value.replace(/\n/g, "").trim().split(/\?(\d{2})/);
+    for (let i = 1; i < parts.length; i += 2) subfields.set(parts[i], parts[i + 1]);
+
+    const join = (codes: string[]) =>
+      codes.map((code) => subfields.get(code) ?? "").join("").trim() || null;
+    postingText = join(["00"]);
+    counterparty = join(["32", "33"]);
+    remittance = join(["20", "21", "22", "23", "24", "25", "26", "27", "28", "29", "60", "61", "62", "63"]);
+
+    // SEPA transfers label their parts; the purpose is the remittance text
+    const purpose = remittance?.match(/SVWZ\+(.*?)(?=[A-Z]{4}\+|$)/);
+    if (purpose) remittance = purpose[1].trim();
+  } else if (/^\/[A-Z]{2,4}\//.test(value.trim())) {
+    // SEPA layout: "/TRTP/SEPA OVERBOEKING/IBAN/.../NAME/name/REMI/USTD//text/"
+    const text = value.replace(/\n/g, "");
+    counterparty =
+      text.match(/\/NAME\/(.*?)(?=\/[A-Z]{2,4}\/|\/$|$)/)?.[1].trim() ||
+      // ABN AMRO names the counterparty as /CNTP/iban/bic/name/city/
+      text.match(/\/CNTP\/[^/]*\/[^/]*\/([^/]*)/)?.[1].trim() ||
+      null;
+    remittance =
+      text.match(/\/REMI\/(?:USTD\/\/|STRD\/[^/]*\/[^/]*\/)?(.*?)(?=\/[A-Z]{2,4}\/|\/$|$)/)?.[1].trim() || null;
+  } else {
+    remittance = value.replace(/\s*\n\s*/g, " ").trim() || null;
+  }
+
+  transaction.counterparty = counterparty;
+  transaction.description =
+    [counterparty, remittance].filter(Boolean).join(" ") || postingText || transaction.description;
+  transaction.rawRowText = `${transaction.rawRowText} :86:${value.replace(/\n/g, "")}`;
+}
+
+function getBucket(field: Mt940Field, amount: number | null | undefined): TransactionBucketKey {
+  if (typeof amount !== "number") return "other";
+
+  // The type code is on the first line; supplementary details may follow it
+  const type = field.value.split("\n")[0].trim().match(STATEMENT_LINE_PATTERN)?.[6] ?? "";
+  if (amount < 0 && MT940_TRANSACTION_BUCKETS[type]) return MT940_TRANSACTION_BUCKETS[type];
+  return amount > 0 ? "deposits" : "withdrawals";
+}
+
+// YYMMDD -> YYYY-MM-DD
+function readMt940Date(text: string): string | null {
+  const match = text.match(/^(\d{2})(\d{2})(\d{2})$/);
+  if (!match) return null;
+
+  const date = new Date(Date.UTC(2000 + parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10)));
+  return date.getUTCDate() === parseInt(match[3], 10) ? toIsoDate(date) : null;
+}
@@ -0,0 +1,2 @@
+export * from "./ofx-reader";
+export * from "./ofx-statement";
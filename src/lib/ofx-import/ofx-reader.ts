@@ -0,0 +1,102 @@
+export const OFX_MIME_TYPE = "application/x-ofx";
+
+// An OFX element: an aggregate with children, or a leaf with a value
+export interface OfxElement {
+  name: string;
+  value?: string;
+  children: OfxElement[];
+}
+
+// <TAG>, </TAG> or the text between tags
+const OFX_TOKEN_PATTERN = /<(\/?)([A-Za-z0-9_.]+)[^>]*>|([^<]+)/g;
+
+const OFX_ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&apos;": "'",
+  "&nbsp;": " ",
+};
+
+/**
+ * Read an OFX file, either OFX 1.x SGML, where leaf elements have no closing
+ * tag (<TRNAMT>-12.50), or OFX 2.x XML
+ * @returns The <OFX> element
+ * @throws When the file has no <OFX> element
+ */
+export function readOfx(text: string): OfxElement {
+  const start = text.search(/<OFX>/i);
+  if (start === -1) {
+    throw new Error("Not an OFX file: no <OFX> element");
+  }
+
+  const root: OfxElement = { name: "ROOT", children: [] };
+  const stack: OfxElement[] = [root];
+  const tokens = [...text.slice(start).matchAll(OFX_TOKEN_PATTERN)];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const [, closing, tagName, textValue] = tokens[i];
+    if (textValue !== undefined) continue; // Text is read together with its opening tag
+
+    const name = tagName.toUpperCase();
+    if (closing) {
+      // Close the aggregate, and any SGML aggregates left open inside it
+      const index = stack.map((element) => element.name).lastIndexOf(name);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+
+    const element: OfxElement = { name, children: [] };
+    stack[stack.length - 1].children.push(element);
+
+    const next = tokens[i + 1];
+    const value = next?.[3]?.trim();
+    if (value) {
+      // A leaf: <NAME>value, followed by </NAME> in XML
+      element.value = decodeOfxText(value);
+      i++;
+      if (tokens[i + 1]?.[1] && tokens[i + 1][2].toUpperCase() === name) i++;
+    } else if (next?.[1] && next[2].toUpperCase() === name) {
+      // An empty leaf: <NAME></NAME>
+      i++;
+    } else {
+      stack.push(element);
+    }
+  }
+
+  const ofx = root.children.find((element) => element.name === "OFX");
+  if (!ofx) {
+    throw new Error("Not an OFX file: no <OFX> element");
+  }
+  return ofx;
+}
+
+function decodeOfxText(text: string): string {
+  return text.replace(/&[a-z]+;/gi, (entity) => OFX_ENTITIES[entity.toLowerCase()] ?? entity);
+}
+
+/**
+ * Every element with a name under an element, at any depth
+ */
+export function findOfxElements(element: OfxElement, name: string): OfxElement[] {
+  return element.children.flatMap((child) => [
+    ...(child.name === name ? [child] : []),
+    ...findOfxElements(child, name),
+  ]);
+}
+
+/**
+ * The first element with a name under an element, at any depth
+ */
+export function findOfxElement(element: OfxElement, name: string): OfxElement | null {
+  return findOfxElements(element, name)[0] ?? null;
+}
+
+/**
+ * The value of the first leaf with a name under an element
+ */
+export function getOfxValue(element: OfxElement | null, name: string): string | null {
+  if (!element) return null;
+  return findOfxElement(element, name)?.value ?? null;
+}
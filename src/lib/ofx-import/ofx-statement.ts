@@ -0,0 +1,201 @@
+import type { Account, ProcessedStatementData, Transaction, TransactionBucketKey } from "../parsers";
+import { type Cents, fromCents, parseMoney } from "../money";
+import { toIsoDate } from "../statement-dates";
+import { getLastFour } from "../statement-files";
+import { findOfxElement, findOfxElements, getOfxValue, type OfxElement, readOfx } from "./ofx-reader";
+
+/**
+ * OFX statements
+ *
+ * Reads OFX and QFX (Quicken) downloads into a parsed statement. The files
+ * carry what a PDF parser has to work out: the full account id, signed
+ * amounts, the ledger balance and the period covered. Each transaction keeps
+ * its FITID, the bank's id for it, so importing overlapping downloads
+ * doesn't store a transaction twice.
+ */
+
+// Statement aggregates and the account aggregate inside each
+const STATEMENT_AGGREGATES = [
+  { statement: "STMTRS", account: "BANKACCTFROM" },
+  { statement: "CCSTMTRS", account: "CCACCTFROM" },
+  { statement: "INVSTMTRS", account: "INVACCTFROM" },
+] as const;
+
+// OFX ACCTTYPE -> account type
+const OFX_ACCOUNT_TYPES: Record<string, string> = {
+  CHECKING: "CHECKING",
+  SAVINGS: "SAVINGS",
+  MONEYMRKT: "SAVINGS",
+  CD: "SAVINGS",
+  CREDITLINE: "CREDIT",
+};
+
+// OFX TRNTYPE -> bucket, for types that say more than the amount's sign
+const OFX_TRANSACTION_BUCKETS: Record<string, TransactionBucketKey> = {
+  ATM: "atmDebit",
+  POS: "atmDebit",
+  CHECK: "checks",
+  FEE: "fees",
+  SRVCHG: "fees",
+};
+
+/**
+ * Read an OFX file, with an account per statement it contains
+ * @throws When the file isn't OFX or contains no statements
+ */
+export function buildOfxStatement(text: string): ProcessedStatementData {
+  const ofx = readOfx(text);
+  const reviewReasons: string[] = [];
+
+  // The institution is named in the sign-on response; brokerages only give their id
+  const signOn = findOfxElement(ofx, "SONRS");
+  const bankName =
+    getOfxValue(findOfxElement(signOn ?? ofx, "FI"), "ORG") ||
+    getOfxValue(ofx, "BROKERID") ||
+    getOfxValue(ofx, "BANKID") ||
+    "Unknown";
+
+  const accounts: Account[] = [];
+  const periodStarts: string[] = [];
+  const periodEnds: string[] = [];
+
+  for (const { statement: statementName, account: accountName } of STATEMENT_AGGREGATES) {
+    for (const statement of findOfxElements(ofx, statementName)) {
+      const accountFrom = findOfxElement(statement, accountName);
+      const accountId = getOfxValue(accountFrom, "ACCTID");
+      if (!accountId) {
+        reviewReasons.push(`OFX ${statementName} statement without an account id was skipped`);
+        continue;
+      }
+
+      const transactionList = findOfxElement(statement, statementName === "INVSTMTRS" ? "INVTRANLIST" : "BANKTRANLIST");
+      const start = readOfxDate(getOfxValue(transactionList, "DTSTART"));
+      const end = readOfxDate(getOfxValue(transactionList, "DTEND"));
+      if (start) periodStarts.push(start);
+      if (end) periodEnds.push(end);
+
+      const accountType =
+        statementName === "CCSTMTRS" ? "CREDIT"
+        : statementName === "INVSTMTRS" ? "INVESTMENT"
+        : OFX_ACCOUNT_TYPES[getOfxValue(accountFrom, "ACCTTYPE")?.toUpperCase() ?? ""] ?? "OTHER";
+
+      const account: Account = {
+        accountNumberLast4: getLastFour(accountId),
+        accountId,
+        accountType,
+        allTransactions: { deposits: [], atmDebit: [], withdrawals: [], checks: [], fees: [], other: [] },
+        metadata: {},
+      };
+
+      // Investment statements: only cash movements are transactions here
+      const transactions = transactionList
+        ? statementName === "INVSTMTRS"
+          ? findOfxElements(transactionList, "INVBANKTRAN").flatMap((bankTransaction) =>
+              findOfxElements(bankTransaction, "STMTTRN")
+            )
+          : findOfxElements(transactionList, "STMTTRN")
+        : [];
+      for (const element of transactions) {
+        const transaction = readOfxTransaction(element, reviewReasons);
+        const bucket = getBucket(element, transaction.amount, accountType === "CREDIT");
+        (account.allTransactions![bucket] ||= []).push(transaction);
+      }
+
+      const skippedTrades = statementName === "INVSTMTRS" && transactionList
+        ? transactionList.children.filter((child) => child.name !== "INVBANKTRAN" && child.children.length > 0).length
+        : 0;
+      if (skippedTrades > 0) {
+        reviewReasons.push(`${skippedTrades} security transactions in the OFX file were not imported`);
+      }
+
+      const ledgerBalance = readOfxAmount(getOfxValue(findOfxElement(statement, "LEDGERBAL"), "BALAMT"), reviewReasons);
+      if (ledgerBalance !== null) {
+        account.metadata!.endingBalance = fromCents(ledgerBalance);
+      }
+
+      accounts.push(account);
+    }
+  }
+
+  if (accounts.length === 0) {
+    throw new Error("No bank, credit card or investment statements found in the OFX file");
+  }
+
+  // Files without a DTSTART/DTEND range cover the dates of their transactions
+  const transactionDates = accounts
+    .flatMap((account) => Object.values(account.allTransactions || {}).flat())
+    .map((transaction) => transaction.date)
+    .filter((date): date is string => !!date);
+  const starts = periodStarts.length > 0 ? periodStarts : transactionDates;
+  const ends = periodEnds.length > 0 ? periodEnds : transactionDates;
+
+  return {
+    bankName,
+    accounts,
+    statementPeriodStartDate: starts.length > 0 ? starts.reduce((a, b) => (a < b ? a : b)) : null,
+    statementPeriodEndDate: ends.length > 0 ? ends.reduce((a, b) => (a > b ? a : b)) : null,
+    rawText: text,
+    entities: [],
+    reviewReasons,
+  };
+}
+
+function readOfxTransaction(element: OfxElement, reviewReasons: string[]): Transaction {
+  const amount = readOfxAmount(getOfxValue(element, "TRNAMT"), reviewReasons);
+  const name = getOfxValue(element, "NAME") || getOfxValue(element, "PAYEE") || "";
+  const memo = getOfxValue(element, "MEMO") || "";
+
+  return {
+    // The posting date; the user date is when the card was used, which not every bank sends
+    date: readOfxDate(getOfxValue(element, "DTPOSTED")),
+    description: memo && !name.includes(memo) ? `${name} ${memo}`.trim() : name,
+    amount: amount === null ? null : fromCents(amount),
+    type: amount !== null && amount > 0 ? "DEPOSIT" : "WITHDRAWAL",
+    externalId: getOfxValue(element, "FITID"),
+    rawRowText: [getOfxValue(element, "TRNTYPE"), getOfxValue(element, "DTPOSTED"), getOfxValue(element, "TRNAMT"), name, memo]
+      .filter(Boolean)
+      .join(" "),
+  };
+}
+
+function getBucket(element: OfxElement, amount: number | null | undefined, isCreditCard: boolean): TransactionBucketKey {
+  const type = getOfxValue(element, "TRNTYPE")?.toUpperCase() ?? "";
+  if (typeof amount !== "number") return "other";
+
+  if (isCreditCard) {
+    if (type === "FEE" || type === "SRVCHG") return "fees";
+    if (type === "INT") return "interest";
+    return amount > 0 ? "payments" : "purchases";
+  }
+
+  if (amount < 0 && OFX_TRANSACTION_BUCKETS[type]) return OFX_TRANSACTION_BUCKETS[type];
+  return amount > 0 ? "deposits" : "withdrawals";
+}
+
+/**
+ * OFX dates are YYYYMMDD, optionally followed by a time and time zone
+ * ("20240314120000.000[-5:EST]"); the date part is the day in the bank's zone
+ */
+function readOfxDate(value: string | null): string | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+
+  const date = new Date(Date.UTC(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10)));
+  return date.getUTCDate() === parseInt(match[3], 10) ? toIsoDate(date) : null;
+}
+
+/**
+ * OFX amounts are signed, with a point or a comma as the decimal separator
+ */
+function readOfxAmount(value: string | null, reviewReasons: string[]): Cents | null {
+  if (!value) return null;
+
+  try {
+    const decimalSeparator = value.includes(",") && !value.includes(".") ? "," : ".";
+    return parseMoney(value, { decimalSeparator, plainNumbers: true });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    if (!reviewReasons.includes(reason)) reviewReasons.push(reason);
+    return null;
+  }
+}
@@ -0,0 +1,91 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { parse as parseYaml } from "yaml";
+import { parserDefinitionSchema, type ParserDefinition } from "./schema";
+import { createDeclarativeParser } from "../parsers/declarative-parser";
+import { registerStatementParser } from "../parsers/parser-registry";
+
+/**
+ * Parser definition loading
+ *
+ * Reads declarative parser definitions (.json, .yaml or .yml) from
+ * PARSER_DEFINITIONS_DIR (default `parser-definitions`) and registers a
+ * parser for each with the parser registry. Adding a bank layout is a
+ * matter of dropping a definition file into the directory.
+ */
+
+const DEFINITION_EXTENSIONS = [".json", ".yaml", ".yml"];
+
+// Directories whose definitions were already registered in this process
+const registeredDirs = new Map<string, Promise<number>>();
+
+/**
+ * Directory definitions are loaded from
+ */
+export function getParserDefinitionDir(): string {
+  return path.resolve(process.cwd(), process.env.PARSER_DEFINITIONS_DIR || "parser-definitions");
+}
+
+/**
+ * Parse and validate a definition file's contents.
+ * Throws with every validation problem listed when the definition is invalid.
+ */
+export function parseParserDefinition(source: string, fileName: string): ParserDefinition {
+  const raw = path.extname(fileName).toLowerCase() === ".json" ? JSON.parse(source) : parseYaml(source);
+  const result = parserDefinitionSchema.safeParse(raw);
+
+  if (!result.success) {
+    const problems = result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    throw new Error(`Invalid parser definition ${fileName}: ${problems.join("; ")}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Load every valid definition in a directory. Invalid files are logged and
+ * skipped so one bad definition doesn't stop statements from processing.
+ */
+export async function loadParserDefinitions(dir = getParserDefinitionDir()): Promise<ParserDefinition[]> {
+  let fileNames: string[];
+  try {
+    fileNames = (await fs.readdir(dir)).filter((name) => DEFINITION_EXTENSIONS.includes(path.extname(name).toLowerCase()));
+  } catch {
+    console.log(`No parser definition directory at ${dir}`);
+    return [];
+  }
+
+  const definitions: ParserDefinition[] = [];
+  for (const fileName of fileNames.sort()) {
+    try {
+      const source = await fs.readFile(path.join(dir, fileName), "utf8");
+      definitions.push(parseParserDefinition(source, fileName));
+    } catch (error) {
+      console.error(`Skipping parser definition ${fileName}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return definitions;
+}
+
+/**
+ * Register a parser for every definition in a directory, once per process.
+ * @returns The number of definitions registered
+ */
+export function registerParserDefinitions(dir = getParserDefinitionDir()): Promise<number> {
+  const registered = registeredDirs.get(dir);
+  if (registered) return registered;
+
+  const registering = loadParserDefinitions(dir).then((definitions) => {
+    for (const definition of definitions) {
+      registerStatementParser(createDeclarativeParser(definition));
+    }
+    if (definitions.length > 0) {
+      console.log(`Registered ${definitions.length} parser definitions: ${definitions.map((d) => d.bankName).join(", ")}`);
+    }
+    return definitions.length;
+  });
+
+  registeredDirs.set(dir, registering);
+  return registering;
+}
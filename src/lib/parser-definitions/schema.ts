@@ -0,0 +1,136 @@
+import { z } from "zod";
+
+/**
+ * Declarative parser definition format
+ *
+ * Describes a bank's statement layout as data: how to recognize the bank,
+ * where the account number, period and summary values are, and which
+ * sections hold transaction tables with which columns. Definitions are
+ * written in JSON or YAML and run by the DeclarativeStatementParser.
+ *
+ * Patterns are regular expression sources, matched case-insensitively
+ * against a line of text (the text blocks of one row of the page, in
+ * reading order).
+ */
+
+// Date formats a definition can declare for transaction rows and the period
+export const DEFINITION_DATE_FORMATS = [
+  "MM/DD",
+  "MM/DD/YY",
+  "MM/DD/YYYY",
+  "DD/MM",
+  "DD/MM/YYYY",
+  "YYYY-MM-DD",
+  "MMM D",
+  "MMM D, YYYY",
+  "MMMM D, YYYY",
+] as const;
+
+export type DefinitionDateFormat = (typeof DEFINITION_DATE_FORMATS)[number];
+
+// Transaction buckets a section's rows can be put in ("auto" sorts by sign and description)
+export const DEFINITION_BUCKETS = [
+  "auto",
+  "deposits",
+  "atmDebit",
+  "withdrawals",
+  "checks",
+  "fees",
+  "other",
+  "purchases",
+  "payments",
+  "credits",
+  "interest",
+] as const;
+
+/**
+ * How a section's amounts are signed:
+ * - positive / negative: the amounts are unsigned money in / money out
+ * - as-printed: the printed sign is kept
+ * - inverted: the printed sign is flipped (card statements printing charges as positive)
+ * - columns: debit column amounts are money out, credit column amounts money in
+ */
+export const DEFINITION_SIGN_RULES = ["positive", "negative", "as-printed", "inverted", "columns"] as const;
+
+// What a table column holds
+export const DEFINITION_COLUMN_ROLES = ["date", "description", "amount", "debit", "credit", "balance", "checkNumber"] as const;
+
+const patternSchema = z.string().min(1).refine(
+  (source) => {
+    try {
+      new RegExp(source, "i");
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: "Invalid regular expression" }
+);
+
+const patternListSchema = z.union([patternSchema, z.array(patternSchema).min(1)])
+  .transform((patterns) => (Array.isArray(patterns) ? patterns : [patterns]));
+
+const sectionSchema = z.object({
+  name: z.string().min(1),
+  // Heading lines that start the section
+  start: patternListSchema,
+  // Lines that end it. Without end anchors a section runs until the next section starts.
+  end: patternListSchema.optional(),
+  bucket: z.enum(DEFINITION_BUCKETS).default("auto"),
+  sign: z.enum(DEFINITION_SIGN_RULES).default("as-printed"),
+  // Header aliases per column role, e.g. { date: ["Date", "Posted"], amount: ["Amount"] }.
+  // An alias matches a header cell that starts with it.
+  columns: z.record(z.enum(DEFINITION_COLUMN_ROLES), z.union([z.string(), z.array(z.string()).min(1)])).optional(),
+  // For tables without usable headers: a row pattern with named groups
+  // date, description and amount (and optionally balance)
+  rowPattern: patternSchema.optional(),
+  dateFormat: z.enum(DEFINITION_DATE_FORMATS).optional(),
+  // Page-span rule: whether the section carries on at the top of the next page
+  spansPages: z.boolean().default(true),
+  // Undated lines right under a row are appended to its description
+  multilineDescriptions: z.boolean().default(true),
+}).refine((section) => section.columns || section.rowPattern, {
+  message: "A section needs columns or a rowPattern",
+});
+
+export const parserDefinitionSchema = z.object({
+  bankName: z.string().min(1),
+  version: z.number().int().positive().default(1),
+  description: z.string().optional(),
+  detection: z.object({
+    signals: z.array(z.object({
+      pattern: patternSchema,
+      weight: z.number().min(0).max(1),
+    })).min(1),
+  }),
+  // First capture group is the account number's last four digits
+  accountNumber: z.object({
+    pattern: patternSchema,
+  }),
+  accountType: z.array(z.object({
+    pattern: patternSchema,
+    type: z.enum(["CHECKING", "SAVINGS", "CREDIT", "INVESTMENT", "OTHER"]),
+  })).optional(),
+  // Capture groups 1 and 2 are the start and end dates. Without it the
+  // common period formats are tried.
+  statementPeriod: z.object({
+    pattern: patternSchema,
+    dateFormat: z.enum(DEFINITION_DATE_FORMATS),
+  }).optional(),
+  // Summary rows: the last amount on a line matching the label is stored in
+  // Account.metadata under the field, e.g. beginningBalance or depositsTotal
+  summary: z.array(z.object({
+    label: patternSchema,
+    field: z.string().min(1),
+    // Balances keep their sign, totals are stored unsigned
+    signed: z.boolean().optional(),
+  })).default([]),
+  dateFormat: z.enum(DEFINITION_DATE_FORMATS).default("MM/DD"),
+  // Page furniture to skip everywhere
+  ignore: patternListSchema.optional(),
+  sections: z.array(sectionSchema).min(1),
+});
+
+export type ParserDefinition = z.infer<typeof parserDefinitionSchema>;
+export type ParserDefinitionSection = ParserDefinition["sections"][number];
+export type DefinitionColumnRole = (typeof DEFINITION_COLUMN_ROLES)[number];
@@ -0,0 +1,127 @@
+/**
+ * @jest-environment node
+ */
+import os from "os";
+import path from "path";
+import { promises as fs } from "fs";
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { DocumentProcessor } from "../../document-processor";
+import { FixtureBackend } from "../../extraction";
+import { normalizeStatementDates } from "../../statement-dates";
+import { loadParserDefinitions, parseParserDefinition } from "../../parser-definitions";
+import { createDeclarativeParser, detectStatementParser, registerStatementParser } from "..";
+
+const FIXTURES_DIR = path.resolve(__dirname, "../../../../fixtures");
+// The example definition shipped in the docs, and a statement in its layout
+const EXAMPLE_DEFINITION_DIR = path.resolve(__dirname, "../../../../docs/parser-definitions");
+const SAMPLE_PATH = path.join(FIXTURES_DIR, "statements", "example-credit-union.pdf");
+
+// A definition with a section that has neither columns nor a row pattern and
+// a detection signal that isn't a regular expression
+const MALFORMED_DEFINITION = `
+bankName: Broken Savings Bank
+detection:
+  signals:
+    - pattern: "broken(savings"
+      weight: 0.5
+accountNumber:
+  pattern: account\\s+(\\d{4})
+sections:
+  - name: activity
+    start: ^activity
+`;
+
+describe("parser definitions", () => {
+  let tempDir: string | null = null;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    if (tempDir) await fs.rm(tempDir, { recursive: true, force: true });
+    tempDir = null;
+  });
+
+  it("lists every problem of a malformed definition", () => {
+    expect(() => parseParserDefinition(MALFORMED_DEFINITION, "broken.yaml")).toThrow(
+      "Invalid parser definition broken.yaml: detection.signals.0.pattern: Invalid regular expression; " +
+        "sections.0: A section needs columns or a rowPattern"
+    );
+  });
+
+  it("skips malformed definitions when loading a directory", async () => {
+    const errorSpy = jest.spyOn(console, "error").mockImplementation(() => {});
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "parser-definitions-"));
+    await fs.copyFile(
+      path.join(EXAMPLE_DEFINITION_DIR, "example-credit-union.yaml"),
+      path.join(tempDir, "example-credit-union.yaml")
+    );
+    await fs.writeFile(path.join(tempDir, "broken.yaml"), MALFORMED_DEFINITION);
+    await fs.writeFile(path.join(tempDir, "notes.txt"), "not a definition");
+
+    const definitions = await loadParserDefinitions(tempDir);
+
+    expect(definitions.map((definition) => definition.bankName)).toEqual(["Example Credit Union"]);
+    expect(errorSpy).toHaveBeenCalledWith("Skipping parser definition broken.yaml:", expect.any(String));
+  });
+});
+
+describe("DeclarativeStatementParser on a recorded fixture", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    // saveExtractedData reports that tmp/ doesn't exist
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("reads a statement with the docs example definition", async () => {
+    const [definition] = await loadParserDefinitions(EXAMPLE_DEFINITION_DIR);
+    const ExampleParser = createDeclarativeParser(definition);
+    registerStatementParser(ExampleParser);
+
+    const processor = new DocumentProcessor(new FixtureBackend(path.join(FIXTURES_DIR, "extraction")));
+    expect(await processor.processDocument(SAMPLE_PATH, "application/pdf")).toBe(true);
+
+    const firstPage = await processor.processPage(1);
+    if (!firstPage) throw new Error("The sample has no pages");
+
+    // Every detection signal is on the first page
+    const detection = detectStatementParser([firstPage]);
+    expect(detection.parser).toBe(ExampleParser);
+    expect(detection.score).toBe(1);
+    expect(detection.reviewReason).toBeNull();
+
+    const ocrResult = { success: true, fullPageText: firstPage.fullText, visualBlocks: firstPage.textBlocks };
+    const data = await new ExampleParser(ocrResult, SAMPLE_PATH, "application/pdf", processor).process();
+    normalizeStatementDates(data);
+
+    expect(data.bankName).toBe("Example Credit Union");
+    expect(data.statementPeriodStartDate).toBe("2024-03-01");
+    expect(data.statementPeriodEndDate).toBe("2024-03-31");
+
+    const [account] = data.accounts;
+    expect(account.accountNumberLast4).toBe("4567");
+    expect(account.accountType).toBe("CHECKING");
+    expect(account.metadata).toEqual({
+      beginningBalance: 500,
+      depositsTotal: 1502.81,
+      serviceFees: 5,
+      endingBalance: 1552.56,
+    });
+
+    // The activity table carries on onto page 2 without its header; the fees
+    // section is read with its row pattern and signed negative
+    expect(account.allTransactions).toMatchObject({
+      deposits: [
+        { date: "2024-03-01", description: "Payroll Deposit ACME", amount: 1500 },
+        { date: "2024-03-28", description: "Dividend Deposit", amount: 2.81 },
+      ],
+      atmDebit: [
+        { date: "2024-03-10", description: "POS Purchase Corner Market Springfield IL", amount: -45.25 },
+        { date: "2024-03-20", description: "ATM Withdrawal Main St", amount: -100 },
+      ],
+      withdrawals: [{ date: "2024-03-04", description: "Share Draft 1042", amount: -300 }],
+      fees: [{ date: "2024-03-31", description: "Monthly Maintenance Fee", amount: -5 }],
+    });
+  });
+});
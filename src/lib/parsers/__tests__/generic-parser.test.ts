@@ -0,0 +1,73 @@
+/**
+ * @jest-environment node
+ */
+import path from "path";
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { DocumentProcessor } from "../../document-processor";
+import { FixtureBackend } from "../../extraction";
+import { normalizeStatementDates } from "../../statement-dates";
+import { detectStatementParser, GenericBankStatementParser } from "..";
+
+// A statement of a bank without its own parser, replayed from its recorded
+// pdf-text extraction
+const FIXTURES_DIR = path.resolve(__dirname, "../../../../fixtures");
+const SAMPLE_PATH = path.join(FIXTURES_DIR, "statements", "lakeside-community-checking.pdf");
+
+describe("GenericBankStatementParser on a recorded fixture", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    // saveExtractedData reports that tmp/ doesn't exist
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("reads the transaction tables of a bank no parser knows", async () => {
+    const processor = new DocumentProcessor(new FixtureBackend(path.join(FIXTURES_DIR, "extraction")));
+    expect(await processor.processDocument(SAMPLE_PATH, "application/pdf")).toBe(true);
+
+    const firstPage = await processor.processPage(1);
+    if (!firstPage) throw new Error("The sample has no pages");
+
+    // No registered parser recognizes the bank, so the generic parser is used
+    const detection = detectStatementParser([firstPage]);
+    expect(detection.parser).toBeNull();
+    expect(detection.score).toBe(0);
+    expect(detection.reviewReason).toBeNull();
+
+    const ocrResult = { success: true, fullPageText: firstPage.fullText, visualBlocks: firstPage.textBlocks };
+    const parser = new GenericBankStatementParser(
+      ocrResult,
+      SAMPLE_PATH,
+      "application/pdf",
+      "Lakeside Community Bank",
+      processor
+    );
+    const data = await parser.process();
+    normalizeStatementDates(data);
+
+    expect(data.statementPeriodStartDate).toBe("2024-03-01");
+    expect(data.statementPeriodEndDate).toBe("2024-03-31");
+    expect(data.reviewReasons).toEqual([
+      "Read with the generic parser: 5 transactions were found heuristically and may be incomplete or have the wrong sign",
+    ]);
+
+    const [account] = data.accounts;
+    expect(account.accountNumberLast4).toBe("1234");
+    expect(account.metadata).toMatchObject({ beginningBalance: 2000, endingBalance: 3029.3 });
+
+    const transactions = Object.values(account.allTransactions || {})
+      .flat()
+      .sort((a, b) => (a.date || "").localeCompare(b.date || ""));
+    expect(transactions.map((transaction) => [transaction.date, transaction.description, transaction.amount])).toEqual([
+      // One amount column: signed by the running balance
+      ["2024-03-02", "Direct Deposit Employer Payroll", 1200],
+      // The wrapped second line is joined onto the description
+      ["2024-03-05", "Grocery Outlet Store 42 Springfield", -85.2],
+      // Withdrawals and Deposits columns on the next page
+      ["2024-03-18", "Electric Company Autopay", -120.5],
+      ["2024-03-25", "Mobile Deposit", 50],
+      // No balance: signed by the "Other Withdrawals" title above the table
+      ["2024-03-30", "Service Charge", -15],
+    ]);
+    expect(account.allTransactions?.fees.map((transaction) => transaction.description)).toEqual(["Service Charge"]);
+  });
+});
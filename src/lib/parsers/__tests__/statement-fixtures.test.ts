@@ -0,0 +1,194 @@
+/**
+ * @jest-environment node
+ */
+import path from "path";
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { DocumentProcessor } from "../../document-processor";
+import { FixtureBackend } from "../../extraction";
+import { normalizeStatementDates } from "../../statement-dates";
+import type { Account, BankStatementParserClass, ProcessedStatementData } from "..";
+import {
+  CapitalOneStatementParser,
+  ChaseStatementParser,
+  CitibankStatementParser,
+  detectStatementParser,
+  WellsFargoStatementParser,
+} from "..";
+
+// Sample statements and the pdf-text extractions recorded from them
+// (EXTRACTION_RECORD_FIXTURES=true)
+const FIXTURES_DIR = path.resolve(__dirname, "../../../../fixtures");
+
+/**
+ * Replay a sample statement's recorded extraction and read it the way
+ * processStatement does: detect the bank, parse, then normalize the dates
+ */
+async function parseSample(filename: string) {
+  const filePath = path.join(FIXTURES_DIR, "statements", filename);
+  const processor = new DocumentProcessor(new FixtureBackend(path.join(FIXTURES_DIR, "extraction")));
+  expect(await processor.processDocument(filePath, "application/pdf")).toBe(true);
+
+  const firstPage = await processor.processPage(1);
+  if (!firstPage) throw new Error(`${filename} has no pages`);
+
+  const detection = detectStatementParser([firstPage]);
+  const Parser = detection.parser as BankStatementParserClass;
+  const ocrResult = { success: true, fullPageText: firstPage.fullText, visualBlocks: firstPage.textBlocks };
+  const parser = new Parser(ocrResult, filePath, "application/pdf", processor);
+
+  const data = await parser.process();
+  normalizeStatementDates(data);
+
+  return { detection, data, reviewReasons: parser.getReviewReasons() };
+}
+
+function getAccount(data: ProcessedStatementData, last4: string): Account {
+  const account = data.accounts.find((candidate) => candidate.accountNumberLast4 === last4);
+  if (!account) throw new Error(`No account ending in ${last4}`);
+  return account;
+}
+
+// Signed amounts per transaction bucket, leaving out empty buckets
+function getBucketAmounts(account: Account): Record<string, number[]> {
+  return Object.fromEntries(
+    Object.entries(account.allTransactions || {})
+      .filter(([, transactions]) => transactions.length > 0)
+      .map(([bucket, transactions]) => [bucket, transactions.map((transaction) => transaction.amount as number)])
+  );
+}
+
+describe("bank statement parsers on recorded fixtures", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    // saveExtractedData reports that tmp/ doesn't exist
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("reads a Wells Fargo checking statement", async () => {
+    const { detection, data, reviewReasons } = await parseSample("wells-fargo-checking.pdf");
+
+    expect(detection.parser).toBe(WellsFargoStatementParser);
+    expect(reviewReasons).toEqual([]);
+    expect(data.statementPeriodStartDate).toBe("2024-01-01");
+    expect(data.statementPeriodEndDate).toBe("2024-01-31");
+    expect(data.accounts.map((account) => account.accountNumberLast4)).toEqual(["7890"]);
+
+    const account = getAccount(data, "7890");
+    expect(account.accountType).toBe("CHECKING");
+    expect(account.metadata).toMatchObject({
+      beginningBalance: 1000,
+      endingBalance: 2335.5,
+      depositsTotal: 2500,
+      withdrawalsTotal: 1164.5,
+    });
+    expect(getBucketAmounts(account)).toEqual({
+      deposits: [2500],
+      atmDebit: [-4.5],
+      withdrawals: [-1000],
+      checks: [-150],
+      fees: [-10],
+    });
+    expect(account.allTransactions?.checks[0].description).toBe("Check 1001");
+    // The wrapped second line of the description is joined on
+    expect(account.allTransactions?.withdrawals[0]).toMatchObject({
+      date: "2024-01-20",
+      description: "Online Transfer Ref #IB0KZ to Way2Save Savings xxxxxx5678",
+    });
+  });
+
+  it("reads a Citibank checking statement", async () => {
+    const { detection, data, reviewReasons } = await parseSample("citibank-checking.pdf");
+
+    expect(detection.parser).toBe(CitibankStatementParser);
+    expect(reviewReasons).toEqual([]);
+    expect(data.statementPeriodStartDate).toBe("2024-01-01");
+    expect(data.statementPeriodEndDate).toBe("2024-01-31");
+    expect(data.accounts.map((account) => account.accountNumberLast4)).toEqual(["7788"]);
+
+    const account = getAccount(data, "7788");
+    expect(account.accountType).toBe("CHECKING");
+    expect(account.metadata).toMatchObject({
+      beginningBalance: 5000,
+      endingBalance: 7567.97,
+      depositsTotal: 3200.52,
+      withdrawalsTotal: 632.55,
+    });
+    expect(getBucketAmounts(account)).toEqual({
+      deposits: [3200, 0.52],
+      atmDebit: [-82.15],
+      withdrawals: [-125.4],
+      checks: [-400],
+      fees: [-25],
+    });
+    expect(account.allTransactions?.withdrawals[0].description).toBe("Online Payment Con Edison Confirmation 88231");
+  });
+
+  it("reads both accounts of a Capital One 360 statement", async () => {
+    const { detection, data, reviewReasons } = await parseSample("capital-one-360.pdf");
+
+    expect(detection.parser).toBe(CapitalOneStatementParser);
+    expect(reviewReasons).toEqual([]);
+    expect(data.statementPeriodStartDate).toBe("2024-01-01");
+    expect(data.statementPeriodEndDate).toBe("2024-01-31");
+    expect(data.accounts.map((account) => account.accountNumberLast4)).toEqual(["6789", "4321"]);
+
+    const checking = getAccount(data, "6789");
+    expect(checking.accountType).toBe("CHECKING");
+    expect(checking.metadata).toMatchObject({ beginningBalance: 1000, endingBalance: 1950.5 });
+    expect(getBucketAmounts(checking)).toEqual({
+      deposits: [1500],
+      atmDebit: [-4.5],
+      withdrawals: [-500, -45],
+    });
+    // The category column is dropped from the description
+    expect(checking.allTransactions?.atmDebit[0].description).toBe("Debit Card Purchase - Starbucks");
+
+    // The transfer row naming the savings account doesn't start a new account
+    const savings = getAccount(data, "4321");
+    expect(savings.accountType).toBe("SAVINGS");
+    expect(savings.metadata).toMatchObject({ beginningBalance: 10000, endingBalance: 10535.12 });
+    expect(getBucketAmounts(savings)).toEqual({
+      deposits: [500, 35.12],
+    });
+  });
+
+  it("reads a Chase credit card statement from the card holder's side", async () => {
+    const { detection, data, reviewReasons } = await parseSample("chase-credit-card.pdf");
+
+    expect(detection.parser).toBe(ChaseStatementParser);
+    expect(reviewReasons).toEqual([]);
+    expect(data.statementPeriodStartDate).toBe("2024-02-14");
+    expect(data.statementPeriodEndDate).toBe("2024-03-13");
+    expect(data.accounts.map((account) => account.accountNumberLast4)).toEqual(["4321"]);
+
+    const card = getAccount(data, "4321");
+    expect(card.accountType).toBe("CREDIT");
+    // The summary keeps the printed totals; the balance owed is negative
+    expect(card.metadata).toMatchObject({
+      previousBalance: 1200,
+      newBalance: 985.45,
+      beginningBalance: -1200,
+      endingBalance: -985.45,
+      paymentsAndCreditsTotal: 525,
+      purchasesTotal: 310.45,
+      minimumPaymentDue: 40,
+      paymentDueDate: "2024-04-10",
+      creditLimit: 5000,
+    });
+
+    // Payments and credits are printed negative and come out positive, the
+    // refund in its own bucket; purchases come out negative
+    expect(getBucketAmounts(card)).toEqual({
+      payments: [500],
+      credits: [25],
+      purchases: [-110.45, -200],
+    });
+    expect(card.allTransactions?.payments[0]).toMatchObject({
+      date: "2024-02-20",
+      description: "Payment Thank You-Mobile",
+      type: "DEPOSIT",
+    });
+    expect(card.allTransactions?.credits[0]).toMatchObject({ description: "AMAZON.COM REFUND", type: "DEPOSIT" });
+    expect(card.allTransactions?.purchases.map((transaction) => transaction.type)).toEqual(["WITHDRAWAL", "WITHDRAWAL"]);
+  });
+});
@@ -1,5 +1,5 @@
-import { BankStatementParser, ProcessedStatementData, Account, Transaction } from './base-parser';
-import { DocumentProcessor, ProcessedPage, ProcessedTable } from '../document-processor';
+import { BankStatementParser, ProcessedStatementData, Account, Transaction, DetectionSignal } from './base-parser';
+import { DocumentProcessor, ProcessedPage, ProcessedTable, SectionDefinition, StitchedSection } from '../document-processor';
 import { dateExtractionTemplate, accountExtractionTemplate, bankOfAmericaTemplate } from '../extraction-templates';
 
 // Define custom transaction type to include ATM_DEBIT
@@ -12,10 +12,73 @@ export interface BofATransaction extends Omit<Transaction, 'type'> {
   category?: string;
 }
 
+// Column header of the transaction sections
+const BOFA_TRANSACTION_HEADER = /^date\s+(transaction\s+)?description\s+amount$/i;
+
+// Transaction sections of a checking or savings account, the account bucket
+// their rows go in and their transaction type. Headings stand on their own
+// line, unlike the summary rows of the same name, and are printed as
+// "Deposits and other additions - continued" on following pages.
+const BOFA_TRANSACTION_SECTIONS: Array<{
+  definition: SectionDefinition;
+  category: 'deposits' | 'atmDebit' | 'withdrawals' | 'fees';
+  type: 'DEPOSIT' | 'WITHDRAWAL' | 'ATM_DEBIT';
+}> = [
+  {
+    definition: {
+      name: 'deposits and other additions',
+      start: [/^deposits\s+and\s+other\s+additions(\s+-\s+continued)?$/i],
+      end: [/^total\s+deposits\s+and\s+other\s+additions/i],
+      header: BOFA_TRANSACTION_HEADER,
+    },
+    category: 'deposits',
+    type: 'DEPOSIT',
+  },
+  {
+    definition: {
+      name: 'ATM and debit card subtractions',
+      start: [/^atm\s+and\s+debit\s+card\s+subtractions(\s+-\s+continued)?$/i],
+      end: [/^total\s+atm\s+and\s+debit\s+card\s+subtractions/i],
+      header: BOFA_TRANSACTION_HEADER,
+    },
+    category: 'atmDebit',
+    type: 'ATM_DEBIT',
+  },
+  {
+    definition: {
+      name: 'withdrawals and other subtractions',
+      start: [/^(withdrawals\s+and\s+)?other\s+subtractions(\s+-\s+continued)?$/i],
+      end: [/^total\s+(withdrawals\s+and\s+)?other\s+subtractions/i],
+      header: BOFA_TRANSACTION_HEADER,
+    },
+    category: 'withdrawals',
+    type: 'WITHDRAWAL',
+  },
+  {
+    definition: {
+      name: 'service fees',
+      start: [/^service\s+fees(\s+-\s+continued)?$/i],
+      end: [/^total\s+service\s+fees/i],
+      header: BOFA_TRANSACTION_HEADER,
+    },
+    category: 'fees',
+    type: 'WITHDRAWAL',
+  },
+];
+
 /**
  * Bank of America statement parser
  */
 export class BankOfAmericaStatementParser extends BankStatementParser {
+   public static readonly bankName = 'Bank of America';
+   protected static readonly detectionSignals: DetectionSignal[] = [
+      { pattern: /bankofamerica\.com/i, weight: 0.4 },
+      { pattern: /bank\s+of\s+america,?\s+n\.?a\.?/i, weight: 0.3 },
+      { pattern: /bank\s+of\s+america/i, weight: 0.3 },
+      { pattern: /your\s+combined\s+statement|advantage\s+(plus|safebalance|relationship)\s+banking/i, weight: 0.2 },
+      { pattern: /\b(customized\s+cash\s+rewards|travel\s+rewards|unlimited\s+cash\s+rewards|bankamericard)\b/i, weight: 0.2 },
+   ];
+
    public async process(): Promise<ProcessedStatementData> {
       console.log("\n------------------------ PROCESSING BANK OF AMERICA STATEMENT --------------------------")
       console.log("Processing Bank of America statement");
@@ -39,6 +102,17 @@ export class BankOfAmericaStatementParser extends BankStatementParser {
       const baseData = this.createBaseData('Bank of America');
       
       try {
+         // Credit card statements have their own layout: "Account Summary/Payment
+         // Information" followed by the "Transactions" sections
+         const lines = await this.getAllPageLines();
+         if (this.isCreditCardStatement(lines)) {
+            console.log("Reading Bank of America credit card statement");
+            this.findStatementPeriod(lines, baseData);
+            this.processCreditCardStatement(lines, baseData);
+            await this.saveExtractedData(baseData);
+            return baseData;
+         }
+         
          /**
           * The first page is either a combined statement summary page 
           * which list all accounts in the statement and what pages their details is on 
@@ -317,7 +391,7 @@ export class BankOfAmericaStatementParser extends BankStatementParser {
           const totalBalanceText = row[balanceIdx];
           const balanceMatch = totalBalanceText.match(/\$?([\d,]+\.\d{2})/);
           if (balanceMatch) {
-            totalBalance = parseFloat(balanceMatch[1].replace(',', ''));
+            totalBalance = this.parseAmount(balanceMatch[1]) ?? totalBalance;
             console.log(`Found total balance: $${totalBalance}`);
           }
         }
@@ -382,7 +456,7 @@ export class BankOfAmericaStatementParser extends BankStatementParser {
       if (balanceText) {
         const balanceMatch = balanceText.match(/\$?([\d,]+\.\d{2})/);
         if (balanceMatch) {
-          balance = parseFloat(balanceMatch[1].replace(',', ''));
+          balance = this.parseAmount(balanceMatch[1]) ?? undefined;
         }
       }
       
@@ -561,254 +635,6 @@ export class BankOfAmericaStatementParser extends BankStatementParser {
     }
   }
   
-  /**
-   * Extract full table data for transaction tables (deposits and withdrawals)
-   * This implementation sorts and groups all text blocks first, then filters by constraints
-   */
-  private async extractFullTableDataForTransactions(
-    pageNumber: number, 
-    table: ProcessedTable,
-    boundingConstraints?: {
-      topAnchor?: string;    // Text that appears above the table
-      bottomAnchor?: string; // Text that appears below the table
-      // Or directly specify coordinates
-      y1?: number;  // Top boundary
-      y2?: number;  // Bottom boundary
-    },
-    boundaryOptions?: {
-      topBoundaryMode?: 'inclusive' | 'exclusive'; // How to treat the top boundary
-      bottomBoundaryMode?: 'inclusive' | 'exclusive'; // How to treat the bottom boundary
-      includeAnchors?: boolean; // Whether to include the anchor blocks themselves
-    }
-  ): Promise<{ headers: string[], rows: string[][] } | null> {
-    if (!this.documentProcessor) return null;
-      console.log("Attempting to extract full table data for transactions");
-    
-    try {
-      // Get the page
-      const page = await this.documentProcessor.processPage(pageNumber);
-      if (!page) return null;
-
-      // console.log("page.textBlocks", page.textBlocks)
-      
-      // 1. Sort all text blocks from top to bottom first
-      const sortedBlocks = [...page.textBlocks].sort((a, b) => 
-        (a.boundingBox.y1 + a.boundingBox.y2) / 2 - (b.boundingBox.y1 + b.boundingBox.y2) / 2
-      );
-
-      // 2. Group blocks into rows based on y-position
-      const rowGroups: any[][] = [];
-      let currentRow: any[] = [];
-      let lastY = -1;
-      
-      for (const block of sortedBlocks) {
-        const centerY = (block.boundingBox.y1 + block.boundingBox.y2) / 2;
-        
-        // If this block is significantly below the last one, start a new row
-        if (lastY >= 0 && centerY - lastY > 0.02) {
-          if (currentRow.length > 0) {
-            rowGroups.push(currentRow);
-            currentRow = [];
-          }
-        }
-        
-        currentRow.push(block);
-        lastY = centerY;
-      }
-      
-      // Add the last row if not empty
-      if (currentRow.length > 0) {
-        rowGroups.push(currentRow);
-      }
-      
-      // 3. Apply bounding constraints to filter rows
-      let filteredRowGroups = [...rowGroups];
-      if (boundingConstraints) {
-        // Set default boundary modes if not specified
-        const topMode = boundaryOptions?.topBoundaryMode || 'inclusive';
-        const bottomMode = boundaryOptions?.bottomBoundaryMode || 'inclusive';
-        const includeAnchors = boundaryOptions?.includeAnchors ?? false;
-        
-        // If we have anchor words, find their positions
-        if (boundingConstraints.topAnchor) {
-          console.log("Looking for topAnchor:", boundingConstraints.topAnchor);
-          
-          // Create temporary rows for anchor detection
-          const tempRows = rowGroups.map(rowGroup => 
-            rowGroup.map(block => block.text)
-          );
-          
-          // Check each row to find one containing the top anchor
-          let anchorRowIndex = -1;
-          
-          for (let i = 0; i < tempRows.length; i++) {
-            const row = tempRows[i];
-            const rowText = row.join(' ');
-            
-            if (rowText.toLowerCase().includes(boundingConstraints.topAnchor.toLowerCase())) {
-              console.log(`Found topAnchor in row ${i}`);
-              
-              // Check if the next row is a header row (contains at least 3 of 4 header keywords)
-              if (i < tempRows.length - 1) {
-                const nextRow = tempRows[i + 1];
-                const nextRowText = nextRow.join(' ').toLowerCase();
-                const currentRowText = rowText.toLowerCase();
-                                
-                const headerKeywords = ["date", "description", "transaction description", "amount"];
-                let matchCount = 0;
-                
-                for (const keyword of headerKeywords) {
-                  if (nextRowText.includes(keyword)) {
-                    matchCount++;
-                  }
-
-                  if (currentRowText.includes(keyword)) {
-                    matchCount++;
-                  }
-                }
-                
-                console.log(`Header match count: ${matchCount}`);
-                
-                // If the next row has at least 3 of the 4 header keywords, we found our table start
-                if (matchCount >= 3) {
-                  console.log(`Found a good header row at ${i + 1}, setting anchor row to ${i}`);
-                  anchorRowIndex = i;
-                  break;
-                }
-              }
-            }
-          }
-          
-          // Calculate y coordinates for boundary if we found the anchor row
-          if (anchorRowIndex >= 0 && anchorRowIndex < rowGroups.length) {
-            const anchorRowGroup = rowGroups[anchorRowIndex - 1];
-            const rowBlocks = anchorRowGroup;
-            
-            // Calculate average y position for the row
-            let avgY1 = 0;
-            let avgY2 = 0;
-            
-            for (const block of rowBlocks) {
-              avgY1 += block.boundingBox.y1;
-              avgY2 += block.boundingBox.y2;
-            }
-            
-            avgY1 = avgY1 / rowBlocks.length;
-            avgY2 = avgY2 / rowBlocks.length;
-            
-            console.log(`Setting top boundary from row ${anchorRowIndex}: y1=${avgY1}, y2=${avgY2}`);
-            
-            // If we want to include the anchor, use its top, otherwise use its bottom
-            boundingConstraints.y1 = includeAnchors ? avgY1 : avgY2;
-          } else {
-            console.log("No suitable anchor row found, returning null");
-            return null;
-          }
-        }
-        
-        if (boundingConstraints.bottomAnchor) {
-          console.log("Looking for bottomAnchor:", boundingConstraints.bottomAnchor);
-          
-          // Create temporary rows for anchor detection
-          const tempRows = rowGroups.map(rowGroup => 
-            rowGroup.map(block => block.text)
-          );
-          
-          // Check each row to find one containing the bottom anchor
-          let anchorRowIndex = -1;
-          
-          for (let i = 0; i < tempRows.length; i++) {
-            const row = tempRows[i];
-            const rowText = row.join(' ');
-            
-            if (rowText.includes(boundingConstraints.bottomAnchor)) {
-              anchorRowIndex = i;
-              console.log(`Found bottomAnchor in row ${i}`);
-              break;
-            }
-          }
-          
-          // Calculate y coordinates for boundary if we found the anchor row
-          if (anchorRowIndex >= 0 && anchorRowIndex < rowGroups.length) {
-            const anchorRowGroup = rowGroups[anchorRowIndex];
-            const rowBlocks = anchorRowGroup;
-            
-            // Calculate average y position for the row
-            let avgY1 = 0;
-            let avgY2 = 0;
-            
-            for (const block of rowBlocks) {
-              avgY1 += block.boundingBox.y1;
-              avgY2 += block.boundingBox.y2;
-            }
-            
-            avgY1 = avgY1 / rowBlocks.length;
-            avgY2 = avgY2 / rowBlocks.length;
-            
-            console.log(`Setting bottom boundary from row ${anchorRowIndex}: y1=${avgY1}, y2=${avgY2}`);
-            
-            // If we want to include the anchor, use its bottom, otherwise use its top
-            boundingConstraints.y2 = includeAnchors ? avgY2 : avgY1;
-          } else {
-            console.log("No suitable bottom anchor row found, returning null");
-            return null;
-          }
-        }
-        
-        // Filter rowGroups based on their average y-position
-        if (boundingConstraints.y1 !== undefined || boundingConstraints.y2 !== undefined) {
-          filteredRowGroups = rowGroups.filter(rowGroup => {
-            // Calculate the average center Y position for this row
-            const avgCenterY = rowGroup.reduce((sum, block) => 
-              sum + (block.boundingBox.y1 + block.boundingBox.y2) / 2, 0) / rowGroup.length;
-            
-            // Apply top boundary based on mode
-            const topCondition = boundingConstraints.y1 === undefined ? true :
-              topMode === 'inclusive' ? 
-                avgCenterY >= boundingConstraints.y1 : 
-                avgCenterY > boundingConstraints.y1;
-                
-            // Apply bottom boundary based on mode
-            const bottomCondition = boundingConstraints.y2 === undefined ? true :
-              bottomMode === 'inclusive' ? 
-                avgCenterY <= boundingConstraints.y2 : 
-                avgCenterY < boundingConstraints.y2;
-                
-            return topCondition && bottomCondition;
-          });
-        }
-      }
-      
-      // 4. For each filtered row, sort blocks from left to right and extract text
-      let rows: string[][] = [];
-      for (const rowGroup of filteredRowGroups) {
-        // Skip rows with too few blocks
-        if (rowGroup.length < 1) continue;
-        
-        // Sort blocks from left to right
-        const sortedRowBlocks = rowGroup.sort((a, b) => 
-          (a.boundingBox.x1 + a.boundingBox.x2) / 2 - (b.boundingBox.x1 + b.boundingBox.x2) / 2
-        );
-        
-        // Extract text from blocks
-        const rowTexts = sortedRowBlocks.map(block => block.text);
-        rows.push(rowTexts);
-      }
-      
-      // Make sure we have headers - if not, use empty array
-      const headers = table.headerCells || [];
-
-      return {
-        headers,
-        rows
-      };
-      
-    } catch (error) {
-      console.error("Error extracting full table data for transactions:", error);
-      return null;
-    }
-  }
-  
   /** 
    * Process individual account pages referenced in a combined statement
    */
@@ -965,59 +791,59 @@ export class BankOfAmericaStatementParser extends BankStatementParser {
       // Key-value pair extraction for beginning balance
       const beginBalanceMatch = rowText.match(/(beginning\s+balance|opening\s+balance)(?:[\s\n\r]*[:=]?[\s\n\r]*|[^a-zA-Z0-9]*|[\s\n\r]*-[\s\n\r]*)[\$]?([\d,]+\.\d{2})/i);
       if (beginBalanceMatch) {
-        beginningBalance = parseFloat(beginBalanceMatch[2].replace(/,/g, ''));
+        beginningBalance = this.parseAmount(beginBalanceMatch[2]);
         continue;
       }
       
       // Key-value pair extraction for ending balance
       const endBalanceMatch = rowText.match(/(ending\s+balance|closing\s+balance)(?:[\s\n\r]*[:=]?[\s\n\r]*|[^a-zA-Z0-9]*|[\s\n\r]*-[\s\n\r]*)[\$]?([\d,]+\.\d{2})/i);
       if (endBalanceMatch) {
-        endingBalance = parseFloat(endBalanceMatch[2].replace(/,/g, ''));
+        endingBalance = this.parseAmount(endBalanceMatch[2]);
         continue;
       }
       
       // Extract deposits and other additions
       const depositsMatch = rowText.match(/(deposits\s+and\s+other\s+additions|total\s+deposits)(?:[\s\n\r]*[:=]?[\s\n\r]*|[^a-zA-Z0-9]*|[\s\n\r]*-[\s\n\r]*)[\$]?([\d,]+\.\d{2})/i);
       if (depositsMatch) {
-        depositsTotal = parseFloat(depositsMatch[2].replace(/,/g, ''));
+        depositsTotal = this.parseAmount(depositsMatch[2]);
         continue;
       }
       
       // Extract ATM and debit card transactions
       const atmDebitMatch = rowText.match(/(atm\s+and\s+debit\s+card\s+(?:transactions|subtractions|withdrawals))(?:[\s\n\r]*[:=]?[\s\n\r]*|[^a-zA-Z0-9]*|[\s\n\r]*-[\s\n\r]*)[\$]?([\d,]+\.\d{2})/i);
       if (atmDebitMatch) {
-        atmDebitTotal = parseFloat(atmDebitMatch[2].replace(/,/g, ''));
+        atmDebitTotal = this.parseAmount(atmDebitMatch[2]);
         continue;
       }
       
       // Extract checks
       const checksMatch = rowText.match(/(checks(\s+paid)?|total\s+checks)(?:[\s\n\r]*[:=]?[\s\n\r]*|[^a-zA-Z0-9]*|[\s\n\r]*-[\s\n\r]*)[\$]?([\d,]+\.\d{2})/i);
       if (checksMatch) {
-        checksTotal = parseFloat(checksMatch[checksMatch.length - 1].replace(/,/g, ''));
+        checksTotal = this.parseAmount(checksMatch[checksMatch.length - 1]);
         continue;
       }
       
       // Extract service fees
       const feesMatch = rowText.match(/(service\s+fees|total\s+fees)(?:[\s\n\r]*[:=]?[\s\n\r]*|[^a-zA-Z0-9]*|[\s\n\r]*-[\s\n\r]*)[\$]?([\d,]+\.\d{2})/i);
       if (feesMatch) {
-        serviceFees = parseFloat(feesMatch[2].replace(/,/g, ''));
+        serviceFees = this.parseAmount(feesMatch[2]);
         continue;
       }
       
       // Extract other subtractions
       const otherSubMatch = rowText.match(/(other\s+subtractions|other\s+withdrawals)(?:[\s\n\r]*[:=]?[\s\n\r]*|[^a-zA-Z0-9]*|[\s\n\r]*-[\s\n\r]*)[\$]?([\d,]+\.\d{2})/i);
       if (otherSubMatch) {
-        otherSubtractions = parseFloat(otherSubMatch[2].replace(/,/g, ''));
+        otherSubtractions = this.parseAmount(otherSubMatch[2]);
         continue;
       }
       
       // Legacy pattern matching if key-value fails
       if (beginningBalance === null && rowText.includes('beginning balance')) {
-        beginningBalance = this.extractAmount(rowText);
+        beginningBalance = this.findLastAmount(rowText);
       }
       
       if (endingBalance === null && rowText.includes('ending balance')) {
-        endingBalance = this.extractAmount(rowText);
+        endingBalance = this.findLastAmount(rowText);
       }
     }
     
@@ -1053,71 +879,33 @@ export class BankOfAmericaStatementParser extends BankStatementParser {
   }
   
   /**
-   * Process transaction tables (deposits and withdrawals) across multiple pages
+   * Process the transaction sections (deposits, ATM and debit card, withdrawals
+   * and service fees) of an account. Sections continuing over page breaks are
+   * read as one table.
    */
   private async processTransactionTables(
     startPage: number,
     endPage: number,
     account: Account
   ): Promise<void> {
-    // Use an object to map transaction categories
-    const allTransactions: {
-      deposits: Array<BofATransaction & { type: 'DEPOSIT' }>;
-      withdrawals: Array<BofATransaction & { type: 'WITHDRAWAL' }>;
-      atmDebit: Array<BofATransaction & { type: 'ATM_DEBIT' }>;
-      [key: string]: Array<BofATransaction>;
-    } = {
-      deposits: [],
-      withdrawals: [],
-      atmDebit: []
-    };
+    if (!this.documentProcessor) return;
     
-    for (let pageNum = startPage; pageNum <= endPage; pageNum++) {
-      const page = await this.documentProcessor?.processPage(pageNum);
-      if (!page) continue;
-      
-      // Process deposits table
-      const deposits = await this.processDepositsTable(page, account);
-      if (deposits && deposits.length > 0) {
-        // Add category to each transaction
-        const categorizedDeposits = deposits.map(t => ({
-          ...t, 
-          category: 'deposits'
-        }));
-        allTransactions.deposits.push(...categorizedDeposits);
-      }
-
-      // Process ATM and Debit Card Transactions table
-      const atmDebit = await this.processAtmDebitTable(page, account);
-      if (atmDebit && atmDebit.length > 0) {
-        // Add category to each transaction
-        const categorizedAtmDebit = atmDebit.map(t => ({
-          ...t, 
-          category: 'atmDebit'
-        }));
-
-        allTransactions.atmDebit.push(...categorizedAtmDebit);
-      }
-      
-      // Process withdrawals table
-      const withdrawals = await this.processWithdrawalsTable(page, account);
-      if (withdrawals && withdrawals.length > 0) {
-        // Add category to each transaction
-        const categorizedWithdrawals = withdrawals.map(t => ({
-          ...t, 
-          category: 'withdrawals'
-        }));
-        allTransactions.withdrawals.push(...categorizedWithdrawals);
-      }
-      
-      // Check if we've reached the end of this account's section
-      const isEndOfAccountSection = this.isEndOfAccountSection(page, account);
-      if (isEndOfAccountSection && pageNum > startPage) {
+    // Stop at the page where the next account's details begin
+    let lastPage = endPage;
+    for (let pageNum = startPage + 1; pageNum <= endPage; pageNum++) {
+      const page = await this.documentProcessor.processPage(pageNum);
+      if (page && this.isEndOfAccountSection(page, account)) {
         console.log(`Reached end of account ${account.accountNumberLast4} section on page ${pageNum}`);
+        lastPage = pageNum;
         break;
       }
     }
     
+    const sections = await this.documentProcessor.extractSections(
+      BOFA_TRANSACTION_SECTIONS.map(({ definition }) => definition),
+      { startPage, endPage: lastPage }
+    );
+    
     // Initialize transaction categories in account if not already present
     if (!account.allTransactions) {
       account.allTransactions = {
@@ -1130,306 +918,58 @@ export class BankOfAmericaStatementParser extends BankStatementParser {
       };
     }
     
-    // Add atmDebit array if it doesn't exist
-    if (!account.allTransactions.atmDebit) {
-      account.allTransactions.atmDebit = [];
-    }
-    
-    // Assign all transactions to the account object
-    Object.entries(allTransactions).forEach(([category, transactions]) => {
-      if (account.allTransactions && account.allTransactions[category]) {
-        // Type assertion to satisfy TypeScript
-        const standardTransactions = transactions.map(t => {
-          return {
-            date: t.date,
-            description: t.description,
-            amount: t.amount,
-            type: t.type,
-            rawRowText: t.rawRowText
-          } as Transaction;
-        });
-        account.allTransactions[category].push(...standardTransactions);
-      }
-    });
-    
-    // Log transaction counts
-    const totalTransactions = Object.values(allTransactions).reduce(
-      (total, categoryTransactions) => total + categoryTransactions.length, 
-      0
-    );
-    
-    console.log(`Added ${totalTransactions} total transactions to account ${account.accountNumberLast4}`);
-  }
-  
-  /**
-   * Process the Deposits table on a page
-   */
-  private async processDepositsTable(
-    page: ProcessedPage,
-    account: Account
-  ): Promise<Array<BofATransaction & { type: 'DEPOSIT' }>> {
-    console.log(`------------ LOOKING FOR DEPOSITS TABLE ON PAGE ${page.pageNumber}`)
-    
-    // Define anchors for the Deposits table
-    const depositsBounds = {
-      topAnchor: this.findClosestTextInPage(page, [
-        "Deposits and other additions",
-        "Deposits and other additions - continued"
-      ]),
-      bottomAnchor: this.findClosestTextInPage(page, [
-        "Total deposits and other additions", 
-        "continued on the next page"
-      ]),
+    let totalTransactions = 0;
+    for (const section of sections) {
+      const sectionType = BOFA_TRANSACTION_SECTIONS.find(({ definition }) => definition.name === section.name);
+      if (!sectionType) continue;
       
-    };
-    
-    // Try to find deposits tables using Document AI's table detection
-    const depositTables = page.tables.filter(table => {
-      const headerText = table.headerCells.join(' ').toLowerCase();
-      return headerText.includes('date') && 
-             headerText.includes('description') && 
-             headerText.includes('amount');
-    });
-    
-    const transactions: Array<BofATransaction & { type: 'DEPOSIT' }> = [];
-    
-    if (depositTables.length > 0 && depositsBounds.topAnchor) {
-      console.log(`Found ${depositTables.length} potential Deposits tables`);
+      const transactions = this.readSectionTransactions(section, sectionType.type);
+      console.log(`Extracted ${transactions.length} ${section.name} from pages ${section.pages.join(', ')}`);
       
-      // Find the table that's closest to the "Deposits and other additions" heading
-      const depositsTable = this.findTableNearAnchor(page, depositTables, depositsBounds.topAnchor);
-      
-      if (depositsTable) {
-        // Extract the full table data - use exclusive bottom boundary to avoid including the total row
-        const fullTableData = await this.extractFullTableDataForTransactions(
-          page.pageNumber, 
-          depositsTable, 
-          depositsBounds,
-          {
-            topBoundaryMode: 'exclusive', // Don't include the header
-            bottomBoundaryMode: 'exclusive', // Don't include the footer
-            includeAnchors: false // Don't include anchor blocks
-          }
-        );
-        
-        if (fullTableData && fullTableData.rows) {
-          // Process each row as a deposit transaction
-          for (const row of fullTableData.rows) {
-            
-            // Skip rows that are too short
-            if (row.length < 2) continue;
-            
-            // Check if this is a header or transaction
-            const rowCheck = this.isHeaderRow(row);
-            
-            // Skip header rows
-            if (rowCheck.isHeader && !rowCheck.isTransaction) {
-              console.log("Skipping header row");
-              continue;
-            }
-
-            if (rowCheck.isTransaction) {
-               const transactionData = row.filter(cell => {
-                  const cellText = cell.toLowerCase();
-                  if (cellText.includes("date") || cellText.includes("description") || cellText.includes("amount")) {
-                    return false;
-                  }
-                  return true;
-               })
-
-               // Process as transaction with correct typing
-               const transaction = this.extractTransactionFromRow(transactionData, 'DEPOSIT') as BofATransaction & { type: 'DEPOSIT' };
-               if (transaction.amount) {
-                  transactions.push(transaction);
-               }   
-            }
-          }
-          
-          console.log(`Extracted ${transactions.length} deposits from table`);
-        }
+      const category = sectionType.category;
+      if (!account.allTransactions[category]) {
+        account.allTransactions[category] = [];
       }
-    } else {
-      console.error("No deposits table found");
+      account.allTransactions[category].push(...transactions.map(t => ({
+        date: t.date,
+        description: t.description,
+        amount: t.amount,
+        type: t.type,
+        rawRowText: t.rawRowText
+      } as Transaction)));
+      totalTransactions += transactions.length;
     }
     
-    return transactions;
+    console.log(`Added ${totalTransactions} total transactions to account ${account.accountNumberLast4}`);
   }
   
   /**
-   * Process the Withdrawals table on a page
+   * Read a stitched section's rows as transactions. Undated lines without an
+   * amount continue the description of the row above.
    */
-  private async processWithdrawalsTable(
-    page: ProcessedPage,
-    account: Account
-  ): Promise<Array<BofATransaction & { type: 'WITHDRAWAL' }>> {
-    console.log(`------------ LOOKING FOR WITHDRAWALS TABLE ON PAGE ${page.pageNumber}`)
-    
-    // Define anchors for the Withdrawals table
-    const withdrawalsBounds = {
-      topAnchor: this.findClosestTextInPage(page, [
-        "Other subtractions",
-        "Service fees",
-        "Withdrawals and other subtractions",
-        "Withdrawals and other subtractions - continued"
-      ]),
-      bottomAnchor: this.findClosestTextInPage(page, [
-        "continued on the next page",
-        "Total other subtractions",
-        "Total service fees",
-        "Total withdrawals and other subtractions"
-      ])
-    };
-
-    // console.log("withdrawalsBounds", withdrawalsBounds)
-    
-    // Try to find withdrawals tables using Document AI's table detection
-    const withdrawalTables = page.tables.filter(table => {
-      const headerText = table.headerCells.join(' ').toLowerCase();
-      return headerText.includes('date') && 
-             headerText.includes('description') && 
-             headerText.includes('amount');
-    });
-    
-    const transactions: Array<BofATransaction & { type: 'WITHDRAWAL' }> = [];
+  private readSectionTransactions(
+    section: StitchedSection,
+    type: 'DEPOSIT' | 'WITHDRAWAL' | 'ATM_DEBIT'
+  ): BofATransaction[] {
+    const transactions: BofATransaction[] = [];
     
-    if (withdrawalTables.length > 0 && withdrawalsBounds.topAnchor) {
-      console.log(`Found ${withdrawalTables.length} potential Withdrawals tables`);
-      
-      // Find the table that's closest to the "Withdrawals and other subtractions" heading
-      const withdrawalsTable = this.findTableNearAnchor(page, withdrawalTables, withdrawalsBounds.topAnchor);
-      // console.log("withdrawalsTable", withdrawalsTable)
+    for (const line of section.rows) {
+      const row = line.cells;
+      const rowCheck = this.isHeaderRow(row);
       
-      if (withdrawalsTable) {
-        // Extract the full table data - use exclusive boundaries to avoid header/footer
-        const fullTableData = await this.extractFullTableDataForTransactions(
-          page.pageNumber, 
-          withdrawalsTable, 
-          withdrawalsBounds,
-          {
-            topBoundaryMode: 'exclusive', // Don't include the header
-            bottomBoundaryMode: 'exclusive', // Don't include the footer
-            includeAnchors: false // Don't include anchor blocks
-          }
-        );
-        
-        if (fullTableData && fullTableData.rows) {
-          // Process each row as a withdrawal transaction
-          for (const row of fullTableData.rows) {
-            // Skip rows that are too short
-            if (row.length < 2) continue;
-            
-            // Check if this is a header or transaction
-            const rowCheck = this.isHeaderRow(row);
-            
-            // Skip header rows
-            if (rowCheck.isHeader && !rowCheck.isTransaction) {
-              console.log("Skipping header row");
-              continue;
-            }
-            
-            // Process as transaction with correct typing
-            const transaction = this.extractTransactionFromRow(row, 'WITHDRAWAL') as BofATransaction & { type: 'WITHDRAWAL' };
-            
-            // Add to results if we have an amount
-            if (transaction.amount) {
-              transactions.push(transaction);
-            }
-          }
-
-          console.log(`Extracted ${transactions.length} withdrawals from table`);
+      if (rowCheck.isTransaction) {
+        const transaction = this.extractTransactionFromRow(row, type);
+        if (transaction.amount) {
+          transactions.push(transaction);
         }
+        continue;
       }
-    } else {
-      console.error("No withdrawals table found");
-    }
-    
-    return transactions;
-  }
-
-  /**
-   * Process the ATM and Debit Card Transactions table on a page
-   */
-  private async processAtmDebitTable(
-    page: ProcessedPage,
-    account: Account
-  ): Promise<Array<BofATransaction & { type: 'ATM_DEBIT' }>> {
-    console.log(`------------ LOOKING FOR ATM AND DEBIT CARD TABLE ON PAGE ${page.pageNumber}`)
-    
-    // Define anchors for the ATM and Debit Card table
-    const atmDebitBounds = {
-      topAnchor: this.findClosestTextInPage(page, [
-        "ATM and debit card subtractions",
-        "ATM and debit card subtractions - continued"
-      ]),
-      bottomAnchor: this.findClosestTextInPage(page, [
-        "Total ATM and debit card subtractions",
-        "continued on the next page"
-      ])
-    };
-    
-    // Try to find ATM and debit tables using Document AI's table detection
-    const atmDebitTables = page.tables.filter(table => {
-      const headerText = table.headerCells.join(' ').toLowerCase();
-      return headerText.includes('date') && 
-             headerText.includes('description') && 
-             headerText.includes('amount');
-    });
-    
-    const transactions: Array<BofATransaction & { type: 'ATM_DEBIT' }> = [];
-    
-    if (atmDebitTables.length > 0 && atmDebitBounds.topAnchor) {
-      console.log(`Found ${atmDebitTables.length} potential ATM and Debit Card tables`);
-      
-      // Find the table that's closest to the "ATM and debit card subtractions" heading
-      const atmDebitTable = this.findTableNearAnchor(page, atmDebitTables, atmDebitBounds.topAnchor);
       
-      if (atmDebitTable) {
-        // Extract the full table data - use exclusive boundaries to avoid header/footer
-        const fullTableData = await this.extractFullTableDataForTransactions(
-          page.pageNumber, 
-          atmDebitTable, 
-          atmDebitBounds,
-          {
-            topBoundaryMode: 'exclusive', // Don't include the header
-            bottomBoundaryMode: 'exclusive', // Don't include the footer
-            includeAnchors: false // Don't include anchor blocks
-          }
-        );
-        
-        if (fullTableData && fullTableData.rows) {
-          // Process each row as an ATM/debit transaction
-          for (const row of fullTableData.rows) {
-            // Skip rows that are too short
-            if (row.length < 2) continue;
-            
-            // Check if this is a header or transaction
-            const rowCheck = this.isHeaderRow(row);
-            
-            // Skip header rows
-            if (rowCheck.isHeader && !rowCheck.isTransaction) {
-              console.log("Skipping header row");
-              continue;
-            }
-            
-            // Process as transaction with explicit ATM_DEBIT type
-            const baseTransaction = this.extractTransactionFromRow(row, 'ATM_DEBIT');
-            // Create properly typed transaction
-            const transaction = {
-              ...baseTransaction,
-              type: 'ATM_DEBIT' as const
-            };
-            
-            // Add to results if we have an amount
-            if (transaction.amount) {
-              transactions.push(transaction);
-            }
-          }
-
-          console.log(`Extracted ${transactions.length} ATM and debit card transactions from table`);
-        }
+      const previous = transactions[transactions.length - 1];
+      if (previous && !rowCheck.isHeader && this.findLastAmount(line.text) === null) {
+        previous.description = `${previous.description || ''} ${line.text}`.trim();
+        previous.rawRowText = `${previous.rawRowText || ''} ${line.text}`.trim();
       }
-    } else {
-      console.error("No ATM and debit card table found");
     }
     
     return transactions;
@@ -1461,12 +1001,12 @@ export class BankOfAmericaStatementParser extends BankStatementParser {
     // Look for amount in last column (common pattern)
     if (row.length > 1) {
       const amountText = row[row.length - 1];
-      amountVal = this.extractAmount(amountText);
+      amountVal = this.parseAmount(amountText);
       
       // If no amount in last column, try other columns
       if (amountVal === null) {
         for (const cell of row) {
-          const cellAmount = this.extractAmount(cell);
+          const cellAmount = this.parseAmount(cell);
           if (cellAmount !== null) {
             amountVal = cellAmount;
             break;
@@ -1509,26 +1049,6 @@ export class BankOfAmericaStatementParser extends BankStatementParser {
     };
   }
   
-  /**
-   * Extract dollar amount from text
-   */
-  private extractAmount(text: string): number | null {
-    // Match format $1,234.56 or 1,234.56 or -$1,234.56 or -1,234.56
-    const amountMatch = text.match(/\$?([\d,]+\.\d{2})/);
-    if (amountMatch) {
-      // Convert to number, removing commas
-      let amount = parseFloat(amountMatch[1].replace(/,/g, ''));
-      
-      // Check if amount is negative (indicated by minus sign or parentheses)
-      if (text.includes('-') || /\(\$?[\d,]+\.\d{2}\)/.test(text)) {
-        amount = -amount;
-      }
-      
-      return amount;
-    }
-    return null;
-  }
-  
   /**
    * Check if text is likely a header row or a transaction row
    * Returns an object with both determinations
@@ -1567,75 +1087,6 @@ export class BankOfAmericaStatementParser extends BankStatementParser {
     return { isHeader, isTransaction };
   }
   
-  /**
-   * Find the closest text match in a page from a list of options
-   */
-  private findClosestTextInPage(page: ProcessedPage, options: string[]): string | undefined {
-    for (const option of options) {
-      for (const block of page.textBlocks) {
-        if (block.text.toLowerCase().includes(option.toLowerCase())) {
-          return option;
-        }
-      }
-    }
-    return undefined;
-  }
-  
-  /**
-   * Find the table closest to a specific anchor text
-   */
-  private findTableNearAnchor(page: ProcessedPage, tables: ProcessedTable[], anchorText: string): ProcessedTable | null {
-    // Find the anchor block
-    const anchorBlock = page.textBlocks.find(block => 
-      block.text.toLowerCase().includes(anchorText.toLowerCase())
-    );
-    
-    if (!anchorBlock) return tables[0]; // If no anchor found, return first table
-    
-    // Find the table with the closest centerY to the anchor
-    const anchorCenterY = (anchorBlock.boundingBox.y1 + anchorBlock.boundingBox.y2) / 2;
-    
-    let closestTable = tables[0];
-    let closestDistance = Number.MAX_SAFE_INTEGER;
-    
-    for (const table of tables) {
-      // Estimate table position from header cells
-      const tableCenterY = this.estimateTablePosition(page, table);
-      
-      const distance = Math.abs(tableCenterY - anchorCenterY);
-      if (distance < closestDistance) {
-        closestDistance = distance;
-        closestTable = table;
-      }
-    }
-    
-    return closestTable;
-  }
-  
-  /**
-   * Estimate table position based on associated text blocks
-   */
-  private estimateTablePosition(page: ProcessedPage, table: ProcessedTable): number {
-    // Look for header cells in the text blocks to approximate table position
-    const headerTexts = table.headerCells.map(h => h.toLowerCase());
-    
-    let totalY = 0;
-    let count = 0;
-    
-    for (const block of page.textBlocks) {
-      const blockText = block.text.toLowerCase();
-      for (const header of headerTexts) {
-        if (blockText.includes(header)) {
-          totalY += (block.boundingBox.y1 + block.boundingBox.y2) / 2;
-          count++;
-          break;
-        }
-      }
-    }
-    
-    return count > 0 ? totalY / count : 0.5; // Default to middle of page if not found
-  }
-  
   /**
    * Check if a page represents the end of an account's section
    */
@@ -1,15 +1,9 @@
-import { protos } from "@google-cloud/documentai";
-import { DocumentProcessor } from "../document-processor";
+import { DocumentProcessor, PageLine, ProcessedPage, TextBlock } from "../document-processor";
+import type { ExtractedEntity } from "../extraction";
+import { fromCents, parseMoney } from "../money";
 import { promises as fs } from 'fs';
 import path from 'path';
 
-// Core type aliases from Google Cloud SDK
-type IDocument = protos.google.cloud.documentai.v1.IDocument;
-type IDocumentPage = protos.google.cloud.documentai.v1.Document.IPage;
-type IDocumentEntity = protos.google.cloud.documentai.v1.Document.IEntity;
-type IDocumentTable = protos.google.cloud.documentai.v1.Document.Page.ITable;
-type IDocumentTableCell = protos.google.cloud.documentai.v1.Document.Page.Table.ITableCell;
-
 // Define transaction type for backward compatibility
 export interface Transaction {
   date?: string | null;
@@ -17,11 +11,16 @@ export interface Transaction {
   amount?: number | null;
   type: 'DEPOSIT' | 'WITHDRAWAL' | 'OTHER';
   rawRowText?: string;
+  externalId?: string | null; // The bank's id for the transaction in downloaded files (OFX FITID)
+  category?: string | null; // Category name from files that carry one (QIF)
+  valueDate?: string | null; // The date the money moved, where a bank gives it next to the booking date
+  counterparty?: string | null; // The other party of a transfer, from files that name it (camt, MT940)
 }
 
 // Define account type for backward compatibility
 export interface Account {
   accountNumberLast4: string;
+  accountId?: string | null; // Full account id from downloaded files (OFX ACCTID)
   accountType?: string | null;
   pageReference?: number | null;  // Page number containing the account details
   // Organized transaction categories
@@ -34,11 +33,32 @@ export interface Account {
     other: Transaction[];
     [key: string]: Transaction[];
   };
+  // Balances are from the account holder's side: a credit card balance owed is negative
   metadata?: {
     beginningBalance?: number;
     endingBalance?: number;
     [key: string]: any;
-  };
+  } & CreditCardMetadata;
+}
+
+// Credit card statement summary, kept in Account.metadata next to the balances.
+// Totals are unsigned and balances are the amount owed, as printed on the statement.
+export interface CreditCardMetadata {
+  previousBalance?: number;
+  newBalance?: number;
+  paymentsAndCreditsTotal?: number;
+  purchasesTotal?: number;
+  cashAdvancesTotal?: number;
+  balanceTransfersTotal?: number;
+  feesCharged?: number;
+  interestCharged?: number;
+  minimumPaymentDue?: number;
+  paymentDueDate?: string; // ISO date once the statement's dates are normalized
+  creditLimit?: number;
+  availableCredit?: number;
+  cashAdvanceLimit?: number;
+  purchaseApr?: number; // Percent, e.g. 24.99
+  cashAdvanceApr?: number;
 }
 
 // Define ProcessedStatementData interface for backward compatibility
@@ -48,22 +68,130 @@ export interface ProcessedStatementData {
   statementPeriodStartDate?: string | null;
   statementPeriodEndDate?: string | null;
   rawText: string; 
-  entities: IDocumentEntity[];
+  entities: ExtractedEntity[];
   // For combined statements:
   totalBalance?: number; // For statements with a total balance
+  // Problems noticed while parsing that someone should check, e.g. an uncertain bank match
+  reviewReasons?: string[];
+}
+
+// The first page's text, handed to a parser when it is constructed
+export interface OcrResult {
+  success: boolean;
+  fullPageText: string;
+  visualBlocks?: TextBlock[];
+}
+
+// Keys of Account.allTransactions. Credit card accounts also use purchases,
+// payments, credits and interest.
+export type TransactionBucketKey =
+  | 'deposits' | 'atmDebit' | 'withdrawals' | 'checks' | 'fees' | 'other'
+  | 'purchases' | 'payments' | 'credits' | 'interest';
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_PATTERN = '(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec)[a-z]*\\.?';
+// "January 11, 2024 through February 9, 2024"
+const FULL_PERIOD_PATTERN = new RegExp(`(${MONTH_PATTERN}\\s+\\d{1,2},?\\s+\\d{4})\\s*(?:through|to|-)\\s*(${MONTH_PATTERN}\\s+\\d{1,2},?\\s+\\d{4})`, 'i');
+// "Jan 1 - Jan 31, 2024": the year is only printed once
+const SHARED_YEAR_PERIOD_PATTERN = new RegExp(`(${MONTH_PATTERN})\\s+(\\d{1,2})\\s*(?:through|to|-)\\s*(${MONTH_PATTERN})\\s+(\\d{1,2}),?\\s+(\\d{4})`, 'i');
+// "01/01/2024 - 01/31/2024"
+const NUMERIC_PERIOD_PATTERN = /(\d{1,2}\/\d{1,2}\/\d{2,4})\s*(?:through|to|-)\s*(\d{1,2}\/\d{1,2}\/\d{2,4})/i;
+
+// A summary amount right after its label; "19.99%" is a rate, not an amount
+const CARD_AMOUNT = ':?\\s*([-+]?\\s*\\$?[\\d,]+\\.\\d{2})(?![\\d%])(\\s*CR\\b)?';
+// Credit lines are often printed in whole dollars: "$10,000"
+const CARD_LIMIT_AMOUNT = ':?\\s*(\\$?\\d[\\d,]*(?:\\.\\d{2})?)(?![\\d%.,])';
+// Credit card summary labels of the Chase and Bank of America layouts -> CreditCardMetadata field
+const CREDIT_CARD_SUMMARY_ROWS: Array<{ pattern: RegExp; field: Exclude<keyof CreditCardMetadata, 'paymentDueDate'> }> = [
+  { pattern: new RegExp(`\\bprevious\\s+balance${CARD_AMOUNT}`, 'i'), field: 'previousBalance' },
+  { pattern: new RegExp(`\\bnew\\s+balance(?:\\s+total)?${CARD_AMOUNT}`, 'i'), field: 'newBalance' },
+  { pattern: new RegExp(`\\bpayments?,?\\s+(?:and\\s+other\\s+)?credits${CARD_AMOUNT}`, 'i'), field: 'paymentsAndCreditsTotal' },
+  { pattern: new RegExp(`\\bpurchases(?:\\s+and\\s+adjustments)?${CARD_AMOUNT}`, 'i'), field: 'purchasesTotal' },
+  { pattern: new RegExp(`\\bcash\\s+advances${CARD_AMOUNT}`, 'i'), field: 'cashAdvancesTotal' },
+  { pattern: new RegExp(`\\bbalance\\s+transfers${CARD_AMOUNT}`, 'i'), field: 'balanceTransfersTotal' },
+  { pattern: new RegExp(`\\bfees\\s+charged${CARD_AMOUNT}`, 'i'), field: 'feesCharged' },
+  { pattern: new RegExp(`\\binterest\\s+charged${CARD_AMOUNT}`, 'i'), field: 'interestCharged' },
+  { pattern: new RegExp(`\\b(?:total\\s+)?minimum\\s+payment\\s+due${CARD_AMOUNT}`, 'i'), field: 'minimumPaymentDue' },
+  { pattern: new RegExp(`\\b(?:credit\\s+limit|credit\\s+access\\s+line|total\\s+credit\\s+line)${CARD_LIMIT_AMOUNT}`, 'i'), field: 'creditLimit' },
+  { pattern: new RegExp(`\\b(?:available\\s+credit|credit\\s+available)${CARD_LIMIT_AMOUNT}`, 'i'), field: 'availableCredit' },
+  { pattern: new RegExp(`\\b(?:cash\\s+access\\s+line|cash\\s+credit\\s+line)${CARD_LIMIT_AMOUNT}`, 'i'), field: 'cashAdvanceLimit' },
+];
+const PAYMENT_DUE_DATE_PATTERN = /\bpayment\s+due\s+date:?\s*(\d{1,2}\/\d{1,2}\/\d{2,4})/i;
+// Interest rate table rows: "Purchases 19.99%(v)(d) $1,000.00 $12.34"
+const CARD_APR_PATTERN = /^(purchases|cash\s+advances?)\b\D*?(\d{1,2}\.\d{2})\s*%/i;
+// Transaction section headings of the card layouts -> bucket ('payments' also holds credits)
+const CREDIT_CARD_SECTIONS: Array<{ pattern: RegExp; bucket: TransactionBucketKey }> = [
+  { pattern: /^payments?,?\s+(and\s+other\s+)?credits$/i, bucket: 'payments' },
+  { pattern: /^purchases?(\s+and\s+(other\s+)?(adjustments|charges))?$/i, bucket: 'purchases' },
+  { pattern: /^cash\s+advances?$/i, bucket: 'withdrawals' },
+  { pattern: /^balance\s+transfers?$/i, bucket: 'other' },
+  { pattern: /^fees\s+charged$/i, bucket: 'fees' },
+  { pattern: /^interest\s+charged$/i, bucket: 'interest' },
+];
+// "TOTAL PURCHASES FOR THIS PERIOD", the year-to-date totals and the interest rate table end a section
+const CREDIT_CARD_SECTION_END_PATTERN = /^(total\s+.*\s+for\s+this\s+period|\d{4}\s+totals\s+year-to-date|year-to-date\s+totals|interest\s+charges?\s+calculation|interest\s+charges$)/i;
+// Transaction date, optional posting date, description and amount as printed (charges positive)
+const CREDIT_CARD_TRANSACTION_PATTERN = /^(\d{2}\/\d{2})\s+(?:\d{2}\/\d{2}\s+)?(.+?)\s+(-?\s*\$?[\d,]+\.\d{2})$/;
+// Card number with all but the last four digits masked: "XXXX XXXX XXXX 1234"
+const CARD_NUMBER_PATTERN = /\baccount\s*(?:number|#|no\.?)?:?\s*(?:[\dx*]{4}[\s-]?){3}(\d{4})\b/i;
+
+// A cell holding only a money amount, with the horizontal center of its block
+export interface AmountCell {
+  index: number; // Index in PageLine.cells
+  amount: number;
+  centerX: number;
+}
+
+// A pattern whose presence on a page is evidence for a bank, worth `weight` (0-1)
+export interface DetectionSignal {
+  pattern: RegExp;
+  weight: number;
+}
+
+// A parser class as the parser registry sees it
+export interface BankStatementParserClass {
+  new (ocrResult: OcrResult, filePath: string, fileType: string, documentProcessor?: DocumentProcessor): BankStatementParser;
+  readonly bankName: string;
+  detect(page: ProcessedPage): number;
 }
 
 /**
  * Abstract base class for bank statement parsers
  */
 export abstract class BankStatementParser {
-  protected ocrResult: any;
+  // Name of the bank the parser reads statements from
+  public static readonly bankName: string = "Unknown";
+  // Evidence that a page comes from this bank, used by the default detect()
+  protected static readonly detectionSignals: DetectionSignal[] = [];
+  
+  /**
+   * Score how confident this parser is that a page belongs to its bank's
+   * statements, from 0 (not at all) to 1 (certain)
+   */
+  public static detect(page: ProcessedPage): number {
+    return this.scoreSignals(page, this.detectionSignals);
+  }
+  
+  /**
+   * Add up the weights of the signals found on a page, capped at 1
+   */
+  protected static scoreSignals(page: ProcessedPage, signals: DetectionSignal[]): number {
+    const pageText = page.textBlocks.map(block => block.text).join("\n");
+    const score = signals
+      .filter(signal => signal.pattern.test(pageText))
+      .reduce((sum, signal) => sum + signal.weight, 0);
+    return Math.min(1, score);
+  }
+  
+  protected ocrResult: OcrResult;
   protected filePath: string;
   protected fileType: string;
   protected documentProcessor: DocumentProcessor | null = null;
+  // Problems found while reading the statement that need a person to look at it
+  protected reviewReasons: string[] = [];
   
   constructor(
-    ocrResult: any, 
+    ocrResult: OcrResult,
     filePath: string, 
     fileType: string,
     documentProcessor?: DocumentProcessor
@@ -79,6 +207,358 @@ export abstract class BankStatementParser {
    */
   public abstract process(): Promise<ProcessedStatementData>;
   
+  /**
+   * Reasons the parsed statement should be reviewed, such as amounts that
+   * couldn't be read unambiguously
+   */
+  public getReviewReasons(): string[] {
+    return this.reviewReasons;
+  }
+  
+  /**
+   * Make sure the document has been extracted, creating a DocumentProcessor
+   * when none was passed in. Returns false when extraction failed.
+   */
+  protected async ensureDocumentProcessor(): Promise<boolean> {
+    if (this.documentProcessor) {
+      console.log("Using existing DocumentProcessor instance");
+      return true;
+    }
+    
+    console.log("No DocumentProcessor instance was provided, creating a new one");
+    this.documentProcessor = new DocumentProcessor();
+    const success = await this.documentProcessor.processDocument(this.filePath, this.fileType);
+    if (!success) {
+      console.error("Failed to process document with document processor");
+    }
+    return success;
+  }
+  
+  /**
+   * Read every page of the document as lines, so sections can be followed
+   * across page breaks
+   */
+  protected async getAllPageLines(): Promise<PageLine[]> {
+    if (!this.documentProcessor) return [];
+    
+    const lines: PageLine[] = [];
+    for (let pageNumber = 1; pageNumber <= this.documentProcessor.getPageCount(); pageNumber++) {
+      lines.push(...await this.documentProcessor.getPageLines(pageNumber));
+    }
+    return lines;
+  }
+  
+  /**
+   * Find the statement period in the first line that has one. Supports
+   * "January 11, 2024 through February 9, 2024", "Jan 1 - Jan 31, 2024" and
+   * "01/01/2024 - 01/31/2024".
+   */
+  protected findStatementPeriod(lines: PageLine[], data: ProcessedStatementData): boolean {
+    for (const line of lines) {
+      const full = line.text.match(FULL_PERIOD_PATTERN) || line.text.match(NUMERIC_PERIOD_PATTERN);
+      if (full) {
+        data.statementPeriodStartDate = full[1].replace('.', '');
+        data.statementPeriodEndDate = full[2].replace('.', '');
+      } else {
+        const shared = line.text.match(SHARED_YEAR_PERIOD_PATTERN);
+        if (!shared) continue;
+        
+        const endYear = parseInt(shared[5], 10);
+        // A period starting in December ends in the next year
+        const startYear = this.parseMonth(shared[1]) > this.parseMonth(shared[3]) ? endYear - 1 : endYear;
+        data.statementPeriodStartDate = `${shared[1].replace('.', '')} ${shared[2]}, ${startYear}`;
+        data.statementPeriodEndDate = `${shared[3].replace('.', '')} ${shared[4]}, ${endYear}`;
+      }
+      
+      console.log(`Found statement period: ${data.statementPeriodStartDate} to ${data.statementPeriodEndDate}`);
+      return true;
+    }
+    
+    console.warn("No statement period found");
+    return false;
+  }
+  
+  /**
+   * Month number (1-12) of a month name or abbreviation, 0 if unknown
+   */
+  protected parseMonth(name: string): number {
+    return MONTH_NAMES.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+  }
+  
+  /**
+   * Find the account with these last 4 digits, creating it with empty
+   * transaction buckets on first sight
+   */
+  protected getOrCreateAccount(data: ProcessedStatementData, last4: string, pageNumber: number): Account {
+    const existing = data.accounts.find(account => account.accountNumberLast4 === last4);
+    if (existing) return existing;
+    
+    console.log(`Found account ending in ${last4} on page ${pageNumber}`);
+    const account: Account = {
+      accountNumberLast4: last4,
+      accountType: null,
+      pageReference: pageNumber,
+      allTransactions: {
+        deposits: [],
+        atmDebit: [],
+        withdrawals: [],
+        checks: [],
+        fees: [],
+        other: [],
+      },
+      metadata: {},
+    };
+    data.accounts.push(account);
+    return account;
+  }
+  
+  /**
+   * Parse an amount like "$1,234.56", "-$1,234.56", "- $4.50", "+ $1.00",
+   * "(1,234.56)" or "1,234.56-". Amounts that can't be read unambiguously
+   * (like "12.345") are read as missing and the statement is sent to review.
+   */
+  protected parseAmount(text: string): number | null {
+    try {
+      const cents = parseMoney(text);
+      return cents === null ? null : fromCents(cents);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.error(reason);
+      if (!this.reviewReasons.includes(reason)) this.reviewReasons.push(reason);
+      return null;
+    }
+  }
+  
+  /**
+   * Locate table columns by their header cells. Returns the horizontal center
+   * of each column, or null when a header is missing from the line.
+   */
+  protected findColumnCenters(line: PageLine, columns: Record<string, RegExp>): Record<string, number> | null {
+    const centers: Record<string, number> = {};
+    
+    for (const [name, pattern] of Object.entries(columns)) {
+      const index = line.cells.findIndex(cell => pattern.test(cell));
+      if (index === -1) return null;
+      
+      const { x1, x2 } = line.blocks[index].boundingBox;
+      centers[name] = (x1 + x2) / 2;
+    }
+    
+    return centers;
+  }
+  
+  /**
+   * The cells of a line that hold nothing but an amount
+   */
+  protected getAmountCells(line: PageLine): AmountCell[] {
+    const cells: AmountCell[] = [];
+    
+    line.cells.forEach((cell, index) => {
+      // Any number of decimals, so misread amounts are reported by parseAmount
+      if (!/^\(?[-+]?\s*\$?\d[\d,]*\.\d+\)?$/.test(cell)) return;
+      
+      const amount = this.parseAmount(cell);
+      if (amount === null) return;
+      
+      const { x1, x2 } = line.blocks[index].boundingBox;
+      cells.push({ index, amount, centerX: (x1 + x2) / 2 });
+    });
+    
+    return cells;
+  }
+  
+  /**
+   * Name of the column whose center is closest to a position
+   */
+  protected nearestColumn(centerX: number, centers: Record<string, number>): string {
+    return Object.entries(centers).reduce((nearest, current) =>
+      Math.abs(current[1] - centerX) < Math.abs(nearest[1] - centerX) ? current : nearest
+    )[0];
+  }
+  
+  /**
+   * Read a transaction row from a table with separate money-in and money-out
+   * columns, e.g. "1/12 | Purchase authorized on 01/11 Starbucks | 4.50".
+   * Amounts under the `credit` column are deposits, under `debit` they are
+   * withdrawals, and amounts under any other column (like a running balance)
+   * are ignored. Returns null for lines that don't start with a MM/DD date.
+   */
+  protected parseColumnTransactionLine(line: PageLine, centers: Record<string, number>): Transaction | null {
+    const dateMatch = line.cells[0]?.match(/^(\d{1,2}\/\d{1,2})(?:\/\d{2,4})?\b\s*(.*)$/);
+    if (!dateMatch) return null;
+    
+    const amountCells = this.getAmountCells(line);
+    let amount: number | null = null;
+    for (const cell of amountCells) {
+      const column = this.nearestColumn(cell.centerX, centers);
+      if (column === 'credit') amount = Math.abs(cell.amount);
+      if (column === 'debit') amount = -Math.abs(cell.amount);
+    }
+    
+    const amountIndexes = new Set(amountCells.map(cell => cell.index));
+    const description = [dateMatch[2], ...line.cells.slice(1).filter((_, i) => !amountIndexes.has(i + 1))]
+      .filter(Boolean)
+      .join(' ');
+    
+    return {
+      date: dateMatch[1],
+      description,
+      amount,
+      type: amount !== null && amount < 0 ? 'WITHDRAWAL' : 'DEPOSIT',
+      rawRowText: line.text,
+    };
+  }
+  
+  /**
+   * Parse the last amount on a line, e.g. the total of a summary row
+   */
+  protected findLastAmount(text: string): number | null {
+    // Any number of decimals, so a misread "12.345" is reported rather than cut to 12.34
+    const amounts = text.match(/[-+]?\s*\(?\$?\d[\d,]*\.\d+\)?/g);
+    return amounts ? this.parseAmount(amounts[amounts.length - 1]) : null;
+  }
+  
+  /**
+   * Pick the bucket for a signed transaction: money in is a deposit, money
+   * out is sorted by its description
+   */
+  protected classifyTransaction(transaction: Transaction): TransactionBucketKey {
+    const description = transaction.description || '';
+    
+    if (transaction.amount === null || transaction.amount === undefined || transaction.amount >= 0) {
+      return 'deposits';
+    }
+    if (/^check\b/i.test(description)) return 'checks';
+    if (/\b(card\s+purchase|purchase\s+authorized|debit\s+card|pos\s+(purchase|debit)|atm)\b/i.test(description)) return 'atmDebit';
+    if (/\b(fee|service\s+charge)\b/i.test(description)) return 'fees';
+    return 'withdrawals';
+  }
+  
+  /**
+   * Put a transaction in its bucket
+   */
+  protected addTransaction(account: Account, transaction: Transaction, bucket = this.classifyTransaction(transaction)): void {
+    if (!account.allTransactions) return;
+    // Credit card buckets aren't created up front
+    account.allTransactions[bucket] = account.allTransactions[bucket] || [];
+    account.allTransactions[bucket].push(transaction);
+  }
+  
+  /**
+   * Whether the statement is for a credit card rather than a deposit account
+   */
+  protected isCreditCardStatement(lines: PageLine[]): boolean {
+    const text = lines.map(line => line.text).join('\n');
+    return /minimum\s+payment\s+due/i.test(text)
+      && /\b(credit\s+limit|credit\s+access\s+line|total\s+credit\s+line|new\s+balance)\b/i.test(text);
+  }
+  
+  /**
+   * Read a credit card statement: the card account, its summary into
+   * CreditCardMetadata, and the transactions of each activity section.
+   *
+   * Card statements print charges as positive and payments as negative
+   * amounts. Transactions are stored from the card holder's side like deposit
+   * accounts: purchases, fees and interest negative, payments and credits
+   * positive. The balances owed become negative beginning and ending
+   * balances, so the balance check works the same as for deposit accounts.
+   */
+  protected processCreditCardStatement(lines: PageLine[], data: ProcessedStatementData): void {
+    let account: Account | null = null;
+    let section: TransactionBucketKey | null = null;
+    
+    for (const line of lines) {
+      const text = line.text.trim();
+      if (!text) continue;
+      
+      const cardMatch = text.match(CARD_NUMBER_PATTERN);
+      if (cardMatch && account?.accountNumberLast4 !== cardMatch[1]) {
+        account = this.getOrCreateAccount(data, cardMatch[1], line.pageNumber);
+        account.accountType = 'CREDIT';
+        section = null;
+      }
+      if (!account) continue;
+      
+      const sectionMatch = CREDIT_CARD_SECTIONS.find(cardSection => cardSection.pattern.test(text));
+      if (sectionMatch) {
+        section = sectionMatch.bucket;
+        continue;
+      }
+      if (CREDIT_CARD_SECTION_END_PATTERN.test(text)) {
+        section = null;
+      }
+      
+      const transaction = section ? this.parseCreditCardTransactionLine(text) : null;
+      if (section && transaction) {
+        // Payments and credits share a section on both layouts
+        const bucket = section === 'payments' && !/\bpayment\b/i.test(transaction.description || '') ? 'credits' : section;
+        this.addTransaction(account, transaction, bucket);
+      } else if (!transaction) {
+        this.applyCreditCardSummaryLine(text, account);
+      }
+    }
+    
+    for (const card of data.accounts) {
+      const metadata = card.metadata || {};
+      if (typeof metadata.previousBalance === 'number') metadata.beginningBalance = -metadata.previousBalance;
+      if (typeof metadata.newBalance === 'number') metadata.endingBalance = -metadata.newBalance;
+    }
+  }
+  
+  /**
+   * Store the summary values on a line in the card account's metadata. A line
+   * can hold several, e.g. a summary row next to the payment information box.
+   */
+  private applyCreditCardSummaryLine(text: string, account: Account): void {
+    account.metadata = account.metadata || {};
+    
+    const aprMatch = text.match(CARD_APR_PATTERN);
+    if (aprMatch) {
+      const field = /^purchase/i.test(aprMatch[1]) ? 'purchaseApr' : 'cashAdvanceApr';
+      account.metadata[field] = account.metadata[field] ?? parseFloat(aprMatch[2]);
+      return;
+    }
+    
+    for (const row of CREDIT_CARD_SUMMARY_ROWS) {
+      const match = text.match(row.pattern);
+      if (!match) continue;
+      
+      // Whole dollar amounts only come from CARD_LIMIT_AMOUNT
+      const amount = this.parseAmount(/\.\d{2}$/.test(match[1]) ? match[1] : `${match[1]}.00`);
+      if (amount === null) continue;
+      
+      if (row.field === 'previousBalance' || row.field === 'newBalance') {
+        // "CR" or a minus marks a credit balance, money the bank owes the card holder
+        account.metadata[row.field] = match[2] ? -Math.abs(amount) : amount;
+      } else {
+        account.metadata[row.field] = Math.abs(amount);
+      }
+    }
+    
+    const dueDate = text.match(PAYMENT_DUE_DATE_PATTERN);
+    if (dueDate) account.metadata.paymentDueDate = dueDate[1];
+  }
+  
+  /**
+   * Parse a card activity row: "01/02 AMAZON MKTPLACE PMTS 45.67" or, with a
+   * posting date and reference numbers, "12/20 12/21 PAYMENT - THANK YOU 1234 5678 -500.00"
+   */
+  private parseCreditCardTransactionLine(text: string): Transaction | null {
+    const match = text.match(CREDIT_CARD_TRANSACTION_PATTERN);
+    if (!match) return null;
+    
+    const printed = this.parseAmount(match[3]);
+    const amount = printed === null ? null : -printed;
+    return {
+      date: match[1],
+      // Drop the reference and account number columns
+      description: match[2].replace(/(\s+\d{4}){2}$/, '').trim(),
+      amount,
+      type: amount !== null && amount < 0 ? 'WITHDRAWAL' : 'DEPOSIT',
+      rawRowText: text,
+    };
+  }
+  
   /**
    * Save the extracted data to a JSON file for analysis
    */
@@ -175,7 +655,7 @@ export abstract class BankStatementParser {
       statementPeriodStartDate: null,
       statementPeriodEndDate: null,
       rawText: this.ocrResult.fullPageText,
-      entities: []
+      entities: this.documentProcessor?.getEntities() || []
     };
   }
 } 
\ No newline at end of file
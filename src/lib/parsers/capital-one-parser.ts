@@ -0,0 +1,136 @@
+import { BankStatementParser, ProcessedStatementData, Account, Transaction, DetectionSignal } from './base-parser';
+import { PageLine } from '../document-processor';
+
+const MONTH = '(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec)[a-z]*\\.?';
+
+// Account headers: "360 Checking...6789" or "360 Performance Savings - ending in 6789".
+// Transaction rows start with a date, so transfers like "Jan 5 Transfer to 360 Checking...6789" don't match.
+const ACCOUNT_HEADER_PATTERN = new RegExp(`^(?!${MONTH}\\s+\\d{1,2}\\b).*?\\b(checking|savings)\\b.*?(?:\\.{2,}|ending\\s+in\\s+|[x*]{2,})\\s*(\\d{4})\\b`, 'i');
+// "Jan 1 Opening Balance $1,000.00"
+const BALANCE_ROW_PATTERN = new RegExp(`^${MONTH}\\s+\\d{1,2}\\s+(opening|closing)\\s+balance\\s+(-?\\s*\\$?[\\d,]+\\.\\d{2})$`, 'i');
+// "Jan 2 Debit Card Purchase - Starbucks Debit - $4.50 $995.50"
+const TRANSACTION_LINE_PATTERN = new RegExp(`^${MONTH}\\s+(\\d{1,2})\\s+(.+?)\\s+([-+]\\s*\\$?[\\d,]+\\.\\d{2})\\s+(-?\\s*\\$?[\\d,]+\\.\\d{2})$`, 'i');
+// Transaction category column printed between description and amount
+const CATEGORY_SUFFIX_PATTERN = /\s+(debit|credit)$/i;
+// Page furniture and lines that close an account's transaction list
+const BOILERPLATE_PATTERN = /^(page\s+\d+\s+of\s+\d+|date\s+description)/i;
+const SECTION_END_PATTERN = /^(total\s+(fees|interest)|interest\s+summary|annual\s+percentage\s+yield\s+earned)/i;
+const MONEY_PATTERN = /[\d,]+\.\d{2}/;
+
+/**
+ * Capital One bank statement parser
+ * Reads Capital One 360 checking and savings statements. Every account lists
+ * its transactions between an opening and a closing balance row, with dates
+ * like "Jan 2" and signed amounts ("- $4.50", "+ $1,500.00") followed by the
+ * running balance.
+ */
+export class CapitalOneStatementParser extends BankStatementParser {
+  public static readonly bankName = 'Capital One';
+  protected static readonly detectionSignals: DetectionSignal[] = [
+    { pattern: /capitalone\.com/i, weight: 0.4 },
+    { pattern: /capital\s+one,?\s+n\.?a\.?/i, weight: 0.4 },
+    { pattern: /capital\s+one/i, weight: 0.3 },
+    { pattern: /\b360\s+(performance\s+savings|checking)\b/i, weight: 0.2 },
+  ];
+
+  public async process(): Promise<ProcessedStatementData> {
+    console.log("Processing Capital One statement");
+
+    if (!await this.ensureDocumentProcessor()) {
+      return this.createBaseData('Capital One');
+    }
+
+    const baseData = this.createBaseData('Capital One');
+
+    try {
+      const lines = await this.getAllPageLines();
+
+      this.findStatementPeriod(lines, baseData);
+      this.processAccountSections(lines, baseData);
+
+      // Save the extracted data for analysis
+      await this.saveExtractedData(baseData);
+
+      return baseData;
+
+    } catch (error) {
+      console.error("Error processing Capital One statement:", error);
+      return baseData;
+    }
+  }
+
+  /**
+   * Walk the statement line by line, tracking which account each line belongs to
+   */
+  private processAccountSections(lines: PageLine[], data: ProcessedStatementData): void {
+    let account: Account | null = null;
+    let inTransactions = false;
+    // Last transaction read, so wrapped descriptions can be joined onto it
+    let lastTransaction: { transaction: Transaction; pageNumber: number } | null = null;
+
+    for (const line of lines) {
+      const text = line.text.trim();
+      if (!text || BOILERPLATE_PATTERN.test(text)) continue;
+
+      const accountMatch = text.match(ACCOUNT_HEADER_PATTERN);
+      if (accountMatch) {
+        if (account?.accountNumberLast4 !== accountMatch[3]) {
+          account = this.getOrCreateAccount(data, accountMatch[3], line.pageNumber);
+          account.accountType = accountMatch[2].toUpperCase();
+          inTransactions = false;
+          lastTransaction = null;
+        }
+        continue;
+      }
+
+      if (!account) continue;
+
+      const balanceMatch = text.match(BALANCE_ROW_PATTERN);
+      if (balanceMatch) {
+        const balance = this.parseAmount(balanceMatch[3]);
+        account.metadata = account.metadata || {};
+        if (balance !== null) {
+          account.metadata[/^opening/i.test(balanceMatch[2]) ? 'beginningBalance' : 'endingBalance'] = balance;
+        }
+        inTransactions = /^opening/i.test(balanceMatch[2]);
+        lastTransaction = null;
+        continue;
+      }
+
+      if (!inTransactions) continue;
+
+      if (SECTION_END_PATTERN.test(text)) {
+        inTransactions = false;
+        lastTransaction = null;
+        continue;
+      }
+
+      const transaction = this.parseTransactionLine(text);
+      if (transaction) {
+        this.addTransaction(account, transaction);
+        lastTransaction = { transaction, pageNumber: line.pageNumber };
+      } else if (lastTransaction && lastTransaction.pageNumber === line.pageNumber && !MONEY_PATTERN.test(text)) {
+        // A description that wrapped onto the next line
+        lastTransaction.transaction.description = `${lastTransaction.transaction.description} ${text}`;
+        lastTransaction.transaction.rawRowText = `${lastTransaction.transaction.rawRowText}\n${text}`;
+      }
+    }
+  }
+
+  /**
+   * Parse a transaction row: "Jan 15 Deposit from ACME Corp Credit + $1,500.00 $2,495.50"
+   */
+  private parseTransactionLine(text: string): Transaction | null {
+    const match = text.match(TRANSACTION_LINE_PATTERN);
+    if (!match) return null;
+
+    const amount = this.parseAmount(match[4]);
+    return {
+      date: `${match[1]} ${match[2]}`,
+      description: match[3].replace(CATEGORY_SUFFIX_PATTERN, '').trim(),
+      amount,
+      type: amount !== null && amount < 0 ? 'WITHDRAWAL' : 'DEPOSIT',
+      rawRowText: text,
+    };
+  }
+}
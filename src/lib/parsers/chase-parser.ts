@@ -1,117 +1,200 @@
-import { BankStatementParser, ProcessedStatementData } from './base-parser';
-import { DocumentProcessor } from '../document-processor';
-import { dateExtractionTemplate, accountExtractionTemplate, chaseTemplate } from '../extraction-templates';
+import { BankStatementParser, ProcessedStatementData, Account, Transaction, DetectionSignal } from './base-parser';
+import { PageLine } from '../document-processor';
+import { fromCents, toCents } from '../money';
+
+// Part of an account section the parser is currently reading
+type ChaseSection = 'none' | 'summary' | 'transactions';
+
+// Checking/savings summary rows -> Account.metadata fields checked by reconciliation.
+// "Fees and Other Withdrawals" (older layouts) mixes two buckets, so it isn't mapped.
+const SUMMARY_ROWS: Array<{ pattern: RegExp; field: string }> = [
+  { pattern: /^beginning\s+balance\b/i, field: 'beginningBalance' },
+  { pattern: /^ending\s+balance\b/i, field: 'endingBalance' },
+  { pattern: /^deposits\s+and\s+additions\b/i, field: 'depositsTotal' },
+  { pattern: /^checks\s+paid\b/i, field: 'checksTotal' },
+  { pattern: /^atm\s*&\s*debit\s+card\s+withdrawals\b/i, field: 'atmDebitTotal' },
+  { pattern: /^fees\b(?!\s+and)/i, field: 'serviceFees' },
+  { pattern: /^(?:electronic|other)\s+withdrawals\b/i, field: 'otherSubtractions' },
+];
+
+const ACCOUNT_NUMBER_PATTERN = /account\s+number:?\s*[\dx*-]*?(\d{4})\b/i;
+const SUMMARY_HEADER_PATTERN = /^(?:chase\s+[a-z ]+\s+)?(checking|savings)\s+summary\b/i;
+const TRANSACTION_DETAIL_PATTERN = /^transaction\s+detail\b/i;
+// Sections after the transaction detail that must not be read as transactions
+const SECTION_END_PATTERN = /^(checks\s+paid|daily\s+ending\s+balance|in\s+case\s+of\s+errors|service\s+charge\s+summary|overdraft\s+and\s+returned\s+item)/i;
+// Page furniture repeated on every page
+const BOILERPLATE_PATTERN = /^(\*(start|end)\*|page\s+\d+\s+of\s+\d+|date\s+description\s+amount)/i;
+// MM/DD, description, amount and (usually) the running balance
+const TRANSACTION_LINE_PATTERN = /^(\d{2}\/\d{2})\s+(.+?)\s+(-?\$?[\d,]+\.\d{2})(?:\s+(-?\$?[\d,]+\.\d{2}))?$/;
+const MONEY_PATTERN = /\(?-?\$?[\d,]+\.\d{2}\)?/g;
 
 /**
  * Chase bank statement parser
+ * Reads Chase checking and savings statements: the account number from the
+ * page header, the balances and totals from the "Checking Summary", and the
+ * transactions from the "Transaction Detail" section, which can run over
+ * several pages. Credit card statements are read by the shared credit card
+ * mode of the base parser.
  */
 export class ChaseStatementParser extends BankStatementParser {
+  public static readonly bankName = 'Chase';
+  // "CHASE" alone shows up in other banks' transaction descriptions, so it is
+  // only counted in title case and weighted low
+  protected static readonly detectionSignals: DetectionSignal[] = [
+    { pattern: /chase\.com/i, weight: 0.4 },
+    { pattern: /jpmorgan\s+chase\s+bank,?\s+n\.?a\.?/i, weight: 0.4 },
+    { pattern: /\bChase\s+(Total|Premier|Secure|Sapphire|Freedom|College|Slate|Ink)\b/, weight: 0.2 },
+    { pattern: /\bCHECKING\s+SUMMARY\b/, weight: 0.2 },
+    { pattern: /\bChase\b/, weight: 0.2 },
+  ];
+
   public async process(): Promise<ProcessedStatementData> {
     console.log("Processing Chase statement");
-    
-    // Initialize document processor if not already done (use the one passed in constructor if available)
-    if (!this.documentProcessor) {
-      console.log("No DocumentProcessor instance was provided, creating a new one");
-      this.documentProcessor = new DocumentProcessor();
-      const success = await this.documentProcessor.processDocument(this.filePath, this.fileType);
-      
-      if (!success) {
-        console.error("Failed to process document with document processor");
-        // Fall back to base implementation
-        return this.createBaseData('Chase');
-      }
-    } else {
-      console.log("Using existing DocumentProcessor instance");
+
+    if (!await this.ensureDocumentProcessor()) {
+      // Fall back to base implementation
+      return this.createBaseData('Chase');
     }
-    
+
     // Create a base structure
     const baseData = this.createBaseData('Chase');
-    
+
     try {
-      // Find the account summary page
-      const summaryPageNumber = await this.findSummaryPage();
-      if (summaryPageNumber) {
-        console.log(`Found summary content on page ${summaryPageNumber}`);
-        await this.processSummaryPage(summaryPageNumber, baseData);
+      const lines = await this.getAllPageLines();
+
+      this.findStatementPeriod(lines, baseData);
+      if (this.isCreditCardStatement(lines)) {
+        // Chase card statements: "ACCOUNT SUMMARY" and "ACCOUNT ACTIVITY"
+        console.log("Reading Chase credit card statement");
+        this.processCreditCardStatement(lines, baseData);
+      } else {
+        this.processAccountSections(lines, baseData);
       }
-      
-      // Find the transaction page
-      const transactionPageNumber = await this.findTransactionPage();
-      if (transactionPageNumber) {
-        console.log(`Found transaction content on page ${transactionPageNumber}`);
-        await this.processTransactionPage(transactionPageNumber, baseData);
+
+      for (const account of baseData.accounts) {
+        const transactionCount = Object.values(account.allTransactions || {})
+          .reduce((sum, transactions) => sum + transactions.length, 0);
+        console.log(`Account ${account.accountNumberLast4}: ${transactionCount} transactions`);
       }
-      
+
       // Save the extracted data for analysis
       await this.saveExtractedData(baseData);
-      
+
       return baseData;
-      
+
     } catch (error) {
       console.error("Error processing Chase statement:", error);
       return baseData;
     }
   }
-  
-  /**
-   * Find the page containing account summary information
-   */
-  private async findSummaryPage(): Promise<number | null> {
-    if (!this.documentProcessor) return null;
-    
-    // Chase typically has "Account Summary" section
-    return await this.documentProcessor.findFirstPageMatching('account summary');
-  }
-  
+
   /**
-   * Find the page containing transaction information
+   * Walk the statement line by line, tracking which account and section each
+   * line belongs to
    */
-  private async findTransactionPage(): Promise<number | null> {
-    if (!this.documentProcessor) return null;
-    
-    // Chase transaction section headers
-    return await this.documentProcessor.findFirstPageMatching('transactions|account activity');
+  private processAccountSections(lines: PageLine[], data: ProcessedStatementData): void {
+    let account: Account | null = null;
+    let section: ChaseSection = 'none';
+    // Last transaction read, so wrapped descriptions can be joined onto it
+    let lastTransaction: { transaction: Transaction; pageNumber: number } | null = null;
+
+    for (const line of lines) {
+      const text = line.text.trim();
+      if (!text || BOILERPLATE_PATTERN.test(text)) continue;
+
+      // The account number is repeated in every page header; only a new number starts a new account
+      const accountMatch = text.match(ACCOUNT_NUMBER_PATTERN);
+      if (accountMatch) {
+        if (account?.accountNumberLast4 !== accountMatch[1]) {
+          account = this.getOrCreateAccount(data, accountMatch[1], line.pageNumber);
+          section = 'none';
+          lastTransaction = null;
+        }
+        continue;
+      }
+
+      const summaryMatch = text.match(SUMMARY_HEADER_PATTERN);
+      if (summaryMatch) {
+        if (account) account.accountType = summaryMatch[1].toUpperCase();
+        section = 'summary';
+        continue;
+      }
+
+      // Also matches "TRANSACTION DETAIL (continued)" on following pages
+      if (TRANSACTION_DETAIL_PATTERN.test(text)) {
+        section = 'transactions';
+        continue;
+      }
+
+      if (SECTION_END_PATTERN.test(text)) {
+        section = 'none';
+        lastTransaction = null;
+        continue;
+      }
+
+      if (!account) continue;
+
+      if (section === 'summary') {
+        this.applySummaryRow(text, account);
+      } else if (section === 'transactions') {
+        if (/^beginning\s+balance\b/i.test(text)) continue;
+        if (/^ending\s+balance\b/i.test(text)) {
+          section = 'none';
+          lastTransaction = null;
+          continue;
+        }
+
+        const transaction = this.parseTransactionLine(text);
+        if (transaction) {
+          this.addTransaction(account, transaction);
+          lastTransaction = { transaction, pageNumber: line.pageNumber };
+        } else if (lastTransaction && lastTransaction.pageNumber === line.pageNumber && !text.match(MONEY_PATTERN)) {
+          // A description that wrapped onto the next line
+          lastTransaction.transaction.description = `${lastTransaction.transaction.description} ${text}`;
+          lastTransaction.transaction.rawRowText = `${lastTransaction.transaction.rawRowText}\n${text}`;
+        }
+      }
+    }
   }
-  
+
   /**
-   * Process the summary page to extract account information
+   * Store a summary row's amount in the account metadata. Totals are stored
+   * unsigned like the other parsers; balances keep their sign.
    */
-  private async processSummaryPage(pageNumber: number, data: ProcessedStatementData): Promise<void> {
-    if (!this.documentProcessor) return;
-    
-    // Extract data using templates
-    const dateData = await this.documentProcessor.extractUsingTemplate(pageNumber, dateExtractionTemplate);
-    const accountData = await this.documentProcessor.extractUsingTemplate(pageNumber, accountExtractionTemplate);
-    const chaseData = await this.documentProcessor.extractUsingTemplate(pageNumber, chaseTemplate);
-    
-    // Extract dates and other data
-    // Similar to BankOfAmericaStatementParser but with Chase-specific adjustments
-    if (dateData['statement-period'] && dateData['statement-period'].length > 0) {
-      const periodText = dateData['statement-period'][0].text;
-      const match = periodText.match(/statement\s+period:?\s+(\d{1,2}\/\d{1,2}\/\d{2,4})\s*(?:to|-|through)\s*(\d{1,2}\/\d{1,2}\/\d{2,4})/i);
-      
-      if (match) {
-        data.statementPeriodStartDate = match[1];
-        data.statementPeriodEndDate = match[2];
-        console.log(`Found statement period: ${match[1]} to ${match[2]}`);
-      }
+  private applySummaryRow(text: string, account: Account): void {
+    const row = SUMMARY_ROWS.find(summaryRow => summaryRow.pattern.test(text));
+    if (!row) return;
+
+    const amounts = text.match(MONEY_PATTERN);
+    if (!amounts) return;
+
+    const amount = this.parseAmount(amounts[amounts.length - 1]);
+    if (amount === null) return;
+
+    account.metadata = account.metadata || {};
+    if (row.field === 'beginningBalance' || row.field === 'endingBalance') {
+      account.metadata[row.field] = amount;
+    } else {
+      // Electronic and other withdrawals both count towards other subtractions
+      const previous = typeof account.metadata[row.field] === 'number' ? account.metadata[row.field] : 0;
+      account.metadata[row.field] = fromCents(toCents(previous) + Math.abs(toCents(amount)));
     }
   }
-  
+
   /**
-   * Process the transaction page to extract transaction data
+   * Parse a Transaction Detail row: "01/12 Card Purchase 01/11 Starbucks -4.50 1,230.06"
    */
-  private async processTransactionPage(pageNumber: number, data: ProcessedStatementData): Promise<void> {
-    if (!this.documentProcessor) return;
-    
-    // Look for transaction tables
-    const transactionTables = await this.documentProcessor.findTables(pageNumber, {
-      requiredHeaders: ['date', 'description', 'amount']
-    });
-    
-    if (transactionTables.length > 0) {
-      console.log(`Found ${transactionTables.length} potential transaction tables on page ${pageNumber}`);
-      // Extract transaction data
-    }
+  private parseTransactionLine(text: string): Transaction | null {
+    const match = text.match(TRANSACTION_LINE_PATTERN);
+    if (!match) return null;
+
+    const amount = this.parseAmount(match[3]);
+    return {
+      date: match[1],
+      description: match[2].trim(),
+      amount,
+      type: amount !== null && amount < 0 ? 'WITHDRAWAL' : 'DEPOSIT',
+      rawRowText: text,
+    };
   }
-} 
\ No newline at end of file
+}
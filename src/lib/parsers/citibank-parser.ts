@@ -0,0 +1,158 @@
+import { BankStatementParser, ProcessedStatementData, Account, Transaction, DetectionSignal } from './base-parser';
+import { PageLine } from '../document-processor';
+
+const ACCOUNT_NUMBER_PATTERN = /\baccount(?:\s+number)?:?\s*#?\s*[\dx*-]*?(\d{4})\b/i;
+// "CHECKING ACTIVITY", also on continuation pages as "CHECKING ACTIVITY (continued)"
+const ACTIVITY_HEADER_PATTERN = /^(checking|savings)\s+activity\b/i;
+// Activity table header cells; "Amount" is often on a line of its own above the rest
+const ACTIVITY_COLUMNS = {
+  debit: /^(amount\s+)?subtracted$/i,
+  credit: /^(amount\s+)?added$/i,
+  balance: /^balance$/i,
+};
+const OPENING_BALANCE_PATTERN = /\bopening\s+balance\b/i;
+const CLOSING_BALANCE_PATTERN = /\bclosing\s+balance\b/i;
+const TOTALS_PATTERN = /^total\s+(subtracted|added)/i;
+// Sections after the activity table that must not be read as transactions
+const SECTION_END_PATTERN = /^(all\s+transaction\s+times|checks\s+paid|customer\s+service\s+information|in\s+case\s+of\s+errors)/i;
+const BOILERPLATE_PATTERN = /^(page\s+\d+\s+of\s+\d+|date\s+description|amount$)/i;
+const MONEY_PATTERN = /[\d,]+\.\d{2}/;
+
+/**
+ * Citibank bank statement parser
+ * Reads Citibank checking and savings statements. Each account's activity
+ * table starts with an opening balance row and ends with a closing balance
+ * row, with money out and money in as unsigned amounts in separate
+ * "Amount Subtracted" and "Amount Added" columns.
+ */
+export class CitibankStatementParser extends BankStatementParser {
+  public static readonly bankName = 'Citibank';
+  protected static readonly detectionSignals: DetectionSignal[] = [
+    { pattern: /citibank\.com|citi\.com/i, weight: 0.4 },
+    { pattern: /citibank,?\s+n\.?\s?a\.?/i, weight: 0.4 },
+    { pattern: /\bcitibank\b/i, weight: 0.3 },
+    { pattern: /\b(CHECKING|SAVINGS)\s+ACTIVITY\b/, weight: 0.2 },
+    { pattern: /\bCiti\b/, weight: 0.1 },
+  ];
+
+  public async process(): Promise<ProcessedStatementData> {
+    console.log("Processing Citibank statement");
+
+    if (!await this.ensureDocumentProcessor()) {
+      return this.createBaseData('Citibank');
+    }
+
+    const baseData = this.createBaseData('Citibank');
+
+    try {
+      const lines = await this.getAllPageLines();
+
+      this.findStatementPeriod(lines, baseData);
+      this.processAccountSections(lines, baseData);
+
+      // Save the extracted data for analysis
+      await this.saveExtractedData(baseData);
+
+      return baseData;
+
+    } catch (error) {
+      console.error("Error processing Citibank statement:", error);
+      return baseData;
+    }
+  }
+
+  /**
+   * Walk the statement line by line, tracking which account's activity table
+   * each line belongs to
+   */
+  private processAccountSections(lines: PageLine[], data: ProcessedStatementData): void {
+    let account: Account | null = null;
+    let inActivity = false;
+    let columns: Record<string, number> | null = null;
+    // Last transaction read, so wrapped descriptions can be joined onto it
+    let lastTransaction: { transaction: Transaction; pageNumber: number } | null = null;
+
+    for (const line of lines) {
+      const text = line.text.trim();
+      if (!text) continue;
+
+      const headerColumns = this.findColumnCenters(line, ACTIVITY_COLUMNS);
+      if (headerColumns) {
+        columns = headerColumns;
+        continue;
+      }
+      if (BOILERPLATE_PATTERN.test(text)) continue;
+
+      const activityMatch = text.match(ACTIVITY_HEADER_PATTERN);
+      if (activityMatch) {
+        if (account) account.accountType = account.accountType || activityMatch[1].toUpperCase();
+        inActivity = true;
+        lastTransaction = null;
+        continue;
+      }
+
+      const accountMatch = !inActivity ? text.match(ACCOUNT_NUMBER_PATTERN) : null;
+      if (accountMatch) {
+        account = this.getOrCreateAccount(data, accountMatch[1], line.pageNumber);
+        continue;
+      }
+
+      if (!account) continue;
+
+      // The totals row comes after the closing balance
+      if (TOTALS_PATTERN.test(text)) {
+        if (columns) this.applyTotalsRow(line, columns, account);
+        continue;
+      }
+
+      if (!inActivity) continue;
+
+      if (SECTION_END_PATTERN.test(text)) {
+        inActivity = false;
+        lastTransaction = null;
+        continue;
+      }
+
+      account.metadata = account.metadata || {};
+
+      if (OPENING_BALANCE_PATTERN.test(text)) {
+        const balance = this.findLastAmount(text);
+        if (balance !== null) account.metadata.beginningBalance = balance;
+        continue;
+      }
+
+      if (CLOSING_BALANCE_PATTERN.test(text)) {
+        const balance = this.findLastAmount(text);
+        if (balance !== null) account.metadata.endingBalance = balance;
+        inActivity = false;
+        lastTransaction = null;
+        continue;
+      }
+
+      const transaction = columns ? this.parseColumnTransactionLine(line, columns) : null;
+      if (transaction) {
+        this.addTransaction(account, transaction);
+        lastTransaction = { transaction, pageNumber: line.pageNumber };
+      } else if (lastTransaction && lastTransaction.pageNumber === line.pageNumber && !MONEY_PATTERN.test(text)) {
+        // A description that wrapped onto the next line
+        lastTransaction.transaction.description = `${lastTransaction.transaction.description} ${text}`;
+        lastTransaction.transaction.rawRowText = `${lastTransaction.transaction.rawRowText}\n${text}`;
+      }
+    }
+  }
+
+  /**
+   * Store the "Total Subtracted/Added" row of an activity table. Money in is
+   * checked against the deposits; money out is one total across buckets, so it
+   * is kept as `withdrawalsTotal` and only checked through the balance.
+   */
+  private applyTotalsRow(line: PageLine, columns: Record<string, number>, account: Account): void {
+    account.metadata = account.metadata || {};
+
+    for (const cell of this.getAmountCells(line)) {
+      const column = this.nearestColumn(cell.centerX, columns);
+      if (column === 'credit') account.metadata.depositsTotal = Math.abs(cell.amount);
+      if (column === 'debit') account.metadata.withdrawalsTotal = Math.abs(cell.amount);
+    }
+  }
+}
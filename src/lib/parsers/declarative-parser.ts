@@ -0,0 +1,416 @@
+import {
+  BankStatementParser,
+  BankStatementParserClass,
+  OcrResult,
+  ProcessedStatementData,
+  Account,
+  Transaction,
+  TransactionBucketKey,
+} from './base-parser';
+import { DocumentProcessor, PageLine } from '../document-processor';
+import type {
+  DefinitionColumnRole,
+  DefinitionDateFormat,
+  ParserDefinition,
+  ParserDefinitionSection,
+} from '../parser-definitions/schema';
+
+// Date format -> pattern matching at the start of a cell, and which groups hold what
+const DATE_FORMAT_PATTERNS: Record<DefinitionDateFormat, { pattern: RegExp; month: number; day: number; year?: number }> = {
+  'MM/DD': { pattern: /^(\d{1,2})\/(\d{1,2})(?!\/?\d)/, month: 1, day: 2 },
+  'MM/DD/YY': { pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{2})(?!\d)/, month: 1, day: 2, year: 3 },
+  'MM/DD/YYYY': { pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})(?!\d)/, month: 1, day: 2, year: 3 },
+  'DD/MM': { pattern: /^(\d{1,2})\/(\d{1,2})(?!\/?\d)/, month: 2, day: 1 },
+  'DD/MM/YYYY': { pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})(?!\d)/, month: 2, day: 1, year: 3 },
+  'YYYY-MM-DD': { pattern: /^(\d{4})-(\d{2})-(\d{2})(?!\d)/, month: 2, day: 3, year: 1 },
+  'MMM D': { pattern: /^([A-Za-z]{3,9})\.?\s+(\d{1,2})(?![\d,])/, month: 1, day: 2 },
+  'MMM D, YYYY': { pattern: /^([A-Za-z]{3,9})\.?\s+(\d{1,2}),?\s+(\d{4})(?!\d)/, month: 1, day: 2, year: 3 },
+  'MMMM D, YYYY': { pattern: /^([A-Za-z]{3,9})\.?\s+(\d{1,2}),?\s+(\d{4})(?!\d)/, month: 1, day: 2, year: 3 },
+};
+
+// Column roles holding amounts; only these are matched against amount cells
+const MONEY_ROLES: DefinitionColumnRole[] = ['amount', 'debit', 'credit', 'balance'];
+const MONEY_PATTERN = /[\d,]+\.\d{2}/;
+
+// A definition section with its patterns compiled
+interface CompiledSection {
+  section: ParserDefinitionSection;
+  start: RegExp[];
+  end: RegExp[];
+  rowPattern: RegExp | null;
+  aliases: Partial<Record<DefinitionColumnRole, string[]>>;
+}
+
+// A date read from a statement: the month and day, and the year when printed
+interface DefinitionDate {
+  month: number;
+  day: number;
+  year: number | null;
+}
+
+function compile(pattern: string): RegExp {
+  return new RegExp(pattern, 'i');
+}
+
+function normalizeHeader(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Statement parser driven by a declarative parser definition (see
+ * parser-definitions/schema). Use createDeclarativeParser to get a parser
+ * class for a definition that the parser registry can detect and construct.
+ */
+export class DeclarativeStatementParser extends BankStatementParser {
+  private definition: ParserDefinition;
+  private sections: CompiledSection[];
+  private ignorePatterns: RegExp[];
+
+  constructor(
+    definition: ParserDefinition,
+    ocrResult: OcrResult,
+    filePath: string,
+    fileType: string,
+    documentProcessor?: DocumentProcessor
+  ) {
+    super(ocrResult, filePath, fileType, documentProcessor);
+    this.definition = definition;
+    this.ignorePatterns = (this.definition.ignore || []).map(compile);
+    this.sections = definition.sections.map(section => ({
+      section,
+      start: section.start.map(compile),
+      end: (section.end || []).map(compile),
+      rowPattern: section.rowPattern ? compile(section.rowPattern) : null,
+      aliases: Object.fromEntries(
+        Object.entries(section.columns || {}).map(([role, aliases]) => [
+          role,
+          (Array.isArray(aliases) ? aliases : [aliases]).map(normalizeHeader),
+        ])
+      ),
+    }));
+  }
+
+  public async process(): Promise<ProcessedStatementData> {
+    const bankName = this.definition.bankName;
+    console.log(`Processing ${bankName} statement with its parser definition`);
+
+    if (!await this.ensureDocumentProcessor()) {
+      return this.createBaseData(bankName);
+    }
+
+    const baseData = this.createBaseData(bankName);
+
+    try {
+      const lines = (await this.getAllPageLines())
+        .filter(line => !this.ignorePatterns.some(pattern => pattern.test(line.text.trim())));
+
+      if (!this.findDefinedPeriod(lines, baseData)) {
+        this.findStatementPeriod(lines, baseData);
+      }
+      this.processLines(lines, baseData);
+
+      for (const account of baseData.accounts) {
+        const transactionCount = Object.values(account.allTransactions || {})
+          .reduce((sum, transactions) => sum + transactions.length, 0);
+        console.log(`Account ${account.accountNumberLast4}: ${transactionCount} transactions`);
+      }
+
+      // Save the extracted data for analysis
+      await this.saveExtractedData(baseData);
+
+      return baseData;
+
+    } catch (error) {
+      console.error(`Error processing ${bankName} statement:`, error);
+      return baseData;
+    }
+  }
+
+  /**
+   * Statement period from the definition's period pattern
+   */
+  private findDefinedPeriod(lines: PageLine[], data: ProcessedStatementData): boolean {
+    const period = this.definition.statementPeriod;
+    if (!period) return false;
+
+    const pattern = compile(period.pattern);
+    for (const line of lines) {
+      const match = line.text.match(pattern);
+      if (!match) continue;
+
+      const start = this.parseDate(match[1] || '', period.dateFormat);
+      const end = this.parseDate(match[2] || '', period.dateFormat);
+      if (!start || !end || end.year === null) continue;
+
+      // A period starting in December ends in the next year
+      const startYear = start.year ?? (start.month > end.month ? end.year - 1 : end.year);
+      data.statementPeriodStartDate = this.formatDate({ ...start, year: startYear });
+      data.statementPeriodEndDate = this.formatDate(end);
+      console.log(`Found statement period: ${data.statementPeriodStartDate} to ${data.statementPeriodEndDate}`);
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Walk the statement line by line: account numbers switch the current
+   * account, section anchors open and close transaction tables, and lines
+   * outside tables are checked against the summary labels
+   */
+  private processLines(lines: PageLine[], data: ProcessedStatementData): void {
+    const accountPattern = compile(this.definition.accountNumber.pattern);
+    const accountTypes = (this.definition.accountType || []).map(rule => ({ pattern: compile(rule.pattern), type: rule.type }));
+    const summaryRows = this.definition.summary.map(row => ({ ...row, pattern: compile(row.label) }));
+
+    let account: Account | null = null;
+    let pendingAccountType: string | null = null;
+    let current: CompiledSection | null = null;
+    let sectionPage = 0;
+    let centers: Partial<Record<DefinitionColumnRole, number>> | null = null;
+    // Last transaction read, so wrapped descriptions can be joined onto it
+    let lastTransaction: { transaction: Transaction; pageNumber: number } | null = null;
+
+    for (const line of lines) {
+      const text = line.text.trim();
+      if (!text) continue;
+
+      const accountMatch = text.match(accountPattern);
+      if (accountMatch?.[1] && account?.accountNumberLast4 !== accountMatch[1].slice(-4)) {
+        account = this.getOrCreateAccount(data, accountMatch[1].slice(-4), line.pageNumber);
+        account.accountType = account.accountType || pendingAccountType;
+        current = null;
+        lastTransaction = null;
+      }
+
+      const typeRule = accountTypes.find(rule => rule.pattern.test(text));
+      if (typeRule) {
+        pendingAccountType = typeRule.type;
+        if (account && !account.accountType) account.accountType = typeRule.type;
+      }
+
+      if (!account) continue;
+
+      const started = this.sections.find(compiled => compiled.start.some(pattern => pattern.test(text)));
+      if (started) {
+        current = started;
+        sectionPage = line.pageNumber;
+        centers = null;
+        lastTransaction = null;
+        continue;
+      }
+
+      // Page-span rule: a section that doesn't span pages ends at the page break
+      if (current && !current.section.spansPages && line.pageNumber !== sectionPage) {
+        current = null;
+      }
+      if (current && current.end.some(pattern => pattern.test(text))) {
+        current = null;
+        lastTransaction = null;
+      }
+
+      if (current) {
+        const headerCenters = this.findHeader(line, current);
+        if (headerCenters) {
+          centers = headerCenters;
+          continue;
+        }
+
+        const transaction = this.readRow(line, current, centers);
+        if (transaction) {
+          this.addTransaction(account, transaction.transaction, transaction.bucket);
+          lastTransaction = { transaction: transaction.transaction, pageNumber: line.pageNumber };
+        } else if (
+          current.section.multilineDescriptions
+          && lastTransaction
+          && lastTransaction.pageNumber === line.pageNumber
+          && !MONEY_PATTERN.test(text)
+        ) {
+          // A description that wrapped onto the next line
+          lastTransaction.transaction.description = `${lastTransaction.transaction.description} ${text}`;
+          lastTransaction.transaction.rawRowText = `${lastTransaction.transaction.rawRowText}\n${text}`;
+        } else {
+          lastTransaction = null;
+        }
+        continue;
+      }
+
+      for (const row of summaryRows) {
+        if (!row.pattern.test(text)) continue;
+
+        const amount = this.findLastAmount(text);
+        account.metadata = account.metadata || {};
+        if (amount === null || account.metadata[row.field] !== undefined) continue;
+
+        const signed = row.signed ?? /balance/i.test(row.field);
+        account.metadata[row.field] = signed ? amount : Math.abs(amount);
+      }
+    }
+  }
+
+  /**
+   * Match a line against the section's header aliases. Returns the column
+   * centers when the line has a date column (if one is defined) and at least
+   * one amount column.
+   */
+  private findHeader(line: PageLine, compiled: CompiledSection): Partial<Record<DefinitionColumnRole, number>> | null {
+    const roles = Object.keys(compiled.aliases) as DefinitionColumnRole[];
+    if (roles.length === 0) return null;
+
+    const centers: Partial<Record<DefinitionColumnRole, number>> = {};
+    for (const role of roles) {
+      const index = line.cells.findIndex(cell =>
+        compiled.aliases[role]?.some(alias => normalizeHeader(cell).startsWith(alias))
+      );
+      if (index === -1) continue;
+
+      const { x1, x2 } = line.blocks[index].boundingBox;
+      centers[role] = (x1 + x2) / 2;
+    }
+
+    if (compiled.aliases.date && centers.date === undefined) return null;
+    if (!MONEY_ROLES.some(role => role !== 'balance' && centers[role] !== undefined)) return null;
+    return centers;
+  }
+
+  /**
+   * Read a table row with the section's row pattern or columns
+   */
+  private readRow(
+    line: PageLine,
+    compiled: CompiledSection,
+    centers: Partial<Record<DefinitionColumnRole, number>> | null
+  ): { transaction: Transaction; bucket: TransactionBucketKey } | null {
+    const format = compiled.section.dateFormat || this.definition.dateFormat;
+    let date: DefinitionDate | null = null;
+    let description = '';
+    let printedAmount: number | null = null;
+    let fromColumn: DefinitionColumnRole | null = null;
+    let checkNumber: string | null = null;
+
+    if (compiled.rowPattern) {
+      const groups = line.text.trim().match(compiled.rowPattern)?.groups;
+      if (!groups?.date || !groups.amount) return null;
+
+      date = this.parseDate(groups.date, format);
+      description = (groups.description || '').trim();
+      printedAmount = this.parseAmount(groups.amount);
+      fromColumn = 'amount';
+    } else if (centers) {
+      const dateMatch = line.cells[0]?.match(DATE_FORMAT_PATTERNS[format].pattern);
+      if (!dateMatch) return null;
+      date = this.parseDate(dateMatch[0], format);
+
+      const moneyCenters = Object.fromEntries(
+        MONEY_ROLES.filter(role => centers[role] !== undefined).map(role => [role, centers[role] as number])
+      );
+      const amountCells = this.getAmountCells(line);
+      for (const cell of amountCells) {
+        const role = this.nearestColumn(cell.centerX, moneyCenters) as DefinitionColumnRole;
+        if (role === 'balance') continue;
+        printedAmount = cell.amount;
+        fromColumn = role;
+      }
+
+      const amountIndexes = new Set(amountCells.map(cell => cell.index));
+      const parts = [line.cells[0].slice(dateMatch[0].length).trim()];
+      line.cells.slice(1).forEach((cell, i) => {
+        if (amountIndexes.has(i + 1)) return;
+        const { x1, x2 } = line.blocks[i + 1].boundingBox;
+        const center = (x1 + x2) / 2;
+        // A number under the check number header
+        if (
+          centers.checkNumber !== undefined
+          && /^\d{1,8}$/.test(cell)
+          && Math.abs(center - centers.checkNumber) < Math.abs(center - (centers.description ?? Infinity))
+        ) {
+          checkNumber = cell;
+          return;
+        }
+        parts.push(cell);
+      });
+      description = parts.filter(Boolean).join(' ');
+    }
+
+    if (!date || printedAmount === null || !fromColumn) return null;
+
+    const amount = this.applySignRule(printedAmount, fromColumn, compiled.section.sign);
+    if (checkNumber) description = `Check ${checkNumber} ${description}`.trim();
+
+    const transaction: Transaction = {
+      date: this.formatDate(date),
+      description,
+      amount,
+      type: amount < 0 ? 'WITHDRAWAL' : 'DEPOSIT',
+      rawRowText: line.text,
+    };
+    const bucket = compiled.section.bucket === 'auto'
+      ? this.classifyTransaction(transaction)
+      : compiled.section.bucket;
+
+    return { transaction, bucket };
+  }
+
+  /**
+   * Sign an amount by the section's sign rule
+   */
+  private applySignRule(printed: number, column: DefinitionColumnRole, rule: ParserDefinitionSection['sign']): number {
+    switch (rule) {
+      case 'positive':
+        return Math.abs(printed);
+      case 'negative':
+        return -Math.abs(printed);
+      case 'inverted':
+        return -printed;
+      case 'columns':
+        if (column === 'debit') return -Math.abs(printed);
+        if (column === 'credit') return Math.abs(printed);
+        return printed;
+      default:
+        return printed;
+    }
+  }
+
+  /**
+   * Read a date in one of the definition date formats
+   */
+  private parseDate(text: string, format: DefinitionDateFormat): DefinitionDate | null {
+    const { pattern, month, day, year } = DATE_FORMAT_PATTERNS[format];
+    const match = text.trim().match(pattern);
+    if (!match) return null;
+
+    const monthValue = /^\d+$/.test(match[month]) ? parseInt(match[month], 10) : this.parseMonth(match[month]);
+    const dayValue = parseInt(match[day], 10);
+    if (!monthValue || monthValue > 12 || !dayValue || dayValue > 31) return null;
+
+    let yearValue = year ? parseInt(match[year], 10) : null;
+    if (yearValue !== null && yearValue < 100) yearValue += 2000;
+
+    return { month: monthValue, day: dayValue, year: yearValue };
+  }
+
+  /**
+   * MM/DD or MM/DD/YYYY, the formats transaction persistence reads
+   */
+  private formatDate(date: DefinitionDate): string {
+    const monthDay = `${String(date.month).padStart(2, '0')}/${String(date.day).padStart(2, '0')}`;
+    return date.year !== null ? `${monthDay}/${date.year}` : monthDay;
+  }
+}
+
+/**
+ * Build a parser class for a definition, with the definition's bank name and
+ * detection signals
+ */
+export function createDeclarativeParser(definition: ParserDefinition): BankStatementParserClass {
+  const signals = definition.detection.signals.map(signal => ({ pattern: new RegExp(signal.pattern, 'i'), weight: signal.weight }));
+
+  return class extends DeclarativeStatementParser {
+    public static readonly bankName = definition.bankName;
+    protected static readonly detectionSignals = signals;
+
+    constructor(ocrResult: OcrResult, filePath: string, fileType: string, documentProcessor?: DocumentProcessor) {
+      super(definition, ocrResult, filePath, fileType, documentProcessor);
+    }
+  };
+}
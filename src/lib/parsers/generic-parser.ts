@@ -1,33 +1,329 @@
-import { BankStatementParser, ProcessedStatementData } from './base-parser';
-import { DocumentProcessor } from '../document-processor';
+import { BankStatementParser, ProcessedStatementData, Account, Transaction, OcrResult } from './base-parser';
+import { DocumentProcessor, PageLine } from '../document-processor';
+import { accountExtractionTemplate, dateExtractionTemplate } from '../extraction-templates';
+import { toCents } from '../money';
+
+// What a transaction table column holds, judged from its header
+type GenericColumn = 'debit' | 'credit' | 'amount' | 'balance';
+
+// Header cell -> column kind, checked in order ("Debit Amount" is a debit column)
+const COLUMN_HEADERS: Array<{ pattern: RegExp; column: GenericColumn }> = [
+  { pattern: /\b(debits?|withdrawals?|subtractions?|subtracted|charges|paid\s+out|money\s+out)\b/i, column: 'debit' },
+  { pattern: /\b(credits?|deposits?|additions?|added|paid\s+in|money\s+in)\b/i, column: 'credit' },
+  { pattern: /\bbalance\b/i, column: 'balance' },
+  { pattern: /\bamount\b/i, column: 'amount' },
+];
+// Section titles that say which way the money in the rows below them goes
+const DEBIT_SECTION_PATTERN = /\b(withdrawals?|debits?|subtractions|checks\s+paid|fees|purchases|payments\s+made|card\s+transactions)\b/i;
+const CREDIT_SECTION_PATTERN = /\b(deposits?|credits|additions|payments\s+received|interest\s+paid)\b/i;
+// 01/05, 1/5/2024 or Jan 5
+const ROW_DATE_PATTERN = /^(\d{1,2}\/\d{1,2}(?:\/\d{2,4})?|(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec)[a-z]*\.?\s+\d{1,2})\b\s*(.*)$/i;
+const BALANCE_ROW_PATTERN = /\b(beginning|opening|previous|starting|ending|closing|new)\s+balance\b/i;
+const ACCOUNT_NUMBER_PATTERN = /\b(?:account|acct|card)\b[^\d]{0,20}?(?:number|no\.?|#|ending\s+in)?:?\s*[\dx*\s-]*(\d{4})\b/i;
+const MONEY_PATTERN = /[\d,]+\.\d{2}/;
+
+// State of the transaction table being read
+interface TableState {
+  columns: Record<string, GenericColumn> | null; // Column name -> kind, keyed like the centers
+  centers: Record<string, number> | null;
+  sectionSign: 1 | -1 | 0; // From the last section title, 0 when unknown
+  runningBalance: number | null;
+  lastTransaction: { transaction: Transaction; pageNumber: number; descriptionX: number } | null;
+}
 
 /**
  * Default generic bank statement parser
- * Used for banks that don't have a specific parser implemented
+ * Used for banks that don't have a specific parser implemented. Reads the
+ * period, account and balances with the common extraction templates, and
+ * takes transactions from any table whose rows look like a date, a
+ * description and an amount. The sign of each amount comes from its column
+ * header ("Debits"/"Credits"), the section title above the table, or the
+ * running balance. The result is flagged for review since none of this is
+ * specific to the bank's layout.
  */
 export class GenericBankStatementParser extends BankStatementParser {
   private bankName: string;
-  
+
   constructor(
-    ocrResult: any, 
-    filePath: string, 
-    fileType: string, 
+    ocrResult: OcrResult,
+    filePath: string,
+    fileType: string,
     bankName: string,
     documentProcessor?: DocumentProcessor
   ) {
     super(ocrResult, filePath, fileType, documentProcessor);
     this.bankName = bankName;
   }
-  
+
   public async process(): Promise<ProcessedStatementData> {
     console.log(`Processing generic statement for: ${this.bankName}`);
-    
-    // For generic parser, we'll just use the basic data extraction
+
     const baseData = this.createBaseData(this.bankName);
-    
-    // Save the extracted data for analysis
-    await this.saveExtractedData(baseData);
-    
-    return baseData;
+
+    if (!await this.ensureDocumentProcessor()) {
+      return baseData;
+    }
+
+    try {
+      const lines = await this.getAllPageLines();
+
+      if (!await this.findPeriodFromTemplate(baseData)) {
+        this.findStatementPeriod(lines, baseData);
+      }
+
+      const account = await this.findAccount(lines, baseData);
+      await this.findBalances(lines, account);
+      this.processTransactionTables(lines, account);
+
+      const transactionCount = Object.values(account.allTransactions || {})
+        .reduce((sum, transactions) => sum + transactions.length, 0);
+      console.log(`Generic parser found ${transactionCount} transactions for account ${account.accountNumberLast4 || '(unknown)'}`);
+
+      baseData.reviewReasons = [
+        ...(baseData.reviewReasons || []),
+        transactionCount > 0
+          ? `Read with the generic parser: ${transactionCount} transactions were found heuristically and may be incomplete or have the wrong sign`
+          : "Read with the generic parser: no transaction table was found",
+      ];
+
+      // Save the extracted data for analysis
+      await this.saveExtractedData(baseData);
+
+      return baseData;
+
+    } catch (error) {
+      console.error(`Error processing generic statement for ${this.bankName}:`, error);
+      return baseData;
+    }
+  }
+
+  /**
+   * Statement period from the date template's "March 12, 2024 to April 10, 2024" pattern
+   */
+  private async findPeriodFromTemplate(data: ProcessedStatementData): Promise<boolean> {
+    if (!this.documentProcessor) return false;
+
+    for (let pageNumber = 1; pageNumber <= Math.min(2, this.documentProcessor.getPageCount()); pageNumber++) {
+      const extracted = await this.documentProcessor.extractUsingTemplate(pageNumber, dateExtractionTemplate);
+      const period: string | undefined = extracted?.['statement-period']?.[0]?.value;
+      if (!period) continue;
+
+      const [start, end] = period.split(/\s*(?:to|-|through)\s*/i);
+      if (start && end) {
+        data.statementPeriodStartDate = start;
+        data.statementPeriodEndDate = end;
+        console.log(`Found statement period: ${start} to ${end}`);
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Create the statement's account from the account number and type found on
+   * the first page. The template's last-4 pattern matches any block ending in
+   * four digits, so only blocks that mention an account are trusted.
+   */
+  private async findAccount(lines: PageLine[], data: ProcessedStatementData): Promise<Account> {
+    const extracted = this.documentProcessor ? await this.documentProcessor.extractUsingTemplate(1, accountExtractionTemplate) : null;
+
+    const templateLast4: string | undefined = (extracted?.['account-last4'] || [])
+      .find((match: { value: string; text: string }) => /\b(account|acct|card)\b/i.test(match.text))?.value;
+    const lineLast4 = lines.map(line => line.text.match(ACCOUNT_NUMBER_PATTERN)?.[1]).find(Boolean);
+    const last4 = templateLast4 || lineLast4 || '';
+    if (!last4) console.warn("No account number found");
+
+    const account = this.getOrCreateAccount(data, last4, lines[0]?.pageNumber || 1);
+
+    const accountType: string | undefined = extracted?.['account-type']?.[0]?.value;
+    const typeMatch = accountType?.match(/checking|savings|credit/i);
+    if (typeMatch) account.accountType = typeMatch[0].toUpperCase();
+
+    return account;
+  }
+
+  /**
+   * Beginning and ending balances, from the account template when label and
+   * amount share a block, otherwise from the line the label is on
+   */
+  private async findBalances(lines: PageLine[], account: Account): Promise<void> {
+    account.metadata = account.metadata || {};
+
+    const extracted = this.documentProcessor ? await this.documentProcessor.extractUsingTemplate(1, accountExtractionTemplate) : null;
+    const beginning = this.parseAmount(extracted?.['beginning-balance']?.[0]?.value || '');
+    const ending = this.parseAmount(extracted?.['ending-balance']?.[0]?.value || '');
+    if (beginning !== null) account.metadata.beginningBalance = beginning;
+    if (ending !== null) account.metadata.endingBalance = ending;
+
+    for (const line of lines) {
+      const text = line.text.trim();
+      const amount = this.findLastAmount(text);
+      if (amount === null) continue;
+
+      if (account.metadata.beginningBalance === undefined && /\b(beginning|opening|previous|starting)\s+balance\b/i.test(text)) {
+        account.metadata.beginningBalance = amount;
+      } else if (account.metadata.endingBalance === undefined && /\b(ending|closing|new)\s+balance\b/i.test(text)) {
+        account.metadata.endingBalance = amount;
+      }
+    }
+  }
+
+  /**
+   * Walk the lines looking for table headers and date + description + amount
+   * rows below them
+   */
+  private processTransactionTables(lines: PageLine[], account: Account): void {
+    const state: TableState = {
+      columns: null,
+      centers: null,
+      sectionSign: 0,
+      runningBalance: account.metadata?.beginningBalance ?? null,
+      lastTransaction: null,
+    };
+
+    for (const line of lines) {
+      const text = line.text.trim();
+      if (!text) continue;
+
+      if (this.readHeader(line, state)) continue;
+
+      const dateMatch = line.cells[0]?.match(ROW_DATE_PATTERN);
+      if (!dateMatch) {
+        // Section titles and wrapped descriptions have no date
+        if (!MONEY_PATTERN.test(text)) {
+          const previous = this.getWrappedTransaction(line, state);
+          if (previous) {
+            previous.description = `${previous.description} ${text}`;
+            previous.rawRowText = `${previous.rawRowText}\n${text}`;
+            continue;
+          }
+          if (line.cells.length <= 2) {
+            if (DEBIT_SECTION_PATTERN.test(text)) state.sectionSign = -1;
+            else if (CREDIT_SECTION_PATTERN.test(text)) state.sectionSign = 1;
+          }
+        }
+        state.lastTransaction = null;
+        continue;
+      }
+
+      const transaction = this.readRow(line, dateMatch, state);
+      if (!transaction) {
+        state.lastTransaction = null;
+        continue;
+      }
+
+      this.addTransaction(account, transaction);
+      const descriptionBlock = line.blocks[dateMatch[2] ? 0 : 1];
+      state.lastTransaction = {
+        transaction,
+        pageNumber: line.pageNumber,
+        descriptionX: descriptionBlock?.boundingBox.x1 ?? 0,
+      };
+    }
+  }
+
+  /**
+   * Recognize a table header: a date column and at least one money column.
+   * Returns true when the line was a header.
+   */
+  private readHeader(line: PageLine, state: TableState): boolean {
+    if (!line.cells.some(cell => /^(trans(action)?\.?\s+)?date\b|^posted\b/i.test(cell))) return false;
+
+    const columns: Record<string, GenericColumn> = {};
+    const centers: Record<string, number> = {};
+    line.cells.forEach((cell, index) => {
+      const header = COLUMN_HEADERS.find(({ pattern }) => pattern.test(cell));
+      if (!header) return;
+
+      const name = `${header.column}-${index}`;
+      const { x1, x2 } = line.blocks[index].boundingBox;
+      columns[name] = header.column;
+      centers[name] = (x1 + x2) / 2;
+    });
+
+    if (!Object.values(columns).some(column => column !== 'balance')) return false;
+
+    state.columns = columns;
+    state.centers = centers;
+    state.lastTransaction = null;
+    console.log(`Found transaction table header: ${line.cells.join(' | ')}`);
+    return true;
+  }
+
+  /**
+   * Read a dated row as a transaction, or null for balance rows and rows
+   * without an amount
+   */
+  private readRow(line: PageLine, dateMatch: RegExpMatchArray, state: TableState): Transaction | null {
+    const amountCells = this.getAmountCells(line);
+    if (amountCells.length === 0) return null;
+
+    const amountIndexes = new Set(amountCells.map(cell => cell.index));
+    const description = [dateMatch[2], ...line.cells.slice(1).filter((_, i) => !amountIndexes.has(i + 1))]
+      .filter(Boolean)
+      .join(' ')
+      .trim();
+
+    let amount: number | null = null;
+    let balance: number | null = null;
+
+    if (state.columns && state.centers) {
+      for (const cell of amountCells) {
+        const column = state.columns[this.nearestColumn(cell.centerX, state.centers)];
+        if (column === 'debit') amount = -Math.abs(cell.amount);
+        else if (column === 'credit') amount = Math.abs(cell.amount);
+        else if (column === 'amount') amount = cell.amount;
+        else balance = cell.amount;
+      }
+    } else {
+      // No header: the last of two amounts is the running balance
+      amount = amountCells[0].amount;
+      if (amountCells.length > 1) balance = amountCells[amountCells.length - 1].amount;
+    }
+
+    if (BALANCE_ROW_PATTERN.test(description)) {
+      state.runningBalance = balance ?? amount;
+      return null;
+    }
+    if (amount === null) return null;
+
+    amount = this.inferSign(amount, balance, state);
+    if (balance !== null) state.runningBalance = balance;
+
+    return {
+      date: dateMatch[1],
+      description,
+      amount,
+      type: amount < 0 ? 'WITHDRAWAL' : 'DEPOSIT',
+      rawRowText: line.text,
+    };
+  }
+
+  /**
+   * Sign an unsigned amount from a single amount column: the running balance
+   * decides when it moved by exactly the amount, otherwise the section title
+   */
+  private inferSign(amount: number, balance: number | null, state: TableState): number {
+    if (amount < 0) return amount;
+
+    if (balance !== null && state.runningBalance !== null) {
+      const change = toCents(balance) - toCents(state.runningBalance);
+      const cents = toCents(amount);
+      if (change === -cents) return -amount;
+      if (change === cents) return amount;
+    }
+
+    return state.sectionSign === -1 ? -amount : amount;
+  }
+
+  /**
+   * The transaction an undated line continues the description of: same page,
+   * no amounts, starting where the description column starts
+   */
+  private getWrappedTransaction(line: PageLine, state: TableState): Transaction | null {
+    const last = state.lastTransaction;
+    if (!last || last.pageNumber !== line.pageNumber || line.cells.length !== 1) return null;
+    return Math.abs(line.blocks[0].boundingBox.x1 - last.descriptionX) < 0.02 ? last.transaction : null;
   }
-} 
\ No newline at end of file
+}
@@ -4,4 +4,11 @@ export * from './base-parser';
 // Export specific bank parsers
 export { BankOfAmericaStatementParser } from './bank-of-america-parser';
 export { ChaseStatementParser } from './chase-parser';
-export { GenericBankStatementParser } from './generic-parser'; 
\ No newline at end of file
+export { WellsFargoStatementParser } from './wells-fargo-parser';
+export { CitibankStatementParser } from './citibank-parser';
+export { CapitalOneStatementParser } from './capital-one-parser';
+export { GenericBankStatementParser } from './generic-parser'; 
+export { DeclarativeStatementParser, createDeclarativeParser } from './declarative-parser';
+
+// Export the parser registry
+export * from './parser-registry';
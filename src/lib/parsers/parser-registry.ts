@@ -0,0 +1,117 @@
+import type { ProcessedPage } from '../document-processor';
+import type { BankStatementParserClass } from './base-parser';
+import { BankOfAmericaStatementParser } from './bank-of-america-parser';
+import { ChaseStatementParser } from './chase-parser';
+import { WellsFargoStatementParser } from './wells-fargo-parser';
+import { CitibankStatementParser } from './citibank-parser';
+import { CapitalOneStatementParser } from './capital-one-parser';
+
+/**
+ * Bank parser registry
+ *
+ * Picks the parser for a statement by asking every registered parser how
+ * confident it is that the first pages belong to its bank. The highest score
+ * wins. Low scores fall back to the generic parser, and both low scores and
+ * near-ties send the statement to review.
+ */
+
+// Number of pages at the start of a statement that detection looks at
+export const DETECTION_PAGE_COUNT = 2;
+// Scores below this aren't trusted to identify the bank
+export const MIN_DETECTION_SCORE = 0.4;
+// Scores this close together or closer count as a tie
+export const DETECTION_TIE_MARGIN = 0.1;
+
+const registeredParsers: BankStatementParserClass[] = [
+  BankOfAmericaStatementParser,
+  ChaseStatementParser,
+  WellsFargoStatementParser,
+  CitibankStatementParser,
+  CapitalOneStatementParser,
+];
+
+export interface ParserCandidate {
+  bankName: string;
+  score: number;
+}
+
+export interface ParserDetection {
+  parser: BankStatementParserClass | null; // null: use the generic parser
+  bankName: string;
+  score: number;
+  candidates: ParserCandidate[]; // every registered parser, best first
+  reviewReason: string | null;
+}
+
+/**
+ * Register a parser so statements can be detected as its bank's.
+ * Registering the same class twice has no effect.
+ */
+export function registerStatementParser(parser: BankStatementParserClass): void {
+  if (!registeredParsers.includes(parser)) {
+    registeredParsers.push(parser);
+  }
+}
+
+/**
+ * All registered parsers, in registration order
+ */
+export function getRegisteredParsers(): BankStatementParserClass[] {
+  return [...registeredParsers];
+}
+
+function formatScore(score: number): string {
+  return `${Math.round(score * 100)}%`;
+}
+
+/**
+ * Score every registered parser against the first pages of a statement and
+ * pick the best one. A parser's score is its best score on any of the pages.
+ */
+export function detectStatementParser(pages: ProcessedPage[]): ParserDetection {
+  const pagesToCheck = pages.slice(0, DETECTION_PAGE_COUNT);
+
+  const scored = registeredParsers
+    .map(parser => ({
+      parser,
+      score: Math.max(0, ...pagesToCheck.map(page => parser.detect(page))),
+    }))
+    // Stable sort: on equal scores the parser registered first stays ahead
+    .sort((a, b) => b.score - a.score);
+
+  const candidates = scored.map(({ parser, score }) => ({ bankName: parser.bankName, score }));
+  console.log(`Parser detection scores: ${candidates.map(c => `${c.bankName} ${formatScore(c.score)}`).join(', ') || 'no parsers registered'}`);
+
+  const [best, runnerUp] = scored;
+
+  if (!best || best.score < MIN_DETECTION_SCORE) {
+    if (best && best.score > 0) {
+      console.warn(`Best parser match ${best.parser.bankName} (${formatScore(best.score)}) is below the detection threshold, using the generic parser`);
+    }
+    return {
+      parser: null,
+      bankName: 'Unknown',
+      score: best?.score || 0,
+      candidates,
+      reviewReason: best && best.score > 0
+        ? `Bank detection was inconclusive: best match was ${best.parser.bankName} at ${formatScore(best.score)}`
+        : null,
+    };
+  }
+
+  let reviewReason: string | null = null;
+  // Compared in whole percent so float noise doesn't decide a tie
+  if (runnerUp && Math.round((best.score - runnerUp.score) * 100) <= DETECTION_TIE_MARGIN * 100) {
+    console.warn(`Parser detection tie between ${best.parser.bankName} (${formatScore(best.score)}) and ${runnerUp.parser.bankName} (${formatScore(runnerUp.score)}), using ${best.parser.bankName}`);
+    reviewReason = `Bank detection was ambiguous: ${best.parser.bankName} (${formatScore(best.score)}) and ${runnerUp.parser.bankName} (${formatScore(runnerUp.score)}) both matched, read as ${best.parser.bankName}`;
+  }
+
+  console.log(`Detected bank: ${best.parser.bankName}`);
+  return {
+    parser: best.parser,
+    bankName: best.parser.bankName,
+    score: best.score,
+    candidates,
+    reviewReason,
+  };
+}
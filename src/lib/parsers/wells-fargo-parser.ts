@@ -0,0 +1,219 @@
+import { BankStatementParser, ProcessedStatementData, Account, Transaction, DetectionSignal } from './base-parser';
+import { PageLine } from '../document-processor';
+
+// Part of an account section the parser is currently reading
+type WellsFargoSection = 'none' | 'summary' | 'transactions';
+
+const ACCOUNT_NUMBER_PATTERN = /account\s+number:?\s*[\dx*-]*?(\d{4})\b/i;
+// Product title such as "Everyday Checking" or "Way2Save Savings"
+const ACCOUNT_TITLE_PATTERN = /^[\w®\s]{0,30}\b(checking|savings)$/i;
+const ACTIVITY_SUMMARY_PATTERN = /activity\s+summary\b/i;
+const TRANSACTION_HISTORY_PATTERN = /^transaction\s+history\b/i;
+const BEGINNING_BALANCE_PATTERN = /^beginning\s+balance\s+on\s+(\d{1,2}\/\d{1,2})/i;
+const ENDING_BALANCE_PATTERN = /^ending\s+balance\s+on\s+(\d{1,2}\/\d{1,2})/i;
+// Statement date printed in the page header, e.g. "January 31, 2024"
+const STATEMENT_DATE_PATTERN = /\b(January|February|March|April|May|June|July|August|September|October|November|December)\s+\d{1,2},\s+(\d{4})\b/;
+// Transaction history header cells; the headers wrap, so only their first word is matched
+const TRANSACTION_COLUMNS = {
+  credit: /^deposits\b/i,
+  debit: /^withdrawals\b/i,
+  balance: /^ending\s+daily\b/i,
+};
+// Lines that close the transaction history
+const SECTION_END_PATTERN = /^(totals\b|the\s+ending\s+daily\s+balance|monthly\s+service\s+fee\s+summary|account\s+transaction\s+fees\s+summary)/i;
+const BOILERPLATE_PATTERN = /^(page\s+\d+\s+of\s+\d+|date\s+(check\s+)?(number\s+)?description|additions\s+subtractions)/i;
+const MONEY_PATTERN = /[\d,]+\.\d{2}/;
+
+/**
+ * Wells Fargo bank statement parser
+ * Reads Wells Fargo checking and savings statements: balances and totals
+ * from the "Activity summary" and transactions from the "Transaction
+ * history" table, whose deposits and withdrawals are unsigned amounts in
+ * separate columns.
+ */
+export class WellsFargoStatementParser extends BankStatementParser {
+  public static readonly bankName = 'Wells Fargo';
+  protected static readonly detectionSignals: DetectionSignal[] = [
+    { pattern: /wellsfargo\.com/i, weight: 0.4 },
+    { pattern: /wells\s+fargo\s+bank,?\s+n\.?a\.?/i, weight: 0.4 },
+    { pattern: /wells\s+fargo/i, weight: 0.3 },
+    { pattern: /\b(everyday|prime|premier|clear\s+access\s+banking)\s+checking\b|\bway2save\b/i, weight: 0.2 },
+  ];
+
+  public async process(): Promise<ProcessedStatementData> {
+    console.log("Processing Wells Fargo statement");
+
+    if (!await this.ensureDocumentProcessor()) {
+      return this.createBaseData('Wells Fargo');
+    }
+
+    const baseData = this.createBaseData('Wells Fargo');
+
+    try {
+      const lines = await this.getAllPageLines();
+      const summaryDates = this.processAccountSections(lines, baseData);
+
+      // The period is printed as "Beginning balance on 1/1" / "Ending balance on 1/31";
+      // the year comes from the statement date in the header
+      if (!this.setStatementPeriodFromBalances(lines, summaryDates, baseData)) {
+        this.findStatementPeriod(lines, baseData);
+      }
+
+      // Save the extracted data for analysis
+      await this.saveExtractedData(baseData);
+
+      return baseData;
+
+    } catch (error) {
+      console.error("Error processing Wells Fargo statement:", error);
+      return baseData;
+    }
+  }
+
+  /**
+   * Walk the statement line by line, tracking which account and section each
+   * line belongs to. Returns the M/D dates of the first beginning and ending
+   * balances in the activity summary.
+   */
+  private processAccountSections(
+    lines: PageLine[],
+    data: ProcessedStatementData
+  ): { start: string | null; end: string | null } {
+    const summaryDates: { start: string | null; end: string | null } = { start: null, end: null };
+    let account: Account | null = null;
+    let accountType: string | null = null;
+    let section: WellsFargoSection = 'none';
+    let columns: Record<string, number> | null = null;
+    // Last transaction read, so wrapped descriptions can be joined onto it
+    let lastTransaction: { transaction: Transaction; pageNumber: number } | null = null;
+
+    for (const line of lines) {
+      const text = line.text.trim();
+      if (!text) continue;
+
+      // The header row gives the column positions, on every page of the history
+      const headerColumns = this.findColumnCenters(line, TRANSACTION_COLUMNS);
+      if (headerColumns) {
+        columns = headerColumns;
+        continue;
+      }
+      if (BOILERPLATE_PATTERN.test(text)) continue;
+
+      // The title shares its line with the statement date, so only the first cell is checked
+      const titleMatch = line.cells[0]?.trim().match(ACCOUNT_TITLE_PATTERN);
+      if (titleMatch && section !== 'transactions') {
+        accountType = titleMatch[1].toUpperCase();
+        if (account && !account.accountType) account.accountType = accountType;
+        continue;
+      }
+
+      // The account number is printed beside the activity summary heading
+      const accountMatch = text.match(ACCOUNT_NUMBER_PATTERN);
+      if (accountMatch && account?.accountNumberLast4 !== accountMatch[1]) {
+        account = this.getOrCreateAccount(data, accountMatch[1], line.pageNumber);
+        account.accountType = account.accountType || accountType;
+        section = 'none';
+        lastTransaction = null;
+      }
+
+      if (ACTIVITY_SUMMARY_PATTERN.test(text)) {
+        section = 'summary';
+        continue;
+      }
+      if (accountMatch) continue;
+
+      // Also matches "Transaction history (continued)"
+      if (TRANSACTION_HISTORY_PATTERN.test(text)) {
+        section = 'transactions';
+        continue;
+      }
+
+      if (!account) continue;
+
+      if (section === 'summary') {
+        this.applySummaryRow(text, account, summaryDates);
+      } else if (section === 'transactions') {
+        if (ENDING_BALANCE_PATTERN.test(text) || SECTION_END_PATTERN.test(text)) {
+          section = 'none';
+          lastTransaction = null;
+          continue;
+        }
+
+        const transaction = columns ? this.parseColumnTransactionLine(line, columns) : null;
+        if (transaction) {
+          // Checks are listed with their number in the check number column
+          const checkNumber = transaction.description?.match(/^(\d{3,6})\s+(.*)$/);
+          if (checkNumber && transaction.amount !== null && transaction.amount !== undefined && transaction.amount < 0) {
+            transaction.description = `Check ${checkNumber[1]} ${checkNumber[2].replace(/^check\b/i, '')}`.trim();
+          }
+          this.addTransaction(account, transaction);
+          lastTransaction = { transaction, pageNumber: line.pageNumber };
+        } else if (lastTransaction && lastTransaction.pageNumber === line.pageNumber && !MONEY_PATTERN.test(text)) {
+          // A description that wrapped onto the next line
+          lastTransaction.transaction.description = `${lastTransaction.transaction.description} ${text}`;
+          lastTransaction.transaction.rawRowText = `${lastTransaction.transaction.rawRowText}\n${text}`;
+        }
+      }
+    }
+
+    return summaryDates;
+  }
+
+  /**
+   * Store an activity summary row in the account metadata.
+   * Withdrawals are one total on these statements rather than per bucket, so
+   * they are kept as `withdrawalsTotal` and only checked through the balance.
+   */
+  private applySummaryRow(text: string, account: Account, summaryDates: { start: string | null; end: string | null }): void {
+    const amount = this.findLastAmount(text);
+    if (amount === null) return;
+
+    account.metadata = account.metadata || {};
+
+    const beginning = text.match(BEGINNING_BALANCE_PATTERN);
+    if (beginning) {
+      account.metadata.beginningBalance = amount;
+      summaryDates.start = summaryDates.start || beginning[1];
+      return;
+    }
+
+    const ending = text.match(ENDING_BALANCE_PATTERN);
+    if (ending) {
+      account.metadata.endingBalance = amount;
+      summaryDates.end = summaryDates.end || ending[1];
+      return;
+    }
+
+    if (/^deposits\/?\s*additions\b/i.test(text)) {
+      account.metadata.depositsTotal = Math.abs(amount);
+    } else if (/^withdrawals\/?\s*subtractions\b/i.test(text)) {
+      account.metadata.withdrawalsTotal = Math.abs(amount);
+    }
+  }
+
+  /**
+   * Build the statement period from the summary balance dates and the year of
+   * the statement date
+   */
+  private setStatementPeriodFromBalances(
+    lines: PageLine[],
+    summaryDates: { start: string | null; end: string | null },
+    data: ProcessedStatementData
+  ): boolean {
+    if (!summaryDates.start || !summaryDates.end) return false;
+
+    const statementDate = lines.map(line => line.text.match(STATEMENT_DATE_PATTERN)).find(Boolean);
+    if (!statementDate) return false;
+
+    const endYear = parseInt(statementDate[2], 10);
+    const startMonth = parseInt(summaryDates.start.split('/')[0], 10);
+    const endMonth = parseInt(summaryDates.end.split('/')[0], 10);
+    // A period starting in December ends in the next year
+    const startYear = startMonth > endMonth ? endYear - 1 : endYear;
+
+    data.statementPeriodStartDate = `${summaryDates.start}/${startYear}`;
+    data.statementPeriodEndDate = `${summaryDates.end}/${endYear}`;
+    console.log(`Found statement period: ${data.statementPeriodStartDate} to ${data.statementPeriodEndDate}`);
+    return true;
+  }
+}
@@ -0,0 +1,3 @@
+export * from "./qif-reader";
+export * from "./qif-statement";
+export * from "./qif-writer";
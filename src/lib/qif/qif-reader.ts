@@ -0,0 +1,88 @@
+export const QIF_MIME_TYPE = "application/qif";
+
+// A split line of a transaction: its category, memo and amount
+export interface QifSplit {
+  category: string | null;
+  memo: string | null;
+  amount: string | null;
+}
+
+// One record (the lines up to "^") of a !Type section
+export interface QifRecord {
+  type: string; // The section's type: "Bank", "CCard", "Cash", "Invst", ...
+  account: string | null; // The !Account block the record follows, in files with several accounts
+  fields: Record<string, string>; // First value per field code: D, T, P, M, L, N, ...
+  splits: QifSplit[];
+}
+
+/**
+ * Read the records of a QIF file. Each line is a field code followed by its
+ * value, records end with "^" and "!Type:" headers start the sections. The
+ * !Account blocks of multi-account exports name the account the records
+ * after them belong to.
+ * @throws When the file has no !Type header
+ */
+export function readQif(text: string): QifRecord[] {
+  const records: QifRecord[] = [];
+  let type: string | null = null;
+  let account: string | null = null;
+  let inAccountBlock = false;
+  let current: QifRecord | null = null;
+
+  for (const rawLine of text.replace(/^\uFEFF/, "").split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (line.startsWith("!")) {
+      const header = line.slice(1);
+      if (/^account$/i.test(header)) {
+        inAccountBlock = true;
+      } else if (/^type:/i.test(header)) {
+        type = header.slice(5).trim();
+        inAccountBlock = false;
+      }
+      // !Option and !Clear headers only switch Quicken's import behaviour
+      current = null;
+      continue;
+    }
+
+    const code = line[0].toUpperCase();
+    const value = line.slice(1).trim();
+
+    if (inAccountBlock) {
+      if (code === "N") account = value;
+      continue;
+    }
+    if (!type) continue;
+
+    if (code === "^") {
+      if (current) records.push(current);
+      current = null;
+      continue;
+    }
+
+    current ||= { type, account, fields: {}, splits: [] };
+    if (code === "S") {
+      current.splits.push({ category: value || null, memo: null, amount: null });
+    } else if (code === "E" || code === "$") {
+      // Split memos and amounts follow their S line; a split may leave out its category
+      let split = current.splits[current.splits.length - 1];
+      if (!split || (code === "E" ? split.memo !== null || split.amount !== null : split.amount !== null)) {
+        split = { category: null, memo: null, amount: null };
+        current.splits.push(split);
+      }
+      if (code === "E") split.memo = value;
+      else split.amount = value;
+    } else if (!(code in current.fields)) {
+      current.fields[code] = value;
+    }
+  }
+
+  // The last record of a file without a final "^"
+  if (current) records.push(current);
+
+  if (!type) {
+    throw new Error("Not a QIF file: no !Type header");
+  }
+  return records;
+}
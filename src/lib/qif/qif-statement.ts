@@ -0,0 +1,204 @@
+import type { Account, ProcessedStatementData, Transaction, TransactionBucketKey } from "../parsers";
+import { type Cents, formatMoney, fromCents, parseMoney } from "../money";
+import { type DateOrder, parseOrderedDate, toIsoDate } from "../statement-dates";
+import type { ImportAccount } from "../statement-files";
+import { readQif } from "./qif-reader";
+
+/**
+ * QIF statements
+ *
+ * Reads the Quicken Interchange Format exported by desktop finance software
+ * into a parsed statement. Like a CSV export, a QIF file names no account
+ * number, so its transactions go to the account it was uploaded for. Unlike
+ * one, transactions carry the category they were filed under, and split
+ * transactions become a transaction per split so each keeps its category.
+ */
+
+// Sections with transactions of a bank, credit card or cash account
+const QIF_TRANSACTION_SECTIONS = ["bank", "ccard", "cash"];
+
+// Sections with transactions this app doesn't import; category, class and
+// memorized transaction lists are skipped silently
+const QIF_SKIPPED_SECTIONS = ["invst", "oth a", "oth l"];
+
+// Category for transfers, written [Account name] in the L field
+export const QIF_TRANSFER_CATEGORY = "Transfers";
+
+// "3/14/2024", "03/14/24", "3/14'24" and " 3/ 4' 4" as Quicken writes them
+const QIF_DATE_PATTERN = /^(\d{1,2})\s*[/.-]\s*(\d{1,2})\s*(?:[/.-]|')\s*(\d{1,4})$/;
+
+/**
+ * Read a QIF file as a statement of the account it was uploaded for
+ * @throws When the file has no bank, credit card or cash transactions, or
+ * has transactions of more than one account
+ */
+export function buildQifStatement(text: string, importAccount: ImportAccount): ProcessedStatementData {
+  const allRecords = readQif(text);
+  const reviewReasons: string[] = [];
+
+  for (const section of QIF_SKIPPED_SECTIONS) {
+    const skipped = allRecords.filter((record) => record.type.toLowerCase() === section);
+    if (skipped.length > 0) {
+      reviewReasons.push(`${skipped.length} ${skipped[0].type} transactions in the QIF file were not imported`);
+    }
+  }
+
+  const records = allRecords.filter((record) => QIF_TRANSACTION_SECTIONS.includes(record.type.toLowerCase()));
+  if (records.length === 0) {
+    throw new Error("No bank, credit card or cash transactions found in the QIF file");
+  }
+
+  const accountNames = [...new Set(records.map((record) => record.account).filter(Boolean))];
+  if (accountNames.length > 1) {
+    throw new Error(
+      `The QIF file has transactions of ${accountNames.length} accounts (${accountNames.join(", ")}); ` +
+        "export each account to its own file"
+    );
+  }
+
+  const dateOrder = detectDateOrder(records.map((record) => record.fields.D), reviewReasons);
+
+  // Unreadable amounts are reported once each and leave the row without an amount
+  const readAmount = (value: string | undefined): Cents | null => {
+    if (!value) return null;
+    try {
+      return parseMoney(value, { plainNumbers: true });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      if (!reviewReasons.includes(reason)) reviewReasons.push(reason);
+      return null;
+    }
+  };
+
+  const account: Account = {
+    accountNumberLast4: importAccount.accountNumberLast4,
+    accountType: importAccount.accountType,
+    allTransactions: { deposits: [], atmDebit: [], withdrawals: [], checks: [], fees: [], other: [] },
+    metadata: {},
+  };
+  const isCreditCard = importAccount.accountType === "CREDIT";
+  const dates: Date[] = [];
+
+  for (const record of records) {
+    const { fields } = record;
+    const dateText = fields.D || "";
+    const date = readQifDate(dateText, dateOrder);
+    if (date) dates.push(date);
+
+    const amount = readAmount(fields.T ?? fields.U);
+    const payee = fields.P || "";
+    const memo = fields.M || "";
+
+    // Quicken starts each account with its opening balance, filed as a transfer to itself
+    if (/^opening balance$/i.test(payee) && /^\[.*\]$/.test(fields.L || "")) {
+      if (amount !== null) account.metadata!.beginningBalance = fromCents(amount);
+      continue;
+    }
+
+    const isoDate = date ? toIsoDate(date) : dateText || null;
+    const rawRowText = Object.entries(fields)
+      .map(([code, value]) => `${code}${value}`)
+      .join(" ");
+    const toTransaction = (rowAmount: Cents | null, rowMemo: string, category: string | null): Transaction => ({
+      // Dates that can't be read are kept as exported so the row is flagged
+      date: isoDate,
+      description: (rowMemo && !payee.includes(rowMemo) ? `${payee} ${rowMemo}` : payee).trim(),
+      amount: rowAmount === null ? null : fromCents(rowAmount),
+      type: rowAmount !== null && rowAmount > 0 ? "DEPOSIT" : "WITHDRAWAL",
+      category,
+      rawRowText,
+    });
+
+    const bucket = getBucket(fields.N, amount, isCreditCard);
+    const transactions = (account.allTransactions![bucket] ||= []);
+
+    if (record.splits.length === 0) {
+      transactions.push(toTransaction(amount, memo, readQifCategory(fields.L)));
+      continue;
+    }
+
+    // A transaction per split; a difference from the total stays uncategorized
+    let splitTotal = 0;
+    for (const split of record.splits) {
+      const splitAmount = readAmount(split.amount ?? undefined);
+      splitTotal += splitAmount ?? 0;
+      transactions.push(toTransaction(splitAmount, split.memo || memo, readQifCategory(split.category)));
+    }
+    if (amount !== null && splitTotal !== amount) {
+      reviewReasons.push(
+        `Splits of "${payee}" on ${isoDate} add up to ${formatMoney(splitTotal)} instead of ${formatMoney(amount)}`
+      );
+      transactions.push(toTransaction(amount - splitTotal, memo, null));
+    }
+  }
+
+  if (dates.length === 0) {
+    throw new Error("No dated transactions found in the QIF file");
+  }
+  const periodStart = new Date(Math.min(...dates.map((date) => date.getTime())));
+  const periodEnd = new Date(Math.max(...dates.map((date) => date.getTime())));
+
+  return {
+    bankName: importAccount.bankName,
+    accounts: [account],
+    statementPeriodStartDate: toIsoDate(periodStart),
+    statementPeriodEndDate: toIsoDate(periodEnd),
+    rawText: text,
+    entities: [],
+    reviewReasons,
+  };
+}
+
+/**
+ * The category name of an L or S field: "Food:Groceries/Vacation" is the
+ * category Food:Groceries with the class Vacation, and "[Savings]" a
+ * transfer to the Savings account
+ */
+function readQifCategory(value: string | null | undefined): string | null {
+  const category = value?.split("/")[0].trim();
+  if (!category) return null;
+  return /^\[.*\]$/.test(category) ? QIF_TRANSFER_CATEGORY : category;
+}
+
+/**
+ * Quicken writes US dates as month/day, other programs may write day/month.
+ * A day over 12 in either field settles the order; otherwise month/day is
+ * assumed, and reported when it matters for any date.
+ */
+function detectDateOrder(dateTexts: (string | undefined)[], reviewReasons: string[]): DateOrder {
+  const fields = dateTexts
+    .map((text) => text?.trim().match(QIF_DATE_PATTERN))
+    .filter((match): match is RegExpMatchArray => !!match)
+    .map((match) => [parseInt(match[1], 10), parseInt(match[2], 10)]);
+
+  if (fields.some(([first]) => first > 12)) return "DMY";
+  if (!fields.some(([, second]) => second > 12) && fields.some(([first, second]) => first !== second)) {
+    reviewReasons.push("No date in the QIF file shows whether it is month/day or day/month; read as month/day");
+  }
+  return "MDY";
+}
+
+/**
+ * Read a QIF date. An apostrophe before the year ("3/14'24") marks a year
+ * from 2000, which Quicken may pad with a space ("3/14' 4"); ISO dates are
+ * read as well.
+ */
+function readQifDate(text: string, order: DateOrder): Date | null {
+  const trimmed = text.trim();
+  const match = trimmed.match(QIF_DATE_PATTERN);
+  if (!match) return parseOrderedDate(trimmed, "YMD");
+
+  const year = match[3].length === 1 ? `0${match[3]}` : match[3];
+  return parseOrderedDate(`${match[1]}/${match[2]}/${year}`, order);
+}
+
+function getBucket(checkNumber: string | undefined, amount: Cents | null, isCreditCard: boolean): TransactionBucketKey {
+  if (amount === null) return "other";
+  if (isCreditCard) return amount > 0 ? "payments" : "purchases";
+  if (amount > 0) return "deposits";
+
+  // The N field holds a check number, or a code like ATM, EFT or XFR
+  if (checkNumber && /^\d+$/.test(checkNumber)) return "checks";
+  if (checkNumber?.toUpperCase() === "ATM") return "atmDebit";
+  return "withdrawals";
+}
@@ -0,0 +1,44 @@
+import { type Cents, toDecimalString } from "../money";
+
+// A transaction to write, as stored
+export interface QifExportTransaction {
+  date: Date;
+  description: string;
+  amount: Cents;
+  category?: string | null;
+}
+
+export interface QifExportAccount {
+  name: string;
+  accountType: string; // AccountType enum value
+}
+
+/**
+ * Write an account's transactions as a QIF file, with an !Account block so
+ * desktop software imports them into the right account. Dates are written
+ * as MM/DD/YYYY, which every QIF reader takes as month/day.
+ */
+export function writeQif(account: QifExportAccount, transactions: QifExportTransaction[]): string {
+  const type = account.accountType === "CREDIT" ? "CCard" : "Bank";
+  const lines = ["!Account", `N${toQifText(account.name)}`, `T${type}`, "^", `!Type:${type}`];
+
+  for (const transaction of transactions) {
+    lines.push(`D${formatQifDate(transaction.date)}`, `T${toDecimalString(transaction.amount)}`);
+    if (transaction.description) lines.push(`P${toQifText(transaction.description)}`);
+    // "/" would start a class after the category
+    if (transaction.category) lines.push(`L${toQifText(transaction.category).replace(/\//g, "-")}`);
+    lines.push("^");
+  }
+
+  return `${lines.join("\r\n")}\r\n`;
+}
+
+function formatQifDate(date: Date): string {
+  const [year, month, day] = date.toISOString().slice(0, 10).split("-");
+  return `${month}/${day}/${year}`;
+}
+
+// Values are one line each
+function toQifText(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
@@ -0,0 +1,253 @@
+import type { PrismaClient, Prisma } from "@/generated/prisma";
+import type { Account } from "./parsers";
+import type { PersistableAccount, TransactionBucket } from "./transaction-persistence";
+import { type Cents, formatMoney, fromCents, toCents } from "./money";
+
+/**
+ * Balance reconciliation
+ *
+ * Checks the parsed transactions of each account against the summary printed
+ * on the statement: beginning balance plus all transactions should equal the
+ * ending balance, and each transaction section should add up to its summary
+ * total. A mismatch usually means rows were dropped or misread by table
+ * extraction. Parsed balances and totals are read into cents before any
+ * sums; results are stored as dollars.
+ */
+
+// Account.metadata summary total -> bucket whose rows should add up to it.
+// Summary totals are printed without a sign, so bucket sums are compared as
+// absolute values. Totals that span buckets, like a credit card's combined
+// "Payments and Other Credits", are only checked through the balance.
+export const SUMMARY_TOTAL_BUCKETS: Record<string, TransactionBucket> = {
+  depositsTotal: "DEPOSIT",
+  atmDebitTotal: "ATM_DEBIT",
+  checksTotal: "CHECK",
+  serviceFees: "FEE",
+  otherSubtractions: "WITHDRAWAL",
+  // Credit card statements
+  purchasesTotal: "PURCHASE",
+  cashAdvancesTotal: "WITHDRAWAL",
+  feesCharged: "FEE",
+  interestCharged: "INTEREST",
+};
+
+// The transaction fields reconciliation needs
+export interface ReconcilableTransaction {
+  bankAccountId: string;
+  amount: string;
+  bucket: TransactionBucket;
+}
+
+// The balances and summary totals printed on a statement, in cents
+interface ExpectedAmounts {
+  beginningBalance: Cents | null;
+  endingBalance: Cents | null;
+  totals: Record<string, Cents>;
+}
+
+export interface BucketReconciliation {
+  summaryField: string;
+  bucket: TransactionBucket;
+  expected: number;
+  actual: number;
+  difference: number; // actual - expected
+}
+
+export interface AccountReconciliation {
+  bankAccountId: string;
+  lastFourDigits: string;
+  beginningBalance: number | null;
+  endingBalance: number | null;
+  transactionsTotal: number;
+  balanceDifference: number | null; // beginning + transactions - ending, null when a balance is missing
+  buckets: BucketReconciliation[];
+  balanced: boolean;
+}
+
+export interface StatementReconciliation {
+  reconciledAt: string;
+  balanced: boolean;
+  accounts: AccountReconciliation[];
+}
+
+/**
+ * Read a parsed account's balances and summary totals in cents. Parsers carry
+ * them as dollar numbers, which are converted here once rather than summed.
+ * @throws When a value isn't a whole number of cents
+ */
+function readExpectedAmounts(metadata: Account["metadata"] = {}): ExpectedAmounts {
+  const readCents = (value: unknown) => (typeof value === "number" ? toCents(value) : null);
+
+  const totals: Record<string, Cents> = {};
+  for (const summaryField of Object.keys(SUMMARY_TOTAL_BUCKETS)) {
+    const total = readCents(metadata[summaryField]);
+    if (total !== null) totals[summaryField] = total;
+  }
+
+  return {
+    beginningBalance: readCents(metadata.beginningBalance),
+    endingBalance: readCents(metadata.endingBalance),
+    totals,
+  };
+}
+
+/**
+ * Reconcile one account from the expected values on its statement
+ */
+function reconcileAgainst(
+  bankAccountId: string,
+  lastFourDigits: string,
+  expected: ExpectedAmounts,
+  transactions: ReconcilableTransaction[]
+): AccountReconciliation {
+  const accountAmounts = transactions
+    .filter((transaction) => transaction.bankAccountId === bankAccountId)
+    .map((transaction) => ({ bucket: transaction.bucket, cents: toCents(transaction.amount) }));
+  const transactionsCents = accountAmounts.reduce((sum, amount) => sum + amount.cents, 0);
+
+  let balanceDifference: Cents | null = null;
+  if (expected.beginningBalance !== null && expected.endingBalance !== null) {
+    balanceDifference = expected.beginningBalance + transactionsCents - expected.endingBalance;
+  }
+
+  const buckets: BucketReconciliation[] = [];
+  for (const [summaryField, bucket] of Object.entries(SUMMARY_TOTAL_BUCKETS)) {
+    const expectedCents = expected.totals[summaryField];
+    if (expectedCents === undefined) continue;
+
+    const actualCents = Math.abs(
+      accountAmounts.filter((amount) => amount.bucket === bucket).reduce((sum, amount) => sum + amount.cents, 0)
+    );
+
+    buckets.push({
+      summaryField,
+      bucket,
+      expected: fromCents(expectedCents),
+      actual: fromCents(actualCents),
+      difference: fromCents(actualCents - expectedCents),
+    });
+  }
+
+  return {
+    bankAccountId,
+    lastFourDigits,
+    beginningBalance: expected.beginningBalance === null ? null : fromCents(expected.beginningBalance),
+    endingBalance: expected.endingBalance === null ? null : fromCents(expected.endingBalance),
+    transactionsTotal: fromCents(transactionsCents),
+    balanceDifference: balanceDifference === null ? null : fromCents(balanceDifference),
+    buckets,
+    balanced: (balanceDifference === null || balanceDifference === 0) && buckets.every((b) => b.difference === 0),
+  };
+}
+
+/**
+ * Reconcile a parsed account against its transactions
+ */
+export function reconcileAccount(
+  { account, bankAccountId }: PersistableAccount,
+  transactions: ReconcilableTransaction[]
+): AccountReconciliation {
+  return reconcileAgainst(
+    bankAccountId,
+    account.accountNumberLast4,
+    readExpectedAmounts(account.metadata),
+    transactions
+  );
+}
+
+/**
+ * Reconcile every account of a parsed statement
+ */
+export function reconcileStatement(
+  accounts: PersistableAccount[],
+  transactions: ReconcilableTransaction[]
+): StatementReconciliation {
+  // An account listed twice on a statement is reconciled once
+  const uniqueAccounts = accounts.filter(
+    (persistable, index) => accounts.findIndex((other) => other.bankAccountId === persistable.bankAccountId) === index
+  );
+  const accountResults = uniqueAccounts.map((persistable) => reconcileAccount(persistable, transactions));
+
+  return {
+    reconciledAt: new Date().toISOString(),
+    balanced: accountResults.every((account) => account.balanced),
+    accounts: accountResults,
+  };
+}
+
+/**
+ * Describe each mismatch as a statement review reason
+ */
+export function getReconciliationReviewReasons(reconciliation: StatementReconciliation): string[] {
+  const reasons: string[] = [];
+
+  for (const account of reconciliation.accounts) {
+    if (account.balanceDifference !== null && account.balanceDifference !== 0) {
+      reasons.push(
+        `Account ••${account.lastFourDigits} doesn't balance: transactions are off by ${formatMoney(toCents(account.balanceDifference))}`
+      );
+    }
+
+    for (const bucket of account.buckets) {
+      if (bucket.difference === 0) continue;
+      reasons.push(
+        `Account ••${account.lastFourDigits} ${bucket.bucket.replace("_", " ").toLowerCase()} rows add up to ${formatMoney(toCents(bucket.actual))}, statement total is ${formatMoney(toCents(bucket.expected))}`
+      );
+    }
+  }
+
+  return reasons;
+}
+
+/**
+ * Recompute a stored statement's reconciliation from its current transactions,
+ * e.g. after rows were corrected in review. Expected values come from the
+ * previously stored result since the parsed summary isn't kept elsewhere.
+ */
+export async function refreshStatementReconciliation(
+  prisma: PrismaClient,
+  statementId: string
+): Promise<StatementReconciliation | null> {
+  const statement = await prisma.statement.findUnique({
+    where: { id: statementId },
+    select: { reconciliation: true },
+  });
+
+  const previous = statement?.reconciliation as StatementReconciliation | null | undefined;
+  if (!previous) return null;
+
+  const transactions = await prisma.transaction.findMany({
+    where: { statementId },
+    select: { bankAccountId: true, amount: true, bucket: true },
+  });
+  const reconcilable = transactions.map((transaction) => ({
+    ...transaction,
+    amount: transaction.amount.toString(),
+  }));
+
+  const accounts = previous.accounts.map((account) =>
+    reconcileAgainst(
+      account.bankAccountId,
+      account.lastFourDigits,
+      {
+        beginningBalance: account.beginningBalance === null ? null : toCents(account.beginningBalance),
+        endingBalance: account.endingBalance === null ? null : toCents(account.endingBalance),
+        totals: Object.fromEntries(account.buckets.map((bucket) => [bucket.summaryField, toCents(bucket.expected)])),
+      },
+      reconcilable
+    )
+  );
+
+  const reconciliation: StatementReconciliation = {
+    reconciledAt: new Date().toISOString(),
+    balanced: accounts.every((account) => account.balanced),
+    accounts,
+  };
+
+  await prisma.statement.update({
+    where: { id: statementId },
+    data: { reconciliation: reconciliation as unknown as Prisma.InputJsonValue },
+  });
+
+  return reconciliation;
+}
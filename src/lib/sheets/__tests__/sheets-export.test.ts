@@ -0,0 +1,184 @@
+/**
+ * @jest-environment node
+ */
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import { type ChildProcess, spawn } from "child_process";
+import net from "net";
+import path from "path";
+import fetch from "node-fetch";
+import type { PrismaClient } from "@/generated/prisma";
+import { GoogleSheetsClient } from "../sheets-client";
+import { exportTransactionsToSheets, SHEET_COLUMNS } from "../sheets-export";
+
+// Exports run against scripts/fake-sheets-server.js, with the database stubbed
+let apiUrl = "";
+
+type SheetsDump = Record<string, { title: string; sheets: Record<string, string[][]> }>;
+
+const checking = { id: "acct-checking", financialInstitution: "Chase", lastFourDigits: "1234" };
+const card = { id: "acct-card", financialInstitution: "Capital One", lastFourDigits: "9876" };
+const statement = { filename: "statement.pdf" };
+const createdAt = new Date("2024-02-01T10:00:00.000Z");
+
+const transactions = [
+  {
+    id: "txn-1",
+    transactionDate: new Date("2024-01-05T00:00:00.000Z"),
+    description: "Payroll",
+    amount: "2500.00",
+    bucket: "DEPOSIT",
+    createdAt,
+    bankAccount: checking,
+    category: { name: "Income" },
+    statement,
+  },
+  {
+    id: "txn-2",
+    transactionDate: new Date("2024-01-07T00:00:00.000Z"),
+    description: "Coffee",
+    amount: "-4.50",
+    bucket: "WITHDRAWAL",
+    createdAt,
+    bankAccount: checking,
+    category: null,
+    statement,
+  },
+  {
+    id: "txn-3",
+    transactionDate: null,
+    description: "Groceries",
+    amount: "-82.10",
+    bucket: "PURCHASE",
+    createdAt,
+    bankAccount: card,
+    category: { name: "Groceries" },
+    statement,
+  },
+];
+
+function createPrismaStub() {
+  const config = {
+    userId: "user-1",
+    spreadsheetId: null as string | null,
+    spreadsheetName: "Test Export",
+    lastExported: null as Date | null,
+  };
+  // IDs of the transactions marked as exported, and the filters they were queried with
+  const exported = new Set<string>();
+  const transactionFilters: object[] = [];
+  const prisma = {
+    googleSheetConfig: {
+      findUnique: async () => ({ ...config }),
+      update: async ({ data }: { data: Partial<typeof config> }) => Object.assign(config, data),
+    },
+    transaction: {
+      findMany: async ({ where }: { where: { statement: object; sheetsExportedAt?: null } }) => {
+        transactionFilters.push(where);
+        return transactions.filter((transaction) => where.sheetsExportedAt !== null || !exported.has(transaction.id));
+      },
+      updateMany: async ({ where }: { where: { id: { in: string[] } } }) => {
+        where.id.in.forEach((id) => exported.add(id));
+        return { count: where.id.in.length };
+      },
+    },
+    $transaction: async (operations: Promise<unknown>[]) => Promise.all(operations),
+  };
+  return { prisma: prisma as unknown as PrismaClient, config, exported, transactionFilters };
+}
+
+function createClient() {
+  return new GoogleSheetsClient({
+    credentials: { accessToken: "test", tokenExpiry: new Date(Date.now() + 60 * 60 * 1000) },
+    apiUrl,
+  });
+}
+
+// A port nothing listens on, for the fake server
+function getFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer();
+    probe.listen(0, () => {
+      const { port } = probe.address() as net.AddressInfo;
+      probe.close(() => resolve(port));
+    });
+    probe.on("error", reject);
+  });
+}
+
+async function dumpSpreadsheets(): Promise<SheetsDump> {
+  const response = await fetch(`${apiUrl}/__dump`, { headers: { Authorization: "Bearer test" } });
+  return (await response.json()) as SheetsDump;
+}
+
+describe("exportTransactionsToSheets", () => {
+  let server: ChildProcess;
+
+  beforeAll(async () => {
+    const port = await getFreePort();
+    apiUrl = `http://localhost:${port}`;
+    server = spawn(process.execPath, [path.join(process.cwd(), "scripts/fake-sheets-server.js"), String(port)]);
+    await new Promise<void>((resolve, reject) => {
+      server.stdout!.on("data", (chunk: Buffer) => {
+        if (chunk.toString().includes("listening")) resolve();
+      });
+      server.on("error", reject);
+      server.on("exit", (code) => reject(new Error(`Fake Sheets server exited with ${code}`)));
+    });
+  });
+
+  afterAll(() => {
+    server.kill();
+  });
+
+  it("creates the spreadsheet and appends a tab per account", async () => {
+    const { prisma, config, exported, transactionFilters } = createPrismaStub();
+    const client = createClient();
+
+    const result = await exportTransactionsToSheets(prisma, "user-1", { client });
+
+    expect(result.exportedTransactions).toBe(3);
+    expect(config.spreadsheetId).toBe(result.spreadsheetId);
+    expect(config.lastExported).toEqual(result.exportedAt);
+    expect(transactionFilters[0]).toEqual({
+      statement: { userId: "user-1", status: "COMPLETED" },
+      sheetsExportedAt: null,
+    });
+    expect([...exported]).toEqual(["txn-1", "txn-2", "txn-3"]);
+
+    const spreadsheet = (await dumpSpreadsheets())[result.spreadsheetId];
+    expect(spreadsheet.title).toBe("Test Export");
+    expect(Object.keys(spreadsheet.sheets)).toEqual(["Sheet1", "Chase ••1234", "Capital One ••9876"]);
+    expect(spreadsheet.sheets["Chase ••1234"]).toEqual([
+      [...SHEET_COLUMNS],
+      ["txn-1", "2024-01-05", "Payroll", "2500.00", "DEPOSIT", "Income", "statement.pdf", createdAt.toISOString()],
+      ["txn-2", "2024-01-07", "Coffee", "-4.50", "WITHDRAWAL", "", "statement.pdf", createdAt.toISOString()],
+    ]);
+    expect(spreadsheet.sheets["Capital One ••9876"]).toEqual([
+      [...SHEET_COLUMNS],
+      ["txn-3", "", "Groceries", "-82.10", "PURCHASE", "Groceries", "statement.pdf", createdAt.toISOString()],
+    ]);
+  });
+
+  it("only appends transactions that weren't exported yet", async () => {
+    const { prisma } = createPrismaStub();
+    const client = createClient();
+
+    const first = await exportTransactionsToSheets(prisma, "user-1", { client });
+    const second = await exportTransactionsToSheets(prisma, "user-1", { client });
+
+    expect(second.exportedTransactions).toBe(0);
+    expect((await dumpSpreadsheets())[first.spreadsheetId].sheets["Chase ••1234"]).toHaveLength(3);
+  });
+
+  it("appends to existing tabs without repeating the header", async () => {
+    const { prisma } = createPrismaStub();
+    const client = createClient();
+
+    const first = await exportTransactionsToSheets(prisma, "user-1", { client });
+    await exportTransactionsToSheets(prisma, "user-1", { client, fullExport: true });
+
+    const rows = (await dumpSpreadsheets())[first.spreadsheetId].sheets["Chase ••1234"];
+    expect(rows).toHaveLength(5);
+    expect(rows.filter((row) => row[0] === "Transaction ID")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,95 @@
+import fetch from "node-fetch";
+
+/**
+ * Google OAuth helpers for connecting a user's Sheets account
+ */
+
+const DEFAULT_AUTH_URL = "https://accounts.google.com/o/oauth2/v2/auth";
+const DEFAULT_TOKEN_URL = "https://oauth2.googleapis.com/token";
+
+// Only access to spreadsheets the app created, so exports always create their own
+const SHEETS_SCOPE = "https://www.googleapis.com/auth/drive.file";
+
+// Cookie holding the state value between the connect and callback routes
+export const OAUTH_STATE_COOKIE = "google_sheets_oauth_state";
+
+export interface GoogleTokens {
+  accessToken: string;
+  refreshToken: string | null;
+  tokenExpiry: Date;
+}
+
+/**
+ * Get the client credentials and callback URL, throwing if unconfigured
+ */
+function getOAuthConfig() {
+  const clientId = process.env.GOOGLE_CLIENT_ID;
+  const clientSecret = process.env.GOOGLE_CLIENT_SECRET;
+  const baseUrl = process.env.NEXTAUTH_URL;
+
+  if (!clientId || !clientSecret || !baseUrl) {
+    throw new Error("GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET and NEXTAUTH_URL must be set to connect Google Sheets");
+  }
+
+  return {
+    clientId,
+    clientSecret,
+    redirectUri: `${baseUrl.replace(/\/$/, "")}/api/google-sheets/callback`,
+  };
+}
+
+/**
+ * Build the Google consent screen URL
+ * @param state Random value checked again in the callback
+ */
+export function buildGoogleAuthUrl(state: string): string {
+  const { clientId, redirectUri } = getOAuthConfig();
+
+  const params = new URLSearchParams({
+    client_id: clientId,
+    redirect_uri: redirectUri,
+    response_type: "code",
+    scope: SHEETS_SCOPE,
+    // Offline access with forced consent so Google always returns a refresh token
+    access_type: "offline",
+    prompt: "consent",
+    state,
+  });
+
+  return `${process.env.GOOGLE_OAUTH_AUTH_URL || DEFAULT_AUTH_URL}?${params.toString()}`;
+}
+
+/**
+ * Exchange the authorization code from the callback for tokens
+ */
+export async function exchangeGoogleAuthCode(code: string): Promise<GoogleTokens> {
+  const { clientId, clientSecret, redirectUri } = getOAuthConfig();
+
+  const response = await fetch(process.env.GOOGLE_OAUTH_TOKEN_URL || DEFAULT_TOKEN_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code,
+      client_id: clientId,
+      client_secret: clientSecret,
+      redirect_uri: redirectUri,
+    }).toString(),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to exchange Google authorization code: ${response.statusText} (${response.status})`);
+  }
+
+  const token = (await response.json()) as {
+    access_token: string;
+    refresh_token?: string;
+    expires_in?: number;
+  };
+
+  return {
+    accessToken: token.access_token,
+    refreshToken: token.refresh_token ?? null,
+    tokenExpiry: new Date(Date.now() + (token.expires_in ?? 3600) * 1000),
+  };
+}
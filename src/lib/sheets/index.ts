@@ -0,0 +1,3 @@
+export * from "./sheets-client";
+export * from "./sheets-export";
+export * from "./google-oauth";
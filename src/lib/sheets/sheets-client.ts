@@ -0,0 +1,181 @@
+import fetch from "node-fetch";
+
+/**
+ * Minimal spreadsheet API used by the Sheets export.
+ * Anything implementing it (the Google REST client, a fake for local
+ * testing) can be handed to the exporter.
+ */
+export interface SheetsClient {
+  createSpreadsheet(title: string): Promise<string>;
+  listSheetTitles(spreadsheetId: string): Promise<string[]>;
+  addSheet(spreadsheetId: string, title: string): Promise<void>;
+  appendRows(spreadsheetId: string, sheetTitle: string, rows: Array<Array<string | number>>): Promise<void>;
+}
+
+// OAuth tokens for the Google Sheets API
+export interface SheetsCredentials {
+  accessToken?: string | null;
+  refreshToken?: string | null;
+  tokenExpiry?: Date | null;
+}
+
+interface GoogleSheetsClientOptions {
+  credentials: SheetsCredentials;
+  // Called after the access token was refreshed so it can be persisted
+  onTokenRefresh?: (credentials: SheetsCredentials) => Promise<void>;
+  // Overrides for pointing the client at a local fake server
+  apiUrl?: string;
+  tokenUrl?: string;
+}
+
+// Response bodies of the Sheets API endpoints the client uses
+interface CreateSpreadsheetResponse {
+  spreadsheetId: string;
+}
+
+interface GetSpreadsheetResponse {
+  sheets?: Array<{ properties: { title: string } }>;
+}
+
+interface BatchUpdateResponse {
+  replies?: Array<Record<string, unknown>>;
+}
+
+interface AppendValuesResponse {
+  updates?: { updatedRows?: number };
+}
+
+const DEFAULT_SHEETS_API_URL = "https://sheets.googleapis.com";
+const DEFAULT_TOKEN_URL = "https://oauth2.googleapis.com/token";
+
+// Refresh tokens this long before they actually expire
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+/**
+ * Google Sheets REST v4 client
+ */
+export class GoogleSheetsClient implements SheetsClient {
+  private credentials: SheetsCredentials;
+  private onTokenRefresh?: GoogleSheetsClientOptions["onTokenRefresh"];
+  private apiUrl: string;
+  private tokenUrl: string;
+
+  constructor(options: GoogleSheetsClientOptions) {
+    this.credentials = { ...options.credentials };
+    this.onTokenRefresh = options.onTokenRefresh;
+    this.apiUrl = (options.apiUrl || process.env.GOOGLE_SHEETS_API_URL || DEFAULT_SHEETS_API_URL).replace(/\/$/, "");
+    this.tokenUrl = options.tokenUrl || process.env.GOOGLE_OAUTH_TOKEN_URL || DEFAULT_TOKEN_URL;
+  }
+
+  public async createSpreadsheet(title: string): Promise<string> {
+    const result = await this.request<CreateSpreadsheetResponse>("POST", "/v4/spreadsheets", {
+      properties: { title },
+    });
+    return result.spreadsheetId;
+  }
+
+  public async listSheetTitles(spreadsheetId: string): Promise<string[]> {
+    const result = await this.request<GetSpreadsheetResponse>(
+      "GET",
+      `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}?fields=sheets.properties.title`
+    );
+    return (result.sheets || []).map((sheet) => sheet.properties.title);
+  }
+
+  public async addSheet(spreadsheetId: string, title: string): Promise<void> {
+    await this.request<BatchUpdateResponse>(
+      "POST",
+      `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}:batchUpdate`,
+      { requests: [{ addSheet: { properties: { title } } }] }
+    );
+  }
+
+  public async appendRows(
+    spreadsheetId: string,
+    sheetTitle: string,
+    rows: Array<Array<string | number>>
+  ): Promise<void> {
+    if (rows.length === 0) return;
+
+    // Quote the tab name so titles with spaces form a valid A1 range
+    const range = encodeURIComponent(`'${sheetTitle.replace(/'/g, "''")}'!A1`);
+    await this.request<AppendValuesResponse>(
+      "POST",
+      `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${range}:append?valueInputOption=RAW&insertDataOption=INSERT_ROWS`,
+      { values: rows }
+    );
+  }
+
+  /**
+   * Return a usable access token, refreshing it when expired
+   */
+  private async getAccessToken(): Promise<string> {
+    const { accessToken, refreshToken, tokenExpiry } = this.credentials;
+    const isExpired = !tokenExpiry || tokenExpiry.getTime() - TOKEN_EXPIRY_MARGIN_MS < Date.now();
+
+    if (accessToken && !isExpired) {
+      return accessToken;
+    }
+
+    if (!refreshToken) {
+      throw new Error("Google Sheets access has expired. Please reconnect your Google account.");
+    }
+
+    const clientId = process.env.GOOGLE_CLIENT_ID;
+    const clientSecret = process.env.GOOGLE_CLIENT_SECRET;
+    if (!clientId || !clientSecret) {
+      throw new Error("GOOGLE_CLIENT_ID and GOOGLE_CLIENT_SECRET must be set to refresh Google Sheets access");
+    }
+
+    const response = await fetch(this.tokenUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "refresh_token",
+        refresh_token: refreshToken,
+        client_id: clientId,
+        client_secret: clientSecret,
+      }).toString(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to refresh Google access token: ${response.statusText} (${response.status})`);
+    }
+
+    const token = (await response.json()) as { access_token: string; expires_in?: number };
+    this.credentials = {
+      ...this.credentials,
+      accessToken: token.access_token,
+      tokenExpiry: new Date(Date.now() + (token.expires_in ?? 3600) * 1000),
+    };
+
+    if (this.onTokenRefresh) {
+      await this.onTokenRefresh(this.credentials);
+    }
+
+    return token.access_token;
+  }
+
+  /**
+   * Send an authenticated request to the Sheets API
+   */
+  private async request<T>(method: "GET" | "POST", path: string, body?: unknown): Promise<T> {
+    const accessToken = await this.getAccessToken();
+
+    const response = await fetch(`${this.apiUrl}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      const details = await response.text();
+      throw new Error(`Google Sheets API request failed: ${response.status} ${details}`);
+    }
+
+    return (await response.json()) as T;
+  }
+}
@@ -0,0 +1,197 @@
+import type { PrismaClient } from "@/generated/prisma";
+import { GoogleSheetsClient, SheetsClient } from "./sheets-client";
+import { toCents, toDecimalString } from "../money";
+
+/**
+ * Google Sheets export
+ *
+ * Writes one tab per bank account. Each export appends the transactions of
+ * completed statements that weren't exported yet (Transaction.sheetsExportedAt),
+ * so a tab grows like a ledger. Statements in review are left out until they
+ * are approved, and then exported with the corrections made in review.
+ * Reprocessing a statement stores its transactions again and they will be
+ * appended again; the Transaction ID column lets such rows be told apart.
+ */
+
+// Column layout of every account tab. Only append new columns at the end so
+// formulas and scripts reading existing columns keep working.
+export const SHEET_COLUMNS = [
+  "Transaction ID",
+  "Date",
+  "Description",
+  "Amount",
+  "Type",
+  "Category",
+  "Statement",
+  "Imported At",
+] as const;
+
+export interface SheetsExportResult {
+  spreadsheetId: string;
+  exportedTransactions: number;
+  sheets: Array<{ title: string; rows: number }>;
+  exportedAt: Date;
+}
+
+/**
+ * Build the tab title for a bank account.
+ * Sheets titles can't contain []*?/\: and are limited to 100 characters.
+ */
+export function getAccountSheetTitle(account: {
+  id: string;
+  financialInstitution: string;
+  lastFourDigits: string | null;
+}): string {
+  const suffix = account.lastFourDigits ? `••${account.lastFourDigits}` : account.id.slice(-6);
+  return `${account.financialInstitution} ${suffix}`.replace(/[[\]*?/\\:]/g, " ").slice(0, 100);
+}
+
+/**
+ * Create a Sheets client from the user's stored configuration.
+ * Refreshed access tokens are saved back to the configuration.
+ */
+export async function createSheetsClientForUser(prisma: PrismaClient, userId: string): Promise<SheetsClient> {
+  const config = await prisma.googleSheetConfig.findUnique({
+    where: { userId },
+  });
+
+  if (!config || (!config.refreshToken && !config.accessToken)) {
+    throw new Error("Google Sheets is not connected");
+  }
+
+  return new GoogleSheetsClient({
+    credentials: {
+      accessToken: config.accessToken,
+      refreshToken: config.refreshToken,
+      tokenExpiry: config.tokenExpiry,
+    },
+    onTokenRefresh: async (credentials) => {
+      await prisma.googleSheetConfig.update({
+        where: { userId },
+        data: {
+          accessToken: credentials.accessToken,
+          tokenExpiry: credentials.tokenExpiry,
+        },
+      });
+    },
+  });
+}
+
+/**
+ * Export the user's new transactions to their spreadsheet
+ * @param client Sheets client to use, defaults to the Google client for the user
+ * @param fullExport Export every transaction of completed statements instead of only the new ones
+ */
+export async function exportTransactionsToSheets(
+  prisma: PrismaClient,
+  userId: string,
+  options: { client?: SheetsClient; fullExport?: boolean } = {}
+): Promise<SheetsExportResult> {
+  const config = await prisma.googleSheetConfig.findUnique({
+    where: { userId },
+  });
+
+  if (!config) {
+    throw new Error("Google Sheets is not configured");
+  }
+
+  const client = options.client || (await createSheetsClientForUser(prisma, userId));
+
+  // Create the spreadsheet on first export
+  let spreadsheetId = config.spreadsheetId;
+  if (!spreadsheetId) {
+    const spreadsheetName = config.spreadsheetName || "Personal Adviser Transactions";
+    spreadsheetId = await client.createSpreadsheet(spreadsheetName);
+    await prisma.googleSheetConfig.update({
+      where: { userId },
+      data: { spreadsheetId, spreadsheetName },
+    });
+    console.log(`Created spreadsheet ${spreadsheetId} for user ${userId}`);
+  }
+
+  const exportedAt = new Date();
+
+  const transactions = await prisma.transaction.findMany({
+    where: {
+      statement: { userId, status: "COMPLETED" },
+      ...(options.fullExport ? {} : { sheetsExportedAt: null }),
+    },
+    orderBy: [{ transactionDate: "asc" }, { id: "asc" }],
+    include: {
+      bankAccount: true,
+      category: true,
+      statement: true,
+    },
+  });
+
+  // Group rows by account tab
+  const rowsBySheet = new Map<string, Array<Array<string | number>>>();
+  for (const transaction of transactions) {
+    const title = getAccountSheetTitle(transaction.bankAccount);
+    const rows = rowsBySheet.get(title) || [];
+    rows.push([
+      transaction.id,
+      transaction.transactionDate ? transaction.transactionDate.toISOString().slice(0, 10) : "",
+      transaction.description,
+      toDecimalString(toCents(transaction.amount)),
+      transaction.bucket,
+      transaction.category?.name || "",
+      transaction.statement.filename,
+      transaction.createdAt.toISOString(),
+    ]);
+    rowsBySheet.set(title, rows);
+  }
+
+  const existingTitles = new Set(await client.listSheetTitles(spreadsheetId));
+  const sheets: SheetsExportResult["sheets"] = [];
+
+  for (const [title, rows] of rowsBySheet) {
+    if (!existingTitles.has(title)) {
+      await client.addSheet(spreadsheetId, title);
+      await client.appendRows(spreadsheetId, title, [[...SHEET_COLUMNS]]);
+      existingTitles.add(title);
+    }
+
+    await client.appendRows(spreadsheetId, title, rows);
+    sheets.push({ title, rows: rows.length });
+  }
+
+  // Only the rows appended are marked, so rows stored meanwhile go out next time
+  await prisma.$transaction([
+    prisma.transaction.updateMany({
+      where: { id: { in: transactions.map((transaction) => transaction.id) } },
+      data: { sheetsExportedAt: exportedAt },
+    }),
+    prisma.googleSheetConfig.update({
+      where: { userId },
+      data: { lastExported: exportedAt },
+    }),
+  ]);
+
+  console.log(`Exported ${transactions.length} transactions to spreadsheet ${spreadsheetId}`);
+
+  return {
+    spreadsheetId,
+    exportedTransactions: transactions.length,
+    sheets,
+    exportedAt,
+  };
+}
+
+/**
+ * Export after a statement completed, when the user turned on auto export.
+ * Failures are logged rather than thrown so they never fail the statement.
+ */
+export async function autoExportIfEnabled(prisma: PrismaClient, userId: string): Promise<void> {
+  try {
+    const config = await prisma.googleSheetConfig.findUnique({
+      where: { userId },
+    });
+
+    if (!config?.autoExport) return;
+
+    await exportTransactionsToSheets(prisma, userId);
+  } catch (error) {
+    console.error("Error auto-exporting to Google Sheets:", error);
+  }
+}
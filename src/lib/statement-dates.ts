@@ -0,0 +1,205 @@
+import type { ProcessedStatementData, Transaction } from "./parsers";
+
+/**
+ * Statement date normalization
+ *
+ * Parsers read dates the way statements print them: transaction rows as
+ * "03/14", "03/14/24" or "Mar 14" and periods as "March 12, 2024 to April 10,
+ * 2024". These helpers turn them into ISO dates (YYYY-MM-DD), taking the year
+ * of a row that doesn't print one from the statement period, and reject dates
+ * that don't exist such as 02/30. Dates are UTC midnight so they don't shift
+ * with the server's time zone.
+ */
+
+export interface StatementPeriod {
+  start: Date;
+  end: Date;
+}
+
+// Field order of numeric dates in exported files, where 04/03/2024 is
+// April 3 in one bank's export and March 4 in another's
+export type DateOrder = "MDY" | "DMY" | "YMD";
+
+interface DateParts {
+  year: number | null;
+  month: number;
+  day: number;
+}
+
+const MONTH_NAMES = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december",
+];
+
+// 03/14, 3/14/24, 03-14-2024
+const NUMERIC_DATE_PATTERN = /^(\d{1,2})[/-](\d{1,2})(?:[/-](\d{2}|\d{4}))?$/;
+// 2024-03-14, also with a time part
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:T[\d:.]+Z?)?$/;
+// Mar 14, March 14, 2024, Sept. 3 2024
+const MONTH_NAME_DATE_PATTERN = /^([a-z]{3,9})\.?\s+(\d{1,2})(?:,?\s+(\d{4}))?$/i;
+
+// 04/03/2024, 04.03.24, 2024-04-03, also with a time part
+const ORDERED_DATE_PATTERN = /^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})(?:[T\s][\d:.]+Z?)?$/;
+
+// A row dated up to this many days after the period end still belongs to the
+// period's year (transactions posted after the closing date)
+const PERIOD_END_GRACE_DAYS = 31;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function readDateParts(text: string): DateParts | null {
+  const trimmed = text.trim();
+
+  const iso = trimmed.match(ISO_DATE_PATTERN);
+  if (iso) {
+    return { year: parseInt(iso[1], 10), month: parseInt(iso[2], 10), day: parseInt(iso[3], 10) };
+  }
+
+  const numeric = trimmed.match(NUMERIC_DATE_PATTERN);
+  if (numeric) {
+    let year = numeric[3] ? parseInt(numeric[3], 10) : null;
+    if (year !== null && numeric[3].length === 2) year += 2000;
+    return { year, month: parseInt(numeric[1], 10), day: parseInt(numeric[2], 10) };
+  }
+
+  const named = trimmed.match(MONTH_NAME_DATE_PATTERN);
+  if (named) {
+    // The month's name or an abbreviation of it ("Mar", "Sept")
+    const monthName = named[1].toLowerCase();
+    const monthIndex = MONTH_NAMES.findIndex((name) => name.startsWith(monthName));
+    if (monthIndex === -1) return null;
+    return { year: named[3] ? parseInt(named[3], 10) : null, month: monthIndex + 1, day: parseInt(named[2], 10) };
+  }
+
+  return null;
+}
+
+/**
+ * Build a UTC date, or null when the day doesn't exist in that month
+ */
+function buildDate(year: number, month: number, day: number): Date | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Reject rollovers such as 02/30
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+
+  return date;
+}
+
+/**
+ * Format a date as YYYY-MM-DD
+ */
+export function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Parse a date that prints its year, e.g. "March 12, 2024", "03/12/24" or
+ * "2024-03-12"
+ */
+export function parseStatementDate(text: string | null | undefined): Date | null {
+  if (!text) return null;
+
+  const parts = readDateParts(text);
+  if (!parts || parts.year === null) return null;
+
+  return buildDate(parts.year, parts.month, parts.day);
+}
+
+/**
+ * Parse a numeric date whose field order is known, e.g. "14/03/2024" as DMY
+ */
+export function parseOrderedDate(text: string | null | undefined, order: DateOrder): Date | null {
+  const match = text?.trim().match(ORDERED_DATE_PATTERN);
+  if (!match) return null;
+
+  const fields = match.slice(1, 4);
+  const [yearText, monthText, dayText] =
+    order === "YMD" ? fields : order === "MDY" ? [fields[2], fields[0], fields[1]] : [fields[2], fields[1], fields[0]];
+  if (yearText.length !== 2 && yearText.length !== 4) return null;
+  if (monthText.length > 2 || dayText.length > 2) return null;
+
+  const year = parseInt(yearText, 10) + (yearText.length === 2 ? 2000 : 0);
+  return buildDate(year, parseInt(monthText, 10), parseInt(dayText, 10));
+}
+
+/**
+ * Parse a statement period. Null when either date is unreadable or the
+ * period ends before it starts.
+ */
+export function resolveStatementPeriod(
+  start: string | null | undefined,
+  end: string | null | undefined
+): StatementPeriod | null {
+  const startDate = parseStatementDate(start);
+  const endDate = parseStatementDate(end);
+  if (!startDate || !endDate || startDate > endDate) return null;
+
+  return { start: startDate, end: endDate };
+}
+
+/**
+ * Parse a transaction row date. Rows without a year take the period end's
+ * year, or the year before when that would put the row after the period
+ * (December rows on a statement that closes in January).
+ */
+export function resolveTransactionDate(
+  text: string | null | undefined,
+  period?: StatementPeriod | null
+): Date | null {
+  if (!text) return null;
+
+  const parts = readDateParts(text);
+  if (!parts) return null;
+  if (parts.year !== null) return buildDate(parts.year, parts.month, parts.day);
+  if (!period) return null;
+
+  let year = period.end.getUTCFullYear();
+  // Compare without validating the day so Feb 29 picks its year like any other date
+  const sameYear = Date.UTC(year, parts.month - 1, parts.day);
+  if (sameYear - period.end.getTime() > PERIOD_END_GRACE_DAYS * DAY_MS) year -= 1;
+
+  return buildDate(year, parts.month, parts.day);
+}
+
+/**
+ * Rewrite a parsed statement's period, transaction and payment due dates as
+ * ISO dates.
+ * Dates that can't be resolved are left as printed so the row is flagged
+ * for review when it's stored.
+ */
+export function normalizeStatementDates(data: ProcessedStatementData): void {
+  const period = resolveStatementPeriod(data.statementPeriodStartDate, data.statementPeriodEndDate);
+  if (period) {
+    data.statementPeriodStartDate = toIsoDate(period.start);
+    data.statementPeriodEndDate = toIsoDate(period.end);
+  } else if (data.statementPeriodStartDate || data.statementPeriodEndDate) {
+    console.warn(`Unreadable statement period: ${data.statementPeriodStartDate} to ${data.statementPeriodEndDate}`);
+  }
+
+  let unresolved = 0;
+  for (const account of data.accounts) {
+    const paymentDueDate = parseStatementDate(account.metadata?.paymentDueDate);
+    if (account.metadata && paymentDueDate) {
+      account.metadata.paymentDueDate = toIsoDate(paymentDueDate);
+    }
+
+    for (const transactions of Object.values(account.allTransactions || {})) {
+      for (const transaction of transactions as Transaction[]) {
+        if (!transaction.date) continue;
+
+        const date = resolveTransactionDate(transaction.date, period);
+        if (date) {
+          transaction.date = toIsoDate(date);
+        } else {
+          unresolved++;
+        }
+      }
+    }
+  }
+
+  if (unresolved > 0) {
+    console.warn(`${unresolved} transaction dates could not be resolved`);
+  }
+}
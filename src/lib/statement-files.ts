@@ -0,0 +1,135 @@
+import { CSV_MIME_TYPE } from "./csv-import/csv-reader";
+import { OFX_MIME_TYPE } from "./ofx-import/ofx-reader";
+import { QIF_MIME_TYPE } from "./qif/qif-reader";
+import { CAMT_MIME_TYPE } from "./camt-import/camt-reader";
+import { MT940_MIME_TYPE } from "./mt940-import/mt940-reader";
+
+/**
+ * Statement files
+ *
+ * The kinds of file that can be uploaded. Browsers often report downloaded
+ * bank files without a type, as application/octet-stream or under another
+ * program's type (CSV as application/vnd.ms-excel on Windows), so those are
+ * recognized by their extension and stored under one MIME type.
+ */
+
+// The bank account a file without account details (CSV, QIF) was uploaded for
+export interface ImportAccount {
+  bankName: string;
+  accountNumberLast4: string;
+  accountType?: string | null;
+}
+
+/**
+ * The last four digits of an account id from a downloaded file, such as
+ * "123456789-01" or an IBAN
+ */
+export function getLastFour(accountId: string): string {
+  const digits = accountId.replace(/\D/g, "");
+  return (digits.length >= 4 ? digits : accountId).slice(-4);
+}
+
+// Storage bucket uploaded statement files are kept in, under the uploader's user id
+export const STATEMENT_UPLOAD_BUCKET = "statements";
+
+/**
+ * The path of a URL on the Supabase storage server, or null for URLs
+ * anywhere else. Repeated slashes are collapsed as readUploadedFile does.
+ */
+function getStoragePath(fileUrl: string): string | null {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  if (!supabaseUrl) return null;
+
+  let url: URL;
+  let storageUrl: URL;
+  try {
+    url = new URL(fileUrl);
+    storageUrl = new URL(supabaseUrl);
+  } catch {
+    return null;
+  }
+  if (url.origin !== storageUrl.origin) return null;
+
+  const basePath = storageUrl.pathname.replace(/\/+$/, "");
+  const pathname = url.pathname.replace(/\/{2,}/g, "/");
+  return pathname.startsWith(`${basePath}/storage/v1/object/`) ? pathname.slice(basePath.length) : null;
+}
+
+/**
+ * Whether a URL points at an object in the app's Supabase storage
+ */
+export function isStorageUrl(fileUrl: string): boolean {
+  return getStoragePath(fileUrl) !== null;
+}
+
+/**
+ * Whether a URL points at a file the user uploaded to the statements bucket.
+ * Use it before reading a URL a client sent, since readUploadedFile
+ * authenticates to storage with the service role key.
+ */
+export function isUserUploadUrl(fileUrl: string, userId: string): boolean {
+  const storagePath = getStoragePath(fileUrl);
+  // Encoded slashes could step out of the user's folder once the storage server decodes them
+  if (!storagePath || /%2f|%5c/i.test(storagePath)) return false;
+
+  return storagePath.startsWith(`/storage/v1/object/public/${STATEMENT_UPLOAD_BUCKET}/${encodeURIComponent(userId)}/`);
+}
+
+interface StatementFileType {
+  mimeType: string;
+  extensions: string[];
+  aliases?: string[]; // Other MIME types browsers report for these files
+}
+
+export const STATEMENT_FILE_TYPES: StatementFileType[] = [
+  { mimeType: "application/pdf", extensions: [".pdf"] },
+  { mimeType: "image/jpeg", extensions: [".jpg", ".jpeg"] },
+  { mimeType: "image/png", extensions: [".png"] },
+  { mimeType: CSV_MIME_TYPE, extensions: [".csv"], aliases: ["application/vnd.ms-excel"] },
+  {
+    mimeType: OFX_MIME_TYPE,
+    extensions: [".ofx", ".qfx"],
+    aliases: ["application/ofx", "application/x-qfx", "application/vnd.intu.qfx"],
+  },
+  { mimeType: QIF_MIME_TYPE, extensions: [".qif"], aliases: ["application/x-qif", "application/vnd.intu.qif"] },
+  { mimeType: CAMT_MIME_TYPE, extensions: [".xml", ".camt", ".053"], aliases: ["application/xml", "text/xml"] },
+  // Banks name MT940 files .sta, .940 or plain .txt
+  { mimeType: MT940_MIME_TYPE, extensions: [".sta", ".mt940", ".940", ".swi", ".txt"] },
+];
+
+// Types that say nothing about the file, so the extension decides
+const UNSPECIFIC_MIME_TYPES = ["", "application/octet-stream", "text/plain"];
+
+/**
+ * The MIME type an upload is stored under, or null when it isn't a
+ * supported statement file
+ */
+export function resolveStatementFileType(fileType: string | null | undefined, filename: string): string | null {
+  const exact = STATEMENT_FILE_TYPES.find((type) => type.mimeType === fileType);
+  if (exact) return exact.mimeType;
+
+  const lowerName = filename.toLowerCase();
+  const byExtension = STATEMENT_FILE_TYPES.find((type) =>
+    type.extensions.some((extension) => lowerName.endsWith(extension))
+  );
+  if (!byExtension) return null;
+
+  const reported = fileType ?? "";
+  return UNSPECIFIC_MIME_TYPES.includes(reported) || byExtension.aliases?.includes(reported)
+    ? byExtension.mimeType
+    : null;
+}
+
+/**
+ * File types for the upload dropzone: each MIME type, aliases included, with
+ * its extensions
+ */
+export function getStatementFileAccept(): Record<string, string[]> {
+  const accept: Record<string, string[]> = {};
+  for (const type of STATEMENT_FILE_TYPES) {
+    for (const mimeType of [type.mimeType, ...(type.aliases || [])]) {
+      accept[mimeType] = type.extensions;
+    }
+  }
+  return accept;
+}
@@ -0,0 +1,393 @@
+import type { AccountType, Prisma, PrismaClient, Statement } from "@/generated/prisma";
+import { decodeText, processUploadedFile, readUploadedFile } from "./file-processing";
+import { Account, ProcessedStatementData } from "./parsers";
+import { PersistableAccount, replaceStatementTransactions } from "./transaction-persistence";
+import { applyCategorizationRules } from "./categorization-rules";
+import { collectStatementReviewReasons } from "./statement-review";
+import { reconcileStatement, StatementReconciliation } from "./reconciliation";
+import { autoExportIfEnabled } from "./sheets";
+import { resolveStatementPeriod } from "./statement-dates";
+import { toCents, toDecimalString } from "./money";
+import { buildCsvStatement, isCsvFile } from "./csv-import";
+import { buildQifStatement, QIF_MIME_TYPE } from "./qif";
+import { type ImportAccount, resolveStatementFileType } from "./statement-files";
+
+/**
+ * Statement ingestion
+ *
+ * The one place an uploaded statement goes from a stored file to accounts
+ * and transactions in the database. Used by the statement router and the
+ * background job worker. PDFs and images are extracted and parsed, OFX,
+ * camt.053 and MT940 downloads are read as they are, and CSV and QIF
+ * exports are read as statements of the account chosen when they were
+ * uploaded (CSV with the column mapping chosen then too).
+ */
+
+const ACCOUNT_TYPES: AccountType[] = ["CHECKING", "SAVINGS", "CREDIT", "INVESTMENT", "OTHER"];
+
+// Product names printed on statements that map to a known account type
+const ACCOUNT_TYPE_ALIASES: Record<string, AccountType> = {
+  "Advantage Plus Banking": "CHECKING",
+};
+
+export interface IngestedAccount {
+  bankAccountId: string;
+  lastFourDigits: string;
+  created: boolean; // Whether the bank account was created by this statement
+  transactionCount: number;
+}
+
+export interface StatementIngestionResult {
+  statementId: string;
+  status: "COMPLETED" | "REVIEW_NEEDED";
+  reviewReasons: string[];
+  bankName: string;
+  periodStart: Date;
+  periodEnd: Date;
+  accounts: IngestedAccount[];
+  skippedAccounts: number; // Parsed accounts without last 4 digits
+  transactionCount: number;
+  flaggedCount: number; // Transactions marked as needing review
+  categorizedCount: number;
+  reconciliation: StatementReconciliation;
+}
+
+/**
+ * Map the account type text from a parser to the AccountType enum
+ */
+export function mapAccountType(accountType: string | null | undefined): AccountType {
+  if (!accountType) return "OTHER";
+  if (ACCOUNT_TYPE_ALIASES[accountType]) return ACCOUNT_TYPE_ALIASES[accountType];
+  return ACCOUNT_TYPES.includes(accountType as AccountType) ? (accountType as AccountType) : "OTHER";
+}
+
+/**
+ * Guess the MIME type for statements uploaded before it was stored
+ */
+export function getStatementFileType(statement: { filename: string; fileType: string | null }): string {
+  if (statement.fileType) return statement.fileType;
+  return resolveStatementFileType(null, statement.filename) ?? "image/jpeg";
+}
+
+/**
+ * The bank account a file without account details was uploaded for
+ * @throws When the statement isn't linked to an account with an account number
+ */
+function toImportAccount(
+  accounts: { financialInstitution: string; lastFourDigits: string | null; accountType: AccountType }[],
+  format: string
+): ImportAccount {
+  const bankAccount = accounts.find((account) => account.lastFourDigits);
+  if (!bankAccount?.lastFourDigits) {
+    throw new Error(`${format} statement is not linked to a bank account with an account number`);
+  }
+
+  return {
+    bankName: bankAccount.financialInstitution,
+    accountNumberLast4: bankAccount.lastFourDigits,
+    accountType: bankAccount.accountType,
+  };
+}
+
+/**
+ * Turns uploaded statements into accounts and transactions
+ */
+export class StatementIngestionService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Extract and parse a stored statement file, then save its data.
+   * Errors are thrown and the statement is left in PROCESSING so the caller
+   * can decide between retrying and markFailed.
+   */
+  public async ingest(statementId: string): Promise<StatementIngestionResult> {
+    const statement = await this.prisma.statement.findUnique({
+      where: { id: statementId },
+    });
+
+    if (!statement) {
+      throw new Error(`Statement ${statementId} not found`);
+    }
+
+    if (!statement.storageUrl) {
+      throw new Error("Statement has no storage URL");
+    }
+
+    // Update status to processing
+    await this.prisma.statement.update({
+      where: { id: statement.id },
+      data: { status: "PROCESSING", errorMessage: null },
+    });
+
+    const fileType = getStatementFileType(statement);
+    if (isCsvFile(fileType, statement.filename)) {
+      return this.ingestParsed(statement, await this.readCsvStatement(statement.id, statement.storageUrl));
+    }
+    if (fileType === QIF_MIME_TYPE) {
+      return this.ingestParsed(statement, await this.readQifStatement(statement.id, statement.storageUrl));
+    }
+
+    // Process the file with Vision AI
+    const processingResult = await processUploadedFile(statement.storageUrl, fileType);
+
+    if (!processingResult.success || !processingResult.data) {
+      throw new Error(processingResult.error || "Failed to process statement text");
+    }
+
+    return this.ingestParsed(statement, processingResult.data);
+  }
+
+  /**
+   * Save already parsed statement data: match or create bank accounts,
+   * replace the statement's transactions, categorize them and mark the
+   * statement COMPLETED, or REVIEW_NEEDED when the results look unreliable
+   */
+  public async ingestParsed(statement: Statement, data: ProcessedStatementData): Promise<StatementIngestionResult> {
+    // Check required fields in the data
+    const { bankName, accounts, statementPeriodStartDate, statementPeriodEndDate } = data;
+    if (!bankName || !accounts || accounts.length === 0 || !statementPeriodStartDate || !statementPeriodEndDate) {
+      throw new Error("Incomplete statement data: missing bank name, accounts, or statement period");
+    }
+
+    const period = resolveStatementPeriod(statementPeriodStartDate, statementPeriodEndDate);
+    if (!period) {
+      throw new Error(`Unreadable statement period: ${statementPeriodStartDate} to ${statementPeriodEndDate}`);
+    }
+    const { start: periodStart, end: periodEnd } = period;
+
+    console.log(`Statement contains ${accounts.length} accounts`);
+
+    const ingestedAccounts: IngestedAccount[] = [];
+    // Parsed accounts paired with their bank account, for transaction persistence
+    const persistableAccounts: PersistableAccount[] = [];
+    let skippedAccounts = 0;
+
+    for (let i = 0; i < accounts.length; i++) {
+      const account = accounts[i];
+
+      // Skip accounts without last 4 digits (can't reliably identify)
+      if (!account.accountNumberLast4) {
+        console.log(`Skipping account at index ${i} without last 4 digits`);
+        skippedAccounts++;
+        continue;
+      }
+
+      const { bankAccountId, created } = await this.resolveBankAccount(statement.userId, bankName, account);
+      persistableAccounts.push({ account, bankAccountId });
+
+      if (!ingestedAccounts.some((ingested) => ingested.bankAccountId === bankAccountId)) {
+        ingestedAccounts.push({
+          bankAccountId,
+          lastFourDigits: account.accountNumberLast4,
+          created,
+          transactionCount: 0,
+        });
+      }
+    }
+
+    // Store the parsed transactions, replacing any from a previous run
+    const categoryIds = await this.resolveCategoryIds(statement.userId, accounts);
+    const rows = await replaceStatementTransactions(this.prisma, statement.id, persistableAccounts, period, categoryIds);
+
+    for (const ingested of ingestedAccounts) {
+      ingested.transactionCount = rows.filter((row) => row.bankAccountId === ingested.bankAccountId).length;
+    }
+
+    // Categorize the new transactions with the user's rules; categories
+    // given in the file are kept
+    const categorization = await applyCategorizationRules(this.prisma, statement.userId, {
+      statementId: statement.id,
+    });
+
+    // Check the rows against the balances and totals printed on the statement
+    const reconciliation = reconcileStatement(persistableAccounts, rows);
+
+    // Low-confidence results wait in the review queue instead of completing
+    const reviewReasons = collectStatementReviewReasons({
+      bankName,
+      skippedAccounts,
+      rows,
+      reconciliation,
+      parserReasons: data.reviewReasons,
+    });
+    const status = reviewReasons.length > 0 ? "REVIEW_NEEDED" : "COMPLETED";
+
+    // Link exactly the accounts found in this run, dropping links from earlier runs
+    await this.prisma.statement.update({
+      where: { id: statement.id },
+      data: {
+        status,
+        reviewReasons,
+        reconciliation: reconciliation as unknown as Prisma.InputJsonValue,
+        processedTimestamp: new Date(),
+        errorMessage: null,
+        periodStart,
+        periodEnd,
+        accounts: {
+          set: ingestedAccounts.map((account) => ({ id: account.bankAccountId })),
+        },
+      },
+    });
+
+    if (status === "REVIEW_NEEDED") {
+      console.log(`Statement ${statement.id} needs review: ${reviewReasons.join("; ")}`);
+    } else {
+      console.log(`Statement ${statement.id} processed successfully with ${ingestedAccounts.length} accounts`);
+
+      // Push the new transactions to Google Sheets if the user enabled it;
+      // for statements in review this happens when they are approved
+      await autoExportIfEnabled(this.prisma, statement.userId);
+    }
+
+    return {
+      statementId: statement.id,
+      status,
+      reviewReasons,
+      bankName,
+      periodStart,
+      periodEnd,
+      accounts: ingestedAccounts,
+      skippedAccounts,
+      transactionCount: rows.length,
+      flaggedCount: rows.filter((row) => row.needsReview).length,
+      categorizedCount: categorization.changes.length,
+      reconciliation,
+    };
+  }
+
+  /**
+   * Mark a statement as failed with the error that stopped it
+   */
+  public async markFailed(statementId: string, error: unknown): Promise<Statement> {
+    return this.prisma.statement.update({
+      where: { id: statementId },
+      data: {
+        status: "FAILED",
+        errorMessage: error instanceof Error ? error.message : "Unknown error",
+        processedTimestamp: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Read a CSV upload with its import profile, as a statement of the bank
+   * account it was uploaded for
+   */
+  private async readCsvStatement(statementId: string, storageUrl: string): Promise<ProcessedStatementData> {
+    const { importProfile, accounts } = await this.prisma.statement.findUniqueOrThrow({
+      where: { id: statementId },
+      include: { importProfile: true, accounts: true },
+    });
+
+    if (!importProfile) {
+      throw new Error("CSV statement has no column mapping");
+    }
+
+    const file = await readUploadedFile(storageUrl);
+    return buildCsvStatement(decodeText(file), importProfile, toImportAccount(accounts, "CSV"));
+  }
+
+  /**
+   * Read a QIF upload as a statement of the bank account it was uploaded for
+   */
+  private async readQifStatement(statementId: string, storageUrl: string): Promise<ProcessedStatementData> {
+    const { accounts } = await this.prisma.statement.findUniqueOrThrow({
+      where: { id: statementId },
+      include: { accounts: true },
+    });
+
+    const file = await readUploadedFile(storageUrl);
+    return buildQifStatement(decodeText(file), toImportAccount(accounts, "QIF"));
+  }
+
+  /**
+   * Category ids for the category names parsed transactions carry, by
+   * lowercase name. A name matches a category of the user ignoring case, or
+   * by its last part ("Auto:Fuel" matches Fuel); categories that match
+   * neither are created.
+   */
+  private async resolveCategoryIds(userId: string, accounts: Account[]): Promise<Map<string, string>> {
+    const categoryIds = new Map<string, string>();
+    const names = [
+      ...new Set(
+        accounts
+          .flatMap((account) => Object.values(account.allTransactions || {}).flat())
+          .map((transaction) => transaction.category?.trim())
+          .filter((name): name is string => !!name)
+      ),
+    ];
+    if (names.length === 0) return categoryIds;
+
+    const categories = await this.prisma.category.findMany({ where: { userId } });
+    const findCategory = (name: string) =>
+      categories.find((category) => category.name.toLowerCase() === name.toLowerCase());
+
+    for (const name of names) {
+      const leaf = name.split(":").pop()!.trim();
+      let category = findCategory(name) ?? findCategory(leaf);
+      if (!category) {
+        category = await this.prisma.category.create({ data: { userId, name } });
+        categories.push(category);
+      }
+      categoryIds.set(name.toLowerCase(), category.id);
+    }
+
+    return categoryIds;
+  }
+
+  /**
+   * Find the user's bank account for a parsed account, creating it if needed.
+   * Accounts from downloaded files match on their full account id first, then
+   * on the last 4 digits like statements, which don't print the full id.
+   * The ending balance of an existing account is updated.
+   */
+  private async resolveBankAccount(
+    userId: string,
+    bankName: string,
+    account: Account
+  ): Promise<{ bankAccountId: string; created: boolean }> {
+    const endingBalance = account.metadata?.endingBalance;
+
+    const bankAccount =
+      (account.accountId
+        ? await this.prisma.bankAccount.findFirst({
+            where: { userId, financialInstitution: bankName, externalAccountId: account.accountId },
+          })
+        : null) ??
+      (await this.prisma.bankAccount.findFirst({
+        where: {
+          userId,
+          financialInstitution: bankName,
+          lastFourDigits: account.accountNumberLast4,
+        },
+      }));
+
+    if (bankAccount) {
+      const data: Prisma.BankAccountUpdateInput = {};
+      if (endingBalance !== undefined) data.balance = toDecimalString(toCents(endingBalance));
+      if (account.accountId && !bankAccount.externalAccountId) data.externalAccountId = account.accountId;
+
+      if (Object.keys(data).length > 0) {
+        await this.prisma.bankAccount.update({
+          where: { id: bankAccount.id },
+          data,
+        });
+      }
+      return { bankAccountId: bankAccount.id, created: false };
+    }
+
+    const createdAccount = await this.prisma.bankAccount.create({
+      data: {
+        userId,
+        name: account.accountType || `${bankName} Account`,
+        financialInstitution: bankName,
+        accountType: mapAccountType(account.accountType),
+        lastFourDigits: account.accountNumberLast4,
+        externalAccountId: account.accountId || null,
+        balance: endingBalance !== undefined ? toDecimalString(toCents(endingBalance)) : null,
+      },
+    });
+
+    return { bankAccountId: createdAccount.id, created: true };
+  }
+}
@@ -0,0 +1,56 @@
+import type { TransactionRow } from "./transaction-persistence";
+import { getReconciliationReviewReasons, StatementReconciliation } from "./reconciliation";
+
+/**
+ * Statement review
+ *
+ * Decides whether a parsed statement can be trusted as-is or should wait in
+ * the review queue. Each reason is stored on Statement.reviewReasons and
+ * shown on the review page.
+ */
+
+interface ReviewInput {
+  bankName: string;
+  skippedAccounts: number;
+  rows: TransactionRow[];
+  reconciliation: StatementReconciliation;
+  parserReasons?: string[]; // reasons the parser itself reported
+}
+
+/**
+ * List the reasons a processed statement needs review (empty when it doesn't)
+ */
+export function collectStatementReviewReasons({
+  bankName,
+  skippedAccounts,
+  rows,
+  reconciliation,
+  parserReasons = [],
+}: ReviewInput): string[] {
+  const reasons: string[] = [...parserReasons];
+
+  if (!bankName || bankName === "Unknown") {
+    reasons.push("Unknown bank, the statement was read with the generic parser");
+  }
+
+  if (skippedAccounts > 0) {
+    reasons.push(
+      skippedAccounts === 1
+        ? "1 account without an account number was skipped"
+        : `${skippedAccounts} accounts without an account number were skipped`
+    );
+  }
+
+  if (rows.length === 0) {
+    reasons.push("No transactions were found");
+  }
+
+  const flaggedRows = rows.filter((row) => row.needsReview).length;
+  if (flaggedRows > 0) {
+    reasons.push(flaggedRows === 1 ? "1 transaction needs review" : `${flaggedRows} transactions need review`);
+  }
+
+  reasons.push(...getReconciliationReviewReasons(reconciliation));
+
+  return reasons;
+}
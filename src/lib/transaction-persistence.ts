@@ -0,0 +1,299 @@
+import type { PrismaClient, Transaction as StoredTransaction } from "@/generated/prisma";
+import { Account, Transaction as ParsedTransaction } from "./parsers";
+import { resolveTransactionDate, type StatementPeriod } from "./statement-dates";
+import { isWholeCents, toCents, toDecimalString } from "./money";
+
+/**
+ * Transaction persistence
+ *
+ * Flattens the per-account transaction buckets produced by the statement
+ * parsers into rows of the Transaction table.
+ */
+
+// Parser bucket key -> TransactionBucket enum value
+export const TRANSACTION_BUCKETS = {
+  deposits: "DEPOSIT",
+  atmDebit: "ATM_DEBIT",
+  withdrawals: "WITHDRAWAL",
+  checks: "CHECK",
+  fees: "FEE",
+  other: "OTHER",
+  purchases: "PURCHASE",
+  payments: "PAYMENT",
+  credits: "CREDIT",
+  interest: "INTEREST",
+} as const;
+
+export type TransactionBucket = (typeof TRANSACTION_BUCKETS)[keyof typeof TRANSACTION_BUCKETS];
+
+// A parsed account together with the BankAccount row it was matched to
+export interface PersistableAccount {
+  account: Account;
+  bankAccountId: string;
+}
+
+export interface TransactionRow {
+  statementId: string;
+  bankAccountId: string;
+  transactionDate: Date | null;
+  valueDate: Date | null;
+  description: string;
+  counterparty: string | null;
+  amount: string;
+  bucket: TransactionBucket;
+  originalText: string | null;
+  needsReview: boolean;
+  reviewReason: string | null;
+  externalId: string | null;
+  categoryId: string | null;
+  categoryRuleId: string | null;
+  reviewedAt: Date | null;
+  sheetsExportedAt: Date | null;
+}
+
+// Transaction.reviewReason values set during persistence
+export const TRANSACTION_REVIEW_REASONS = {
+  missingAmount: "Missing amount",
+  invalidAmount: "Amount is not a whole number of cents",
+  missingDate: "Missing date",
+  unparseableDate: "Unparseable date",
+} as const;
+
+/**
+ * Build Transaction rows for every bucketed transaction of a parsed account.
+ * Rows without a usable amount (missing, or not a whole number of cents) are
+ * kept with a zero amount and flagged for review.
+ * @param categoryIds Category ids by lowercase name, for transactions whose
+ * file gave a category
+ */
+export function buildTransactionRows(
+  statementId: string,
+  { account, bankAccountId }: PersistableAccount,
+  period?: StatementPeriod | null,
+  categoryIds?: Map<string, string>
+): TransactionRow[] {
+  if (!account.allTransactions) return [];
+
+  const rows: TransactionRow[] = [];
+
+  for (const [bucketKey, transactions] of Object.entries(account.allTransactions)) {
+    const bucket: TransactionBucket =
+      TRANSACTION_BUCKETS[bucketKey as keyof typeof TRANSACTION_BUCKETS] || "OTHER";
+
+    for (const transaction of transactions as ParsedTransaction[]) {
+      const hasAmount = typeof transaction.amount === "number";
+      const validAmount = hasAmount && isWholeCents(transaction.amount as number);
+      const transactionDate = resolveTransactionDate(transaction.date, period);
+
+      // Rows the parser couldn't fully read are stored for review rather than dropped
+      let reviewReason: string | null = null;
+      if (!hasAmount) {
+        reviewReason = TRANSACTION_REVIEW_REASONS.missingAmount;
+      } else if (!validAmount) {
+        reviewReason = TRANSACTION_REVIEW_REASONS.invalidAmount;
+      } else if (!transactionDate) {
+        reviewReason = transaction.date
+          ? TRANSACTION_REVIEW_REASONS.unparseableDate
+          : TRANSACTION_REVIEW_REASONS.missingDate;
+      }
+
+      rows.push({
+        statementId,
+        bankAccountId,
+        transactionDate,
+        valueDate: resolveTransactionDate(transaction.valueDate, period),
+        description: transaction.description?.trim() || "",
+        counterparty: transaction.counterparty?.trim() || null,
+        amount: validAmount ? toDecimalString(toCents(transaction.amount as number)) : "0.00",
+        bucket,
+        originalText: transaction.rawRowText || null,
+        needsReview: reviewReason !== null,
+        reviewReason,
+        externalId: transaction.externalId || null,
+        categoryId: (transaction.category && categoryIds?.get(transaction.category.toLowerCase())) || null,
+        categoryRuleId: null,
+        reviewedAt: null,
+        sheetsExportedAt: null,
+      });
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Drop rows the bank identifies (externalId) that are already stored for
+ * their account by another statement, or repeated within this one, so
+ * overlapping downloads don't import a transaction twice
+ */
+async function dropImportedRows(
+  prisma: PrismaClient,
+  statementId: string,
+  rows: TransactionRow[]
+): Promise<TransactionRow[]> {
+  const externalIds = rows.map((row) => row.externalId).filter((id): id is string => !!id);
+  if (externalIds.length === 0) return rows;
+
+  const imported = await prisma.transaction.findMany({
+    where: {
+      statementId: { not: statementId },
+      bankAccountId: { in: [...new Set(rows.map((row) => row.bankAccountId))] },
+      externalId: { in: externalIds },
+    },
+    select: { bankAccountId: true, externalId: true },
+  });
+
+  const seen = new Set(imported.map((transaction) => `${transaction.bankAccountId}:${transaction.externalId}`));
+  const kept = rows.filter((row) => {
+    if (!row.externalId) return true;
+    const key = `${row.bankAccountId}:${row.externalId}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  if (kept.length < rows.length) {
+    console.log(`Skipped ${rows.length - kept.length} transactions that were already imported`);
+  }
+  return kept;
+}
+
+// The stored fields a reprocessed row is matched on and takes over
+type PreviousRow = Pick<
+  StoredTransaction,
+  | "bankAccountId"
+  | "transactionDate"
+  | "description"
+  | "amount"
+  | "bucket"
+  | "originalText"
+  | "externalId"
+  | "categoryId"
+  | "categoryRuleId"
+  | "reviewedAt"
+  | "sheetsExportedAt"
+>;
+
+type MatchableRow = Pick<
+  PreviousRow,
+  "bankAccountId" | "transactionDate" | "description" | "originalText" | "externalId"
+> & { amount: PreviousRow["amount"] | string };
+
+// Ways to recognize a row from an earlier run, most reliable first: the
+// bank's id, the text it was read from, then what it says
+const MATCH_KEYS: Array<(row: MatchableRow) => string | null> = [
+  (row) => (row.externalId ? `${row.bankAccountId}:id:${row.externalId}` : null),
+  (row) => (row.originalText ? `${row.bankAccountId}:text:${row.originalText}` : null),
+  (row) =>
+    `${row.bankAccountId}:${row.transactionDate?.toISOString() ?? ""}:` +
+    `${toDecimalString(toCents(row.amount))}:${row.description}`,
+];
+
+/**
+ * Pair parsed rows with the rows an earlier run of the statement stored.
+ * Identical rows are paired in order.
+ */
+function matchPreviousRows(rows: TransactionRow[], previousRows: PreviousRow[]): Map<TransactionRow, PreviousRow> {
+  const matches = new Map<TransactionRow, PreviousRow>();
+  let unmatched = previousRows;
+
+  for (const getKey of MATCH_KEYS) {
+    const candidates = new Map<string, PreviousRow[]>();
+    for (const previous of unmatched) {
+      const key = getKey(previous);
+      if (key) candidates.set(key, [...(candidates.get(key) ?? []), previous]);
+    }
+
+    for (const row of rows) {
+      if (matches.has(row)) continue;
+      const key = getKey(row);
+      const previous = key ? candidates.get(key)?.shift() : undefined;
+      if (previous) matches.set(row, previous);
+    }
+
+    const matched = new Set(matches.values());
+    unmatched = unmatched.filter((previous) => !matched.has(previous));
+  }
+
+  return matches;
+}
+
+/**
+ * Keep what happened to a row after it was first stored: its category,
+ * corrections made in review and whether it was exported to Google Sheets
+ */
+function carryOver(row: TransactionRow, previous: PreviousRow): TransactionRow {
+  const carried: TransactionRow = {
+    ...row,
+    categoryId: previous.categoryId ?? row.categoryId,
+    categoryRuleId: previous.categoryId ? previous.categoryRuleId : null,
+    sheetsExportedAt: previous.sheetsExportedAt,
+  };
+
+  if (!previous.reviewedAt) return carried;
+
+  return {
+    ...carried,
+    transactionDate: previous.transactionDate,
+    description: previous.description,
+    amount: toDecimalString(toCents(previous.amount)),
+    bucket: previous.bucket,
+    needsReview: false,
+    reviewReason: null,
+    reviewedAt: previous.reviewedAt,
+  };
+}
+
+/**
+ * Replace all transactions of a statement with the parsed ones.
+ * Deleting first keeps reprocessing idempotent; rows that were stored
+ * before keep their category and review corrections.
+ * @returns The rows written
+ */
+export async function replaceStatementTransactions(
+  prisma: PrismaClient,
+  statementId: string,
+  accounts: PersistableAccount[],
+  period?: StatementPeriod | null,
+  categoryIds?: Map<string, string>
+): Promise<TransactionRow[]> {
+  const parsedRows = await dropImportedRows(
+    prisma,
+    statementId,
+    accounts.flatMap((account) => buildTransactionRows(statementId, account, period, categoryIds))
+  );
+
+  const previousRows = await prisma.transaction.findMany({
+    where: { statementId },
+    select: {
+      bankAccountId: true,
+      transactionDate: true,
+      description: true,
+      amount: true,
+      bucket: true,
+      originalText: true,
+      externalId: true,
+      categoryId: true,
+      categoryRuleId: true,
+      reviewedAt: true,
+      sheetsExportedAt: true,
+    },
+    orderBy: { createdAt: "asc" },
+  });
+  const matches = matchPreviousRows(parsedRows, previousRows);
+  const rows = parsedRows.map((row) => {
+    const previous = matches.get(row);
+    return previous ? carryOver(row, previous) : row;
+  });
+
+  await prisma.$transaction([
+    prisma.transaction.deleteMany({ where: { statementId } }),
+    prisma.transaction.createMany({ data: rows }),
+  ]);
+
+  if (matches.size > 0) {
+    console.log(`Kept the categories and corrections of ${matches.size} previously stored transactions`);
+  }
+  console.log(`Stored ${rows.length} transactions for statement ${statementId}`);
+  return rows;
+}
@@ -24,5 +24,6 @@ export const config = {
     "/settings/:path*",
     "/upload/:path*",
     "/review/:path*",
+    "/export/:path*",
   ],
 };
@@ -1,10 +1,26 @@
 import { createTRPCRouter } from "./trpc";
 import { userRouter } from "./routers/user";
 import { statementRouter } from "./routers/statement";
+import { bankAccountRouter } from "./routers/bank-account";
+import { transactionRouter } from "./routers/transaction";
+import { categoryRouter } from "./routers/category";
+import { categorizationRuleRouter } from "./routers/categorization-rule";
+import { googleSheetsRouter } from "./routers/google-sheets";
+import { reviewRouter } from "./routers/review";
+import { csvImportRouter } from "./routers/csv-import";
+import { ledgerExportRouter } from "./routers/ledger-export";
 
 export const appRouter = createTRPCRouter({
   user: userRouter,
   statement: statementRouter,
+  bankAccount: bankAccountRouter,
+  transaction: transactionRouter,
+  category: categoryRouter,
+  categorizationRule: categorizationRuleRouter,
+  googleSheets: googleSheetsRouter,
+  review: reviewRouter,
+  csvImport: csvImportRouter,
+  ledgerExport: ledgerExportRouter,
 });
 
 export type AppRouter = typeof appRouter;
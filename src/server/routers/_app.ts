@@ -1,10 +1,24 @@
 import { createTRPCRouter } from "@/server/trpc";
 import { statementRouter } from "./statement";
 import { bankAccountRouter } from "./bank-account";
+import { transactionRouter } from "./transaction";
+import { categoryRouter } from "./category";
+import { categorizationRuleRouter } from "./categorization-rule";
+import { googleSheetsRouter } from "./google-sheets";
+import { reviewRouter } from "./review";
+import { csvImportRouter } from "./csv-import";
+import { ledgerExportRouter } from "./ledger-export";
 
 export const appRouter = createTRPCRouter({
   statement: statementRouter,
   bankAccount: bankAccountRouter,
+  transaction: transactionRouter,
+  category: categoryRouter,
+  categorizationRule: categorizationRuleRouter,
+  googleSheets: googleSheetsRouter,
+  review: reviewRouter,
+  csvImport: csvImportRouter,
+  ledgerExport: ledgerExportRouter,
 });
 
 export type AppRouter = typeof appRouter; 
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { createTRPCRouter, protectedProcedure } from "@/server/trpc";
 import { TRPCError } from "@trpc/server";
+import { moneyInputSchema, toCents, toDecimalString } from "@/lib/money";
 
 export const bankAccountRouter = createTRPCRouter({
   // Get all bank accounts for the current user
@@ -68,7 +69,7 @@ export const bankAccountRouter = createTRPCRouter({
         financialInstitution: z.string(),
         accountType: z.enum(["CHECKING", "SAVINGS", "CREDIT", "INVESTMENT", "OTHER"]),
         lastFourDigits: z.string().min(4).max(4).optional(),
-        balance: z.number().optional(),
+        balance: moneyInputSchema.optional(),
         notes: z.string().optional(),
         color: z.string().optional(),
         institutionLogo: z.string().optional(),
@@ -108,7 +109,7 @@ export const bankAccountRouter = createTRPCRouter({
             financialInstitution: input.financialInstitution,
             accountType: input.accountType,
             lastFourDigits: input.lastFourDigits,
-            balance: input.balance ? input.balance.toString() : null,
+            balance: input.balance !== undefined ? toDecimalString(toCents(input.balance)) : null,
             notes: input.notes,
             color: input.color,
             institutionLogo: input.institutionLogo,
@@ -134,7 +135,7 @@ export const bankAccountRouter = createTRPCRouter({
         financialInstitution: z.string().optional(),
         accountType: z.enum(["CHECKING", "SAVINGS", "CREDIT", "INVESTMENT", "OTHER"]).optional(),
         lastFourDigits: z.string().min(4).max(4).optional(),
-        balance: z.number().optional(),
+        balance: moneyInputSchema.optional(),
         notes: z.string().optional(),
         color: z.string().optional(),
         institutionLogo: z.string().optional(),
@@ -192,7 +193,7 @@ export const bankAccountRouter = createTRPCRouter({
             financialInstitution: input.financialInstitution,
             accountType: input.accountType,
             lastFourDigits: input.lastFourDigits,
-            balance: input.balance !== undefined ? input.balance.toString() : undefined,
+            balance: input.balance !== undefined ? toDecimalString(toCents(input.balance)) : undefined,
             notes: input.notes,
             color: input.color,
             institutionLogo: input.institutionLogo,
@@ -0,0 +1,410 @@
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "@/server/trpc";
+import { TRPCError } from "@trpc/server";
+import type { PrismaClient } from "@/generated/prisma";
+import { moneyInputSchema } from "@/lib/money";
+import {
+  applyCategorizationRules,
+  suggestRulePattern,
+  validateRulePattern,
+} from "@/lib/categorization-rules";
+
+const ruleConditionsSchema = z.object({
+  descriptionPattern: z.string().nullable().optional(),
+  matchType: z.enum(["CONTAINS", "REGEX"]).optional(),
+  minAmount: moneyInputSchema.refine((amount) => amount >= 0, "Must not be negative").nullable().optional(),
+  maxAmount: moneyInputSchema.refine((amount) => amount >= 0, "Must not be negative").nullable().optional(),
+  bankAccountId: z.string().nullable().optional(),
+  bucket: z.enum(["DEPOSIT", "ATM_DEBIT", "WITHDRAWAL", "CHECK", "FEE", "OTHER", "PURCHASE", "PAYMENT", "CREDIT", "INTEREST"]).nullable().optional(),
+  dayOfMonthFrom: z.number().int().min(1).max(31).nullable().optional(),
+  dayOfMonthTo: z.number().int().min(1).max(31).nullable().optional(),
+}).refine(
+  ({ minAmount, maxAmount }) => minAmount == null || maxAmount == null || minAmount <= maxAmount,
+  { message: "Must not be less than the minimum amount", path: ["maxAmount"] }
+);
+
+/**
+ * Reject a bank account that isn't the user's
+ */
+async function assertOwnBankAccount(
+  prisma: PrismaClient,
+  userId: string,
+  bankAccountId: string | null | undefined
+) {
+  if (!bankAccountId) return;
+
+  const bankAccount = await prisma.bankAccount.findFirst({
+    where: {
+      id: bankAccountId,
+      userId,
+    },
+  });
+
+  if (!bankAccount) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Bank account not found",
+    });
+  }
+}
+
+/**
+ * Reject a rule pattern that can't be compiled
+ */
+function assertValidPattern(pattern: string | null | undefined, matchType: "CONTAINS" | "REGEX" = "CONTAINS") {
+  if (!pattern) return;
+
+  const error = validateRulePattern(pattern, matchType);
+  if (error) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Invalid description pattern: ${error}`,
+    });
+  }
+}
+
+export const categorizationRuleRouter = createTRPCRouter({
+  // Get all rules for the current user in the order they are applied
+  getAll: protectedProcedure.query(async ({ ctx }) => {
+    if (!ctx.session.user.id) {
+      throw new TRPCError({
+        code: "UNAUTHORIZED",
+        message: "User ID is not available",
+      });
+    }
+
+    const rules = await ctx.prisma.categorizationRule.findMany({
+      where: {
+        userId: ctx.session.user.id,
+      },
+      orderBy: [{ priority: "asc" }, { id: "asc" }],
+      include: {
+        category: true,
+        bankAccount: true,
+      },
+    });
+
+    return rules;
+  }),
+
+  // Create a new rule
+  create: protectedProcedure
+    .input(
+      ruleConditionsSchema.and(z.object({
+        name: z.string().trim().min(1),
+        categoryId: z.string(),
+        priority: z.number().int().optional(),
+        enabled: z.boolean().optional(),
+      }))
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.session.user.id) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "User ID is not available",
+        });
+      }
+
+      assertValidPattern(input.descriptionPattern, input.matchType);
+
+      const category = await ctx.prisma.category.findFirst({
+        where: {
+          id: input.categoryId,
+          userId: ctx.session.user.id,
+        },
+      });
+
+      if (!category) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Category not found",
+        });
+      }
+
+      await assertOwnBankAccount(ctx.prisma, ctx.session.user.id, input.bankAccountId);
+
+      try {
+        const rule = await ctx.prisma.categorizationRule.create({
+          data: {
+            ...input,
+            userId: ctx.session.user.id,
+          },
+        });
+
+        return rule;
+      } catch (error) {
+        console.error("Error creating categorization rule:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to create categorization rule",
+        });
+      }
+    }),
+
+  // Update an existing rule
+  update: protectedProcedure
+    .input(
+      ruleConditionsSchema.and(z.object({
+        id: z.string(),
+        name: z.string().trim().min(1).optional(),
+        categoryId: z.string().optional(),
+        priority: z.number().int().optional(),
+        enabled: z.boolean().optional(),
+      }))
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.session.user.id) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "User ID is not available",
+        });
+      }
+
+      const existingRule = await ctx.prisma.categorizationRule.findFirst({
+        where: {
+          id: input.id,
+          userId: ctx.session.user.id,
+        },
+      });
+
+      if (!existingRule) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Rule not found",
+        });
+      }
+
+      assertValidPattern(
+        input.descriptionPattern !== undefined ? input.descriptionPattern : existingRule.descriptionPattern,
+        input.matchType ?? existingRule.matchType
+      );
+
+      // The schema only sees the bounds being changed
+      const minAmount = input.minAmount !== undefined ? input.minAmount : existingRule.minAmount?.toNumber();
+      const maxAmount = input.maxAmount !== undefined ? input.maxAmount : existingRule.maxAmount?.toNumber();
+      if (minAmount != null && maxAmount != null && minAmount > maxAmount) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "The maximum amount must not be less than the minimum amount",
+        });
+      }
+
+      if (input.categoryId) {
+        const category = await ctx.prisma.category.findFirst({
+          where: {
+            id: input.categoryId,
+            userId: ctx.session.user.id,
+          },
+        });
+
+        if (!category) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Category not found",
+          });
+        }
+      }
+
+      await assertOwnBankAccount(ctx.prisma, ctx.session.user.id, input.bankAccountId);
+
+      const { id, ...data } = input;
+
+      try {
+        const updatedRule = await ctx.prisma.categorizationRule.update({
+          where: { id },
+          data,
+        });
+
+        // Categories the rule assigned before the edit are redone
+        await applyCategorizationRules(ctx.prisma, ctx.session.user.id);
+
+        return updatedRule;
+      } catch (error) {
+        console.error("Error updating categorization rule:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to update categorization rule",
+        });
+      }
+    }),
+
+  // Delete a rule; transactions it categorized are run through the remaining rules
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.session.user.id) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "User ID is not available",
+        });
+      }
+
+      const rule = await ctx.prisma.categorizationRule.findFirst({
+        where: {
+          id: input.id,
+          userId: ctx.session.user.id,
+        },
+      });
+
+      if (!rule) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Rule not found",
+        });
+      }
+
+      // Deleting the rule unlinks its transactions, which would then look categorized by hand
+      await ctx.prisma.$transaction([
+        ctx.prisma.transaction.updateMany({
+          where: { categoryRuleId: input.id },
+          data: { categoryId: null, categoryRuleId: null },
+        }),
+        ctx.prisma.categorizationRule.delete({
+          where: { id: input.id },
+        }),
+      ]);
+
+      const result = await applyCategorizationRules(ctx.prisma, ctx.session.user.id);
+
+      return {
+        success: true,
+        updatedTransactions: result.changes.length,
+      };
+    }),
+
+  // Set rule priorities from an ordered list of rule IDs
+  reorder: protectedProcedure
+    .input(z.object({ ruleIds: z.array(z.string()).min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.session.user.id) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "User ID is not available",
+        });
+      }
+
+      const ownedRules = await ctx.prisma.categorizationRule.count({
+        where: {
+          id: { in: input.ruleIds },
+          userId: ctx.session.user.id,
+        },
+      });
+
+      if (ownedRules !== input.ruleIds.length) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Rule not found",
+        });
+      }
+
+      // Leave gaps between priorities so a rule can be slotted in later
+      await ctx.prisma.$transaction(
+        input.ruleIds.map((id, index) =>
+          ctx.prisma.categorizationRule.update({
+            where: { id },
+            data: { priority: (index + 1) * 10 },
+          })
+        )
+      );
+
+      return { success: true };
+    }),
+
+  // Run the rules over existing transactions, or preview what would change
+  run: protectedProcedure
+    .input(
+      z.object({
+        statementId: z.string().optional(),
+        dryRun: z.boolean().default(true),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.session.user.id) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "User ID is not available",
+        });
+      }
+
+      return applyCategorizationRules(ctx.prisma, ctx.session.user.id, {
+        statementId: input.statementId,
+        dryRun: input.dryRun,
+      });
+    }),
+
+  // Recategorize a transaction by hand and remember the choice as a rule
+  learnFromTransaction: protectedProcedure
+    .input(
+      z.object({
+        transactionId: z.string(),
+        categoryId: z.string(),
+        descriptionPattern: z.string().trim().min(1).optional(), // Defaults to a pattern derived from the description
+        applyToExisting: z.boolean().default(true),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.session.user.id) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "User ID is not available",
+        });
+      }
+
+      const transaction = await ctx.prisma.transaction.findFirst({
+        where: {
+          id: input.transactionId,
+          statement: { userId: ctx.session.user.id },
+        },
+      });
+
+      if (!transaction) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Transaction not found",
+        });
+      }
+
+      const category = await ctx.prisma.category.findFirst({
+        where: {
+          id: input.categoryId,
+          userId: ctx.session.user.id,
+        },
+      });
+
+      if (!category) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Category not found",
+        });
+      }
+
+      const descriptionPattern = input.descriptionPattern || suggestRulePattern(transaction.description);
+
+      // Learned rules go ahead of the default priority so they win over broad rules
+      const [rule] = await ctx.prisma.$transaction([
+        ctx.prisma.categorizationRule.create({
+          data: {
+            userId: ctx.session.user.id,
+            categoryId: category.id,
+            name: `Always categorize ${descriptionPattern} as ${category.name}`,
+            priority: 50,
+            descriptionPattern,
+            matchType: "CONTAINS",
+          },
+        }),
+        ctx.prisma.transaction.update({
+          where: { id: transaction.id },
+          data: { categoryId: category.id, categoryRuleId: null },
+        }),
+      ]);
+
+      const result = input.applyToExisting
+        ? await applyCategorizationRules(ctx.prisma, ctx.session.user.id)
+        : null;
+
+      return {
+        rule,
+        updatedTransactions: result?.changes.length ?? 0,
+      };
+    }),
+});
@@ -0,0 +1,364 @@
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "@/server/trpc";
+import { TRPCError } from "@trpc/server";
+import { seedDefaultCategories } from "@/lib/default-categories";
+
+export const categoryRouter = createTRPCRouter({
+  // Get all categories for the current user, with their transaction counts
+  getAll: protectedProcedure.query(async ({ ctx }) => {
+    if (!ctx.session.user.id) {
+      throw new TRPCError({
+        code: "UNAUTHORIZED",
+        message: "User ID is not available",
+      });
+    }
+
+    const categories = await ctx.prisma.category.findMany({
+      where: {
+        userId: ctx.session.user.id,
+      },
+      orderBy: {
+        name: "asc",
+      },
+      include: {
+        _count: {
+          select: { transactions: true },
+        },
+      },
+    });
+
+    return categories;
+  }),
+
+  // Create a new category
+  create: protectedProcedure
+    .input(
+      z.object({
+        name: z.string().trim().min(1),
+        description: z.string().optional(),
+        color: z.string().optional(),
+        icon: z.string().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.session.user.id) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "User ID is not available",
+        });
+      }
+
+      // Category names are unique per user
+      const existingCategory = await ctx.prisma.category.findFirst({
+        where: {
+          userId: ctx.session.user.id,
+          name: input.name,
+        },
+      });
+
+      if (existingCategory) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "A category with this name already exists",
+        });
+      }
+
+      try {
+        const category = await ctx.prisma.category.create({
+          data: {
+            userId: ctx.session.user.id,
+            name: input.name,
+            description: input.description,
+            color: input.color,
+            icon: input.icon,
+          },
+        });
+
+        return category;
+      } catch (error) {
+        console.error("Error creating category:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to create category",
+        });
+      }
+    }),
+
+  // Update an existing category
+  update: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        name: z.string().trim().min(1).optional(),
+        description: z.string().nullable().optional(),
+        color: z.string().nullable().optional(),
+        icon: z.string().nullable().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.session.user.id) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "User ID is not available",
+        });
+      }
+
+      // Verify the category exists and belongs to the user
+      const existingCategory = await ctx.prisma.category.findFirst({
+        where: {
+          id: input.id,
+          userId: ctx.session.user.id,
+        },
+      });
+
+      if (!existingCategory) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Category not found",
+        });
+      }
+
+      // Check if the rename would clash with another category
+      if (input.name && input.name !== existingCategory.name) {
+        const duplicateCategory = await ctx.prisma.category.findFirst({
+          where: {
+            userId: ctx.session.user.id,
+            name: input.name,
+            id: { not: input.id },
+          },
+        });
+
+        if (duplicateCategory) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: "Another category with this name already exists",
+          });
+        }
+      }
+
+      try {
+        const updatedCategory = await ctx.prisma.category.update({
+          where: {
+            id: input.id,
+          },
+          data: {
+            name: input.name,
+            description: input.description,
+            color: input.color,
+            icon: input.icon,
+          },
+        });
+
+        return updatedCategory;
+      } catch (error) {
+        console.error("Error updating category:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to update category",
+        });
+      }
+    }),
+
+  // Delete a category, optionally moving its transactions to another category
+  delete: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        reassignToId: z.string().optional(), // Leave empty to uncategorize the transactions
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.session.user.id) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "User ID is not available",
+        });
+      }
+
+      if (input.reassignToId === input.id) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Cannot reassign transactions to the category being deleted",
+        });
+      }
+
+      const categoryIds = input.reassignToId ? [input.id, input.reassignToId] : [input.id];
+      const categories = await ctx.prisma.category.findMany({
+        where: {
+          id: { in: categoryIds },
+          userId: ctx.session.user.id,
+        },
+      });
+
+      if (categories.length !== categoryIds.length) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Category not found",
+        });
+      }
+
+      try {
+        if (input.reassignToId) {
+          await ctx.prisma.$transaction([
+            ctx.prisma.transaction.updateMany({
+              where: { categoryId: input.id },
+              data: { categoryId: input.reassignToId },
+            }),
+            ctx.prisma.categorizationRule.updateMany({
+              where: { categoryId: input.id },
+              data: { categoryId: input.reassignToId },
+            }),
+            ctx.prisma.category.delete({
+              where: { id: input.id },
+            }),
+          ]);
+        } else {
+          // Transaction.categoryId is set to null and the category's rules are
+          // removed by the relations' onDelete
+          await ctx.prisma.category.delete({
+            where: { id: input.id },
+          });
+        }
+
+        return { success: true };
+      } catch (error) {
+        console.error("Error deleting category:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to delete category",
+        });
+      }
+    }),
+
+  // Merge one or more categories into a target category
+  merge: protectedProcedure
+    .input(
+      z.object({
+        sourceIds: z.array(z.string()).min(1),
+        targetId: z.string(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.session.user.id) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "User ID is not available",
+        });
+      }
+
+      const sourceIds = [...new Set(input.sourceIds)].filter((id) => id !== input.targetId);
+      if (sourceIds.length === 0) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "No categories to merge into the target",
+        });
+      }
+
+      // Verify every category involved belongs to the user
+      const categories = await ctx.prisma.category.findMany({
+        where: {
+          id: { in: [...sourceIds, input.targetId] },
+          userId: ctx.session.user.id,
+        },
+      });
+
+      if (categories.length !== sourceIds.length + 1) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Category not found",
+        });
+      }
+
+      try {
+        const [moved] = await ctx.prisma.$transaction([
+          ctx.prisma.transaction.updateMany({
+            where: { categoryId: { in: sourceIds } },
+            data: { categoryId: input.targetId },
+          }),
+          ctx.prisma.categorizationRule.updateMany({
+            where: { categoryId: { in: sourceIds } },
+            data: { categoryId: input.targetId },
+          }),
+          ctx.prisma.category.deleteMany({
+            where: { id: { in: sourceIds } },
+          }),
+        ]);
+
+        return {
+          success: true,
+          movedTransactions: moved.count,
+        };
+      } catch (error) {
+        console.error("Error merging categories:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to merge categories",
+        });
+      }
+    }),
+
+  // Assign a category to many transactions at once (null uncategorizes them)
+  assign: protectedProcedure
+    .input(
+      z.object({
+        transactionIds: z.array(z.string()).min(1),
+        categoryId: z.string().nullable(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.session.user.id) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "User ID is not available",
+        });
+      }
+
+      if (input.categoryId) {
+        const category = await ctx.prisma.category.findFirst({
+          where: {
+            id: input.categoryId,
+            userId: ctx.session.user.id,
+          },
+        });
+
+        if (!category) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Category not found",
+          });
+        }
+      }
+
+      // Scoping through the statement ignores IDs of other users' transactions
+      const result = await ctx.prisma.transaction.updateMany({
+        where: {
+          id: { in: input.transactionIds },
+          statement: { userId: ctx.session.user.id },
+        },
+        // A manual choice replaces any rule assignment
+        data: { categoryId: input.categoryId, categoryRuleId: null },
+      });
+
+      return {
+        success: true,
+        updated: result.count,
+      };
+    }),
+
+  // Recreate any missing default categories
+  restoreDefaults: protectedProcedure.mutation(async ({ ctx }) => {
+    if (!ctx.session.user.id) {
+      throw new TRPCError({
+        code: "UNAUTHORIZED",
+        message: "User ID is not available",
+      });
+    }
+
+    const created = await seedDefaultCategories(ctx.prisma, ctx.session.user.id);
+
+    return {
+      success: true,
+      created,
+    };
+  }),
+});
@@ -0,0 +1,152 @@
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "@/server/trpc";
+import { TRPCError } from "@trpc/server";
+import { decodeText, readUploadedFile } from "@/lib/file-processing";
+import { isUserUploadUrl } from "@/lib/statement-files";
+import {
+  csvMappingSchema,
+  detectCsvDelimiter,
+  getCsvColumns,
+  readCsv,
+  suggestCsvMapping,
+  type CsvMapping,
+} from "@/lib/csv-import";
+
+// Rows shown under each column while mapping a file
+const PREVIEW_ROW_COUNT = 5;
+
+export const csvImportRouter = createTRPCRouter({
+  // Get all saved column mappings of the current user
+  getProfiles: protectedProcedure.query(async ({ ctx }) => {
+    return ctx.prisma.csvImportProfile.findMany({
+      where: { userId: ctx.session.user.id },
+      orderBy: { financialInstitution: "asc" },
+    });
+  }),
+
+  // Read the columns and first rows of an uploaded CSV file, with the saved
+  // mapping of its institution or a guessed one
+  preview: protectedProcedure
+    .input(
+      z.object({
+        fileUrl: z.string().url(),
+        financialInstitution: z.string().optional(),
+        // Set when the user changes how the file is split
+        delimiter: z.string().length(1).optional(),
+        hasHeaderRow: z.boolean().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      // The file is fetched server-side and its rows sent back, so only the user's own uploads are read
+      if (!isUserUploadUrl(input.fileUrl, ctx.session.user.id)) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "The CSV file must be one of your uploads",
+        });
+      }
+
+      const profile = input.financialInstitution
+        ? await ctx.prisma.csvImportProfile.findUnique({
+            where: {
+              userId_financialInstitution: {
+                userId: ctx.session.user.id,
+                financialInstitution: input.financialInstitution,
+              },
+            },
+          })
+        : null;
+
+      let text: string;
+      try {
+        text = decodeText(await readUploadedFile(input.fileUrl));
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Failed to read CSV file",
+        });
+      }
+
+      const delimiter = input.delimiter ?? profile?.delimiter ?? detectCsvDelimiter(text);
+      const hasHeaderRow = input.hasHeaderRow ?? profile?.hasHeaderRow ?? true;
+      const rows = readCsv(text, delimiter);
+      const columns = getCsvColumns(rows, hasHeaderRow);
+
+      const mapping: CsvMapping = profile
+        ? { ...profile, delimiter, hasHeaderRow }
+        : { ...suggestCsvMapping(columns, delimiter), hasHeaderRow };
+
+      return {
+        profileId: profile?.id ?? null,
+        mapping,
+        columns,
+        sampleRows: rows.slice(hasHeaderRow ? 1 : 0, (hasHeaderRow ? 1 : 0) + PREVIEW_ROW_COUNT),
+        rowCount: rows.length - (hasHeaderRow ? 1 : 0),
+      };
+    }),
+
+  // Save the column mapping of an institution, replacing the previous one
+  saveProfile: protectedProcedure
+    .input(
+      z.object({
+        financialInstitution: z.string().min(1),
+        mapping: csvMappingSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { mapping } = input;
+      const data = {
+        delimiter: mapping.delimiter,
+        hasHeaderRow: mapping.hasHeaderRow,
+        dateColumn: mapping.dateColumn,
+        descriptionColumn: mapping.descriptionColumn,
+        // A mapping uses either the amount column or the debit and credit columns
+        amountColumn: mapping.amountColumn || null,
+        debitColumn: mapping.amountColumn ? null : mapping.debitColumn || null,
+        creditColumn: mapping.amountColumn ? null : mapping.creditColumn || null,
+        balanceColumn: mapping.balanceColumn || null,
+        dateOrder: mapping.dateOrder,
+        decimalSeparator: mapping.decimalSeparator,
+        invertAmounts: mapping.invertAmounts,
+      };
+
+      return ctx.prisma.csvImportProfile.upsert({
+        where: {
+          userId_financialInstitution: {
+            userId: ctx.session.user.id,
+            financialInstitution: input.financialInstitution,
+          },
+        },
+        create: {
+          ...data,
+          userId: ctx.session.user.id,
+          financialInstitution: input.financialInstitution,
+        },
+        update: data,
+      });
+    }),
+
+  // Delete a saved column mapping
+  deleteProfile: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const profile = await ctx.prisma.csvImportProfile.findFirst({
+        where: {
+          id: input.id,
+          userId: ctx.session.user.id,
+        },
+      });
+
+      if (!profile) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Column mapping not found",
+        });
+      }
+
+      await ctx.prisma.csvImportProfile.delete({
+        where: { id: input.id },
+      });
+
+      return { success: true };
+    }),
+});
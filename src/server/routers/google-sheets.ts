@@ -0,0 +1,167 @@
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "@/server/trpc";
+import { TRPCError } from "@trpc/server";
+import { exportTransactionsToSheets } from "@/lib/sheets";
+
+export const googleSheetsRouter = createTRPCRouter({
+  // Get the user's Sheets configuration (tokens are never sent to the client)
+  getConfig: protectedProcedure.query(async ({ ctx }) => {
+    if (!ctx.session.user.id) {
+      throw new TRPCError({
+        code: "UNAUTHORIZED",
+        message: "User ID is not available",
+      });
+    }
+
+    const config = await ctx.prisma.googleSheetConfig.findUnique({
+      where: {
+        userId: ctx.session.user.id,
+      },
+    });
+
+    if (!config) {
+      return null;
+    }
+
+    return {
+      connected: Boolean(config.refreshToken || config.accessToken),
+      spreadsheetId: config.spreadsheetId,
+      spreadsheetName: config.spreadsheetName,
+      autoExport: config.autoExport,
+      lastExported: config.lastExported,
+    };
+  }),
+
+  // Update export settings
+  updateConfig: protectedProcedure
+    .input(
+      z.object({
+        spreadsheetName: z.string().trim().min(1).nullable().optional(), // Used when the spreadsheet is created
+        autoExport: z.boolean().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.session.user.id) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "User ID is not available",
+        });
+      }
+
+      try {
+        const config = await ctx.prisma.googleSheetConfig.upsert({
+          where: {
+            userId: ctx.session.user.id,
+          },
+          create: {
+            userId: ctx.session.user.id,
+            ...input,
+          },
+          update: input,
+        });
+
+        return {
+          spreadsheetId: config.spreadsheetId,
+          spreadsheetName: config.spreadsheetName,
+          autoExport: config.autoExport,
+          lastExported: config.lastExported,
+        };
+      } catch (error) {
+        console.error("Error updating Google Sheets config:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to update Google Sheets settings",
+        });
+      }
+    }),
+
+  // Export to a new spreadsheet from now on, starting it with every transaction
+  startNewSpreadsheet: protectedProcedure.mutation(async ({ ctx }) => {
+    if (!ctx.session.user.id) {
+      throw new TRPCError({
+        code: "UNAUTHORIZED",
+        message: "User ID is not available",
+      });
+    }
+
+    await ctx.prisma.$transaction([
+      ctx.prisma.googleSheetConfig.updateMany({
+        where: { userId: ctx.session.user.id },
+        data: { spreadsheetId: null, lastExported: null },
+      }),
+      ctx.prisma.transaction.updateMany({
+        where: { statement: { userId: ctx.session.user.id } },
+        data: { sheetsExportedAt: null },
+      }),
+    ]);
+
+    return { success: true };
+  }),
+
+  // Export new transactions now
+  exportNow: protectedProcedure
+    .input(
+      z
+        .object({
+          fullExport: z.boolean().default(false),
+        })
+        .optional()
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.session.user.id) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "User ID is not available",
+        });
+      }
+
+      const config = await ctx.prisma.googleSheetConfig.findUnique({
+        where: {
+          userId: ctx.session.user.id,
+        },
+      });
+
+      if (!config || (!config.refreshToken && !config.accessToken)) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "Connect your Google account before exporting",
+        });
+      }
+
+      try {
+        return await exportTransactionsToSheets(ctx.prisma, ctx.session.user.id, {
+          fullExport: input?.fullExport,
+        });
+      } catch (error) {
+        console.error("Error exporting to Google Sheets:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to export to Google Sheets",
+        });
+      }
+    }),
+
+  // Forget the stored Google tokens
+  disconnect: protectedProcedure.mutation(async ({ ctx }) => {
+    if (!ctx.session.user.id) {
+      throw new TRPCError({
+        code: "UNAUTHORIZED",
+        message: "User ID is not available",
+      });
+    }
+
+    await ctx.prisma.googleSheetConfig.updateMany({
+      where: {
+        userId: ctx.session.user.id,
+      },
+      data: {
+        accessToken: null,
+        refreshToken: null,
+        tokenExpiry: null,
+        autoExport: false,
+      },
+    });
+
+    return { success: true };
+  }),
+});
@@ -0,0 +1,34 @@
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "@/server/trpc";
+import { TRPCError } from "@trpc/server";
+import { createLedgerExport, LEDGER_EXPORT_FORMATS, ledgerExportFilterSchema } from "@/lib/ledger-export";
+
+export const ledgerExportRouter = createTRPCRouter({
+  // Export the current user's transactions of a set of accounts and
+  // categories within a date range. The file comes back base64 encoded, to
+  // be downloaded by the browser.
+  create: protectedProcedure
+    .input(
+      z.object({
+        format: z.enum(LEDGER_EXPORT_FORMATS),
+        filter: ledgerExportFilterSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const ledgerExport = await createLedgerExport(ctx.prisma, ctx.session.user.id, input.format, input.filter);
+        return {
+          filename: ledgerExport.filename,
+          contentType: ledgerExport.contentType,
+          content: ledgerExport.content.toString("base64"),
+          schemaVersion: ledgerExport.schemaVersion,
+          transactionCount: ledgerExport.transactionCount,
+        };
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Failed to export transactions",
+        });
+      }
+    }),
+});
@@ -0,0 +1,255 @@
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "@/server/trpc";
+import { TRPCError } from "@trpc/server";
+import { autoExportIfEnabled } from "@/lib/sheets";
+import { refreshStatementReconciliation } from "@/lib/reconciliation";
+import { moneyInputSchema, toCents, toDecimalString } from "@/lib/money";
+
+export const reviewRouter = createTRPCRouter({
+  // Get statements waiting for review, with their flagged transaction counts
+  getQueue: protectedProcedure.query(async ({ ctx }) => {
+    if (!ctx.session.user.id) {
+      throw new TRPCError({
+        code: "UNAUTHORIZED",
+        message: "User ID is not available",
+      });
+    }
+
+    const statements = await ctx.prisma.statement.findMany({
+      where: {
+        userId: ctx.session.user.id,
+        status: "REVIEW_NEEDED",
+      },
+      orderBy: {
+        uploadTimestamp: "asc",
+      },
+      include: {
+        accounts: true,
+        _count: {
+          select: {
+            transactions: { where: { needsReview: true } },
+          },
+        },
+      },
+    });
+
+    return statements;
+  }),
+
+  // Get a statement with all its transactions for side by side review
+  getStatement: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      if (!ctx.session.user.id) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "User ID is not available",
+        });
+      }
+
+      const statement = await ctx.prisma.statement.findFirst({
+        where: {
+          id: input.id,
+          userId: ctx.session.user.id,
+        },
+        include: {
+          accounts: true,
+          transactions: {
+            // Flagged rows first, then in statement order
+            orderBy: [{ needsReview: "desc" }, { transactionDate: "asc" }, { id: "asc" }],
+            include: {
+              bankAccount: true,
+              category: true,
+            },
+          },
+        },
+      });
+
+      if (!statement) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Statement not found",
+        });
+      }
+
+      // Decimals are sent as strings so the client can edit them exactly
+      return {
+        ...statement,
+        transactions: statement.transactions.map((transaction) => ({
+          ...transaction,
+          amount: transaction.amount.toString(),
+        })),
+      };
+    }),
+
+  // Correct the fields of a transaction; saving marks it as reviewed
+  updateTransaction: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        transactionDate: z.date().nullable().optional(),
+        description: z.string().trim().min(1).optional(),
+        amount: moneyInputSchema.optional(),
+        bucket: z.enum(["DEPOSIT", "ATM_DEBIT", "WITHDRAWAL", "CHECK", "FEE", "OTHER", "PURCHASE", "PAYMENT", "CREDIT", "INTEREST"]).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.session.user.id) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "User ID is not available",
+        });
+      }
+
+      const transaction = await ctx.prisma.transaction.findFirst({
+        where: {
+          id: input.id,
+          statement: { userId: ctx.session.user.id },
+        },
+      });
+
+      if (!transaction) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Transaction not found",
+        });
+      }
+
+      try {
+        const updatedTransaction = await ctx.prisma.transaction.update({
+          where: { id: input.id },
+          data: {
+            transactionDate: input.transactionDate,
+            description: input.description,
+            amount: input.amount !== undefined ? toDecimalString(toCents(input.amount)) : undefined,
+            bucket: input.bucket,
+            needsReview: false,
+            reviewReason: null,
+            reviewedAt: new Date(),
+          },
+        });
+
+        // Show whether the correction fixed the statement's totals
+        await refreshStatementReconciliation(ctx.prisma, transaction.statementId);
+
+        return updatedTransaction;
+      } catch (error) {
+        console.error("Error updating transaction:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to update transaction",
+        });
+      }
+    }),
+
+  // Accept transactions as they are
+  resolveTransactions: protectedProcedure
+    .input(z.object({ transactionIds: z.array(z.string()).min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.session.user.id) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "User ID is not available",
+        });
+      }
+
+      const result = await ctx.prisma.transaction.updateMany({
+        where: {
+          id: { in: input.transactionIds },
+          statement: { userId: ctx.session.user.id },
+        },
+        data: { needsReview: false, reviewReason: null, reviewedAt: new Date() },
+      });
+
+      return {
+        success: true,
+        updated: result.count,
+      };
+    }),
+
+  // Remove a row that isn't a real transaction (e.g. a misread header)
+  deleteTransaction: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.session.user.id) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "User ID is not available",
+        });
+      }
+
+      const transaction = await ctx.prisma.transaction.findFirst({
+        where: {
+          id: input.id,
+          statement: { userId: ctx.session.user.id },
+        },
+      });
+
+      if (!transaction) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Transaction not found",
+        });
+      }
+
+      await ctx.prisma.transaction.delete({
+        where: { id: input.id },
+      });
+
+      await refreshStatementReconciliation(ctx.prisma, transaction.statementId);
+
+      return { success: true };
+    }),
+
+  // Approve a reviewed statement, accepting any rows still flagged
+  approveStatement: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.session.user.id) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "User ID is not available",
+        });
+      }
+
+      const statement = await ctx.prisma.statement.findFirst({
+        where: {
+          id: input.id,
+          userId: ctx.session.user.id,
+        },
+      });
+
+      if (!statement) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Statement not found",
+        });
+      }
+
+      if (statement.status !== "REVIEW_NEEDED") {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Statement is not waiting for review",
+        });
+      }
+
+      const [, approvedStatement] = await ctx.prisma.$transaction([
+        ctx.prisma.transaction.updateMany({
+          where: { statementId: statement.id, needsReview: true },
+          data: { needsReview: false, reviewReason: null, reviewedAt: new Date() },
+        }),
+        ctx.prisma.statement.update({
+          where: { id: statement.id },
+          data: {
+            status: "COMPLETED",
+            reviewReasons: [],
+          },
+        }),
+      ]);
+
+      // Push the approved transactions to Google Sheets if the user enabled it
+      await autoExportIfEnabled(ctx.prisma, ctx.session.user.id);
+
+      return approvedStatement;
+    }),
+});
@@ -3,6 +3,11 @@ import { createTRPCRouter, protectedProcedure } from "@/server/trpc";
 import { TRPCError } from "@trpc/server";
 import { processUploadedFile } from "@/lib/file-processing";
 import { extractAccountInfo, extractStatementPeriod } from "@/lib/account-extractor";
+import { resolveStatementPeriod } from "@/lib/statement-dates";
+import { enqueueStatementJob, requeueStatementJob } from "@/lib/jobs";
+import { CSV_MIME_TYPE } from "@/lib/csv-import";
+import { QIF_MIME_TYPE } from "@/lib/qif";
+import { isUserUploadUrl, resolveStatementFileType } from "@/lib/statement-files";
 
 // Use string constants for the enum
 const StatementStatus = {
@@ -15,18 +20,19 @@ const StatementStatus = {
 
 const STORAGE_BUCKET = "statements";
 
-// Mock function for Google Sheets integration
-// This will be replaced with actual Sheets API implementation
-async function saveToGoogleSheets(userId: string, transactions: any[]) {
-  console.log(
-    `[MOCK] Saving ${transactions.length} transactions to Google Sheets for user ${userId}`,
-  );
-  // In a real implementation, this would use the Google Sheets API
-  // to write the transaction data to the user's spreadsheet
-  return true;
+/**
+ * Reject a file URL that isn't one of the user's uploads. Statement files
+ * are fetched server-side and their contents stored for the user to read.
+ */
+function assertOwnUpload(fileUrl: string, userId: string) {
+  if (!isUserUploadUrl(fileUrl, userId)) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "The statement file must be one of your uploads",
+    });
+  }
 }
 
-
 export const statementRouter = createTRPCRouter({
   // Get recent statements for the dashboard
   getRecent: protectedProcedure.query(async ({ ctx }) => {
@@ -63,6 +69,8 @@ export const statementRouter = createTRPCRouter({
       })
     )
     .mutation(async ({ ctx, input }) => {
+      assertOwnUpload(input.fileUrl, ctx.session.user.id);
+
       try {
         // Check if a statement with the same filename already exists
         const existingStatement = await ctx.prisma.statement.findFirst({
@@ -83,10 +91,18 @@ export const statementRouter = createTRPCRouter({
           };
         }
 
+        // A CSV or QIF export's period and account are only known once it's imported
+        const fileType = resolveStatementFileType(input.fileType, input.filename) ?? input.fileType;
+        if (fileType === CSV_MIME_TYPE || fileType === QIF_MIME_TYPE) {
+          return {
+            isDuplicate: false,
+          };
+        }
+
         // Process the file to check statement period and accounts
         const processingResult = await processUploadedFile(
           input.fileUrl,
-          input.fileType
+          fileType
         );
 
         if (!processingResult.success || !processingResult.data) {
@@ -112,9 +128,14 @@ export const statementRouter = createTRPCRouter({
           };
         }
 
-        // Format statement period dates
-        const periodStart = new Date(statementPeriodStartDate);
-        const periodEnd = new Date(statementPeriodEndDate);
+        const period = resolveStatementPeriod(statementPeriodStartDate, statementPeriodEndDate);
+        if (!period) {
+          return {
+            isDuplicate: false,
+            warning: "Could not read the statement period",
+          };
+        }
+        const { start: periodStart, end: periodEnd } = period;
 
         // Check for statements with the same period
         const statementsInPeriod = await ctx.prisma.statement.findMany({
@@ -185,10 +206,55 @@ export const statementRouter = createTRPCRouter({
       z.object({
         filename: z.string(),
         fileType: z.string(),
-        fileUrl: z.string().url(),// Optional: If user already selected an account
+        fileUrl: z.string().url(),
+        // CSV and QIF exports: the account they're for, and for CSV the column
+        // mapping to read them with
+        bankAccountId: z.string().optional(),
+        importProfileId: z.string().optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
+      assertOwnUpload(input.fileUrl, ctx.session.user.id);
+
+      const fileType = resolveStatementFileType(input.fileType, input.filename) ?? input.fileType;
+      const isCsv = fileType === CSV_MIME_TYPE;
+      if (isCsv && (!input.bankAccountId || !input.importProfileId)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "CSV files need a bank account and a column mapping",
+        });
+      }
+      if (fileType === QIF_MIME_TYPE && !input.bankAccountId) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "QIF files need a bank account",
+        });
+      }
+
+      if (input.bankAccountId) {
+        const bankAccount = await ctx.prisma.bankAccount.findFirst({
+          where: { id: input.bankAccountId, userId: ctx.session.user.id },
+        });
+        if (!bankAccount) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Bank account not found",
+          });
+        }
+      }
+
+      if (input.importProfileId) {
+        const importProfile = await ctx.prisma.csvImportProfile.findFirst({
+          where: { id: input.importProfileId, userId: ctx.session.user.id },
+        });
+        if (!importProfile) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Column mapping not found",
+          });
+        }
+      }
+
       try {
         // Create a record in the database to track the statement
         const statement = await ctx.prisma.statement.create({
@@ -196,131 +262,15 @@ export const statementRouter = createTRPCRouter({
             filename: input.filename,
             userId: ctx.session.user.id,
             status: StatementStatus.UPLOADED,
-            storageUrl: input.fileUrl
+            storageUrl: input.fileUrl,
+            fileType,
+            importProfileId: input.importProfileId,
+            accounts: input.bankAccountId ? { connect: { id: input.bankAccountId } } : undefined,
           },
         });
 
-        // Start processing the file in the background
-        void (async () => {
-          try {
-            // Update status to processing
-            await ctx.prisma.statement.update({
-              where: { id: statement.id },
-              data: { status: StatementStatus.PROCESSING },
-            });
-
-            // Process the file with Vision AI
-            const processingResult = await processUploadedFile(
-              input.fileUrl,
-              input.fileType
-            );
-
-            if (!processingResult.success || !processingResult.data) {
-              throw new Error(
-                processingResult.error || "Failed to process statement text"
-              );
-            }
-
-            // Check required fields in the data
-            const { bankName, accounts, statementPeriodStartDate, statementPeriodEndDate } = processingResult.data;
-            if (!bankName || !accounts || accounts.length === 0 || !statementPeriodStartDate || !statementPeriodEndDate) {
-              throw new Error("Incomplete statement data: missing bank name, accounts, or statement period");
-            }
-
-            // Use statement period directly from the processed data
-            const periodInfo = {
-              start: new Date(statementPeriodStartDate),
-              end: new Date(statementPeriodEndDate)
-            };
-
-            console.log(`Statement contains ${accounts.length} accounts`);
-            
-            // Initialize an array of bank account IDs to connect to this statement
-            const accountIdsToConnect: string[] = [];
-            
-            // Process all accounts from the statement
-            for (let i = 0; i < accounts.length; i++) {
-              const account = accounts[i];
-              
-              // Skip accounts without last 4 digits (can't reliably identify)
-              if (!account.accountNumberLast4) {
-                console.log(`Skipping account at index ${i} without last 4 digits`);
-                continue;
-              }
-              
-              // Map string account type to enum AccountType
-              const mappedAccountType = account.accountType === "Advantage Plus Banking" ? "CHECKING" : 
-                                      (account.accountType && ["CHECKING", "SAVINGS", "CREDIT", "INVESTMENT", "OTHER"].includes(account.accountType) ? 
-                                        account.accountType as "CHECKING" | "SAVINGS" | "CREDIT" | "INVESTMENT" | "OTHER" : 
-                                        "OTHER");
-              
-              // Try to find or create the bank account
-              let bankAccount = await ctx.prisma.bankAccount.findFirst({
-                where: {
-                  userId: ctx.session.user.id,
-                  financialInstitution: bankName,
-                  lastFourDigits: account.accountNumberLast4,
-                },
-              });
-              
-              if (bankAccount) {
-                // Update existing account if needed
-                if (account.metadata?.endingBalance !== undefined) {
-                  await ctx.prisma.bankAccount.update({
-                    where: { id: bankAccount.id },
-                    data: { balance: account.metadata.endingBalance.toString() },
-                  });
-                }
-              } else {
-                // Create a new bank account
-                bankAccount = await ctx.prisma.bankAccount.create({
-                  data: {
-                    userId: ctx.session.user.id,
-                    name: account.accountType || `${bankName} Account`,
-                    financialInstitution: bankName,
-                    accountType: mappedAccountType,
-                    lastFourDigits: account.accountNumberLast4,
-                    balance: account.metadata?.endingBalance !== undefined ? 
-                             account.metadata.endingBalance.toString() : null,
-                  },
-                });
-              }
-              
-              // Add this account ID to our list to connect
-              if (!accountIdsToConnect.includes(bankAccount.id)) {
-                accountIdsToConnect.push(bankAccount.id);
-              }
-            }
-            
-            // Update the statement with all accounts and period info
-            await ctx.prisma.statement.update({
-              where: { id: statement.id },
-              data: {
-                status: StatementStatus.COMPLETED,
-                processedTimestamp: new Date(),
-                periodStart: periodInfo.start,
-                periodEnd: periodInfo.end,
-                accounts: {
-                  connect: accountIdsToConnect.map(id => ({ id }))
-                }
-              },
-            });
-
-            console.log(`Statement ${statement.id} processed successfully with ${accountIdsToConnect.length} accounts`);
-          } catch (error) {
-            console.error("Error processing statement:", error);
-            
-            // Update statement with error
-            await ctx.prisma.statement.update({
-              where: { id: statement.id },
-              data: {
-                status: StatementStatus.FAILED,
-                errorMessage: error instanceof Error ? error.message : "Unknown error",
-                processedTimestamp: new Date(),
-              },
-            });
-          }
-        })();
+        // Queue the statement for the worker (npm run worker or /api/jobs/statements)
+        await enqueueStatementJob(ctx.prisma, statement.id);
 
         // Immediately return the statement ID for the client
         return {
@@ -361,131 +311,28 @@ export const statementRouter = createTRPCRouter({
         });
       }
 
-      // Update status to processing
-      await ctx.prisma.statement.update({
-        where: { id: statement.id },
-        data: { status: StatementStatus.PROCESSING },
-      });
-
-      try {
-        // Process the file with Vision AI
-        const fileType = statement.filename.endsWith(".pdf") ? "application/pdf" : "image/jpeg";
-        const processingResult = await processUploadedFile(
-          statement.storageUrl,
-          fileType
-        );
-
-        if (!processingResult.success || !processingResult.data) {
-          throw new Error(
-            processingResult.error || "Failed to process statement text"
-          );
-        }
-
-        // Check required fields in the data
-        const { bankName, accounts, statementPeriodStartDate, statementPeriodEndDate } = processingResult.data;
-        if (!bankName || !accounts || accounts.length === 0 || !statementPeriodStartDate || !statementPeriodEndDate) {
-          throw new Error("Incomplete statement data: missing bank name, accounts, or statement period");
-        }
-
-                // Use statement period directly from the processed data
-        const periodInfo = {
-          start: new Date(statementPeriodStartDate),
-          end: new Date(statementPeriodEndDate)
-        };
-
-        console.log(`Statement contains ${accounts.length} accounts`);
-        
-        // Update statement with period information
-        await ctx.prisma.statement.update({
-          where: { id: statement.id },
-          data: {
-            status: StatementStatus.COMPLETED,
-            processedTimestamp: new Date(),
-            periodStart: periodInfo.start,
-            periodEnd: periodInfo.end,
-          },
-        });
-        
-        // Process all accounts from the statement
-        for (let i = 0; i < accounts.length; i++) {
-          const account = accounts[i];
-          
-          // Skip accounts without last 4 digits (can't reliably identify)
-          if (!account.accountNumberLast4) {
-            console.log(`Skipping account at index ${i} without last 4 digits`);
-            continue;
-          }
-          
-          // Map string account type to enum AccountType
-          const mappedAccountType = account.accountType === "Advantage Plus Banking" ? "CHECKING" : 
-                                   (account.accountType && ["CHECKING", "SAVINGS", "CREDIT", "INVESTMENT", "OTHER"].includes(account.accountType) ? 
-                                     account.accountType as "CHECKING" | "SAVINGS" | "CREDIT" | "INVESTMENT" | "OTHER" : 
-                                     "OTHER");
-          
-          // Try to find or create the bank account
-          let bankAccount = await ctx.prisma.bankAccount.findFirst({
-            where: {
-              userId: ctx.session.user.id,
-              financialInstitution: bankName,
-              lastFourDigits: account.accountNumberLast4,
-            },
-          });
-          
-          if (bankAccount) {
-            // Update existing account if needed
-            if (account.metadata?.endingBalance !== undefined) {
-              await ctx.prisma.bankAccount.update({
-                where: { id: bankAccount.id },
-                data: { balance: account.metadata.endingBalance.toString() },
-              });
-            }
-          } else {
-            // Create a new bank account
-            bankAccount = await ctx.prisma.bankAccount.create({
-              data: {
-                userId: ctx.session.user.id,
-                name: account.accountType || `${bankName} Account`,
-                financialInstitution: bankName,
-                accountType: mappedAccountType,
-                lastFourDigits: account.accountNumberLast4,
-                balance: account.metadata?.endingBalance !== undefined ? 
-                         account.metadata.endingBalance.toString() : null,
-              },
-            });
-          }
-          
-          // Connect this account to the statement
-          await ctx.prisma.statement.update({
-            where: { id: statement.id },
-            data: {
-              accounts: {
-                connect: { id: bankAccount.id }
-              }
-            }
-          });
-        }
-
-        // Return the updated statement
-        const updatedStatement = await ctx.prisma.statement.findUnique({
-          where: { id: statement.id }
-        });
-        
-        return updatedStatement;
-      } catch (error) {
-        console.error("Error processing statement:", error);
-        
-        // Update statement with error
-        const failedStatement = await ctx.prisma.statement.update({
-          where: { id: statement.id },
-          data: {
-            status: StatementStatus.FAILED,
-            errorMessage: error instanceof Error ? error.message : "Unknown error",
-            processedTimestamp: new Date(),
-          },
+      // Processing is left to the worker, so a statement is never ingested twice at once
+      const job = await requeueStatementJob(ctx.prisma, statement.id);
+      if (!job) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "Statement is already being processed",
         });
-        
-        return failedStatement;
       }
+
+      // Show it as queued again, unless a worker has already picked it up
+      await ctx.prisma.statement.updateMany({
+        where: { id: statement.id, job: { status: "PENDING" } },
+        data: {
+          status: StatementStatus.UPLOADED,
+          errorMessage: null,
+        },
+      });
+
+      return ctx.prisma.statement.findUniqueOrThrow({
+        where: { id: statement.id },
+        include: { job: true },
+      });
     }),
 
   // Get a statement by ID
@@ -506,6 +353,7 @@ export const statementRouter = createTRPCRouter({
       },
       include: {
         accounts: true,
+        job: true,
       },
       });
 
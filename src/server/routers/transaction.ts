@@ -0,0 +1,188 @@
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "@/server/trpc";
+import { TRPCError } from "@trpc/server";
+import type { Prisma } from "@/generated/prisma";
+import { moneyInputSchema } from "@/lib/money";
+
+const TRANSACTION_BUCKETS = ["DEPOSIT", "ATM_DEBIT", "WITHDRAWAL", "CHECK", "FEE", "OTHER", "PURCHASE", "PAYMENT", "CREDIT", "INTEREST"] as const;
+
+// Filters shared by the listing and totals queries
+const transactionFilterSchema = z.object({
+  accountIds: z.array(z.string()).optional(),
+  statementId: z.string().optional(),
+  dateFrom: z.date().optional(),
+  dateTo: z.date().optional(),
+  minAmount: moneyInputSchema.optional(),
+  maxAmount: moneyInputSchema.optional(),
+  categoryIds: z.array(z.string()).optional(),
+  uncategorized: z.boolean().optional(), // Only transactions without a category
+  buckets: z.array(z.enum(TRANSACTION_BUCKETS)).optional(),
+  search: z.string().trim().optional(), // Free-text match on the description
+});
+
+type TransactionFilter = z.infer<typeof transactionFilterSchema>;
+
+/**
+ * Build the Prisma where clause for a transaction filter.
+ * Transactions are always scoped to the user through their statement.
+ */
+function buildTransactionWhere(userId: string, filter: TransactionFilter = {}): Prisma.TransactionWhereInput {
+  const where: Prisma.TransactionWhereInput = {
+    statement: { userId },
+  };
+
+  if (filter.accountIds && filter.accountIds.length > 0) {
+    where.bankAccountId = { in: filter.accountIds };
+  }
+
+  if (filter.statementId) {
+    where.statementId = filter.statementId;
+  }
+
+  if (filter.dateFrom || filter.dateTo) {
+    where.transactionDate = {
+      gte: filter.dateFrom,
+      lte: filter.dateTo,
+    };
+  }
+
+  if (filter.minAmount !== undefined || filter.maxAmount !== undefined) {
+    where.amount = {
+      gte: filter.minAmount,
+      lte: filter.maxAmount,
+    };
+  }
+
+  if (filter.uncategorized) {
+    where.categoryId = null;
+  } else if (filter.categoryIds && filter.categoryIds.length > 0) {
+    where.categoryId = { in: filter.categoryIds };
+  }
+
+  if (filter.buckets && filter.buckets.length > 0) {
+    where.bucket = { in: filter.buckets };
+  }
+
+  if (filter.search) {
+    where.description = { contains: filter.search, mode: "insensitive" };
+  }
+
+  return where;
+}
+
+export const transactionRouter = createTRPCRouter({
+  // List transactions with filtering, sorting and cursor pagination
+  list: protectedProcedure
+    .input(
+      z.object({
+        filter: transactionFilterSchema.optional(),
+        sortBy: z.enum(["transactionDate", "amount", "description", "createdAt"]).default("transactionDate"),
+        sortOrder: z.enum(["asc", "desc"]).default("desc"),
+        limit: z.number().min(1).max(200).default(50),
+        cursor: z.string().nullish(), // ID of the last transaction of the previous page
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      if (!ctx.session.user.id) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "User ID is not available",
+        });
+      }
+
+      const transactions = await ctx.prisma.transaction.findMany({
+        where: buildTransactionWhere(ctx.session.user.id, input.filter),
+        // The id tie-breaker keeps the order stable across pages
+        orderBy: [{ [input.sortBy]: input.sortOrder }, { id: input.sortOrder }],
+        take: input.limit + 1,
+        cursor: input.cursor ? { id: input.cursor } : undefined,
+        skip: input.cursor ? 1 : 0,
+        include: {
+          bankAccount: true,
+          category: true,
+        },
+      });
+
+      // We fetched one extra row to know whether there is another page
+      let nextCursor: string | undefined = undefined;
+      if (transactions.length > input.limit) {
+        const nextItem = transactions.pop();
+        nextCursor = nextItem?.id;
+      }
+
+      return {
+        transactions,
+        nextCursor,
+      };
+    }),
+
+  // Count and sum the transactions matching a filter
+  getTotals: protectedProcedure
+    .input(z.object({ filter: transactionFilterSchema.optional() }))
+    .query(async ({ ctx, input }) => {
+      if (!ctx.session.user.id) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "User ID is not available",
+        });
+      }
+
+      const where = buildTransactionWhere(ctx.session.user.id, input.filter);
+
+      const [all, inflow, outflow] = await Promise.all([
+        ctx.prisma.transaction.aggregate({
+          where,
+          _count: { _all: true },
+          _sum: { amount: true },
+        }),
+        ctx.prisma.transaction.aggregate({
+          where: { AND: [where, { amount: { gt: 0 } }] },
+          _sum: { amount: true },
+        }),
+        ctx.prisma.transaction.aggregate({
+          where: { AND: [where, { amount: { lt: 0 } }] },
+          _sum: { amount: true },
+        }),
+      ]);
+
+      return {
+        count: all._count._all,
+        net: all._sum.amount?.toString() ?? "0",
+        inflow: inflow._sum.amount?.toString() ?? "0",
+        outflow: outflow._sum.amount?.toString() ?? "0",
+      };
+    }),
+
+  // Get a single transaction by ID
+  getById: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      if (!ctx.session.user.id) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "User ID is not available",
+        });
+      }
+
+      const transaction = await ctx.prisma.transaction.findFirst({
+        where: {
+          id: input.id,
+          statement: { userId: ctx.session.user.id },
+        },
+        include: {
+          bankAccount: true,
+          category: true,
+          statement: true,
+        },
+      });
+
+      if (!transaction) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Transaction not found",
+        });
+      }
+
+      return transaction;
+    }),
+});